@@ -27,12 +27,16 @@ import {
   Trash2,
   RotateCcw,
   Info,
+  Square,
 } from "lucide-react-native";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import { chatAPI, questionnaireAPI } from "@/src/services/api";
 import i18n from "@/src/i18n";
 import LoadingScreen from "@/components/LoadingScreen";
+import ChatThreadsModal from "@/components/ChatThreadsModal";
+import ChatActionCard from "@/components/ChatActionCard";
+import { ChatAction } from "@/src/types";
 
 const { width } = Dimensions.get("window");
 
@@ -44,6 +48,8 @@ interface Message {
   hasWarning?: boolean;
   allergenWarning?: string[];
   suggestions?: string[];
+  // Changes the assistant proposed in this answer
+  actions?: ChatAction[];
 }
 
 interface UserProfile {
@@ -67,6 +73,16 @@ export default function AIChatScreen() {
   });
   const [isLoading, setIsLoading] = useState(true);
   const scrollViewRef = useRef<ScrollView>(null);
+  // The answer being streamed, and how to stop it
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const cancelStreamRef = useRef<(() => void) | null>(null);
+  const stopRequestedRef = useRef(false);
+  // The conversation shown; null until the first message picks or starts one
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [activeThreadTitle, setActiveThreadTitle] = useState<string | null>(
+    null
+  );
+  const [showThreads, setShowThreads] = useState(false);
   const isRTL = i18n.language === "he";
   const texts = {
     title: language === "he" ? "צ'אט AI תזונתי" : "Nutritional AI Chat",
@@ -77,9 +93,11 @@ export default function AIChatScreen() {
     typePlaceholder:
       language === "he" ? "הקלד שאלתך כאן..." : "Type your question here...",
     send: language === "he" ? "שלח" : "Send",
+    stop: language === "he" ? "עצור" : "Stop",
     typing: language === "he" ? "AI מקליד..." : "AI is typing...",
     allergenWarning: language === "he" ? "אזהרת אלרגן!" : "Allergen Warning!",
     clearChat: language === "he" ? "נקה צ'אט" : "Clear Chat",
+    conversations: language === "he" ? "שיחות" : "Conversations",
     tryThese: language === "he" ? "נסה את אלה:" : "Try these:",
     welcomeMessage:
       language === "he"
@@ -158,10 +176,42 @@ export default function AIChatScreen() {
     }
   };
 
+  const showWelcome = () => {
+    setMessages([
+      {
+        id: "welcome",
+        type: "bot",
+        content: texts.welcomeMessage,
+        timestamp: new Date(),
+        suggestions: texts.commonQuestions,
+      },
+    ]);
+  };
+
+  // Opens the most recent conversation
   const loadChatHistory = async () => {
     try {
-      console.log("📜 Loading chat history...");
-      const response = await chatAPI.getChatHistory(20);
+      console.log("📜 Loading chat threads...");
+      const threads = await chatAPI.getThreads();
+
+      if (threads.length > 0) {
+        await openThread(threads[0].thread_id, threads[0].title);
+      } else {
+        showWelcome();
+      }
+    } catch (error) {
+      console.error("💥 Error loading chat history:", error);
+      // Show welcome message on error
+      showWelcome();
+    }
+  };
+
+  const openThread = async (threadId: string, title?: string) => {
+    try {
+      console.log("📜 Loading chat thread:", threadId);
+      const response = await chatAPI.getThreadMessages(threadId, 20);
+      setActiveThreadId(threadId);
+      setActiveThreadTitle(title ?? null);
 
       if (response.success && response.data && response.data.length > 0) {
         const chatMessages: Message[] = response.data
@@ -179,6 +229,7 @@ export default function AIChatScreen() {
               timestamp: new Date(msg.created_at),
               hasWarning: checkForAllergens(msg.ai_response).length > 0,
               allergenWarning: checkForAllergens(msg.ai_response),
+              actions: msg.actions,
             },
           ])
           .flat();
@@ -186,32 +237,33 @@ export default function AIChatScreen() {
         setMessages(chatMessages);
         console.log("✅ Loaded", chatMessages.length, "chat messages");
       } else {
-        // Show welcome message if no chat history
-        setMessages([
-          {
-            id: "welcome",
-            type: "bot",
-            content: texts.welcomeMessage,
-            timestamp: new Date(),
-            suggestions: texts.commonQuestions,
-          },
-        ]);
+        showWelcome();
       }
     } catch (error) {
-      console.error("💥 Error loading chat history:", error);
-      // Show welcome message on error
-      setMessages([
-        {
-          id: "welcome",
-          type: "bot",
-          content: texts.welcomeMessage,
-          timestamp: new Date(),
-          suggestions: texts.commonQuestions,
-        },
-      ]);
+      console.error("💥 Error loading chat thread:", error);
+      Alert.alert(texts.error, texts.networkError);
     }
   };
 
+  const startNewThread = async () => {
+    try {
+      const thread = await chatAPI.createThread();
+      setActiveThreadId(thread.thread_id);
+      setActiveThreadTitle(null);
+      showWelcome();
+    } catch (error) {
+      console.error("💥 Error starting chat thread:", error);
+      Alert.alert(texts.error, texts.networkError);
+    }
+  };
+
+  // The next message goes to the latest remaining thread, or a new one
+  const leaveActiveThread = () => {
+    setActiveThreadId(null);
+    setActiveThreadTitle(null);
+    showWelcome();
+  };
+
   const checkForAllergens = (messageContent: string): string[] => {
     if (!userProfile.allergies || userProfile.allergies.length === 0) {
       return [];
@@ -305,39 +357,70 @@ export default function AIChatScreen() {
     const currentMessage = inputText.trim();
     setInputText("");
     setIsTyping(true);
+    stopRequestedRef.current = false;
+
+    // The answer is shown as it streams in, in a bubble that grows
+    const botMessageId = `bot-${Date.now()}`;
+    let received = "";
 
     try {
-      console.log("💬 Sending message to AI:", currentMessage);
+      console.log("💬 Streaming message to AI:", currentMessage);
 
-      const response = await chatAPI.sendMessage(
+      const stream = chatAPI.streamMessage(
         currentMessage,
-        language === "he" ? "hebrew" : "english"
+        language === "he" ? "hebrew" : "english",
+        (text) => {
+          received += text;
+          const content = received.trimStart();
+          setStreamingId(botMessageId);
+          setMessages((prev) =>
+            prev.some((message) => message.id === botMessageId)
+              ? prev.map((message) =>
+                  message.id === botMessageId
+                    ? { ...message, content }
+                    : message
+                )
+              : [
+                  ...prev,
+                  {
+                    id: botMessageId,
+                    type: "bot",
+                    content,
+                    timestamp: new Date(),
+                  },
+                ]
+          );
+        },
+        activeThreadId ?? undefined,
+        (action) => {
+          setMessages((prev) =>
+            prev.some((message) => message.id === botMessageId)
+              ? prev.map((message) =>
+                  message.id === botMessageId
+                    ? {
+                        ...message,
+                        actions: [...(message.actions || []), action],
+                      }
+                    : message
+                )
+              : [
+                  ...prev,
+                  {
+                    id: botMessageId,
+                    type: "bot",
+                    content: "",
+                    timestamp: new Date(),
+                    actions: [action],
+                  },
+                ]
+          );
+        }
       );
+      cancelStreamRef.current = stream.cancel;
 
-      console.log("🔍 Full API response structure:", response);
-
-      // Handle both direct response format and nested response format
-      let aiResponseContent = "";
-      let responseData = null;
-
-      if (response.success && response.response) {
-        // Handle nested response format
-        responseData = response.response;
-        aiResponseContent = response.response.response || response.response;
-      } else if (response.response && response.response.response) {
-        // Handle direct response format from server
-        responseData = response.response;
-        aiResponseContent = response.response.response;
-      } else if (response.response && typeof response.response === "string") {
-        // Handle simple string response
-        aiResponseContent = response.response;
-      } else if (typeof response === "string") {
-        // Handle direct string response
-        aiResponseContent = response;
-      } else {
-        console.error("🚨 Unexpected response format:", response);
-        throw new Error("Invalid response format from server");
-      }
+      const result = await stream.result;
+      setActiveThreadId(result.threadId);
+      const aiResponseContent = result.response;
 
       if (!aiResponseContent || aiResponseContent.trim() === "") {
         throw new Error("Empty response from AI");
@@ -348,19 +431,38 @@ export default function AIChatScreen() {
       const allergens = checkForAllergens(aiResponseContent);
 
       const aiMessage: Message = {
-        id: `bot-${Date.now()}`,
+        id: botMessageId,
         type: "bot",
         content: aiResponseContent,
         timestamp: new Date(),
         hasWarning: allergens.length > 0,
         allergenWarning: allergens.length > 0 ? allergens : undefined,
+        actions: result.actions,
         suggestions:
           Math.random() > 0.7 ? texts.commonQuestions.slice(0, 3) : undefined,
       };
 
-      setMessages((prev) => [...prev, aiMessage]);
+      setMessages((prev) => [
+        ...prev.filter((message) => message.id !== botMessageId),
+        aiMessage,
+      ]);
       console.log("✅ AI response received and displayed successfully");
     } catch (error) {
+      // Stopped by the user: the partial answer stays, as it does on the server
+      if (stopRequestedRef.current) {
+        const allergens = checkForAllergens(received);
+        if (allergens.length > 0) {
+          setMessages((prev) =>
+            prev.map((message) =>
+              message.id === botMessageId
+                ? { ...message, hasWarning: true, allergenWarning: allergens }
+                : message
+            )
+          );
+        }
+        return;
+      }
+
       console.error("💥 Error sending message:", error);
 
       // Add error message
@@ -380,9 +482,34 @@ export default function AIChatScreen() {
       Alert.alert(texts.error, texts.networkError);
     } finally {
       setIsTyping(false);
+      setStreamingId(null);
+      cancelStreamRef.current = null;
     }
   };
 
+  // Swaps in an action the user confirmed or cancelled from its card
+  const updateAction = (updated: ChatAction) => {
+    setMessages((prev) =>
+      prev.map((message) =>
+        message.actions?.some(
+          (action) => action.action_id === updated.action_id
+        )
+          ? {
+              ...message,
+              actions: message.actions.map((action) =>
+                action.action_id === updated.action_id ? updated : action
+              ),
+            }
+          : message
+      )
+    );
+  };
+
+  const stopStreaming = () => {
+    stopRequestedRef.current = true;
+    cancelStreamRef.current?.();
+  };
+
   const clearChat = () => {
     Alert.alert(
       texts.clearChat,
@@ -397,15 +524,7 @@ export default function AIChatScreen() {
           onPress: async () => {
             try {
               await chatAPI.clearHistory();
-              setMessages([
-                {
-                  id: "welcome",
-                  type: "bot",
-                  content: texts.welcomeMessage,
-                  timestamp: new Date(),
-                  suggestions: texts.commonQuestions,
-                },
-              ]);
+              leaveActiveThread();
               console.log("🗑️ Chat history cleared");
             } catch (error) {
               console.error("💥 Error clearing chat:", error);
@@ -466,6 +585,16 @@ export default function AIChatScreen() {
               </Text>
             </View>
 
+            {message.actions
+              ?.filter((action) => action.tool !== "get_nutrition_stats")
+              .map((action) => (
+                <ChatActionCard
+                  key={action.action_id}
+                  action={action}
+                  onResolved={updateAction}
+                />
+              ))}
+
             {message.suggestions && (
               <View style={styles.suggestionsContainer}>
                 <Text style={styles.suggestionsLabel}>{texts.tryThese}</Text>
@@ -511,14 +640,34 @@ export default function AIChatScreen() {
         <View style={styles.headerLeft}>
           <View style={styles.titleContainer}>
             <Text style={styles.title}>{texts.title}</Text>
-            <Text style={styles.subtitle}>{texts.subtitle}</Text>
+            <Text style={styles.subtitle} numberOfLines={1}>
+              {activeThreadTitle || texts.subtitle}
+            </Text>
           </View>
         </View>
-        <TouchableOpacity style={styles.headerButton} onPress={clearChat}>
-          <Trash2 size={22} color="#E74C3C" />
-        </TouchableOpacity>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setShowThreads(true)}
+            accessibilityLabel={texts.conversations}
+          >
+            <MessageCircle size={22} color="#16A085" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.headerButton} onPress={clearChat}>
+            <Trash2 size={22} color="#E74C3C" />
+          </TouchableOpacity>
+        </View>
       </View>
 
+      <ChatThreadsModal
+        visible={showThreads}
+        activeThreadId={activeThreadId}
+        onClose={() => setShowThreads(false)}
+        onSelectThread={openThread}
+        onNewThread={startNewThread}
+        onActiveThreadRemoved={leaveActiveThread}
+      />
+
       {/* Profile Card - Only show if user has profile data */}
       {(userProfile.allergies.length > 0 ||
         userProfile.medicalConditions.length > 0) && (
@@ -571,7 +720,7 @@ export default function AIChatScreen() {
       >
         {messages.map(renderMessage)}
 
-        {isTyping && (
+        {isTyping && !streamingId && (
           <View style={styles.typingIndicator}>
             <View style={styles.typingRow}>
               <View style={styles.botIconContainer}>
@@ -605,20 +754,27 @@ export default function AIChatScreen() {
           <TouchableOpacity
             style={[
               styles.sendButton,
-              (!inputText.trim() || isTyping) && styles.sendButtonDisabled,
+              !inputText.trim() && !isTyping && styles.sendButtonDisabled,
             ]}
-            onPress={sendMessage}
-            disabled={!inputText.trim() || isTyping}
+            onPress={isTyping ? stopStreaming : sendMessage}
+            disabled={!inputText.trim() && !isTyping}
+            accessibilityLabel={isTyping ? texts.stop : texts.send}
           >
             <LinearGradient
               colors={
-                !inputText.trim() || isTyping
+                isTyping
+                  ? ["#E74C3C", "#C0392B"]
+                  : !inputText.trim()
                   ? ["#BDC3C7", "#95A5A6"]
                   : ["#16A085", "#1ABC9C"]
               }
               style={styles.sendGradient}
             >
-              <Send size={20} color="#FFFFFF" />
+              {isTyping ? (
+                <Square size={16} color="#FFFFFF" fill="#FFFFFF" />
+              ) : (
+                <Send size={20} color="#FFFFFF" />
+              )}
             </LinearGradient>
           </TouchableOpacity>
         </View>
@@ -669,6 +825,10 @@ const styles = StyleSheet.create({
     color: "#7F8C8D",
     marginTop: 4,
   },
+  headerButtons: {
+    flexDirection: "row",
+    gap: 8,
+  },
   headerButton: {
     width: 44,
     height: 44,
@@ -40,6 +40,7 @@ import {
   Scroll,
 } from "lucide-react-native";
 import LoadingScreen from "@/components/LoadingScreen";
+import PlannedMeals from "@/components/PlannedMeals";
 import { useTranslation } from "react-i18next";
 import i18n from "@/src/i18n";
 
@@ -787,6 +788,12 @@ export default function CalendarScreen() {
                   </View>
                 </View>
 
+                <PlannedMeals
+                  key={selectedDay.date}
+                  date={selectedDay.date}
+                  onMealLogged={loadCalendarData}
+                />
+
                 {selectedDay.events.length > 0 && (
                   <View style={styles.eventsSection}>
                     <Text style={styles.eventsTitle}>
@@ -27,11 +27,15 @@ import {
   clearPendingMeal,
   clearError,
   loadPendingMeal,
+  retryAnalysisJob,
+  dismissAnalysisJob,
+  TrackedAnalysisJob,
 } from "@/src/store/mealSlice";
 import { Ionicons } from "@expo/vector-icons";
 import { useTranslation } from "react-i18next";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import i18n from "@/src/i18n";
+import TextMealLogModal from "@/components/TextMealLogModal";
 import { 
   Search, 
   Plus, 
@@ -78,11 +82,34 @@ const COMMON_INGREDIENTS = [
   { name: "Tomato", calories: 18, protein_g: 0.9, carbs_g: 3.9, fats_g: 0.2 },
 ];
 
+function describeAnalysisJob(job: TrackedAnalysisJob) {
+  switch (job.status) {
+    case "QUEUED":
+      return job.attempts > 0
+        ? `Retrying analysis (attempt ${job.attempts + 1} of ${job.max_attempts})`
+        : "Waiting to analyze...";
+    case "RUNNING":
+      return job.attempts > 1
+        ? `Analyzing (attempt ${job.attempts} of ${job.max_attempts})...`
+        : "Analyzing your meal...";
+    case "FAILED":
+      return "Analysis failed";
+    default:
+      return "Analysis complete";
+  }
+}
+
 export default function CameraScreen() {
   const { t } = useTranslation();
   const dispatch = useDispatch<AppDispatch>();
-  const { pendingMeal, isAnalyzing, isPosting, isUpdating, error } =
-    useSelector((state: RootState) => state.meal);
+  const {
+    pendingMeal,
+    analysisJobs,
+    isAnalyzing,
+    isPosting,
+    isUpdating,
+    error,
+  } = useSelector((state: RootState) => state.meal);
 
   const [permission, requestPermission] = useCameraPermissions();
   const [showCamera, setShowCamera] = useState(false);
@@ -91,6 +118,7 @@ export default function CameraScreen() {
   const [updateText, setUpdateText] = useState("");
   const [postedMealId, setPostedMealId] = useState<string | null>(null);
   const [originalImageBase64, setOriginalImageBase64] = useState<string>("");
+  const [showTextLog, setShowTextLog] = useState(false);
   const cameraRef = useRef<CameraView>(null);
 
   // New states for ingredient editing
@@ -177,7 +205,13 @@ export default function CameraScreen() {
     };
 
     if (pendingMeal) {
-      checkPersistedMealId();
+      // Meals analyzed by a background job are already logged
+      if (pendingMeal.meal_id && pendingMeal.analysis) {
+        setPostedMealId(pendingMeal.meal_id);
+        saveMealId(pendingMeal.meal_id);
+      } else {
+        checkPersistedMealId();
+      }
       if (pendingMeal.image_base_64) {
         setOriginalImageBase64(pendingMeal.image_base_64);
       }
@@ -252,7 +286,7 @@ export default function CameraScreen() {
       );
 
       if (!analyzeMeal.fulfilled.match(result)) {
-        Alert.alert("Error", "Analysis failed. Please try again.");
+        Alert.alert("Error", "Upload failed. Please try again.");
       }
     } catch (error) {
       console.error("Analysis error:", error);
@@ -723,12 +757,22 @@ export default function CameraScreen() {
           <View style={styles.analysisContainer}>
             {/* Image Display */}
             <View style={styles.imageCard}>
-              <Image
-                source={{
-                  uri: `data:image/jpeg;base64,${pendingMeal.image_base_64}`,
-                }}
-                style={styles.mealImage}
-              />
+              {pendingMeal.image_base_64 ? (
+                <Image
+                  source={{
+                    uri: `data:image/jpeg;base64,${pendingMeal.image_base_64}`,
+                  }}
+                  style={styles.mealImage}
+                />
+              ) : (
+                // Meals logged from a description have no photo
+                <View style={[styles.mealImage, styles.textMealPlaceholder]}>
+                  <Ionicons name="create-outline" size={32} color="#10b981" />
+                  <Text style={styles.textMealDescription} numberOfLines={4}>
+                    {pendingMeal.analysis?.description}
+                  </Text>
+                </View>
+              )}
               <View style={styles.statusBadge}>
                 <Ionicons
                   name={isPosted ? "checkmark-circle" : "analytics"}
@@ -1058,14 +1102,48 @@ export default function CameraScreen() {
             <ActivityIndicator size="large" color="#10b981" />
             <Sparkles size={24} color="#10b981" />
             <Text style={styles.analyzingTitle}>
-              Analyzing Your Meal
+              Uploading Your Meal
             </Text>
             <Text style={styles.analyzingText}>
-              Please wait while we process your image...
+              The analysis continues in the background, so you can keep
+              logging meals
             </Text>
           </View>
         )}
 
+        {analysisJobs.map((job) => (
+          <View key={job.job_id} style={styles.jobCard}>
+            <Image
+              source={{ uri: `data:image/jpeg;base64,${job.image_base_64}` }}
+              style={styles.jobThumbnail}
+            />
+            <View style={styles.jobInfo}>
+              <Text style={styles.jobTitle}>{describeAnalysisJob(job)}</Text>
+              {job.status === "FAILED" && job.error && (
+                <Text style={styles.jobError} numberOfLines={2}>
+                  {job.error}
+                </Text>
+              )}
+            </View>
+            {job.status === "FAILED" ? (
+              <View style={styles.jobActions}>
+                <TouchableOpacity
+                  onPress={() => dispatch(retryAnalysisJob(job.job_id))}
+                >
+                  <Text style={styles.jobRetryText}>Retry</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => dispatch(dismissAnalysisJob(job.job_id))}
+                >
+                  <Ionicons name="close" size={20} color="#6b7280" />
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <ActivityIndicator size="small" color="#10b981" />
+            )}
+          </View>
+        ))}
+
         <View style={styles.buttonContainer}>
           <TouchableOpacity
             style={[
@@ -1093,6 +1171,14 @@ export default function CameraScreen() {
             <Text style={styles.secondaryButtonText}>Choose from Gallery</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={[styles.mainButton, styles.secondaryButton]}
+            onPress={() => setShowTextLog(true)}
+          >
+            <Ionicons name="create-outline" size={24} color="#10b981" />
+            <Text style={styles.secondaryButtonText}>Describe Your Meal</Text>
+          </TouchableOpacity>
+
           <View style={styles.tipCard}>
             <Ionicons name="bulb" size={20} color="#10b981" />
             <Text style={styles.tipText}>
@@ -1101,6 +1187,13 @@ export default function CameraScreen() {
           </View>
         </View>
       </View>
+
+      <TextMealLogModal
+        visible={showTextLog}
+        source="text"
+        onClose={() => setShowTextLog(false)}
+        onAnalyzed={() => setShowTextLog(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -1204,6 +1297,45 @@ const styles = StyleSheet.create({
     color: "#6b7280",
     textAlign: "center",
   },
+  jobCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#f9fafb",
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    gap: 12,
+  },
+  jobThumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+  },
+  jobInfo: {
+    flex: 1,
+  },
+  jobTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#065f46",
+  },
+  jobError: {
+    fontSize: 13,
+    color: "#dc2626",
+    marginTop: 2,
+  },
+  jobActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  jobRetryText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#10b981",
+  },
   permissionContainer: {
     flex: 1,
     justifyContent: "center",
@@ -1312,6 +1444,17 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     backgroundColor: "#f3f4f6",
   },
+  textMealPlaceholder: {
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 20,
+    gap: 8,
+  },
+  textMealDescription: {
+    fontSize: 15,
+    color: "#374151",
+    textAlign: "center",
+  },
   statusBadge: {
     position: "absolute",
     top: 12,
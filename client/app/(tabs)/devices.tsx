@@ -20,6 +20,7 @@ import {
 } from "../../src/services/deviceAPI";
 import { HealthData } from "../../src/services/healthKit";
 import LoadingScreen from "@/components/LoadingScreen";
+import { toLocalDateString } from "@/src/utils/dates";
 
 type DeviceType =
   | "APPLE_HEALTH"
@@ -129,7 +130,7 @@ export default function DevicesScreen() {
 
       // Only load activity data and balance if we have connected devices
       if (devices.length > 0) {
-        const today = new Date().toISOString().split("T")[0];
+        const today = toLocalDateString();
 
         // Get activity data and balance in parallel
         const [activity, balance] = await Promise.all([
@@ -5,7 +5,6 @@ import {
   StyleSheet,
   ScrollView,
   TouchableOpacity,
-  Image,
   TextInput,
   Modal,
   Alert,
@@ -44,6 +43,8 @@ import {
   X,
 } from "lucide-react-native";
 import LoadingScreen from "@/components/LoadingScreen";
+import MealImage from "@/components/MealImage";
+import { toLocalDateString } from "@/src/utils/dates";
 
 const { width } = Dimensions.get("window");
 
@@ -294,7 +295,7 @@ export default function HistoryScreen() {
               await dispatch(
                 duplicateMeal({
                   mealId: meal.id,
-                  newDate: new Date().toISOString().split("T")[0],
+                  newDate: toLocalDateString(),
                 })
               );
               Alert.alert("Success", "Meal duplicated successfully!");
@@ -371,8 +372,8 @@ export default function HistoryScreen() {
           <View style={styles.mealHeader}>
             <View style={styles.mealImageContainer}>
               {meal.image_url ? (
-                <Image
-                  source={{ uri: meal.image_url }}
+                <MealImage
+                  imageUrl={meal.image_url}
                   style={styles.mealImage}
                   resizeMode="cover"
                 />
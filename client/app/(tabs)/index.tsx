@@ -14,7 +14,6 @@ import {
   RefreshControl,
   Dimensions,
   ActivityIndicator,
-  Image,
   StatusBar,
   I18nManager,
 } from "react-native";
@@ -36,6 +35,7 @@ import {
   Camera,
   ChartBar as BarChart3,
   Check,
+  Mic,
 } from "lucide-react-native";
 import { api } from "@/src/services/api";
 import { RootState, AppDispatch } from "@/src/store";
@@ -44,6 +44,10 @@ import { fetchMeals } from "../../src/store/mealSlice";
 import { useTranslation } from "react-i18next";
 import { useLanguage } from "@/src/i18n/context/LanguageContext";
 import LoadingScreen from "@/components/LoadingScreen";
+import MealImage from "@/components/MealImage";
+import PlannedMeals from "@/components/PlannedMeals";
+import TextMealLogModal from "@/components/TextMealLogModal";
+import { toLocalDateString } from "@/src/utils/dates";
 
 // Enable RTL support
 I18nManager.allowRTL(true);
@@ -128,6 +132,8 @@ const HomeScreen = React.memo(() => {
   const [initialLoading, setInitialLoading] = useState(true);
   const [waterCups, setWaterCups] = useState(0);
   const [waterLoading, setWaterLoading] = useState(false);
+  const [plannedMealsKey, setPlannedMealsKey] = useState(0);
+  const [showDictation, setShowDictation] = useState(false);
   const [language, setLanguage] = useState<"he" | "en">("he");
 
   const { t } = useTranslation();
@@ -168,9 +174,9 @@ const HomeScreen = React.memo(() => {
         new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
     );
 
-    const today = new Date().toISOString().split("T")[0];
-    const todayMeals = meals.filter((meal) =>
-      meal.created_at.startsWith(today)
+    const today = toLocalDateString();
+    const todayMeals = meals.filter(
+      (meal) => toLocalDateString(new Date(meal.created_at)) === today
     );
 
     const dailyTotals = todayMeals.reduce(
@@ -277,6 +283,7 @@ const HomeScreen = React.memo(() => {
     setRefreshing(true);
     try {
       await loadAllData(true);
+      setPlannedMealsKey((key) => key + 1);
     } finally {
       setRefreshing(false);
     }
@@ -287,7 +294,7 @@ const HomeScreen = React.memo(() => {
     if (!user?.user_id) return;
 
     try {
-      const today = new Date().toISOString().split("T")[0];
+      const today = toLocalDateString();
       const response = await api.get(`/nutrition/water-intake/${today}`);
       if (response.data.success) {
         setWaterCups(response.data.data.cups_consumed || 0);
@@ -306,7 +313,7 @@ const HomeScreen = React.memo(() => {
       try {
         const response = await api.post("/nutrition/water-intake", {
           cups,
-          date: new Date().toISOString().split("T")[0],
+          date: toLocalDateString(),
         });
 
         if (response.data.success) {
@@ -404,6 +411,7 @@ const HomeScreen = React.memo(() => {
       if (now - lastFocusTimeRef.current > FOCUS_RELOAD_THROTTLE) {
         lastFocusTimeRef.current = now;
         loadAllData();
+        setPlannedMealsKey((key) => key + 1);
       }
     }, [user?.user_id, initialLoading, loadAllData])
   );
@@ -767,6 +775,23 @@ const HomeScreen = React.memo(() => {
               </LinearGradient>
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={styles.quickActionButton}
+              onPress={() => setShowDictation(true)}
+            >
+              <LinearGradient
+                colors={[COLORS.emerald[600], COLORS.emerald[600] + "E6"]}
+                style={styles.quickActionGradient}
+              >
+                <View style={styles.quickActionIconContainer}>
+                  <Mic size={22} color="#FFFFFF" />
+                </View>
+                <Text style={styles.quickActionText}>
+                  {t("home.dictate_meal") || "Dictate Meal"}
+                </Text>
+              </LinearGradient>
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={styles.quickActionButton}
               onPress={() => router.push("/(tabs)/statistics")}
@@ -786,6 +811,14 @@ const HomeScreen = React.memo(() => {
           </View>
         </View>
 
+        {/* Planned meals from a started recommended menu */}
+        <View style={styles.section}>
+          <PlannedMeals
+            key={plannedMealsKey}
+            onMealLogged={() => loadAllData(true)}
+          />
+        </View>
+
         {/* Today's Summary */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>
@@ -807,8 +840,8 @@ const HomeScreen = React.memo(() => {
                 >
                   <View style={styles.mealImageContainer}>
                     {meal.image_url ? (
-                      <Image
-                        source={{ uri: meal.image_url }}
+                      <MealImage
+                        imageUrl={meal.image_url}
                         style={styles.mealImage}
                         resizeMode="cover"
                       />
@@ -856,6 +889,16 @@ const HomeScreen = React.memo(() => {
         </View>
       </ScrollView>
 
+      <TextMealLogModal
+        visible={showDictation}
+        source="voice"
+        onClose={() => setShowDictation(false)}
+        onAnalyzed={() => {
+          setShowDictation(false);
+          router.push("/(tabs)/camera");
+        }}
+      />
+
       <FloatingChatButton />
     </SafeAreaView>
   );
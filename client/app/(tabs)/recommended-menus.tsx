@@ -241,11 +241,12 @@ export default function RecommendedMenusScreen() {
       const response = await api.post(`/recommended-menus/${menuId}/start-today`);
       
       if (response.data.success) {
+        const plannedCount = response.data.data?.meals?.length || 0;
         Alert.alert(
           language === "he" ? "הצלחה!" : "Success!",
-          language === "he" 
-            ? "התפריט הופעל בהצלחה!"
-            : "Menu started successfully!"
+          language === "he"
+            ? `התפריט הופעל! ${plannedCount} ארוחות נוספו ללוח השנה שלך`
+            : `Menu started! ${plannedCount} meals were added to your calendar`
         );
       }
     } catch (error) {
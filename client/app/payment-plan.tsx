@@ -9,9 +9,11 @@ import {
   ScrollView,
 } from "react-native";
 import { useRouter } from "expo-router";
+import * as Linking from "expo-linking";
+import * as WebBrowser from "expo-web-browser";
 import { useDispatch, useSelector } from "react-redux";
 import { AppDispatch, RootState } from "@/src/store";
-import { userAPI } from "@/src/services/api";
+import { billingAPI, userAPI } from "@/src/services/api";
 import { Ionicons } from "@expo/vector-icons";
 
 type PlanType = "FREE" | "PREMIUM" | "GOLD";
@@ -31,7 +33,7 @@ const plans: Plan[] = [
     name: "תוכנית חינמית",
     price: "חינם",
     features: [
-      "2 ניתוחי תמונות ביום",
+      "10 ניתוחי תמונות ביום",
       "תפריט תזונתי בסיסי",
       "מעקב קלוריות",
       "גישה למאגר מתכונים",
@@ -43,7 +45,7 @@ const plans: Plan[] = [
     name: "תוכנית פרימיום",
     price: "₪49/חודש",
     features: [
-      "20 ניתוחי תמונות ביום",
+      "50 ניתוחי תמונות ביום",
       "תפריט תזונתי מותאם אישית",
       "מעקב מפורט אחר מקרו וויטמינים",
       "המלצות AI מתקדמות",
@@ -58,7 +60,7 @@ const plans: Plan[] = [
     name: "תוכנית זהב",
     price: "₪99/חודש",
     features: [
-      "50 ניתוחי תמונות ביום",
+      "ניתוחי תמונות ללא הגבלה",
       "תפריט מותאם אישית עם AI מתקדם",
       "מעקב בריאותי מלא",
       "ייעוץ תזונתי אישי",
@@ -70,6 +72,21 @@ const plans: Plan[] = [
   },
 ];
 
+const CHECKOUT_POLL_ATTEMPTS = 10;
+const CHECKOUT_POLL_INTERVAL_MS = 1500;
+
+// The payment webhook can land shortly after the browser closes
+const waitForCheckout = async (sessionId: string) => {
+  for (let attempt = 0; attempt < CHECKOUT_POLL_ATTEMPTS; attempt++) {
+    const { status } = await billingAPI.getCheckoutStatus(sessionId);
+    if (status !== "pending") return status;
+    await new Promise((resolve) =>
+      setTimeout(resolve, CHECKOUT_POLL_INTERVAL_MS)
+    );
+  }
+  return "pending";
+};
+
 export default function PaymentPlan() {
   const [selectedPlan, setSelectedPlan] = useState<PlanType | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -90,12 +107,33 @@ export default function PaymentPlan() {
         throw new Error("User not authenticated");
       }
 
-      console.log("🔄 Updating subscription to:", planId);
-      const response = await userAPI.updateSubscription(planId);
-      console.log("✅ Subscription update response:", response);
+      if (planId === "FREE") {
+        console.log("🔄 Updating subscription to:", planId);
+        const response = await userAPI.updateSubscription(planId);
+        console.log("✅ Subscription update response:", response);
+
+        if (!response.success) {
+          throw new Error(response.error || "Failed to update subscription");
+        }
+      } else {
+        const returnUrl = Linking.createURL("payment-plan");
+        const session = await billingAPI.createCheckout(planId, returnUrl);
+        console.log("💳 Opening checkout:", session.sessionId);
+
+        const result = await WebBrowser.openAuthSessionAsync(
+          session.checkoutUrl,
+          returnUrl
+        );
+        console.log("💳 Checkout browser result:", result.type);
 
-      if (!response.success) {
-        throw new Error(response.error || "Failed to update subscription");
+        const status = await waitForCheckout(session.sessionId);
+        if (status === "pending") {
+          Alert.alert("התשלום לא הושלם", "לא התקבל אישור תשלום עבור התוכנית");
+          return;
+        }
+        if (status === "failed") {
+          throw new Error("התשלום נכשל");
+        }
       }
 
       // Update Redux state
@@ -0,0 +1,251 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { chatAPI } from "@/src/services/api";
+import { ChatAction } from "@/src/types";
+import { useLanguage } from "@/src/i18n/context/LanguageContext";
+
+interface ChatActionCardProps {
+  action: ChatAction;
+  // Called with the action once it was confirmed or cancelled
+  onResolved: (action: ChatAction) => void;
+}
+
+const DAYS = {
+  en: [
+    "Sunday",
+    "Monday",
+    "Tuesday",
+    "Wednesday",
+    "Thursday",
+    "Friday",
+    "Saturday",
+  ],
+  he: ["ראשון", "שני", "שלישי", "רביעי", "חמישי", "שישי", "שבת"],
+};
+
+const MEAL_TIMINGS: Record<string, { en: string; he: string }> = {
+  BREAKFAST: { en: "breakfast", he: "ארוחת בוקר" },
+  LUNCH: { en: "lunch", he: "ארוחת צהריים" },
+  DINNER: { en: "dinner", he: "ארוחת ערב" },
+  SNACK: { en: "snack", he: "נשנוש" },
+  MORNING_SNACK: { en: "morning snack", he: "נשנוש בוקר" },
+  AFTERNOON_SNACK: { en: "afternoon snack", he: "נשנוש אחר הצהריים" },
+};
+
+const ICONS: Record<ChatAction["tool"], keyof typeof Ionicons.glyphMap> = {
+  log_meal: "restaurant-outline",
+  add_water: "water-outline",
+  get_nutrition_stats: "stats-chart-outline",
+  swap_plan_meal: "swap-horizontal-outline",
+  add_shopping_items: "cart-outline",
+};
+
+// What the action will do, in the user's language
+function describeAction(action: ChatAction, isRTL: boolean) {
+  const args = action.arguments;
+  const lang = isRTL ? "he" : "en";
+
+  switch (action.tool) {
+    case "log_meal":
+      return isRTL
+        ? `רישום ארוחה: ${args.description}`
+        : `Log meal: ${args.description}`;
+    case "add_water":
+      return isRTL
+        ? `הוספת ${args.cups} כוסות מים${args.date ? ` ל-${args.date}` : ""}`
+        : `Add ${args.cups} cup${args.cups === 1 ? "" : "s"} of water${
+            args.date ? ` on ${args.date}` : ""
+          }`;
+    case "swap_plan_meal": {
+      const timing = MEAL_TIMINGS[args.meal_timing]?.[lang] || args.meal_timing;
+      return isRTL
+        ? `החלפת ${timing} של יום ${DAYS.he[args.day_of_week]} בתוכנית`
+        : `Swap ${DAYS.en[args.day_of_week]}'s ${timing} in your plan`;
+    }
+    case "add_shopping_items": {
+      const names = (args.items || []).map((item: any) => item.name).join(", ");
+      return isRTL
+        ? `הוספה לרשימת הקניות: ${names}`
+        : `Add to shopping list: ${names}`;
+    }
+    default:
+      return action.tool;
+  }
+}
+
+// What the confirmed action did
+function describeResult(action: ChatAction, isRTL: boolean) {
+  const result = action.result || {};
+
+  switch (action.tool) {
+    case "log_meal":
+      return isRTL
+        ? `נרשם: ${result.meal_name} (${result.calories} קלוריות)`
+        : `Logged ${result.meal_name} (${result.calories} kcal)`;
+    case "add_water":
+      return isRTL
+        ? `${result.cups_consumed} כוסות ב-${result.date}`
+        : `${result.cups_consumed} cups on ${result.date}`;
+    case "swap_plan_meal":
+      return isRTL
+        ? `הארוחה החדשה: ${result.new_meal}`
+        : `New meal: ${result.new_meal}`;
+    case "add_shopping_items":
+      return isRTL
+        ? `נוסף ל${result.list_name}`
+        : `Added to ${result.list_name}`;
+    default:
+      return isRTL ? "בוצע" : "Done";
+  }
+}
+
+export default function ChatActionCard({
+  action,
+  onResolved,
+}: ChatActionCardProps) {
+  const { isRTL } = useLanguage();
+  const [isWorking, setIsWorking] = useState(false);
+
+  const resolve = async (confirm: boolean) => {
+    setIsWorking(true);
+    try {
+      const updated = confirm
+        ? await chatAPI.confirmAction(action.action_id)
+        : await chatAPI.cancelAction(action.action_id);
+      onResolved(updated);
+    } catch (error) {
+      console.error("💥 Error resolving chat action:", error);
+      Alert.alert(
+        isRTL ? "שגיאה" : "Error",
+        isRTL ? "הפעולה נכשלה, נסו שוב" : "The action failed, please try again"
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={[styles.header, isRTL && styles.rtlRow]}>
+        <Ionicons name={ICONS[action.tool]} size={18} color="#16A085" />
+        <Text style={[styles.description, isRTL && styles.rtlText]}>
+          {describeAction(action, isRTL)}
+        </Text>
+      </View>
+
+      {action.status === "PENDING" &&
+        (isWorking ? (
+          <ActivityIndicator size="small" color="#16A085" />
+        ) : (
+          <View style={[styles.buttons, isRTL && styles.rtlRow]}>
+            <TouchableOpacity
+              style={[styles.button, styles.confirmButton]}
+              onPress={() => resolve(true)}
+            >
+              <Text style={styles.confirmText}>
+                {isRTL ? "אישור" : "Confirm"}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={() => resolve(false)}
+            >
+              <Text style={styles.cancelText}>
+                {isRTL ? "ביטול" : "Cancel"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
+      {action.status === "CONFIRMED" && (
+        <Text
+          style={[styles.status, styles.confirmed, isRTL && styles.rtlText]}
+        >
+          ✓ {describeResult(action, isRTL)}
+        </Text>
+      )}
+      {action.status === "CANCELLED" && (
+        <Text style={[styles.status, isRTL && styles.rtlText]}>
+          {isRTL ? "בוטל" : "Cancelled"}
+        </Text>
+      )}
+      {action.status === "FAILED" && (
+        <Text style={[styles.status, styles.failed, isRTL && styles.rtlText]}>
+          {action.error || (isRTL ? "הפעולה נכשלה" : "The action failed")}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#A3E4D7",
+    backgroundColor: "#F0FBF8",
+    gap: 10,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: 8,
+  },
+  description: {
+    flex: 1,
+    fontSize: 14,
+    color: "#2C3E50",
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  confirmButton: {
+    backgroundColor: "#16A085",
+  },
+  cancelButton: {
+    backgroundColor: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#D5DBDB",
+  },
+  confirmText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  cancelText: {
+    color: "#7F8C8D",
+    fontWeight: "600",
+  },
+  status: {
+    fontSize: 13,
+    color: "#7F8C8D",
+  },
+  confirmed: {
+    color: "#16A085",
+  },
+  failed: {
+    color: "#E74C3C",
+  },
+  rtlRow: {
+    flexDirection: "row-reverse",
+  },
+  rtlText: {
+    textAlign: "right",
+  },
+});
@@ -0,0 +1,511 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { chatAPI } from "@/src/services/api";
+import { ChatSearchResult, ChatThread } from "@/src/types";
+import { useLanguage } from "@/src/i18n/context/LanguageContext";
+
+interface ChatThreadsModalProps {
+  visible: boolean;
+  activeThreadId: string | null;
+  onClose: () => void;
+  onSelectThread: (threadId: string, title: string) => void;
+  onNewThread: () => void;
+  // The open thread was deleted or archived
+  onActiveThreadRemoved: () => void;
+}
+
+// Search snippets mark matches with <b></b>; every odd part is a match
+function renderSnippet(snippet: string) {
+  return snippet.split(/<\/?b>/).map((part, index) => (
+    <Text key={index} style={index % 2 === 1 && styles.snippetMatch}>
+      {part}
+    </Text>
+  ));
+}
+
+export default function ChatThreadsModal({
+  visible,
+  activeThreadId,
+  onClose,
+  onSelectThread,
+  onNewThread,
+  onActiveThreadRemoved,
+}: ChatThreadsModalProps) {
+  const { isRTL } = useLanguage();
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ChatSearchResult[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+
+  const loadThreads = async () => {
+    setIsLoading(true);
+    try {
+      setThreads(await chatAPI.getThreads(showArchived));
+    } catch (error) {
+      console.error("💥 Error loading chat threads:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (visible) loadThreads();
+  }, [visible, showArchived]);
+
+  const handleClose = () => {
+    setQuery("");
+    setResults(null);
+    setEditingId(null);
+    onClose();
+  };
+
+  const handleSearch = async () => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setResults(await chatAPI.searchMessages(query.trim()));
+    } catch (error) {
+      console.error("💥 Error searching chat messages:", error);
+      Alert.alert(
+        isRTL ? "שגיאה" : "Error",
+        isRTL ? "החיפוש נכשל" : "Search failed"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelect = (threadId: string, title: string) => {
+    onSelectThread(threadId, title);
+    handleClose();
+  };
+
+  const handleRename = async (threadId: string) => {
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (!title) return;
+
+    try {
+      const updated = await chatAPI.updateThread(threadId, { title });
+      setThreads((prev) =>
+        prev.map((thread) => (thread.thread_id === threadId ? updated : thread))
+      );
+    } catch (error) {
+      console.error("💥 Error renaming chat thread:", error);
+      Alert.alert(
+        isRTL ? "שגיאה" : "Error",
+        isRTL ? "שינוי השם נכשל" : "Failed to rename the conversation"
+      );
+    }
+  };
+
+  const handleArchive = async (thread: ChatThread) => {
+    try {
+      await chatAPI.updateThread(thread.thread_id, {
+        archived: !thread.archived,
+      });
+      setThreads((prev) =>
+        prev.filter((item) => item.thread_id !== thread.thread_id)
+      );
+      if (thread.thread_id === activeThreadId) onActiveThreadRemoved();
+    } catch (error) {
+      console.error("💥 Error updating chat thread:", error);
+      Alert.alert(
+        isRTL ? "שגיאה" : "Error",
+        isRTL ? "העדכון נכשל" : "Failed to update the conversation"
+      );
+    }
+  };
+
+  const handleDelete = (thread: ChatThread) => {
+    Alert.alert(
+      isRTL ? "מחיקת שיחה" : "Delete conversation",
+      isRTL
+        ? `למחוק את "${thread.title}"? לא ניתן לשחזר.`
+        : `Delete "${thread.title}"? This can't be undone.`,
+      [
+        { text: isRTL ? "ביטול" : "Cancel", style: "cancel" },
+        {
+          text: isRTL ? "מחיקה" : "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await chatAPI.deleteThread(thread.thread_id);
+              setThreads((prev) =>
+                prev.filter((item) => item.thread_id !== thread.thread_id)
+              );
+              if (thread.thread_id === activeThreadId) onActiveThreadRemoved();
+            } catch (error) {
+              console.error("💥 Error deleting chat thread:", error);
+              Alert.alert(
+                isRTL ? "שגיאה" : "Error",
+                isRTL ? "המחיקה נכשלה" : "Failed to delete the conversation"
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderThread = (thread: ChatThread) => {
+    const isActive = thread.thread_id === activeThreadId;
+
+    if (editingId === thread.thread_id) {
+      return (
+        <View
+          key={thread.thread_id}
+          style={[styles.row, isRTL && styles.rtlRow]}
+        >
+          <TextInput
+            style={[styles.renameInput, isRTL && styles.rtlText]}
+            value={editingTitle}
+            onChangeText={setEditingTitle}
+            onSubmitEditing={() => handleRename(thread.thread_id)}
+            autoFocus
+            maxLength={100}
+            returnKeyType="done"
+          />
+          <TouchableOpacity
+            onPress={() => handleRename(thread.thread_id)}
+            accessibilityLabel={isRTL ? "שמירה" : "Save"}
+          >
+            <Ionicons name="checkmark" size={22} color="#10b981" />
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View key={thread.thread_id} style={[styles.row, isRTL && styles.rtlRow]}>
+        <TouchableOpacity
+          style={styles.rowContent}
+          onPress={() => handleSelect(thread.thread_id, thread.title)}
+        >
+          <Text
+            style={[
+              styles.threadTitle,
+              isActive && styles.activeThreadTitle,
+              isRTL && styles.rtlText,
+            ]}
+            numberOfLines={1}
+          >
+            {thread.title}
+          </Text>
+          {thread.last_message && (
+            <Text
+              style={[styles.threadPreview, isRTL && styles.rtlText]}
+              numberOfLines={1}
+            >
+              {thread.last_message}
+            </Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => {
+            setEditingId(thread.thread_id);
+            setEditingTitle(thread.title);
+          }}
+          accessibilityLabel={isRTL ? "שינוי שם" : "Rename"}
+        >
+          <Ionicons name="pencil-outline" size={18} color="#6b7280" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => handleArchive(thread)}
+          accessibilityLabel={
+            thread.archived
+              ? isRTL
+                ? "שחזור מהארכיון"
+                : "Unarchive"
+              : isRTL
+              ? "העברה לארכיון"
+              : "Archive"
+          }
+        >
+          <Ionicons
+            name={thread.archived ? "arrow-undo-outline" : "archive-outline"}
+            size={18}
+            color="#6b7280"
+          />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => handleDelete(thread)}
+          accessibilityLabel={isRTL ? "מחיקה" : "Delete"}
+        >
+          <Ionicons name="trash-outline" size={18} color="#E74C3C" />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderResult = (result: ChatSearchResult) => (
+    <TouchableOpacity
+      key={result.message_id}
+      style={styles.result}
+      onPress={() => handleSelect(result.thread_id, result.thread_title)}
+    >
+      <Text style={[styles.resultThread, isRTL && styles.rtlText]}>
+        {result.thread_title}
+      </Text>
+      <Text
+        style={[styles.threadTitle, isRTL && styles.rtlText]}
+        numberOfLines={1}
+      >
+        {result.user_message}
+      </Text>
+      <Text
+        style={[styles.threadPreview, isRTL && styles.rtlText]}
+        numberOfLines={3}
+      >
+        {renderSnippet(result.snippet)}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={handleClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={[styles.header, isRTL && styles.rtlRow]}>
+            <Text style={[styles.title, isRTL && styles.rtlText]}>
+              {isRTL ? "שיחות" : "Conversations"}
+            </Text>
+            <TouchableOpacity
+              onPress={() => {
+                onNewThread();
+                handleClose();
+              }}
+              accessibilityLabel={isRTL ? "שיחה חדשה" : "New conversation"}
+            >
+              <Ionicons name="add-circle-outline" size={24} color="#10b981" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleClose}
+              accessibilityLabel={isRTL ? "סגירה" : "Close"}
+            >
+              <Ionicons name="close" size={22} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.searchBox, isRTL && styles.rtlRow]}>
+            <Ionicons name="search" size={18} color="#9ca3af" />
+            <TextInput
+              style={[styles.searchInput, isRTL && styles.rtlText]}
+              value={query}
+              onChangeText={(text) => {
+                setQuery(text);
+                if (!text.trim()) setResults(null);
+              }}
+              onSubmitEditing={handleSearch}
+              placeholder={
+                isRTL ? "חיפוש בשיחות קודמות" : "Search past conversations"
+              }
+              placeholderTextColor="#9ca3af"
+              returnKeyType="search"
+            />
+          </View>
+
+          {results === null && (
+            <View style={[styles.tabs, isRTL && styles.rtlRow]}>
+              {[false, true].map((archived) => (
+                <TouchableOpacity
+                  key={String(archived)}
+                  style={[
+                    styles.tab,
+                    showArchived === archived && styles.activeTab,
+                  ]}
+                  onPress={() => setShowArchived(archived)}
+                >
+                  <Text
+                    style={[
+                      styles.tabText,
+                      showArchived === archived && styles.activeTabText,
+                    ]}
+                  >
+                    {archived
+                      ? isRTL
+                        ? "ארכיון"
+                        : "Archived"
+                      : isRTL
+                      ? "פעילות"
+                      : "Active"}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {isLoading ? (
+            <ActivityIndicator size="small" color="#10b981" />
+          ) : (
+            <ScrollView style={styles.list}>
+              {results !== null ? (
+                results.length > 0 ? (
+                  results.map(renderResult)
+                ) : (
+                  <Text style={styles.empty}>
+                    {isRTL ? "לא נמצאו תוצאות" : "No results"}
+                  </Text>
+                )
+              ) : threads.length > 0 ? (
+                threads.map(renderThread)
+              ) : (
+                <Text style={styles.empty}>
+                  {isRTL ? "אין שיחות" : "No conversations"}
+                </Text>
+              )}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    backgroundColor: "white",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    gap: 12,
+    maxHeight: "80%",
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#2C3E50",
+  },
+  searchBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#111827",
+  },
+  tabs: {
+    flexDirection: "row",
+    gap: 8,
+  },
+  tab: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: "#f3f4f6",
+  },
+  activeTab: {
+    backgroundColor: "#10b981",
+  },
+  tabText: {
+    fontSize: 13,
+    color: "#374151",
+  },
+  activeTabText: {
+    color: "white",
+    fontWeight: "600",
+  },
+  list: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  rowContent: {
+    flex: 1,
+  },
+  threadTitle: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: "#111827",
+  },
+  activeThreadTitle: {
+    color: "#10b981",
+    fontWeight: "700",
+  },
+  threadPreview: {
+    fontSize: 13,
+    color: "#6b7280",
+    marginTop: 2,
+  },
+  renameInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#10b981",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 15,
+    color: "#111827",
+  },
+  result: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f3f4f6",
+  },
+  resultThread: {
+    fontSize: 12,
+    color: "#10b981",
+    marginBottom: 2,
+  },
+  snippetMatch: {
+    fontWeight: "700",
+    color: "#111827",
+  },
+  empty: {
+    textAlign: "center",
+    color: "#9ca3af",
+    paddingVertical: 24,
+  },
+  rtlRow: {
+    flexDirection: "row-reverse",
+  },
+  rtlText: {
+    textAlign: "right",
+  },
+});
@@ -0,0 +1,20 @@
+import React from "react";
+import { Image, ImageProps } from "react-native";
+import { useMealImage } from "@/hooks/useMealImage";
+
+interface MealImageProps extends Omit<ImageProps, "source"> {
+  imageUrl?: string;
+  variant?: "original" | "thumbnail";
+}
+
+export default function MealImage({
+  imageUrl,
+  variant = "thumbnail",
+  ...imageProps
+}: MealImageProps) {
+  const source = useMealImage(imageUrl, variant);
+
+  if (!source) return null;
+
+  return <Image source={source} {...imageProps} />;
+}
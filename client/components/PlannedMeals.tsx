@@ -0,0 +1,249 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { api } from "@/src/services/api";
+import { useLanguage } from "@/src/i18n/context/LanguageContext";
+
+export interface PlannedMeal {
+  id: string;
+  date: string;
+  meal_type: string;
+  menu_id: string;
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  is_eaten: boolean;
+}
+
+interface PlannedMealsProps {
+  // YYYY-MM-DD, defaults to today on the server
+  date?: string;
+  onMealLogged?: () => void;
+  // Hides the whole block when there is nothing planned for the date
+  hideWhenEmpty?: boolean;
+}
+
+const MEAL_TYPE_LABELS: Record<string, { en: string; he: string }> = {
+  BREAKFAST: { en: "Breakfast", he: "ארוחת בוקר" },
+  LUNCH: { en: "Lunch", he: "ארוחת צהריים" },
+  DINNER: { en: "Dinner", he: "ארוחת ערב" },
+  SNACK: { en: "Snack", he: "חטיף" },
+  MORNING_SNACK: { en: "Morning snack", he: "חטיף בוקר" },
+  AFTERNOON_SNACK: { en: "Afternoon snack", he: "חטיף אחר הצהריים" },
+};
+
+export default function PlannedMeals({
+  date,
+  onMealLogged,
+  hideWhenEmpty = true,
+}: PlannedMealsProps) {
+  const { isRTL } = useLanguage();
+  const [meals, setMeals] = useState<PlannedMeal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loggingId, setLoggingId] = useState<string | null>(null);
+
+  const loadPlannedMeals = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await api.get("/recommended-menus/planned", {
+        params: date ? { from: date, to: date } : undefined,
+      });
+      setMeals(response.data.success ? response.data.data : []);
+    } catch (error) {
+      console.error("💥 Error loading planned meals:", error);
+      setMeals([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    loadPlannedMeals();
+  }, [loadPlannedMeals]);
+
+  const handleAteThis = async (meal: PlannedMeal) => {
+    if (loggingId) return;
+
+    try {
+      setLoggingId(meal.id);
+      const response = await api.post(
+        `/recommended-menus/planned/${meal.id}/eaten`
+      );
+
+      if (response.data.success) {
+        setMeals((current) =>
+          current.map((item) =>
+            item.id === meal.id ? { ...item, is_eaten: true } : item
+          )
+        );
+        onMealLogged?.();
+      }
+    } catch (error: any) {
+      console.error("💥 Error logging planned meal:", error);
+      Alert.alert(
+        isRTL ? "שגיאה" : "Error",
+        error.response?.data?.error ||
+          (isRTL ? "נכשל ברישום הארוחה" : "Failed to log meal")
+      );
+    } finally {
+      setLoggingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return hideWhenEmpty ? null : (
+      <ActivityIndicator size="small" color="#10b981" style={styles.loader} />
+    );
+  }
+
+  if (meals.length === 0) {
+    return hideWhenEmpty ? null : (
+      <Text style={[styles.emptyText, isRTL && styles.rtlText]}>
+        {isRTL ? "אין ארוחות מתוכננות" : "No planned meals"}
+      </Text>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, isRTL && styles.rtlText]}>
+        {isRTL ? "ארוחות מתוכננות מהתפריט" : "Planned from your menu"}
+      </Text>
+      {meals.map((meal) => (
+        <View key={meal.id} style={[styles.mealRow, isRTL && styles.rtlRow]}>
+          <View style={styles.mealInfo}>
+            <Text style={[styles.mealType, isRTL && styles.rtlText]}>
+              {MEAL_TYPE_LABELS[meal.meal_type]?.[isRTL ? "he" : "en"] ||
+                meal.meal_type}
+            </Text>
+            <Text
+              style={[styles.mealName, isRTL && styles.rtlText]}
+              numberOfLines={2}
+            >
+              {meal.name}
+            </Text>
+            <Text style={[styles.mealMacros, isRTL && styles.rtlText]}>
+              {Math.round(meal.calories)} {isRTL ? "קל׳" : "kcal"} ·{" "}
+              {Math.round(meal.protein)}g P · {Math.round(meal.carbs)}g C ·{" "}
+              {Math.round(meal.fat)}g F
+            </Text>
+          </View>
+          {meal.is_eaten ? (
+            <View style={[styles.eatenBadge, isRTL && styles.rtlRow]}>
+              <Ionicons name="checkmark-circle" size={18} color="#10b981" />
+              <Text style={styles.eatenText}>{isRTL ? "נאכל" : "Eaten"}</Text>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={styles.ateButton}
+              onPress={() => handleAteThis(meal)}
+              disabled={loggingId !== null}
+              accessibilityLabel={`Log ${meal.name} as eaten`}
+            >
+              {loggingId === meal.id ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text style={styles.ateButtonText}>
+                  {isRTL ? "אכלתי את זה" : "I ate this"}
+                </Text>
+              )}
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#2C3E50",
+    marginBottom: 12,
+  },
+  mealRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: "#F1F5F9",
+    gap: 12,
+  },
+  mealInfo: {
+    flex: 1,
+  },
+  mealType: {
+    fontSize: 12,
+    color: "#10b981",
+    fontWeight: "600",
+    marginBottom: 2,
+  },
+  mealName: {
+    fontSize: 15,
+    color: "#2C3E50",
+    fontWeight: "500",
+  },
+  mealMacros: {
+    fontSize: 12,
+    color: "#7F8C8D",
+    marginTop: 2,
+  },
+  ateButton: {
+    backgroundColor: "#10b981",
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    minWidth: 90,
+    alignItems: "center",
+  },
+  ateButtonText: {
+    color: "white",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  eatenBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  eatenText: {
+    color: "#10b981",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#7F8C8D",
+    paddingVertical: 8,
+  },
+  loader: {
+    marginVertical: 8,
+  },
+  rtlRow: {
+    flexDirection: "row-reverse",
+  },
+  rtlText: {
+    textAlign: "right",
+  },
+});
@@ -0,0 +1,198 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useDispatch, useSelector } from "react-redux";
+import { RootState, AppDispatch } from "@/src/store";
+import { logMealFromText } from "@/src/store/mealSlice";
+import { useLanguage } from "@/src/i18n/context/LanguageContext";
+
+interface TextMealLogModalProps {
+  visible: boolean;
+  // "voice" when the description is dictated rather than typed
+  source: "text" | "voice";
+  onClose: () => void;
+  // Called once the analyzed meal is waiting for review
+  onAnalyzed: () => void;
+}
+
+const MAX_LENGTH = 1000;
+
+export default function TextMealLogModal({
+  visible,
+  source,
+  onClose,
+  onAnalyzed,
+}: TextMealLogModalProps) {
+  const dispatch = useDispatch<AppDispatch>();
+  const { isRTL, currentLanguage } = useLanguage();
+  const isLoggingText = useSelector(
+    (state: RootState) => state.meal.isLoggingText
+  );
+  const [text, setText] = useState("");
+
+  const handleClose = () => {
+    if (isLoggingText) return;
+    setText("");
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!text.trim() || isLoggingText) return;
+
+    const result = await dispatch(
+      logMealFromText({ text: text.trim(), language: currentLanguage, source })
+    );
+
+    if (logMealFromText.fulfilled.match(result)) {
+      setText("");
+      onAnalyzed();
+    } else {
+      Alert.alert(
+        isRTL ? "שגיאה" : "Error",
+        (result.payload as string) ||
+          (isRTL ? "ניתוח התיאור נכשל" : "Failed to analyze meal description")
+      );
+    }
+  };
+
+  // Dictation uses the keyboard's own speech input, so the field opens
+  // focused with a hint pointing at the microphone key
+  const hint =
+    source === "voice"
+      ? isRTL
+        ? "הקישו על המיקרופון במקלדת וספרו מה אכלתם"
+        : "Tap the microphone on your keyboard and say what you ate"
+      : isRTL
+      ? "למשל: 2 ביצים, פרוסת לחם מלא וקפה שחור"
+      : "e.g. 2 eggs, a slice of whole wheat bread and black coffee";
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={handleClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={[styles.header, isRTL && styles.rtlRow]}>
+            <Ionicons
+              name={source === "voice" ? "mic" : "create-outline"}
+              size={22}
+              color="#10b981"
+            />
+            <Text style={[styles.title, isRTL && styles.rtlText]}>
+              {isRTL ? "תארו את הארוחה" : "Describe your meal"}
+            </Text>
+            <TouchableOpacity
+              onPress={handleClose}
+              accessibilityLabel={isRTL ? "סגירה" : "Close"}
+            >
+              <Ionicons name="close" size={22} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.hint, isRTL && styles.rtlText]}>{hint}</Text>
+
+          <TextInput
+            style={[styles.input, isRTL && styles.rtlText]}
+            value={text}
+            onChangeText={setText}
+            placeholder={isRTL ? "מה אכלתם?" : "What did you eat?"}
+            placeholderTextColor="#9ca3af"
+            multiline
+            autoFocus
+            maxLength={MAX_LENGTH}
+            editable={!isLoggingText}
+          />
+
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              (!text.trim() || isLoggingText) && styles.submitButtonDisabled,
+            ]}
+            onPress={handleSubmit}
+            disabled={!text.trim() || isLoggingText}
+          >
+            {isLoggingText ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.submitButtonText}>
+                {isRTL ? "נתחו ארוחה" : "Analyze Meal"}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    backgroundColor: "white",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    gap: 12,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#2C3E50",
+  },
+  hint: {
+    fontSize: 14,
+    color: "#6b7280",
+  },
+  input: {
+    minHeight: 110,
+    borderWidth: 1,
+    borderColor: "#e5e7eb",
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    color: "#111827",
+    textAlignVertical: "top",
+  },
+  submitButton: {
+    backgroundColor: "#10b981",
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  rtlRow: {
+    flexDirection: "row-reverse",
+  },
+  rtlText: {
+    textAlign: "right",
+  },
+});
@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { getImageSource } from "@/src/services/api";
+
+type ImageSource = { uri: string; headers?: Record<string, string> };
+
+export const useMealImage = (
+  imageUrl?: string,
+  variant: "original" | "thumbnail" = "original"
+) => {
+  const [source, setSource] = useState<ImageSource | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getImageSource(imageUrl, variant)
+      .then((resolved) => {
+        if (!cancelled) setSource(resolved);
+      })
+      .catch(() => {
+        if (!cancelled) setSource(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl, variant]);
+
+  return source;
+};
@@ -1,9 +1,22 @@
 import axios from "axios";
-import { SignInData, SignUpData, MealAnalysisData, Meal } from "../types";
+import {
+  SignInData,
+  SignUpData,
+  MealAnalysisData,
+  Meal,
+  AnalysisJob,
+  ChatStreamResult,
+  ChatAction,
+  ChatThread,
+  ChatSearchResult,
+  Recipe,
+  RecipeInput,
+} from "../types";
 import * as SecureStore from "expo-secure-store";
 import { Platform } from "react-native";
 import { store } from "../store";
 import { router } from "expo-router";
+import { getDeviceTimeZone, toLocalDateString } from "../utils/dates";
 const API_URL = process.env.EXPO_PUBLIC_API_URL;
 // Get the correct API URL based on platform
 const getApiBaseUrl = () => {
@@ -127,6 +140,25 @@ const clearAuthToken = async (): Promise<void> => {
   }
 };
 
+// Stored meal photos are served from /api/images/:id and need the auth header
+export const getImageSource = async (
+  imageUrl?: string,
+  variant: "original" | "thumbnail" = "original"
+): Promise<{ uri: string; headers?: Record<string, string> } | null> => {
+  if (!imageUrl) return null;
+  if (!imageUrl.startsWith("/api/images/")) return { uri: imageUrl };
+
+  const origin = (API_BASE_URL || "").replace(/\/api\/?$/, "");
+  const uri = `${origin}${imageUrl}${
+    variant === "thumbnail" ? "?variant=thumbnail" : ""
+  }`;
+  const token = await getAuthToken();
+
+  return token
+    ? { uri, headers: { Authorization: `Bearer ${token}` } }
+    : { uri };
+};
+
 // Helper function to transform server meal data to client format
 const transformMealData = (serverMeal: any): Meal => {
   return {
@@ -217,6 +249,9 @@ api.interceptors.request.use(
         }
       }
 
+      // The server buckets meals, water and goals into the user's local days
+      config.headers["X-Timezone"] = getDeviceTimeZone();
+
       if (Platform.OS !== "web") {
         const token = await getAuthToken();
         if (token) {
@@ -298,7 +333,10 @@ export const authAPI = {
       console.log("🔑 Attempting sign in...");
       console.log("🌐 API URL:", `${API_BASE_URL}/auth/signin`);
 
-      const response = await api.post("/auth/signin", data);
+      const response = await api.post("/auth/signin", {
+        ...data,
+        timezone: getDeviceTimeZone(),
+      });
 
       // Store token for mobile only (web uses cookies)
       if (
@@ -333,7 +371,10 @@ export const authAPI = {
       console.log("🌐 API URL:", `${API_BASE_URL}/auth/signup`);
       console.log("📧 Email:", data.email);
 
-      const response = await api.post("/auth/signup", data);
+      const response = await api.post("/auth/signup", {
+        ...data,
+        timezone: getDeviceTimeZone(),
+      });
 
       console.log("✅ Signup API response:", response.data);
 
@@ -432,7 +473,7 @@ export const nutritionAPI = {
     imageBase64: string,
     updateText: string | undefined,
     language: string = "en"
-  ): Promise<{ success: boolean; data?: MealAnalysisData; error?: string }> => {
+  ): Promise<{ success: boolean; data?: AnalysisJob; error?: string }> => {
     try {
       console.log("🔍 Making analyze meal API request...");
       console.log("📊 Base64 length:", imageBase64.length);
@@ -451,13 +492,13 @@ export const nutritionAPI = {
       const requestData = {
         imageBase64: cleanBase64, // Send clean base64 without data URL prefix
         language: language === "he" ? "hebrew" : "english",
-        date: new Date().toISOString().split("T")[0],
+        date: toLocalDateString(),
         updateText: updateText,
       };
 
-      // Create a custom timeout for this specific request
+      // Only uploads the image; the analysis itself runs as a job on the server
       const response = await api.post("/nutrition/analyze", requestData, {
-        timeout: 90000, // 90 seconds for image analysis
+        timeout: 60000,
         headers: {
           "Content-Type": "application/json",
         },
@@ -522,6 +563,41 @@ export const nutritionAPI = {
     }
   },
 
+  // Analyzes a typed or dictated meal description; nothing is saved until
+  // the reviewed meal is posted through saveMeal
+  logMealText: async (
+    text: string,
+    language: string,
+    source: "text" | "voice" = "text"
+  ): Promise<{ success: boolean; data?: MealAnalysisData; error?: string }> => {
+    try {
+      console.log("📝 Making text meal log API request...");
+      const response = await api.post("/nutrition/log-text", {
+        text,
+        language: language === "he" ? "hebrew" : "english",
+        source,
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error("💥 Text meal log API error:", error);
+      return {
+        success: false,
+        error:
+          error.response?.data?.error || "Failed to analyze meal description",
+      };
+    }
+  },
+
+  getAnalysisJob: async (jobId: string): Promise<AnalysisJob> => {
+    const response = await api.get(`/nutrition/analysis-jobs/${jobId}`);
+    return response.data.data;
+  },
+
+  retryAnalysisJob: async (jobId: string): Promise<AnalysisJob> => {
+    const response = await api.post(`/nutrition/analysis-jobs/${jobId}/retry`);
+    return response.data.data;
+  },
+
   updateMeal: async (
     meal_id: string,
     updateText: string
@@ -782,7 +858,7 @@ export const nutritionAPI = {
 
       // Ensure we're sending the correct meal ID format
       const requestData = {
-        newDate: newDate || new Date().toISOString().split("T")[0],
+        newDate: newDate || toLocalDateString(),
       };
 
       console.log("📤 Request data:", requestData);
@@ -1087,6 +1163,26 @@ export const userAPI = {
     const response = await api.delete("/user/delete");
     return response.data;
   },
+
+  // Meat/dairy waiting times, in minutes
+  getKosherSettings: async () => {
+    const response = await api.get("/user/kosher-settings");
+    return response.data.data;
+  },
+
+  updateKosherSettings: async (data: {
+    meat_to_dairy_wait_minutes?: number;
+    dairy_to_meat_wait_minutes?: number;
+  }) => {
+    const response = await api.put("/user/kosher-settings", data);
+    return response.data.data;
+  },
+
+  // Tokens and estimated cost of AI requests over the last `days` days
+  getAiUsage: async (days = 30) => {
+    const response = await api.get("/user/ai-usage", { params: { days } });
+    return response.data.data;
+  },
   resendVerificationCode: async (
     email: string
   ): Promise<{ success: boolean; error?: string }> => {
@@ -1106,6 +1202,197 @@ export const userAPI = {
   },
 };
 
+// BILLING API
+export const billingAPI = {
+  createCheckout: async (
+    plan: "PREMIUM" | "GOLD",
+    returnUrl?: string
+  ): Promise<{ sessionId: string; checkoutUrl: string }> => {
+    try {
+      console.log("💳 Creating checkout for plan:", plan);
+      const response = await api.post("/billing/checkout", {
+        plan,
+        success_url: returnUrl,
+        cancel_url: returnUrl,
+      });
+      if (!response.data.success) {
+        throw new Error(response.data.error || "Failed to start checkout");
+      }
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Create checkout error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to start checkout"
+      );
+    }
+  },
+
+  getCheckoutStatus: async (
+    sessionId: string
+  ): Promise<{ status: "pending" | "completed" | "failed"; plan?: string }> => {
+    const response = await api.get(`/billing/checkout/${sessionId}`);
+    return response.data.data;
+  },
+
+  getSubscription: async () => {
+    const response = await api.get("/billing/subscription");
+    return response.data.data;
+  },
+
+  cancelSubscription: async () => {
+    const response = await api.post("/billing/cancel");
+    return response.data.data;
+  },
+};
+
+// DAILY GOALS API
+export const dailyGoalsAPI = {
+  // Goals in effect on a local day (today by default)
+  getGoals: async (date?: string) => {
+    const response = await api.get("/daily-goals", { params: { date } });
+    return response.data.data;
+  },
+
+  recalculateGoals: async () => {
+    const response = await api.put("/daily-goals");
+    return response.data.data;
+  },
+
+  getGoalHistory: async () => {
+    const response = await api.get("/daily-goals/history");
+    return response.data.data;
+  },
+
+  // weekday: 0 = Sunday ... 6 = Saturday; targets not given stay as they are
+  setWeekdayOverrides: async (
+    overrides: {
+      weekday: number;
+      calories?: number;
+      protein_g?: number;
+      carbs_g?: number;
+      fats_g?: number;
+      fiber_g?: number;
+      sodium_mg?: number;
+      sugar_g?: number;
+      water_ml?: number;
+    }[]
+  ) => {
+    try {
+      const response = await api.put("/daily-goals/weekday-overrides", {
+        overrides,
+      });
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Set weekday overrides error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to update weekday goals"
+      );
+    }
+  },
+};
+
+// STREAKS API
+type StreakRule =
+  | { type: "meals_logged"; min: number }
+  | { type: "calories_within_goal"; tolerance_percent: number }
+  | { type: "protein_goal" }
+  | { type: "water_goal" };
+
+type StreakCriteria = { mode: "all" | "any"; rules: StreakRule[] };
+
+export const streaksAPI = {
+  getStreaks: async () => {
+    const response = await api.get("/streaks");
+    return response.data.data;
+  },
+
+  createStreak: async (data: {
+    key: string;
+    name: string;
+    criteria: StreakCriteria;
+    is_primary?: boolean;
+  }) => {
+    try {
+      const response = await api.post("/streaks", data);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Create streak error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to create streak"
+      );
+    }
+  },
+
+  updateStreak: async (
+    streakId: string,
+    data: { name?: string; criteria?: StreakCriteria; is_primary?: true }
+  ) => {
+    const response = await api.put(`/streaks/${streakId}`, data);
+    return response.data.data;
+  },
+
+  deleteStreak: async (streakId: string) => {
+    const response = await api.delete(`/streaks/${streakId}`);
+    return response.data;
+  },
+
+  getStreakDays: async (streakId: string, from?: string, to?: string) => {
+    const response = await api.get(`/streaks/${streakId}/days`, {
+      params: { from, to },
+    });
+    return response.data.data;
+  },
+};
+
+// BODY METRICS API
+export const bodyMetricsAPI = {
+  logMetric: async (data: {
+    weight_kg?: number;
+    body_fat_percentage?: number;
+    waist_cm?: number;
+    hip_cm?: number;
+    measured_at?: string;
+    notes?: string;
+  }) => {
+    try {
+      console.log("⚖️ Logging body metric:", data);
+      const response = await api.post("/body-metrics", data);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Log body metric error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to log body metric"
+      );
+    }
+  },
+
+  // Entries, daily trend weight and summary; last 90 days by default
+  getMetrics: async (from?: string, to?: string) => {
+    const response = await api.get("/body-metrics", {
+      params: { from, to },
+    });
+    return response.data.data;
+  },
+
+  getEnergyEstimate: async () => {
+    const response = await api.get("/body-metrics/energy");
+    return response.data.data;
+  },
+
+  deleteMetric: async (metricId: string) => {
+    const response = await api.delete(`/body-metrics/${metricId}`);
+    return response.data;
+  },
+};
+
 // MEAL PLAN API
 export const mealPlanAPI = {
   loadMealPlan: async (): Promise<{
@@ -1275,15 +1562,79 @@ export const getStatistics = async (
   }
 };
 
+// RECIPES API
+export const recipesAPI = {
+  getRecipes: async (): Promise<Recipe[]> => {
+    const response = await api.get("/recipes");
+    return response.data.data;
+  },
+
+  getRecipe: async (recipeId: string): Promise<Recipe> => {
+    const response = await api.get(`/recipes/${recipeId}`);
+    return response.data.data;
+  },
+
+  createRecipe: async (data: RecipeInput): Promise<Recipe> => {
+    try {
+      const response = await api.post("/recipes", data);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Create recipe error:", error);
+      throw new Error(
+        error.response?.data?.error ||
+          error.message ||
+          "Failed to create recipe"
+      );
+    }
+  },
+
+  updateRecipe: async (
+    recipeId: string,
+    data: Partial<RecipeInput>
+  ): Promise<Recipe> => {
+    const response = await api.put(`/recipes/${recipeId}`, data);
+    return response.data.data;
+  },
+
+  deleteRecipe: async (recipeId: string) => {
+    const response = await api.delete(`/recipes/${recipeId}`);
+    return response.data;
+  },
+
+  // Logs the servings as a meal and returns it
+  logServings: async (recipeId: string, servings: number) => {
+    const response = await api.post(`/recipes/${recipeId}/log`, { servings });
+    return response.data.data;
+  },
+
+  addToMealPlan: async (
+    recipeId: string,
+    slot: {
+      plan_id?: string;
+      day_of_week: number;
+      meal_timing: string;
+      meal_order?: number;
+    }
+  ) => {
+    const response = await api.post(`/recipes/${recipeId}/schedule`, slot);
+    return response.data.data;
+  },
+};
+
 // NEW CHAT API
 export const chatAPI = {
-  sendMessage: async (message: string, language: string = "hebrew") => {
+  sendMessage: async (
+    message: string,
+    language: string = "hebrew",
+    threadId?: string
+  ) => {
     try {
       console.log("💬 Sending chat message:", message);
 
       const response = await api.post("/chat/message", {
         message,
         language,
+        threadId,
       });
 
       console.log("✅ Chat response:", response.data);
@@ -1294,6 +1645,87 @@ export const chatAPI = {
     }
   },
 
+  /**
+   * Sends a message and streams the answer: onToken gets each piece of text
+   * as the server writes it, and `result` resolves with the saved answer.
+   * XMLHttpRequest is used because React Native's fetch can't read a
+   * response body while it downloads. `cancel` stops the answer; the
+   * server keeps what was already sent. Without a threadId the answer goes
+   * to the latest active thread. onAction gets each change the assistant
+   * proposes, to show for confirmation.
+   */
+  streamMessage: (
+    message: string,
+    language: string,
+    onToken: (text: string) => void,
+    threadId?: string,
+    onAction: (action: ChatAction) => void = () => {}
+  ) => {
+    const xhr = new XMLHttpRequest();
+    let cancelled = false;
+
+    const result = (async () => {
+      const token = Platform.OS !== "web" ? await getAuthToken() : null;
+      if (cancelled) throw new Error("Chat stream cancelled");
+
+      return new Promise<ChatStreamResult>((resolve, reject) => {
+        let readUpTo = 0;
+        let done: ChatStreamResult | null = null;
+        let failure: string | null = null;
+
+        // Events are separated by blank lines; a partial one waits for more
+        const readEvents = () => {
+          const text = xhr.responseText || "";
+          let end = text.indexOf("\n\n", readUpTo);
+          while (end !== -1) {
+            const block = text.slice(readUpTo, end);
+            readUpTo = end + 2;
+            end = text.indexOf("\n\n", readUpTo);
+
+            const event = /^event: (.*)$/m.exec(block)?.[1];
+            const data = /^data: (.*)$/m.exec(block)?.[1];
+            if (!event || !data) continue;
+
+            const payload = JSON.parse(data);
+            if (event === "token") onToken(payload.text);
+            else if (event === "action") onAction(payload);
+            else if (event === "done") done = payload;
+            else if (event === "error") failure = payload.error;
+          }
+        };
+
+        xhr.open("POST", `${API_BASE_URL}/chat/message/stream`);
+        xhr.setRequestHeader("Content-Type", "application/json");
+        xhr.setRequestHeader("Accept", "text/event-stream");
+        xhr.setRequestHeader("X-Timezone", getDeviceTimeZone());
+        if (token) xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+        xhr.withCredentials = Platform.OS === "web";
+
+        xhr.onprogress = readEvents;
+        xhr.onload = () => {
+          if (xhr.status !== 200) {
+            reject(new Error(`Chat stream failed with status ${xhr.status}`));
+            return;
+          }
+          readEvents();
+          if (done) resolve(done);
+          else reject(new Error(failure || "Chat stream ended unexpectedly"));
+        };
+        xhr.onerror = () => reject(new Error("Network Error"));
+        xhr.onabort = () => reject(new Error("Chat stream cancelled"));
+        xhr.send(JSON.stringify({ message, language, threadId }));
+      });
+    })();
+
+    return {
+      result,
+      cancel: () => {
+        cancelled = true;
+        xhr.abort();
+      },
+    };
+  },
+
   getChatHistory: async (limit: number = 50) => {
     try {
       console.log("📜 Getting chat history...");
@@ -1323,6 +1755,95 @@ export const chatAPI = {
       throw error;
     }
   },
+  getThreads: async (archived: boolean = false): Promise<ChatThread[]> => {
+    try {
+      const response = await api.get("/chat/threads", {
+        params: archived ? { archived: true } : undefined,
+      });
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Chat threads API error:", error);
+      throw error;
+    }
+  },
+
+  createThread: async (title?: string): Promise<ChatThread> => {
+    try {
+      const response = await api.post("/chat/threads", { title });
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Create chat thread API error:", error);
+      throw error;
+    }
+  },
+
+  getThreadMessages: async (threadId: string, limit: number = 50) => {
+    try {
+      const response = await api.get(`/chat/threads/${threadId}/messages`, {
+        params: { limit },
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error("💥 Chat thread messages API error:", error);
+      throw error;
+    }
+  },
+
+  updateThread: async (
+    threadId: string,
+    changes: { title?: string; archived?: boolean }
+  ): Promise<ChatThread> => {
+    try {
+      const response = await api.patch(`/chat/threads/${threadId}`, changes);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Update chat thread API error:", error);
+      throw error;
+    }
+  },
+
+  deleteThread: async (threadId: string) => {
+    try {
+      const response = await api.delete(`/chat/threads/${threadId}`);
+      return response.data;
+    } catch (error: any) {
+      console.error("💥 Delete chat thread API error:", error);
+      throw error;
+    }
+  },
+
+  // Returns the action with its new status; a failed run comes back as FAILED
+  confirmAction: async (actionId: string): Promise<ChatAction> => {
+    try {
+      const response = await api.post(`/chat/actions/${actionId}/confirm`);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Confirm chat action API error:", error);
+      throw error;
+    }
+  },
+
+  cancelAction: async (actionId: string): Promise<ChatAction> => {
+    try {
+      const response = await api.post(`/chat/actions/${actionId}/cancel`);
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Cancel chat action API error:", error);
+      throw error;
+    }
+  },
+
+  searchMessages: async (query: string): Promise<ChatSearchResult[]> => {
+    try {
+      const response = await api.get("/chat/search", {
+        params: { q: query },
+      });
+      return response.data.data;
+    } catch (error: any) {
+      console.error("💥 Chat search API error:", error);
+      throw error;
+    }
+  },
 };
 
 // QUESTIONNAIRE API
@@ -1378,6 +1899,10 @@ export const foodScannerAPI = {
       console.log("✅ Barcode scan response:", response.data);
       return response.data;
     } catch (error: any) {
+      // Unknown barcode: hand the body back so the screen can offer manual entry
+      if (error.response?.data?.code === "PRODUCT_NOT_FOUND") {
+        return error.response.data;
+      }
       console.error("💥 Barcode scan API error:", error);
       console.error("💥 Error details:", {
         status: error.response?.status,
@@ -1455,6 +1980,60 @@ export const foodScannerAPI = {
       throw error;
     }
   },
+
+  createProduct: async (product: any) => {
+    try {
+      console.log("➕ Creating product:", product.barcode);
+
+      const response = await api.post("/food-scanner/products", product);
+      return response.data;
+    } catch (error: any) {
+      console.error("💥 Create product API error:", error);
+      throw error;
+    }
+  },
+
+  saveCorrection: async (barcode: string, correction: any) => {
+    try {
+      console.log("✏️ Saving product correction:", barcode);
+
+      const response = await api.put(
+        `/food-scanner/products/${barcode}/correction`,
+        correction
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error("💥 Save correction API error:", error);
+      throw error;
+    }
+  },
+
+  deleteCorrection: async (barcode: string) => {
+    try {
+      const response = await api.delete(
+        `/food-scanner/products/${barcode}/correction`
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error("💥 Delete correction API error:", error);
+      throw error;
+    }
+  },
+
+  flagProduct: async (barcode: string, reason: string) => {
+    try {
+      console.log("🚩 Flagging product:", barcode);
+
+      const response = await api.post(
+        `/food-scanner/products/${barcode}/flag`,
+        { reason }
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error("💥 Flag product API error:", error);
+      throw error;
+    }
+  },
 };
 // Adding meal update and delete methods to the mealAPI object.
 export const mealAPI = {
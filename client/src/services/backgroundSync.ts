@@ -4,6 +4,7 @@ import { nutritionAPI, calendarAPI, userAPI } from "./api";
 import * as TaskManager from "expo-task-manager";
 import * as BackgroundFetch from "expo-background-fetch";
 import { deviceAPI } from "@/src/services/deviceAPI";
+import { toLocalDateString } from "@/src/utils/dates";
 
 const BACKGROUND_SYNC_TASK = "background-sync";
 
@@ -12,7 +13,7 @@ TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
   try {
     console.log("🔄 Running background sync...");
 
-    const today = new Date().toISOString().split("T")[0];
+    const today = toLocalDateString();
 
     // Prefetch critical data
     await Promise.allSettled([
@@ -81,7 +82,7 @@ class BackgroundSyncService {
     try {
       console.log("🔄 Manual sync triggered...");
 
-      const today = new Date().toISOString().split("T")[0];
+      const today = toLocalDateString();
 
       // Invalidate and refetch critical data
       await Promise.allSettled([
@@ -105,7 +106,7 @@ class BackgroundSyncService {
     try {
       console.log("⚡ Prefetching common data...");
 
-      const today = new Date().toISOString().split("T")[0];
+      const today = toLocalDateString();
       const currentDate = new Date();
 
       await Promise.allSettled([
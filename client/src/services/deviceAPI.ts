@@ -1,8 +1,7 @@
-import { healthKitService, HealthData } from "./healthKit";
+import { HealthKitService, HealthData } from "./healthKit";
 import { deviceConnectionService } from "./deviceConnections";
-import { nutritionAPI } from "./api";
-import axios from "axios";
-import { Platform } from "react-native";
+import { api, nutritionAPI } from "./api";
+import { getDeviceTimeZone, toLocalDateString } from "../utils/dates";
 
 export interface ConnectedDevice {
   id: string;
@@ -26,22 +25,11 @@ export interface DailyBalance {
   balance: number;
   balanceStatus: "balanced" | "slight_imbalance" | "significant_imbalance";
 }
-const API_URL = process.env.EXPO_PUBLIC_API_URL;
-// Get the correct API URL based on platform
-const getApiBaseUrl = () => {
-  if (Platform.OS === "web") {
-    return "http://localhost:5000/api";
-  } else {
-    return API_URL;
-  }
-};
 
-// Create API instance for device endpoints
-const deviceAxios = axios.create({
-  baseURL: getApiBaseUrl(),
-  timeout: 30000,
-  withCredentials: Platform.OS === "web",
-});
+// Days of history uploaded when a phone-synced device is first connected
+const BACKFILL_DAYS = 90;
+// The server accepts at most this many days per sync request
+const MAX_SYNC_BATCH = 90;
 
 class DeviceAPIService {
   async getConnectedDevices(): Promise<ConnectedDevice[]> {
@@ -50,7 +38,7 @@ class DeviceAPIService {
 
       // First check server for connected devices
       try {
-        const response = await deviceAxios.get("/devices");
+        const response = await api.get("/devices");
         if (response.data.success) {
           const serverDevices = response.data.data.map((device: any) => ({
             id: device.connected_device_id,
@@ -86,41 +74,32 @@ class DeviceAPIService {
       console.log("🔗 Connecting device:", deviceType);
 
       if (deviceType === "APPLE_HEALTH") {
-        const success = await healthKitService.requestPermissions();
-        if (success) {
-          // Register with server
-          try {
-            await deviceAxios.post("/devices/connect", {
-              deviceType: "APPLE_HEALTH",
-              deviceName: "Apple Health",
-            });
-          } catch (serverError) {
-            console.warn("⚠️ Failed to register with server:", serverError);
-          }
-
-          console.log("✅ Apple Health connected successfully");
-          return true;
-        }
-        return false;
-      }
-
-      // For other devices, use OAuth flow
-      const result = await deviceConnectionService.connectDevice(deviceType);
+        await HealthKitService.initHealthKit();
 
-      if (result.success && result.accessToken) {
-        // Register with server
+        // Register with server, then upload the history HealthKit already has
         try {
-          await deviceAxios.post("/devices/connect", {
-            deviceType,
-            deviceName:
-              result.deviceData?.displayName || `${deviceType} Device`,
-            accessToken: result.accessToken,
-            refreshToken: result.refreshToken,
+          const response = await api.post("/devices/connect", {
+            deviceType: "APPLE_HEALTH",
+            deviceName: "Apple Health",
+            timezone: getDeviceTimeZone(),
           });
+          await this.uploadHealthKitHistory(
+            response.data.data.connected_device_id,
+            BACKFILL_DAYS
+          );
         } catch (serverError) {
           console.warn("⚠️ Failed to register with server:", serverError);
         }
 
+        console.log("✅ Apple Health connected successfully");
+        return true;
+      }
+
+      // For other devices, the server completes the OAuth flow and
+      // registers the device
+      const result = await deviceConnectionService.connectDevice(deviceType);
+
+      if (result.success) {
         console.log("✅ Device connected successfully:", deviceType);
         return true;
       }
@@ -137,111 +116,38 @@ class DeviceAPIService {
     try {
       console.log("🔄 Syncing device:", deviceId);
 
-      if (deviceId === "apple_health") {
-        // Get today's health data
-        const today = new Date().toISOString().split("T")[0];
-        const healthData = await healthKitService.getHealthDataForDate(today);
-
-        // Send to server
-        try {
-          await deviceAxios.post(`/devices/${deviceId}/sync`, {
-            activityData: {
-              steps: healthData.steps,
-              caloriesBurned: healthData.caloriesBurned,
-              activeMinutes: healthData.activeMinutes,
-              bmr: 1800, // Default BMR estimate
-              heartRate: healthData.heartRate,
-              weight: healthData.weight,
-              distance: healthData.distance,
-            },
-          });
-        } catch (serverError) {
-          console.warn("⚠️ Failed to sync with server:", serverError);
-        }
-
-        console.log("📊 Synced Apple Health data:", healthData);
-        return true;
-      }
-
-      // For other devices, fetch data using their APIs
       const devices = await this.getConnectedDevices();
       const device = devices.find((d) => d.id === deviceId);
 
-      if (!device) {
-        console.error("❌ Device not found:", deviceId);
-        return false;
-      }
-
-      const today = new Date().toISOString().split("T")[0];
-      let activityData = null;
-
-      // Get stored tokens
-      const tokens = await deviceConnectionService.getDeviceTokens(device.type);
-
-      if (!tokens.accessToken) {
-        console.error("❌ No access token found for device:", device.type);
-        return false;
-      }
+      if (device?.type === "APPLE_HEALTH") {
+        // Re-upload every day since the last sync, which may have been partial
+        let days = BACKFILL_DAYS;
+        if (device.lastSync) {
+          const lastSyncDay = new Date(device.lastSync);
+          lastSyncDay.setHours(0, 0, 0, 0);
+          const today = new Date();
+          today.setHours(0, 0, 0, 0);
+          days =
+            Math.round((today.getTime() - lastSyncDay.getTime()) / 86400000) +
+            1;
+        }
 
-      // Fetch data based on device type
-      switch (device.type) {
-        case "GOOGLE_FIT":
-          activityData = await deviceConnectionService.fetchGoogleFitData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "FITBIT":
-          activityData = await deviceConnectionService.fetchFitbitData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "WHOOP":
-          activityData = await deviceConnectionService.fetchWhoopData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "POLAR":
-          activityData = await deviceConnectionService.fetchPolarData(
-            tokens.accessToken,
-            today
-          );
-          break;
-        case "GARMIN":
-          activityData = await deviceConnectionService.fetchGarminData(
-            tokens.accessToken,
-            tokens.refreshToken || "",
-            today
-          );
-          break;
-        default:
-          console.error("❌ Unsupported device type:", device.type);
-          return false;
+        await this.uploadHealthKitHistory(
+          deviceId,
+          Math.min(days, BACKFILL_DAYS)
+        );
+        return true;
       }
 
-      if (activityData) {
-        // Send to server
-        try {
-          await deviceAxios.post(`/devices/${deviceId}/sync`, {
-            activityData: {
-              steps: activityData.steps || 0,
-              caloriesBurned: activityData.caloriesBurned || 0,
-              activeMinutes: activityData.activeMinutes || 0,
-              bmr: 1800, // Default BMR estimate
-              distance: activityData.distance,
-              heartRate: activityData.heartRate,
-            },
-          });
-        } catch (serverError) {
-          console.warn("⚠️ Failed to sync with server:", serverError);
-        }
+      // Other devices are pulled by the server with its stored tokens
+      const response = await api.post(`/devices/${deviceId}/sync-now`);
 
-        console.log("📊 Synced device data:", activityData);
+      if (response.data.success) {
+        console.log("📊 Server synced device:", response.data.data);
         return true;
       }
 
+      console.error("❌ Server sync failed:", response.data.error);
       return false;
     } catch (error) {
       console.error("💥 Error syncing device:", error);
@@ -249,15 +155,43 @@ class DeviceAPIService {
     }
   }
 
+  // Sends the last `days` local days from HealthKit as one dated batch
+  private async uploadHealthKitHistory(deviceId: string, days: number) {
+    const records = [];
+    for (let offset = days - 1; offset >= 0; offset--) {
+      const date = new Date();
+      date.setDate(date.getDate() - offset);
+
+      const healthData = await HealthKitService.getDailyHealthData(date);
+      records.push({
+        date: toLocalDateString(date),
+        steps: healthData.steps,
+        caloriesBurned: healthData.caloriesBurned,
+        activeMinutes: healthData.activeMinutes,
+        bmr: 1800, // Default BMR estimate
+        heartRate: healthData.heartRate || undefined,
+        distance: healthData.distance,
+      });
+    }
+
+    for (let i = 0; i < records.length; i += MAX_SYNC_BATCH) {
+      await api.post(`/devices/${deviceId}/sync`, {
+        timezone: getDeviceTimeZone(),
+        records: records.slice(i, i + MAX_SYNC_BATCH),
+      });
+    }
+
+    console.log(`📊 Uploaded ${records.length} day(s) of Apple Health data`);
+  }
+
   async getActivityData(date: string): Promise<HealthData | null> {
     try {
       console.log("📊 Getting activity data for:", date);
 
       // Try server first
       try {
-        const response = await deviceAxios.get(
-          `/devices/activity/${date}/${date}`
-        );
+        // One record per day, merged across all connected devices
+        const response = await api.get(`/devices/merged/${date}/${date}`);
         if (response.data.success && response.data.data.length > 0) {
           const serverData = response.data.data[0];
           return {
@@ -281,39 +215,8 @@ class DeviceAPIService {
       const devices = await this.getConnectedDevices();
       const connectedDevice = devices.find((d) => d.status === "CONNECTED");
 
-      if (connectedDevice) {
-        if (connectedDevice.type === "APPLE_HEALTH") {
-          return await healthKitService.getHealthDataForDate(date);
-        } else {
-          // Try to get data from other connected devices
-          const tokens = await deviceConnectionService.getDeviceTokens(
-            connectedDevice.type
-          );
-          if (tokens.accessToken) {
-            switch (connectedDevice.type) {
-              case "GOOGLE_FIT":
-                return await deviceConnectionService.fetchGoogleFitData(
-                  tokens.accessToken,
-                  date
-                );
-              case "FITBIT":
-                return await deviceConnectionService.fetchFitbitData(
-                  tokens.accessToken,
-                  date
-                );
-              case "WHOOP":
-                return await deviceConnectionService.fetchWhoopData(
-                  tokens.accessToken,
-                  date
-                );
-              case "POLAR":
-                return await deviceConnectionService.fetchPolarData(
-                  tokens.accessToken,
-                  date
-                );
-            }
-          }
-        }
+      if (connectedDevice?.type === "APPLE_HEALTH") {
+        return await HealthKitService.getDailyHealthData(new Date(date));
       }
 
       console.log("⚠️ No connected devices found");
@@ -330,7 +233,7 @@ class DeviceAPIService {
 
       // Try server first
       try {
-        const response = await deviceAxios.get(`/devices/balance/${date}`);
+        const response = await api.get(`/devices/balance/${date}`);
         if (response.data.success) {
           console.log("✅ Daily balance from server:", response.data.data);
           return response.data.data;
@@ -361,9 +264,7 @@ class DeviceAPIService {
       const balancePercent = Math.abs(balance) / caloriesOut;
 
       let balanceStatus:
-        | "balanced"
-        | "slight_imbalance"
-        | "significant_imbalance";
+        "balanced" | "slight_imbalance" | "significant_imbalance";
       if (balancePercent <= 0.1) {
         balanceStatus = "balanced";
       } else if (balancePercent <= 0.25) {
@@ -387,6 +288,35 @@ class DeviceAPIService {
     }
   }
 
+  // The primary device is the default source for merged daily activity
+  async setPrimaryDevice(deviceId: string): Promise<boolean> {
+    try {
+      const response = await api.put(`/devices/${deviceId}/primary`);
+      return response.data.success;
+    } catch (error) {
+      console.error("💥 Error setting primary device:", error);
+      return false;
+    }
+  }
+
+  // Take one metric (e.g. "sleep_hours") from a specific device type;
+  // null goes back to the primary device
+  async setMetricSource(
+    metric: string,
+    deviceType: ConnectedDevice["type"] | null
+  ): Promise<boolean> {
+    try {
+      const response = await api.put("/devices/merge-preferences", {
+        metric,
+        deviceType,
+      });
+      return response.data.success;
+    } catch (error) {
+      console.error("💥 Error setting metric source:", error);
+      return false;
+    }
+  }
+
   async disconnectDevice(deviceId: string): Promise<boolean> {
     try {
       console.log("🔌 Disconnecting device:", deviceId);
@@ -402,7 +332,7 @@ class DeviceAPIService {
 
       // Disconnect from server
       try {
-        await deviceAxios.delete(`/devices/${deviceId}`);
+        await api.delete(`/devices/${deviceId}`);
       } catch (serverError) {
         console.warn("⚠️ Failed to disconnect from server:", serverError);
       }
@@ -5,17 +5,26 @@ import {
   PendingMeal,
   AIResponse,
   MealAnalysisSchema,
+  AnalysisJob,
 } from "../types";
 import { mealAPI, nutritionAPI } from "../services/api";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Platform } from "react-native";
 import * as FileSystem from "expo-file-system";
 
+// An analysis job started from this device. The photo is kept in memory
+// only, for the review screen once the job completes.
+export interface TrackedAnalysisJob extends AnalysisJob {
+  image_base_64: string;
+}
+
 interface MealState {
   meals: Meal[];
   pendingMeal: PendingMeal | null;
+  analysisJobs: TrackedAnalysisJob[];
   isLoading: boolean;
   isAnalyzing: boolean;
+  isLoggingText: boolean;
   isPosting: boolean;
   isUpdating: boolean;
   isSavingFeedback: boolean;
@@ -27,8 +36,10 @@ interface MealState {
 const initialState: MealState = {
   meals: [],
   pendingMeal: null,
+  analysisJobs: [],
   isLoading: false,
   isAnalyzing: false,
+  isLoggingText: false,
   isPosting: false,
   isUpdating: false,
   isSavingFeedback: false,
@@ -38,6 +49,9 @@ const initialState: MealState = {
 };
 
 const PENDING_MEAL_KEY = "pendingMeal";
+const ANALYSIS_POLL_INTERVAL_MS = 2000;
+// Covers the server's retries with backoff, with room to spare
+const ANALYSIS_POLL_TIMEOUT_MS = 5 * 60 * 1000;
 
 // Helper function to compress/resize image if needed
 export const processImage = async (imageUri: string): Promise<string> => {
@@ -194,7 +208,7 @@ export const analyzeMeal = createAsyncThunk(
   "meal/analyzeMeal",
   async (
     params: { imageBase64: string; updateText?: string; language?: string },
-    { rejectWithValue }
+    { dispatch, rejectWithValue }
   ) => {
     try {
       console.log("Starting meal analysis with base64 data...");
@@ -224,34 +238,16 @@ export const analyzeMeal = createAsyncThunk(
       console.log("API response received:", response);
 
       if (response && response.success && response.data) {
-        // Validate API response data
-        try {
-          const validatedData = MealAnalysisSchema.parse(response.data);
-          console.log("Data validation successful");
-        } catch (validationError) {
-          console.warn("API response validation failed:", validationError);
-          // Continue anyway, but log the issue
-        }
-
-        const pendingMeal: PendingMeal = {
+        const job: TrackedAnalysisJob = {
+          ...response.data,
           image_base_64: cleanBase64, // Store clean base64 without data URL prefix
-          analysis: response.data,
-          timestamp: Date.now(),
         };
-        console.log("Pending meal created:", pendingMeal);
-
-        // Save to storage with error handling
-        try {
-          const serializedMeal = JSON.stringify(pendingMeal);
-          await AsyncStorage.setItem(PENDING_MEAL_KEY, serializedMeal);
-          console.log("Pending meal saved to storage successfully");
-        } catch (storageError) {
-          console.warn("Failed to save pending meal to storage:", storageError);
-          // Don't fail the analysis if storage fails
-        }
+        console.log("Analysis queued:", job.job_id);
 
-        console.log("Analysis completed successfully");
-        return pendingMeal;
+        // The analysis runs on the server; follow it in the background so
+        // the user can keep logging meals meanwhile
+        dispatch(watchAnalysisJob(job.job_id));
+        return job;
       } else {
         const errorMessage =
           response?.error || "Analysis failed - no data returned";
@@ -287,6 +283,141 @@ export const analyzeMeal = createAsyncThunk(
   }
 );
 
+/**
+ * Polls an analysis job until it completes or fails. The meal of a completed
+ * job is already logged on the server; it opens for review as the pending
+ * meal unless another meal is being reviewed.
+ */
+export const watchAnalysisJob = createAsyncThunk(
+  "meal/watchAnalysisJob",
+  async (jobId: string, { dispatch, getState, rejectWithValue }) => {
+    const startedAt = Date.now();
+
+    try {
+      while (Date.now() - startedAt < ANALYSIS_POLL_TIMEOUT_MS) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, ANALYSIS_POLL_INTERVAL_MS)
+        );
+
+        const job: AnalysisJob = await nutritionAPI.getAnalysisJob(jobId);
+        dispatch(mealSlice.actions.analysisJobUpdated(job));
+
+        if (job.status === "FAILED") {
+          return rejectWithValue(job.error || "Analysis failed");
+        }
+        if (job.status !== "COMPLETED" || !job.result) continue;
+
+        try {
+          MealAnalysisSchema.parse(job.result);
+        } catch (validationError) {
+          console.warn("Analysis result validation failed:", validationError);
+        }
+
+        const state = getState() as { meal: MealState };
+        const tracked = state.meal.analysisJobs.find(
+          (item) => item.job_id === jobId
+        );
+        const pendingMeal: PendingMeal = {
+          image_base_64: tracked?.image_base_64 || "",
+          analysis: job.result,
+          timestamp: Date.now(),
+          meal_id: job.meal_id.toString(),
+        };
+
+        if (!state.meal.pendingMeal) {
+          try {
+            await AsyncStorage.setItem(
+              PENDING_MEAL_KEY,
+              JSON.stringify(pendingMeal)
+            );
+          } catch (storageError) {
+            console.warn(
+              "Failed to save pending meal to storage:",
+              storageError
+            );
+          }
+        }
+
+        dispatch(fetchMeals());
+        console.log("Analysis job completed:", jobId);
+        return pendingMeal;
+      }
+
+      return rejectWithValue(
+        "Analysis is taking longer than expected - the meal will appear in your history when it's done"
+      );
+    } catch (error) {
+      console.error("Analysis job polling error:", error);
+      return rejectWithValue(
+        "Lost track of the analysis - the meal will appear in your history when it's done"
+      );
+    }
+  }
+);
+
+export const retryAnalysisJob = createAsyncThunk(
+  "meal/retryAnalysisJob",
+  async (jobId: string, { dispatch, rejectWithValue }) => {
+    try {
+      const job: AnalysisJob = await nutritionAPI.retryAnalysisJob(jobId);
+      dispatch(mealSlice.actions.analysisJobUpdated(job));
+      dispatch(watchAnalysisJob(jobId));
+      return job;
+    } catch (error: any) {
+      console.error("Retry analysis error:", error);
+      return rejectWithValue(
+        error.response?.data?.error || "Failed to retry the analysis"
+      );
+    }
+  }
+);
+
+// Analyzes a typed or dictated meal description into a pending meal for
+// review. There is no photo, so the meal is saved without an image.
+export const logMealFromText = createAsyncThunk(
+  "meal/logMealFromText",
+  async (
+    params: { text: string; language?: string; source?: "text" | "voice" },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await nutritionAPI.logMealText(
+        params.text,
+        params.language || "en",
+        params.source
+      );
+
+      if (!response.success || !response.data) {
+        return rejectWithValue(
+          response.error || "Failed to analyze meal description"
+        );
+      }
+
+      const pendingMeal: PendingMeal = {
+        image_base_64: "",
+        analysis: response.data,
+        timestamp: Date.now(),
+      };
+
+      try {
+        await AsyncStorage.setItem(
+          PENDING_MEAL_KEY,
+          JSON.stringify(pendingMeal)
+        );
+        // Set by the review screen once a meal is posted; this one isn't yet
+        await AsyncStorage.removeItem("postedMealId");
+      } catch (storageError) {
+        console.warn("Failed to save pending meal to storage:", storageError);
+      }
+
+      return pendingMeal;
+    } catch (error) {
+      console.error("Text meal log error:", error);
+      return rejectWithValue("Failed to analyze meal description");
+    }
+  }
+);
+
 export const validateAndFixBase64Image = (
   base64String: string
 ): string | null => {
@@ -558,6 +689,19 @@ const mealSlice = createSlice({
         meal_id: action.payload.meal_id,
       };
     },
+    analysisJobUpdated: (state, action: PayloadAction<AnalysisJob>) => {
+      const job = state.analysisJobs.find(
+        (item) => item.job_id === action.payload.job_id
+      );
+      if (job) {
+        Object.assign(job, action.payload);
+      }
+    },
+    dismissAnalysisJob: (state, action: PayloadAction<string>) => {
+      state.analysisJobs = state.analysisJobs.filter(
+        (job) => job.job_id !== action.payload
+      );
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -569,9 +713,9 @@ const mealSlice = createSlice({
       })
       .addCase(analyzeMeal.fulfilled, (state, action) => {
         state.isAnalyzing = false;
-        state.pendingMeal = action.payload;
+        state.analysisJobs.push(action.payload);
         state.error = null;
-        console.log("Analysis completed successfully");
+        console.log("Analysis queued successfully");
       })
       .addCase(analyzeMeal.rejected, (state, action) => {
         state.isAnalyzing = false;
@@ -579,6 +723,43 @@ const mealSlice = createSlice({
         console.log("Analysis failed:", action.payload);
       })
 
+      // Text meal log cases; errors are shown by the form that sent them
+      .addCase(logMealFromText.pending, (state) => {
+        state.isLoggingText = true;
+      })
+      .addCase(logMealFromText.fulfilled, (state, action) => {
+        state.isLoggingText = false;
+        state.pendingMeal = action.payload;
+      })
+      .addCase(logMealFromText.rejected, (state) => {
+        state.isLoggingText = false;
+      })
+
+      // Analysis job cases
+      .addCase(watchAnalysisJob.fulfilled, (state, action) => {
+        state.analysisJobs = state.analysisJobs.filter(
+          (job) => job.job_id !== action.meta.arg
+        );
+        if (!state.pendingMeal) {
+          state.pendingMeal = action.payload;
+        }
+      })
+      .addCase(watchAnalysisJob.rejected, (state, action) => {
+        const job = state.analysisJobs.find(
+          (item) => item.job_id === action.meta.arg
+        );
+        // Failed jobs stay listed so they can be retried
+        if (job?.status === "FAILED") return;
+
+        state.analysisJobs = state.analysisJobs.filter(
+          (item) => item.job_id !== action.meta.arg
+        );
+        state.error = action.payload as string;
+      })
+      .addCase(retryAnalysisJob.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+
       // Update meal cases
       .addCase(updateMeal.pending, (state) => {
         state.isUpdating = true;
@@ -747,5 +928,7 @@ export const {
   clearPendingMeal,
   setPendingMeal,
   setPendingMealForUpdate,
+  analysisJobUpdated,
+  dismissAnalysisJob,
 } = mealSlice.actions;
 export default mealSlice.reducer;
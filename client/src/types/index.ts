@@ -85,7 +85,7 @@ export interface Meal {
   user_id: string;
   image_url?: string;
   upload_time: string;
-  analysis_status: "PENDING" | "COMPLETED";
+  analysis_status: "PENDING" | "COMPLETED" | "FAILED";
   meal_name: string | null;
   calories: number | null;
   protein_g: number | null;
@@ -150,6 +150,19 @@ export interface Meal {
   satiety_rating?: number;
   energy_rating?: number;
   heaviness_rating?: number;
+
+  // Conflicts with the user's allergies, diet or kosher observance
+  restriction_warnings?: RestrictionWarning[];
+}
+
+export interface RestrictionWarning {
+  type: "allergen" | "diet" | "kosher";
+  code: string;
+  // high: must not be eaten; medium: may contain traces; low: worth a look
+  severity: "high" | "medium" | "low";
+  message: string;
+  message_en: string;
+  matched: string[];
 }
 
 export interface AuthResponse {
@@ -165,6 +178,114 @@ export interface AIResponse {
   error?: string;
 }
 
+// Background analysis of an uploaded meal photo
+export interface AnalysisJob {
+  job_id: string;
+  meal_id: number;
+  status: "QUEUED" | "RUNNING" | "COMPLETED" | "FAILED";
+  attempts: number;
+  max_attempts: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  result: MealAnalysisData | null;
+}
+
+// The saved answer sent when a streamed chat reply finishes
+export interface ChatStreamResult {
+  response: string;
+  messageId: string;
+  threadId: string;
+  restriction_warnings: any[];
+  actions: ChatAction[];
+}
+
+// A change the assistant proposed; it only runs once the user confirms it
+export interface ChatAction {
+  action_id: string;
+  tool:
+    | "log_meal"
+    | "add_water"
+    | "get_nutrition_stats"
+    | "swap_plan_meal"
+    | "add_shopping_items";
+  arguments: Record<string, any>;
+  status: "PENDING" | "CONFIRMED" | "CANCELLED" | "FAILED";
+  result: any;
+  error: string | null;
+  created_at: string;
+}
+
+export interface ChatThread {
+  thread_id: string;
+  title: string;
+  archived: boolean;
+  message_count: number;
+  last_message: string | null;
+  last_message_at: string;
+  created_at: string;
+}
+
+export interface ChatSearchResult {
+  message_id: number;
+  thread_id: string;
+  thread_title: string;
+  user_message: string;
+  // Matches are wrapped in <b></b>
+  snippet: string;
+  created_at: string;
+}
+
+export interface RecipeIngredient {
+  ingredient_id: string;
+  position: number;
+  name: string;
+  quantity: number;
+  unit: string;
+  quantity_g: number;
+  // "unmatched" lines have no nutrition data and count as zero
+  source: "catalog" | "database" | "unmatched";
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+}
+
+// Nutrition fields are per serving
+export interface Recipe {
+  recipe_id: string;
+  name: string;
+  description: string | null;
+  servings: number;
+  instructions: string[];
+  image_url: string | null;
+  prep_time_minutes: number | null;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  sugar_g: number;
+  sodium_mg: number;
+  serving_size_g: number;
+  template_id: string | null;
+  ingredients: RecipeIngredient[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecipeInput {
+  name: string;
+  description?: string | null;
+  servings: number;
+  ingredients: { name: string; quantity: number; unit: string }[];
+  instructions?: string[];
+  // Base64 data or an uploaded image URL; null removes the photo
+  image?: string | null;
+  prep_time_minutes?: number | null;
+}
+
 export interface PendingMeal {
   image_base_64: string;
   image_uri?: string;
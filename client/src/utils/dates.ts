@@ -0,0 +1,13 @@
+// The server buckets meals, water and goals into the user's local days, so
+// dates sent to it must be local too, not UTC.
+
+export const getDeviceTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// YYYY-MM-DD of the given instant in the device's time zone
+export const toLocalDateString = (date: Date = new Date()) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
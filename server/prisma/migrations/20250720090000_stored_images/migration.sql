@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "stored_images" (
+    "image_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "content_hash" TEXT NOT NULL,
+    "mime_type" TEXT NOT NULL DEFAULT 'image/jpeg',
+    "size_bytes" INTEGER NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "storage_backend" TEXT NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "thumbnail_key" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stored_images_pkey" PRIMARY KEY ("image_id")
+);
+
+-- CreateIndex
+CREATE INDEX "stored_images_content_hash_idx" ON "stored_images"("content_hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stored_images_user_id_content_hash_key" ON "stored_images"("user_id", "content_hash");
+
+-- AddForeignKey
+ALTER TABLE "stored_images" ADD CONSTRAINT "stored_images_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
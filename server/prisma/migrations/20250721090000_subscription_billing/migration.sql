@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('SUCCEEDED', 'FAILED', 'REFUNDED');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "subscription_auto_renew" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "SubscriptionPayment" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'ILS',
+ADD COLUMN     "failure_reason" TEXT,
+ADD COLUMN     "period_end" TIMESTAMP(3),
+ADD COLUMN     "period_start" TIMESTAMP(3),
+ADD COLUMN     "provider" TEXT,
+ADD COLUMN     "provider_payment_id" TEXT,
+ADD COLUMN     "provider_session_id" TEXT,
+ADD COLUMN     "status" "PaymentStatus" NOT NULL DEFAULT 'SUCCEEDED';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubscriptionPayment_provider_payment_id_key" ON "SubscriptionPayment"("provider_payment_id");
+
+-- CreateIndex
+CREATE INDEX "SubscriptionPayment_user_id_payment_date_idx" ON "SubscriptionPayment"("user_id", "payment_date");
+
+-- CreateIndex
+CREATE INDEX "SubscriptionPayment_provider_session_id_idx" ON "SubscriptionPayment"("provider_session_id");
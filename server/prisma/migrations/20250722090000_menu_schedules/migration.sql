@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "menu_schedules" (
+    "schedule_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "menu_id" TEXT NOT NULL,
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "menu_schedules_pkey" PRIMARY KEY ("schedule_id")
+);
+
+-- CreateTable
+CREATE TABLE "scheduled_menu_meals" (
+    "id" TEXT NOT NULL,
+    "schedule_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "recommended_meal_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "meal_type" "MealTiming" NOT NULL,
+    "logged_meal_id" INTEGER,
+    "eaten_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scheduled_menu_meals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "menu_schedules_user_id_is_active_idx" ON "menu_schedules"("user_id", "is_active");
+
+-- CreateIndex
+CREATE INDEX "scheduled_menu_meals_user_id_date_idx" ON "scheduled_menu_meals"("user_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_menu_meals_schedule_id_recommended_meal_id_key" ON "scheduled_menu_meals"("schedule_id", "recommended_meal_id");
+
+-- AddForeignKey
+ALTER TABLE "menu_schedules" ADD CONSTRAINT "menu_schedules_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "menu_schedules" ADD CONSTRAINT "menu_schedules_menu_id_fkey" FOREIGN KEY ("menu_id") REFERENCES "recommended_menus"("menu_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_menu_meals" ADD CONSTRAINT "scheduled_menu_meals_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "menu_schedules"("schedule_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_menu_meals" ADD CONSTRAINT "scheduled_menu_meals_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_menu_meals" ADD CONSTRAINT "scheduled_menu_meals_recommended_meal_id_fkey" FOREIGN KEY ("recommended_meal_id") REFERENCES "recommended_meals"("meal_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_menu_meals" ADD CONSTRAINT "scheduled_menu_meals_logged_meal_id_fkey" FOREIGN KEY ("logged_meal_id") REFERENCES "Meal"("meal_id") ON DELETE SET NULL ON UPDATE CASCADE;
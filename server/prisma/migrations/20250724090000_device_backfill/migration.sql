@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "connected_devices" ADD COLUMN     "backfill_completed_at" TIMESTAMP(3);
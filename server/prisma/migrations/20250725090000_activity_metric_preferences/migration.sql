@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "activity_metric_preferences" (
+    "preference_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "metric" TEXT NOT NULL,
+    "device_type" "DeviceType" NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "activity_metric_preferences_pkey" PRIMARY KEY ("preference_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "activity_metric_preferences_user_id_metric_key" ON "activity_metric_preferences"("user_id", "metric");
+
+-- AddForeignKey
+ALTER TABLE "activity_metric_preferences" ADD CONSTRAINT "activity_metric_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
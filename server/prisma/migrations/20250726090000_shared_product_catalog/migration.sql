@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "ProductSource" AS ENUM ('OPEN_FOOD_FACTS', 'USER', 'LABEL_SCAN');
+
+-- CreateEnum
+CREATE TYPE "ProductModerationStatus" AS ENUM ('OK', 'FLAGGED', 'VERIFIED');
+
+-- DropForeignKey
+ALTER TABLE "FoodProduct" DROP CONSTRAINT "FoodProduct_user_id_fkey";
+
+-- AlterTable
+ALTER TABLE "FoodProduct" ALTER COLUMN "user_id" DROP NOT NULL,
+ADD COLUMN     "serving_size" TEXT,
+ADD COLUMN     "source" "ProductSource" NOT NULL DEFAULT 'USER',
+ADD COLUMN     "moderation_status" "ProductModerationStatus" NOT NULL DEFAULT 'OK',
+ADD COLUMN     "moderation_reason" TEXT,
+ADD COLUMN     "flagged_at" TIMESTAMP(3);
+
+-- Existing rows came from live OpenFoodFacts lookups or label photos
+UPDATE "FoodProduct" SET "source" = 'LABEL_SCAN' WHERE "barcode" LIKE 'img\_%';
+UPDATE "FoodProduct" SET "source" = 'OPEN_FOOD_FACTS' WHERE "barcode" NOT LIKE 'img\_%';
+
+-- CreateTable
+CREATE TABLE "product_corrections" (
+    "correction_id" TEXT NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "product_name" TEXT,
+    "brand" TEXT,
+    "nutrition_per_100g" JSONB,
+    "ingredients" JSONB,
+    "allergens" JSONB,
+    "labels" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_corrections_pkey" PRIMARY KEY ("correction_id")
+);
+
+-- CreateTable
+CREATE TABLE "product_scans" (
+    "scan_id" TEXT NOT NULL,
+    "product_id" INTEGER NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "scanned_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_scans_pkey" PRIMARY KEY ("scan_id")
+);
+
+-- Keep the scan history of everyone who already scanned a product
+INSERT INTO "product_scans" ("scan_id", "product_id", "user_id", "scanned_at")
+SELECT 'scan_' || "product_id", "product_id", "user_id", "created_at" FROM "FoodProduct";
+
+-- CreateIndex
+CREATE INDEX "FoodProduct_moderation_status_idx" ON "FoodProduct"("moderation_status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_corrections_product_id_user_id_key" ON "product_corrections"("product_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "product_scans_user_id_scanned_at_idx" ON "product_scans"("user_id", "scanned_at");
+
+-- AddForeignKey
+ALTER TABLE "FoodProduct" ADD CONSTRAINT "FoodProduct_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_corrections" ADD CONSTRAINT "product_corrections_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "FoodProduct"("product_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_corrections" ADD CONSTRAINT "product_corrections_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_scans" ADD CONSTRAINT "product_scans_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "FoodProduct"("product_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_scans" ADD CONSTRAINT "product_scans_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "timezone" TEXT,
+ADD COLUMN     "daily_rollover_date" DATE;
+
+-- Water intake was stored at server-local midnight; snap each row to the
+-- nearest calendar day before switching the column to DATE
+ALTER TABLE "WaterIntake" ALTER COLUMN "date" SET DATA TYPE DATE USING (("date" + INTERVAL '12 hours')::DATE);
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "BodyMetricSource" AS ENUM ('MANUAL', 'DEVICE');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "adaptive_tdee" DOUBLE PRECISION,
+ADD COLUMN     "adaptive_tdee_updated_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "body_metrics" (
+    "metric_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "measured_at" TIMESTAMP(3) NOT NULL,
+    "weight_kg" DOUBLE PRECISION,
+    "body_fat_percentage" DOUBLE PRECISION,
+    "waist_cm" DOUBLE PRECISION,
+    "hip_cm" DOUBLE PRECISION,
+    "source" "BodyMetricSource" NOT NULL DEFAULT 'MANUAL',
+    "device_id" TEXT,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "body_metrics_pkey" PRIMARY KEY ("metric_id")
+);
+
+-- CreateIndex
+CREATE INDEX "body_metrics_user_id_date_idx" ON "body_metrics"("user_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "body_metrics" ADD CONSTRAINT "body_metrics_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "body_metrics" ADD CONSTRAINT "body_metrics_device_id_fkey" FOREIGN KEY ("device_id") REFERENCES "connected_devices"("connected_device_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the log with weights devices already pushed and the questionnaire's
+-- starting weight
+INSERT INTO "body_metrics" ("metric_id", "user_id", "date", "measured_at", "weight_kg", "body_fat_percentage", "source", "device_id", "updated_at")
+SELECT 'bm_' || "daily_activity_id", "user_id", "date", "sync_timestamp", "weight_kg", "body_fat_percentage", 'DEVICE', "device_id", CURRENT_TIMESTAMP
+FROM "daily_activity_summary"
+WHERE "weight_kg" > 0;
+
+INSERT INTO "body_metrics" ("metric_id", "user_id", "date", "measured_at", "weight_kg", "body_fat_percentage", "source", "updated_at")
+SELECT DISTINCT ON ("user_id") 'bm_q' || "questionnaire_id", "user_id", "date_completed"::DATE, "date_completed", "weight_kg", "body_fat_percentage", 'MANUAL', CURRENT_TIMESTAMP
+FROM "UserQuestionnaire"
+WHERE "weight_kg" > 0
+ORDER BY "user_id", "date_completed" ASC;
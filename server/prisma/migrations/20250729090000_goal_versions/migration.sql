@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "GoalSource" AS ENUM ('DEFAULT', 'QUESTIONNAIRE', 'ADAPTIVE', 'MENU');
+
+-- CreateTable
+CREATE TABLE "goal_versions" (
+    "version_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "effective_from" DATE NOT NULL,
+    "calories" DOUBLE PRECISION NOT NULL DEFAULT 2000,
+    "protein_g" DOUBLE PRECISION NOT NULL DEFAULT 120,
+    "carbs_g" DOUBLE PRECISION NOT NULL DEFAULT 250,
+    "fats_g" DOUBLE PRECISION NOT NULL DEFAULT 67,
+    "fiber_g" DOUBLE PRECISION NOT NULL DEFAULT 25,
+    "sodium_mg" DOUBLE PRECISION NOT NULL DEFAULT 2300,
+    "sugar_g" DOUBLE PRECISION NOT NULL DEFAULT 50,
+    "water_ml" DOUBLE PRECISION NOT NULL DEFAULT 2500,
+    "weekday_overrides" JSONB NOT NULL DEFAULT '[]',
+    "source" "GoalSource" NOT NULL DEFAULT 'QUESTIONNAIRE',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "goal_versions_pkey" PRIMARY KEY ("version_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "goal_versions_user_id_effective_from_key" ON "goal_versions"("user_id", "effective_from");
+
+-- AddForeignKey
+ALTER TABLE "goal_versions" ADD CONSTRAINT "goal_versions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Per-day goal rows become versions: a day only starts a new version when
+-- its targets differ from the previous row's
+INSERT INTO "goal_versions" ("version_id", "user_id", "effective_from", "calories", "protein_g", "carbs_g", "fats_g", "fiber_g", "sodium_mg", "sugar_g", "water_ml", "created_at", "updated_at")
+SELECT "id", "user_id", "date", "calories", "protein_g", "carbs_g", "fats_g", "fiber_g", "sodium_mg", "sugar_g", "water_ml", "created_at", "updated_at"
+FROM (
+    SELECT *,
+        concat_ws('|', "calories", "protein_g", "carbs_g", "fats_g", "fiber_g", "sodium_mg", "sugar_g", "water_ml") AS "targets",
+        LAG(concat_ws('|', "calories", "protein_g", "carbs_g", "fats_g", "fiber_g", "sodium_mg", "sugar_g", "water_ml"))
+            OVER (PARTITION BY "user_id" ORDER BY "date") AS "previous_targets"
+    FROM "DailyGoal"
+) AS "goals"
+WHERE "previous_targets" IS NULL OR "previous_targets" <> "targets";
+
+-- DropForeignKey
+ALTER TABLE "DailyGoal" DROP CONSTRAINT "DailyGoal_user_id_fkey";
+
+-- DropTable
+DROP TABLE "DailyGoal";
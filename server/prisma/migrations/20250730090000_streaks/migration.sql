@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "StreakDayStatus" AS ENUM ('SUCCESS', 'FROZEN', 'MISSED', 'PENDING');
+
+-- CreateTable
+CREATE TABLE "streaks" (
+    "streak_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "criteria" JSONB NOT NULL,
+    "is_primary" BOOLEAN NOT NULL DEFAULT false,
+    "current_streak" INTEGER NOT NULL DEFAULT 0,
+    "best_streak" INTEGER NOT NULL DEFAULT 0,
+    "freeze_tokens" INTEGER NOT NULL DEFAULT 0,
+    "evaluated_through" DATE,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "streaks_pkey" PRIMARY KEY ("streak_id")
+);
+
+-- CreateTable
+CREATE TABLE "streak_days" (
+    "streak_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "status" "StreakDayStatus" NOT NULL,
+    "completion" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "perfect" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "streak_days_pkey" PRIMARY KEY ("streak_id", "date")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "streaks_user_id_key_key" ON "streaks"("user_id", "key");
+
+-- AddForeignKey
+ALTER TABLE "streaks" ADD CONSTRAINT "streaks_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "streak_days" ADD CONSTRAINT "streak_days_streak_id_fkey" FOREIGN KEY ("streak_id") REFERENCES "streaks"("streak_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "meat_to_dairy_wait_minutes" INTEGER NOT NULL DEFAULT 360,
+ADD COLUMN     "dairy_to_meat_wait_minutes" INTEGER NOT NULL DEFAULT 30;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ai_usage" (
+    "usage_id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "feature" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "prompt_tokens" INTEGER NOT NULL DEFAULT 0,
+    "completion_tokens" INTEGER NOT NULL DEFAULT 0,
+    "cost_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "latency_ms" INTEGER NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "success" BOOLEAN NOT NULL,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_usage_pkey" PRIMARY KEY ("usage_id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_user_id_created_at_idx" ON "ai_usage"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- AlterEnum
+ALTER TYPE "AnalysisStatus" ADD VALUE 'FAILED';
+
+-- CreateEnum
+CREATE TYPE "AnalysisJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "analysis_jobs" (
+    "job_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "meal_id" INTEGER NOT NULL,
+    "image_id" TEXT NOT NULL,
+    "language" TEXT NOT NULL DEFAULT 'english',
+    "update_text" TEXT,
+    "status" "AnalysisJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 3,
+    "run_after" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "error" TEXT,
+    "result" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "analysis_jobs_pkey" PRIMARY KEY ("job_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "analysis_jobs_meal_id_key" ON "analysis_jobs"("meal_id");
+
+-- CreateIndex
+CREATE INDEX "analysis_jobs_status_run_after_idx" ON "analysis_jobs"("status", "run_after");
+
+-- CreateIndex
+CREATE INDEX "analysis_jobs_user_id_created_at_idx" ON "analysis_jobs"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "analysis_jobs" ADD CONSTRAINT "analysis_jobs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "analysis_jobs" ADD CONSTRAINT "analysis_jobs_meal_id_fkey" FOREIGN KEY ("meal_id") REFERENCES "Meal"("meal_id") ON DELETE CASCADE ON UPDATE CASCADE;
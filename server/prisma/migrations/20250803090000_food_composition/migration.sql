@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "FoodCompositionSource" AS ENUM ('USDA', 'TZAMERET');
+
+-- CreateTable
+CREATE TABLE "food_compositions" (
+    "food_id" SERIAL NOT NULL,
+    "source" "FoodCompositionSource" NOT NULL,
+    "source_id" TEXT NOT NULL,
+    "name_en" TEXT NOT NULL,
+    "name_he" TEXT,
+    "category" TEXT,
+    "nutrients" JSONB NOT NULL,
+    "search_text" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "food_compositions_pkey" PRIMARY KEY ("food_id")
+);
+
+-- CreateTable
+CREATE TABLE "food_portions" (
+    "portion_id" SERIAL NOT NULL,
+    "food_id" INTEGER NOT NULL,
+    "unit" TEXT NOT NULL,
+    "label" TEXT,
+    "grams" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "food_portions_pkey" PRIMARY KEY ("portion_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "food_compositions_source_source_id_key" ON "food_compositions"("source", "source_id");
+
+-- CreateIndex
+CREATE INDEX "food_compositions_category_idx" ON "food_compositions"("category");
+
+-- CreateIndex
+CREATE INDEX "food_portions_food_id_idx" ON "food_portions"("food_id");
+
+-- AddForeignKey
+ALTER TABLE "food_portions" ADD CONSTRAINT "food_portions_food_id_fkey" FOREIGN KEY ("food_id") REFERENCES "food_compositions"("food_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "chat_threads" (
+    "thread_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "title_is_custom" BOOLEAN NOT NULL DEFAULT false,
+    "archived_at" TIMESTAMP(3),
+    "last_message_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chat_threads_pkey" PRIMARY KEY ("thread_id")
+);
+
+-- CreateIndex
+CREATE INDEX "chat_threads_user_id_archived_at_last_message_at_idx" ON "chat_threads"("user_id", "archived_at", "last_message_at");
+
+-- AddForeignKey
+ALTER TABLE "chat_threads" ADD CONSTRAINT "chat_threads_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Messages of deleted users have no thread to move into
+DELETE FROM "ChatMessage" WHERE "user_id" NOT IN (SELECT "user_id" FROM "User");
+
+-- Each user's existing messages become one thread
+INSERT INTO "chat_threads" ("thread_id", "user_id", "title", "last_message_at", "created_at", "updated_at")
+SELECT 'legacy_' || md5("user_id"), "user_id", 'Earlier conversation', MAX("created_at"), MIN("created_at"), CURRENT_TIMESTAMP
+FROM "ChatMessage"
+GROUP BY "user_id";
+
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN "thread_id" TEXT;
+UPDATE "ChatMessage" SET "thread_id" = 'legacy_' || md5("user_id");
+ALTER TABLE "ChatMessage" ALTER COLUMN "thread_id" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_thread_id_created_at_idx" ON "ChatMessage"("thread_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_thread_id_fkey" FOREIGN KEY ("thread_id") REFERENCES "chat_threads"("thread_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "ChatActionStatus" AS ENUM ('PENDING', 'CONFIRMED', 'CANCELLED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "chat_actions" (
+    "action_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "thread_id" TEXT NOT NULL,
+    "message_id" INTEGER,
+    "tool" TEXT NOT NULL,
+    "arguments" JSONB NOT NULL,
+    "status" "ChatActionStatus" NOT NULL DEFAULT 'PENDING',
+    "result" JSONB,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMP(3),
+
+    CONSTRAINT "chat_actions_pkey" PRIMARY KEY ("action_id")
+);
+
+-- CreateIndex
+CREATE INDEX "chat_actions_thread_id_created_at_idx" ON "chat_actions"("thread_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "chat_actions_message_id_idx" ON "chat_actions"("message_id");
+
+-- AddForeignKey
+ALTER TABLE "chat_actions" ADD CONSTRAINT "chat_actions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chat_actions" ADD CONSTRAINT "chat_actions_thread_id_fkey" FOREIGN KEY ("thread_id") REFERENCES "chat_threads"("thread_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chat_actions" ADD CONSTRAINT "chat_actions_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "ChatMessage"("message_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- CreateTable
+CREATE TABLE "recipes" (
+    "recipe_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "servings" INTEGER NOT NULL,
+    "instructions" TEXT[],
+    "image_url" TEXT,
+    "prep_time_minutes" INTEGER,
+    "calories" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "protein_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "carbs_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fats_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fiber_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "sugar_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "sodium_mg" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "serving_size_g" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "vitamins_json" JSONB,
+    "micronutrients_json" JSONB,
+    "template_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recipes_pkey" PRIMARY KEY ("recipe_id")
+);
+
+-- CreateTable
+CREATE TABLE "recipe_ingredients" (
+    "ingredient_id" TEXT NOT NULL,
+    "recipe_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "quantity" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT NOT NULL,
+    "quantity_g" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "food_id" INTEGER,
+    "calories" DOUBLE PRECISION NOT NULL,
+    "protein_g" DOUBLE PRECISION NOT NULL,
+    "carbs_g" DOUBLE PRECISION NOT NULL,
+    "fats_g" DOUBLE PRECISION NOT NULL,
+    "fiber_g" DOUBLE PRECISION NOT NULL,
+    "sugar_g" DOUBLE PRECISION NOT NULL,
+    "sodium_mg" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "recipe_ingredients_pkey" PRIMARY KEY ("ingredient_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recipes_template_id_key" ON "recipes"("template_id");
+
+-- CreateIndex
+CREATE INDEX "recipes_user_id_updated_at_idx" ON "recipes"("user_id", "updated_at");
+
+-- CreateIndex
+CREATE INDEX "recipe_ingredients_recipe_id_position_idx" ON "recipe_ingredients"("recipe_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "recipes" ADD CONSTRAINT "recipes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recipes" ADD CONSTRAINT "recipes_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "meal_templates"("template_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_recipe_id_fkey" FOREIGN KEY ("recipe_id") REFERENCES "recipes"("recipe_id") ON DELETE CASCADE ON UPDATE CASCADE;
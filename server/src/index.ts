@@ -19,8 +19,16 @@ import statisticsRoutes from "./routes/statistics";
 import foodScannerRoutes from "./routes/foodScanner";
 import { healthRoutes } from "./routes/health";
 import { CronJobService } from "./services/cronJobs";
+import { AnalysisJobService } from "./services/analysisJobs";
+import { getLLMProvider } from "./lib/llmProvider";
 import "./services/cron";
 import { dailyGoalsRoutes } from "./routes/dailyGoal";
+import { imageRoutes } from "./routes/images";
+import { billingRoutes } from "./routes/billing";
+import { bodyMetricsRoutes } from "./routes/bodyMetrics";
+import { streakRoutes } from "./routes/streaks";
+import { foodRoutes } from "./routes/foods";
+import { recipeRoutes } from "./routes/recipes";
 
 // Load environment variables
 dotenv.config();
@@ -31,7 +39,6 @@ const config = {
   nodeEnv: process.env.NODE_ENV || "development",
   apiBaseUrl: process.env.API_BASE_URL,
   clientUrl: process.env.CLIENT_URL,
-  openaiApiKey: process.env.OPENAI_API_KEY,
   isDevelopment: process.env.NODE_ENV !== "production",
   serverIp: process.env.API_BASE_URL,
 };
@@ -88,12 +95,14 @@ const corsOptions = {
   ].filter(Boolean) as string[],
   credentials: true,
   methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization", "Cookie"],
+  allowedHeaders: ["Content-Type", "Authorization", "Cookie", "X-Timezone"],
 };
 
 app.use(cors(corsOptions));
 // Body parsing middleware
 app.use(cookieParser());
+// Billing webhooks are signed over the raw body, so skip JSON parsing there
+app.use("/api/billing/webhook", express.raw({ type: "*/*", limit: "1mb" }));
 app.use(
   express.json({
     limit: "10mb",
@@ -116,7 +125,8 @@ app.get("/health", (req, res) => {
     environment: config.nodeEnv,
     version: process.env.npm_package_version || "unknown",
     uptime: process.uptime(),
-    openai_enabled: !!config.openaiApiKey,
+    openai_enabled: !!getLLMProvider(),
+    llm_provider: getLLMProvider()?.name || null,
   });
 });
 
@@ -129,7 +139,7 @@ app.get("/test", (req, res) => {
     ip: req.ip,
     userAgent: req.headers["user-agent"],
     origin: req.headers.origin,
-    openai_enabled: !!config.openaiApiKey,
+    openai_enabled: !!getLLMProvider(),
   });
 });
 
@@ -147,6 +157,12 @@ apiRouter.use("/chat", chatRoutes);
 apiRouter.use("/food-scanner", foodScannerRoutes);
 apiRouter.use("/", statisticsRoutes);
 apiRouter.use("/daily-goals", dailyGoalsRoutes);
+apiRouter.use("/images", imageRoutes);
+apiRouter.use("/billing", billingRoutes);
+apiRouter.use("/body-metrics", bodyMetricsRoutes);
+apiRouter.use("/streaks", streakRoutes);
+apiRouter.use("/foods", foodRoutes);
+apiRouter.use("/recipes", recipeRoutes);
 
 app.use("/api", apiRouter);
 
@@ -170,17 +186,21 @@ const logStartup = () => {
   log.info(`Port: ${config.port}`);
   log.info(`API Base URL: ${config.apiBaseUrl || "Not set"}`);
 
-  if (config.openaiApiKey) {
-    log.success("OpenAI API key found - AI features enabled");
+  const llmProvider = getLLMProvider();
+  if (llmProvider) {
+    log.success(`LLM provider: ${llmProvider.name} - AI features enabled`);
   } else {
-    log.warn("No OpenAI API key found. AI features will use mock data.");
-    log.info("To enable AI features, set OPENAI_API_KEY in your .env file");
+    log.warn("No LLM provider configured. AI features will use mock data.");
+    log.info(
+      "To enable AI features, set OPENAI_API_KEY, or LLM_PROVIDER=local with LLM_BASE_URL, or LLM_PROVIDER=fixture"
+    );
   }
 };
 
 // Graceful shutdown
 const gracefulShutdown = (signal: string) => {
   log.info(`Received ${signal}, shutting down gracefully...`);
+  AnalysisJobService.stopWorker();
   server.close(() => {
     log.info("Server closed successfully");
     process.exit(0);
@@ -198,16 +218,19 @@ const server = app.listen(config.port, "0.0.0.0", () => {
   log.info(`Test endpoint: http://${config.serverIp}:${config.port}/test`);
   log.info(`Health check: http://${config.serverIp}:${config.port}/health`);
 
-  if (!config.openaiApiKey) {
+  if (!getLLMProvider()) {
     log.warn(
-      "Note: AI features are using mock data. Add OPENAI_API_KEY to enable real AI analysis."
+      "Note: AI features are using mock data. Configure an LLM provider to enable real AI analysis."
     );
   }
   // Initialize cron jobs
   CronJobService.initializeCronJobs();
 
-  // Create daily goals for existing users
-  CronJobService.createDailyGoalsForAllUsers();
+  // Catch up on midnight rollovers missed while the server was down
+  CronJobService.runDailyRollover();
+
+  // Picks up meal analyses queued before a restart as well as new ones
+  AnalysisJobService.startWorker();
 });
 
 // Handle process termination
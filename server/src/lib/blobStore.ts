@@ -0,0 +1,150 @@
+import fs from "fs/promises";
+import path from "path";
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+
+export interface BlobStore {
+  readonly backend: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+// Stores blobs as plain files under a root directory (default: ./uploads)
+export class LocalBlobStore implements BlobStore {
+  readonly backend = "local";
+
+  constructor(private rootDir: string) {}
+
+  private resolve(key: string) {
+    const fullPath = path.resolve(this.rootDir, key);
+    if (!fullPath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error("Invalid storage key");
+    }
+    return fullPath;
+  }
+
+  async put(key: string, data: Buffer) {
+    const fullPath = this.resolve(key);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, data);
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string) {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Works with AWS S3 and S3-compatible services (MinIO, R2, Supabase storage)
+export class S3BlobStore implements BlobStore {
+  readonly backend = "s3";
+  private client: S3Client;
+
+  constructor(private bucket: string, client?: S3Client) {
+    this.client =
+      client ||
+      new S3Client({
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        credentials:
+          process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+            ? {
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+              }
+            : undefined,
+      });
+  }
+
+  async put(key: string, data: Buffer, contentType: string) {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: data,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  async get(key: string) {
+    try {
+      const result = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      if (!result.Body) return null;
+      const bytes = await result.Body.transformToByteArray();
+      return Buffer.from(bytes);
+    } catch (error: any) {
+      if (error?.name === "NoSuchKey") return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string) {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      return true;
+    } catch (error: any) {
+      if (error?.name === "NotFound" || error?.name === "NoSuchKey") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+  }
+}
+
+let blobStore: BlobStore | undefined;
+
+export function getBlobStore(): BlobStore {
+  if (blobStore) return blobStore;
+
+  const backend = process.env.IMAGE_STORAGE_BACKEND || "local";
+
+  if (backend === "s3") {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error("S3_BUCKET environment variable is not set");
+    }
+    blobStore = new S3BlobStore(bucket);
+  } else {
+    blobStore = new LocalBlobStore(
+      process.env.IMAGE_STORAGE_DIR || path.join(process.cwd(), "uploads")
+    );
+  }
+
+  return blobStore;
+}
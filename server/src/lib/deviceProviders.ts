@@ -0,0 +1,422 @@
+import { DeviceType } from "@prisma/client";
+import axios from "axios";
+import { ActivityData } from "../types/devices";
+import { getZonedDayBounds } from "../utils/dates";
+
+export interface DeviceTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresIn?: number; // seconds
+}
+
+export interface DeviceProviderAdapter {
+  readonly deviceType: string;
+  getAuthorizationUrl(redirectUri: string, state?: string): string;
+  exchangeCode(code: string, redirectUri: string): Promise<DeviceTokens>;
+  refreshAccessToken(refreshToken: string): Promise<DeviceTokens>;
+  // date is YYYY-MM-DD in timeZone; returns null when the provider has no
+  // data that day
+  fetchDailyActivity(
+    accessToken: string,
+    date: string,
+    timeZone: string
+  ): Promise<ActivityData | null>;
+}
+
+// Thrown when the provider rejects the grant; the user has to reconnect
+export class DeviceAuthorizationError extends Error {
+  constructor(message = "Device authorization expired, please reconnect") {
+    super(message);
+    this.name = "DeviceAuthorizationError";
+  }
+}
+
+interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  authUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  // Some providers want client credentials as HTTP Basic auth, others in body
+  basicAuth: boolean;
+  extraAuthParams?: Record<string, string>;
+}
+
+abstract class OAuthDeviceProvider implements DeviceProviderAdapter {
+  abstract readonly deviceType: string;
+  protected abstract readonly config: OAuthConfig;
+
+  getAuthorizationUrl(redirectUri: string, state?: string) {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      redirect_uri: redirectUri,
+      response_type: "code",
+      scope: this.config.scopes.join(" "),
+      ...this.config.extraAuthParams,
+      ...(state && { state }),
+    });
+    return `${this.config.authUrl}?${params.toString()}`;
+  }
+
+  async exchangeCode(code: string, redirectUri: string) {
+    return this.requestToken({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+    });
+  }
+
+  async refreshAccessToken(refreshToken: string): Promise<DeviceTokens> {
+    const tokens = await this.requestToken({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+    });
+    // Providers that don't rotate refresh tokens omit them on refresh
+    return { ...tokens, refreshToken: tokens.refreshToken || refreshToken };
+  }
+
+  abstract fetchDailyActivity(
+    accessToken: string,
+    date: string,
+    timeZone: string
+  ): Promise<ActivityData | null>;
+
+  private async requestToken(params: Record<string, string>) {
+    const { clientId, clientSecret, basicAuth, tokenUrl } = this.config;
+    const body = new URLSearchParams(
+      basicAuth
+        ? params
+        : { ...params, client_id: clientId, client_secret: clientSecret }
+    );
+
+    try {
+      const response = await axios.post(tokenUrl, body.toString(), {
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Accept: "application/json",
+          ...(basicAuth && {
+            Authorization: `Basic ${Buffer.from(
+              `${clientId}:${clientSecret}`
+            ).toString("base64")}`,
+          }),
+        },
+        timeout: 15000,
+      });
+
+      if (!response.data?.access_token) {
+        throw new Error(`${this.deviceType} token response had no token`);
+      }
+
+      return {
+        accessToken: response.data.access_token,
+        refreshToken: response.data.refresh_token,
+        expiresIn: response.data.expires_in,
+      } as DeviceTokens;
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (status === 400 || status === 401) {
+        throw new DeviceAuthorizationError();
+      }
+      throw error;
+    }
+  }
+}
+
+class GoogleFitProvider extends OAuthDeviceProvider {
+  readonly deviceType = "GOOGLE_FIT";
+  protected readonly config: OAuthConfig = {
+    clientId: process.env.GOOGLE_FIT_CLIENT_ID || "",
+    clientSecret: process.env.GOOGLE_FIT_CLIENT_SECRET || "",
+    authUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+    scopes: [
+      "https://www.googleapis.com/auth/fitness.activity.read",
+      "https://www.googleapis.com/auth/fitness.body.read",
+      "https://www.googleapis.com/auth/fitness.heart_rate.read",
+      "https://www.googleapis.com/auth/fitness.location.read",
+    ],
+    basicAuth: false,
+    // Needed to receive a refresh token
+    extraAuthParams: { access_type: "offline", prompt: "consent" },
+  };
+
+  async fetchDailyActivity(
+    accessToken: string,
+    date: string,
+    timeZone: string
+  ) {
+    const { start, end } = getZonedDayBounds(date, timeZone);
+
+    const response = await axios.post(
+      "https://www.googleapis.com/fitness/v1/users/me/dataset:aggregate",
+      {
+        aggregateBy: [
+          { dataTypeName: "com.google.step_count.delta" },
+          { dataTypeName: "com.google.calories.expended" },
+          { dataTypeName: "com.google.active_minutes" },
+          { dataTypeName: "com.google.distance.delta" },
+          { dataTypeName: "com.google.heart_rate.bpm" },
+        ],
+        bucketByTime: { durationMillis: end.getTime() - start.getTime() },
+        startTimeMillis: start.getTime(),
+        endTimeMillis: end.getTime(),
+      },
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        timeout: 15000,
+      }
+    );
+
+    const datasets: any[] = response.data.bucket?.[0]?.dataset || [];
+    const points = (type: string) =>
+      datasets.find((dataset) => dataset.dataSourceId?.includes(type))
+        ?.point || [];
+    const sum = (type: string, field: "intVal" | "fpVal") =>
+      points(type).reduce(
+        (total: number, point: any) => total + (point.value?.[0]?.[field] || 0),
+        0
+      );
+
+    const heartRatePoint = points("heart_rate")[0];
+    const steps = sum("step_count", "intVal");
+    const calories = sum("calories", "fpVal");
+
+    if (steps === 0 && calories === 0) return null;
+
+    return {
+      steps,
+      caloriesBurned: Math.round(calories),
+      activeMinutes: sum("active_minutes", "intVal"),
+      bmr: 0,
+      distance: Math.round(sum("distance", "fpVal")) / 1000,
+      heartRate: heartRatePoint?.value?.[0]?.fpVal
+        ? Math.round(heartRatePoint.value[0].fpVal)
+        : undefined,
+    };
+  }
+}
+
+class FitbitProvider extends OAuthDeviceProvider {
+  readonly deviceType = "FITBIT";
+  protected readonly config: OAuthConfig = {
+    clientId: process.env.FITBIT_CLIENT_ID || "",
+    clientSecret: process.env.FITBIT_CLIENT_SECRET || "",
+    authUrl: "https://www.fitbit.com/oauth2/authorize",
+    tokenUrl: "https://api.fitbit.com/oauth2/token",
+    scopes: ["activity", "heartrate", "profile", "sleep", "weight"],
+    basicAuth: true,
+  };
+
+  async fetchDailyActivity(accessToken: string, date: string) {
+    const response = await axios.get(
+      `https://api.fitbit.com/1/user/-/activities/date/${date}.json`,
+      {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        timeout: 15000,
+      }
+    );
+
+    const summary = response.data?.summary;
+    if (!summary) return null;
+
+    const totalDistance = (summary.distances || []).find(
+      (distance: any) => distance.activity === "total"
+    );
+
+    return {
+      steps: summary.steps || 0,
+      caloriesBurned: summary.activityCalories || 0,
+      activeMinutes:
+        (summary.veryActiveMinutes || 0) + (summary.fairlyActiveMinutes || 0),
+      bmr: summary.caloriesBMR || 0,
+      distance: totalDistance?.distance || 0,
+      heartRate: summary.restingHeartRate,
+    };
+  }
+}
+
+class WhoopProvider extends OAuthDeviceProvider {
+  readonly deviceType = "WHOOP";
+  protected readonly config: OAuthConfig = {
+    clientId: process.env.WHOOP_CLIENT_ID || "",
+    clientSecret: process.env.WHOOP_CLIENT_SECRET || "",
+    authUrl: "https://api.prod.whoop.com/oauth/oauth2/auth",
+    tokenUrl: "https://api.prod.whoop.com/oauth/oauth2/token",
+    // offline is required for a refresh token
+    scopes: ["offline", "read:cycles", "read:workout", "read:sleep"],
+    basicAuth: false,
+  };
+
+  async fetchDailyActivity(
+    accessToken: string,
+    date: string,
+    timeZone: string
+  ) {
+    const { start, end } = getZonedDayBounds(date, timeZone);
+
+    const response = await axios.get(
+      "https://api.prod.whoop.com/developer/v1/cycle",
+      {
+        params: { start: start.toISOString(), end: end.toISOString() },
+        headers: { Authorization: `Bearer ${accessToken}` },
+        timeout: 15000,
+      }
+    );
+
+    const score = response.data?.records?.[0]?.score;
+    if (!score) return null;
+
+    return {
+      // Whoop doesn't count steps
+      steps: 0,
+      caloriesBurned: Math.round((score.kilojoule || 0) / 4.184),
+      activeMinutes: 0,
+      bmr: 0,
+      heartRate: score.average_heart_rate,
+    };
+  }
+}
+
+class PolarProvider extends OAuthDeviceProvider {
+  readonly deviceType = "POLAR";
+  protected readonly config: OAuthConfig = {
+    clientId: process.env.POLAR_CLIENT_ID || "",
+    clientSecret: process.env.POLAR_CLIENT_SECRET || "",
+    authUrl: "https://flow.polar.com/oauth2/authorization",
+    tokenUrl: "https://polarremote.com/v2/oauth2/token",
+    scopes: ["accesslink.read_all"],
+    basicAuth: true,
+  };
+
+  // Polar access tokens are long-lived and come without a refresh token
+  async refreshAccessToken(): Promise<DeviceTokens> {
+    throw new DeviceAuthorizationError();
+  }
+
+  async fetchDailyActivity(accessToken: string, date: string) {
+    const response = await axios.get(
+      `https://www.polaraccesslink.com/v3/users/activities/${date}`,
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          Accept: "application/json",
+        },
+        timeout: 15000,
+        validateStatus: (status) => status === 200 || status === 204,
+      }
+    );
+
+    const activity = response.data;
+    if (!activity || response.status === 204) return null;
+
+    const activeSeconds = (activity.active_duration || "").match(
+      /PT(?:(\d+)H)?(?:(\d+)M)?/
+    );
+
+    return {
+      steps: activity.steps || 0,
+      caloriesBurned: activity.active_calories || activity.calories || 0,
+      activeMinutes: activeSeconds
+        ? Number(activeSeconds[1] || 0) * 60 + Number(activeSeconds[2] || 0)
+        : 0,
+      bmr: 0,
+      distance: activity.distance_from_steps
+        ? activity.distance_from_steps / 1000
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Offline stand-in for every provider. Returns deterministic numbers per date
+ * and short-lived tokens, so token refresh and sync paths can be exercised
+ * without real accounts (DEVICE_PROVIDER_MODE=stub).
+ */
+export class StubDeviceProvider implements DeviceProviderAdapter {
+  private tokenCounter = 0;
+
+  constructor(readonly deviceType: string) {}
+
+  getAuthorizationUrl(redirectUri: string, state?: string) {
+    const params = new URLSearchParams({
+      code: `stub-code-${this.deviceType}`,
+      ...(state && { state }),
+    });
+    return `${redirectUri}?${params.toString()}`;
+  }
+
+  async exchangeCode() {
+    return this.issueTokens();
+  }
+
+  async refreshAccessToken() {
+    return this.issueTokens();
+  }
+
+  async fetchDailyActivity(_accessToken: string, date: string) {
+    const seed = Number(date.replace(/-/g, "")) % 1000;
+    return {
+      steps: 6000 + seed * 5,
+      caloriesBurned: 350 + (seed % 200),
+      activeMinutes: 30 + (seed % 45),
+      bmr: 1650,
+      distance: Math.round((6000 + seed * 5) * 0.75) / 1000,
+      heartRate: 65 + (seed % 15),
+    };
+  }
+
+  private issueTokens(): DeviceTokens {
+    this.tokenCounter++;
+    return {
+      accessToken: `stub-access-${this.deviceType}-${this.tokenCounter}`,
+      refreshToken: `stub-refresh-${this.deviceType}-${this.tokenCounter}`,
+      expiresIn: 3600,
+    };
+  }
+}
+
+const providers = new Map<string, DeviceProviderAdapter>();
+
+function createProvider(deviceType: string): DeviceProviderAdapter | null {
+  if (process.env.DEVICE_PROVIDER_MODE === "stub") {
+    return new StubDeviceProvider(deviceType);
+  }
+
+  switch (deviceType) {
+    case "GOOGLE_FIT":
+      return new GoogleFitProvider();
+    case "FITBIT":
+      return new FitbitProvider();
+    case "WHOOP":
+      return new WhoopProvider();
+    case "POLAR":
+      return new PolarProvider();
+    default:
+      // Apple Health and Samsung Health only exist on the phone
+      return null;
+  }
+}
+
+export function getDeviceProvider(deviceType: string) {
+  if (!providers.has(deviceType)) {
+    const provider = createProvider(deviceType);
+    if (!provider) return null;
+    providers.set(deviceType, provider);
+  }
+  return providers.get(deviceType)!;
+}
+
+// Lets tests swap a provider for a stub
+export function setDeviceProvider(
+  deviceType: string,
+  provider: DeviceProviderAdapter
+) {
+  providers.set(deviceType, provider);
+}
+
+export const SERVER_SYNCED_DEVICE_TYPES: DeviceType[] = [
+  "GOOGLE_FIT",
+  "FITBIT",
+  "WHOOP",
+  "POLAR",
+];
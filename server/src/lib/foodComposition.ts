@@ -0,0 +1,334 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import zlib from "zlib";
+import { splitCsvLine } from "./openFoodFacts";
+import {
+  FoodCompositionRecord,
+  FoodPortionData,
+  NutrientKey,
+  NutrientProfile,
+} from "../types/foodComposition";
+
+/**
+ * Streams the rows of a CSV file (optionally gzipped) as objects keyed by
+ * the header. The delimiter is taken from the header line.
+ */
+async function* readCsvRows(
+  filePath: string
+): AsyncGenerator<Record<string, string>> {
+  const fileStream = fs.createReadStream(filePath);
+  const input = filePath.endsWith(".gz")
+    ? fileStream.pipe(zlib.createGunzip())
+    : fileStream;
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  let header: string[] | null = null;
+  let delimiter = ",";
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    if (!header) {
+      delimiter = line.includes("\t") ? "\t" : ",";
+      header = splitCsvLine(line.replace(/^\uFEFF/, ""), delimiter).map(
+        (column) => column.trim().toLowerCase()
+      );
+      continue;
+    }
+
+    const values = splitCsvLine(line, delimiter);
+    const row: Record<string, string> = {};
+    header.forEach((column, index) => {
+      row[column] = (values[index] ?? "").trim();
+    });
+    yield row;
+  }
+}
+
+function toAmount(value: string | undefined) {
+  if (value === undefined || value === "") return undefined;
+  const number = parseFloat(value);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+// "1 cup, chopped" and "cups" both measure in "cup"
+export function normalizePortionUnit(unit: string) {
+  const word =
+    unit
+      .toLowerCase()
+      .replace(/^[\d./\s]+/, "")
+      .split(/[\s,(]/)[0] || "";
+  return word.replace(/([^s])s$/, "$1");
+}
+
+// FoodData Central nutrient ids. The first id with a value wins, except
+// for the omega fatty acids, which add up their individual acids.
+const USDA_NUTRIENTS: { key: NutrientKey; ids: number[]; sum?: boolean }[] = [
+  { key: "calories", ids: [1008, 2047, 2048] },
+  { key: "protein_g", ids: [1003] },
+  { key: "carbs_g", ids: [1005, 1050] },
+  { key: "fats_g", ids: [1004, 1085] },
+  { key: "fiber_g", ids: [1079] },
+  { key: "sugar_g", ids: [2000, 1063] },
+  { key: "sodium_mg", ids: [1093] },
+  { key: "cholesterol_mg", ids: [1253] },
+  { key: "saturated_fats_g", ids: [1258] },
+  { key: "monounsaturated_fats_g", ids: [1292] },
+  { key: "polyunsaturated_fats_g", ids: [1293] },
+  { key: "omega_3_g", ids: [1404, 1278, 1272, 1280], sum: true },
+  { key: "omega_6_g", ids: [1316, 1321, 1408], sum: true },
+  { key: "alcohol_g", ids: [1018] },
+  { key: "caffeine_mg", ids: [1057] },
+  { key: "vitamin_a_mcg", ids: [1106] },
+  { key: "vitamin_c_mg", ids: [1162] },
+  { key: "vitamin_d_mcg", ids: [1114] },
+  { key: "vitamin_e_mg", ids: [1109] },
+  { key: "vitamin_k_mcg", ids: [1185] },
+  { key: "vitamin_b12_mcg", ids: [1178] },
+  { key: "folate_mcg", ids: [1177, 1190] },
+  { key: "niacin_mg", ids: [1167] },
+  { key: "thiamin_mg", ids: [1165] },
+  { key: "riboflavin_mg", ids: [1166] },
+  { key: "pantothenic_acid_mg", ids: [1170] },
+  { key: "vitamin_b6_mg", ids: [1175] },
+  { key: "iron_mg", ids: [1089] },
+  { key: "magnesium_mg", ids: [1090] },
+  { key: "zinc_mg", ids: [1095] },
+  { key: "calcium_mg", ids: [1087] },
+  { key: "potassium_mg", ids: [1092] },
+  { key: "phosphorus_mg", ids: [1091] },
+  { key: "selenium_mcg", ids: [1103] },
+  { key: "copper_mg", ids: [1098] },
+  { key: "manganese_mg", ids: [1101] },
+];
+
+const USDA_NUTRIENT_IDS = new Set(
+  USDA_NUTRIENTS.flatMap((nutrient) => nutrient.ids)
+);
+
+// Generic foods only; branded foods belong in the product catalog
+const USDA_DATA_TYPES = new Set(["foundation_food", "sr_legacy_food"]);
+const USDA_SURVEY_DATA_TYPE = "survey_fndds_food";
+
+function toUsdaProfile(amounts: Map<number, number>) {
+  const profile: NutrientProfile = {};
+  for (const { key, ids, sum } of USDA_NUTRIENTS) {
+    const present = ids.filter((id) => amounts.has(id));
+    if (present.length === 0) continue;
+    profile[key] = sum
+      ? present.reduce((total, id) => total + amounts.get(id)!, 0)
+      : amounts.get(present[0])!;
+  }
+  return profile;
+}
+
+function usdaFile(directory: string, name: string) {
+  const plain = path.join(directory, name);
+  return fs.existsSync(plain) ? plain : `${plain}.gz`;
+}
+
+/**
+ * Reads a FoodData Central CSV download (the extracted directory holding
+ * food.csv, food_nutrient.csv, food_portion.csv, measure_unit.csv and
+ * food_category.csv). Keeps Foundation, SR Legacy and survey (FNDDS) foods;
+ * foods without an energy value are counted as skipped.
+ */
+export async function* readUsdaFoods(
+  directory: string,
+  onSkip: () => void = () => {}
+): AsyncGenerator<FoodCompositionRecord> {
+  const categories = new Map<string, string>();
+  if (fs.existsSync(usdaFile(directory, "food_category.csv"))) {
+    for await (const row of readCsvRows(
+      usdaFile(directory, "food_category.csv")
+    )) {
+      categories.set(row.id, row.description);
+    }
+  }
+
+  const foods = new Map<
+    string,
+    { name: string; category?: string; amounts: Map<number, number> }
+  >();
+  for await (const row of readCsvRows(usdaFile(directory, "food.csv"))) {
+    if (
+      !USDA_DATA_TYPES.has(row.data_type) &&
+      row.data_type !== USDA_SURVEY_DATA_TYPE
+    ) {
+      continue;
+    }
+    if (!row.description) continue;
+    foods.set(row.fdc_id, {
+      name: row.description,
+      category: categories.get(row.food_category_id),
+      amounts: new Map(),
+    });
+  }
+
+  for await (const row of readCsvRows(
+    usdaFile(directory, "food_nutrient.csv")
+  )) {
+    const nutrientId = Number(row.nutrient_id);
+    if (!USDA_NUTRIENT_IDS.has(nutrientId)) continue;
+    const food = foods.get(row.fdc_id);
+    const amount = toAmount(row.amount);
+    if (food && amount !== undefined) {
+      food.amounts.set(nutrientId, amount);
+    }
+  }
+
+  const units = new Map<string, string>();
+  if (fs.existsSync(usdaFile(directory, "measure_unit.csv"))) {
+    for await (const row of readCsvRows(
+      usdaFile(directory, "measure_unit.csv")
+    )) {
+      units.set(row.id, row.name);
+    }
+  }
+
+  const portions = new Map<string, FoodPortionData[]>();
+  if (fs.existsSync(usdaFile(directory, "food_portion.csv"))) {
+    for await (const row of readCsvRows(
+      usdaFile(directory, "food_portion.csv")
+    )) {
+      if (!foods.has(row.fdc_id)) continue;
+      const grams = toAmount(row.gram_weight);
+      if (!grams) continue;
+
+      // SR Legacy leaves the unit "undetermined" and names it in the modifier
+      const unitName = units.get(row.measure_unit_id);
+      const measure =
+        unitName && unitName !== "undetermined"
+          ? [unitName, row.modifier].filter(Boolean).join(", ")
+          : row.modifier || row.portion_description;
+      const unit = normalizePortionUnit(measure || "");
+      if (!unit) continue;
+
+      const amount = toAmount(row.amount) || 1;
+      const label =
+        row.portion_description &&
+        row.portion_description !== "Quantity not specified"
+          ? row.portion_description
+          : `${amount} ${measure}`;
+      const list = portions.get(row.fdc_id) ?? [];
+      list.push({ unit, label, grams: grams / amount });
+      portions.set(row.fdc_id, list);
+    }
+  }
+
+  for (const [fdcId, food] of foods) {
+    const nutrients = toUsdaProfile(food.amounts);
+    if (nutrients.calories === undefined) {
+      onSkip();
+      continue;
+    }
+    yield {
+      source: "USDA",
+      source_id: fdcId,
+      name_en: food.name,
+      category: food.category,
+      nutrients_per_100g: nutrients,
+      portions: portions.get(fdcId) ?? [],
+    };
+  }
+}
+
+// Tzameret columns as published by the Ministry of Health; the first alias
+// present in the file is used
+const TZAMERET_NUTRIENTS: { key: NutrientKey; columns: string[] }[] = [
+  { key: "calories", columns: ["food_energy", "energy_kcal"] },
+  { key: "protein_g", columns: ["protein"] },
+  { key: "carbs_g", columns: ["carbohydrates", "carbohydrate"] },
+  { key: "fats_g", columns: ["total_fat", "fat"] },
+  { key: "fiber_g", columns: ["total_dietary_fiber", "dietary_fiber"] },
+  { key: "sugar_g", columns: ["total_sugars", "sugars"] },
+  { key: "sodium_mg", columns: ["sodium"] },
+  { key: "cholesterol_mg", columns: ["cholesterol"] },
+  { key: "saturated_fats_g", columns: ["total_saturated_fatty_acids"] },
+  {
+    key: "monounsaturated_fats_g",
+    columns: ["total_monounsaturated_fatty_acids"],
+  },
+  {
+    key: "polyunsaturated_fats_g",
+    columns: ["total_polyunsaturated_fatty_acids"],
+  },
+  { key: "alcohol_g", columns: ["alcohol"] },
+  { key: "caffeine_mg", columns: ["caffeine"] },
+  { key: "vitamin_a_mcg", columns: ["vitamin_a_re", "vitamin_a_rae"] },
+  { key: "vitamin_c_mg", columns: ["vitamin_c"] },
+  { key: "vitamin_d_mcg", columns: ["vitamin_d"] },
+  { key: "vitamin_e_mg", columns: ["vitamin_e"] },
+  { key: "vitamin_k_mcg", columns: ["vitamin_k"] },
+  { key: "vitamin_b12_mcg", columns: ["vitamin_b12"] },
+  { key: "folate_mcg", columns: ["folate", "folate_dfe"] },
+  { key: "niacin_mg", columns: ["niacin"] },
+  { key: "thiamin_mg", columns: ["thiamin"] },
+  { key: "riboflavin_mg", columns: ["riboflavin"] },
+  { key: "pantothenic_acid_mg", columns: ["pantothenic_acid"] },
+  { key: "vitamin_b6_mg", columns: ["vitamin_b6"] },
+  { key: "iron_mg", columns: ["iron"] },
+  { key: "magnesium_mg", columns: ["magnesium"] },
+  { key: "zinc_mg", columns: ["zinc"] },
+  { key: "calcium_mg", columns: ["calcium"] },
+  { key: "potassium_mg", columns: ["potassium"] },
+  { key: "phosphorus_mg", columns: ["phosphorus"] },
+  { key: "selenium_mcg", columns: ["selenium"] },
+  { key: "copper_mg", columns: ["copper"] },
+  { key: "manganese_mg", columns: ["manganese"] },
+];
+
+function tzameretNutrients(row: Record<string, string>) {
+  const profile: NutrientProfile = {};
+  for (const { key, columns } of TZAMERET_NUTRIENTS) {
+    const column = columns.find((name) => row[name] !== undefined);
+    const amount = column ? toAmount(row[column]) : undefined;
+    if (amount !== undefined) profile[key] = amount;
+  }
+  return profile;
+}
+
+/**
+ * Reads the Tzameret food composition table (the Ministry of Health
+ * "mitzrachim" CSV), with an optional household measures CSV keyed by the
+ * same food code. Foods without an energy value are counted as skipped.
+ */
+export async function* readTzameretFoods(
+  filePath: string,
+  portionsPath?: string,
+  onSkip: () => void = () => {}
+): AsyncGenerator<FoodCompositionRecord> {
+  const portions = new Map<string, FoodPortionData[]>();
+  if (portionsPath) {
+    for await (const row of readCsvRows(portionsPath)) {
+      const code = row.mmitzrach || row.code;
+      const grams = toAmount(row.mishkal);
+      const label = row.shmmida || row.unit_name;
+      const unit = label && normalizePortionUnit(label);
+      if (!code || !grams || !unit) continue;
+
+      const list = portions.get(code) ?? [];
+      list.push({ unit, label, grams });
+      portions.set(code, list);
+    }
+  }
+
+  for await (const row of readCsvRows(filePath)) {
+    const code = row.code || row.smlmitzrach;
+    const nameHe = row.shmmitzrach;
+    const nutrients = tzameretNutrients(row);
+    if (!code || !nameHe || nutrients.calories === undefined) {
+      onSkip();
+      continue;
+    }
+    yield {
+      source: "TZAMERET",
+      source_id: code,
+      name_en: row.english_name || nameHe,
+      name_he: nameHe,
+      nutrients_per_100g: nutrients,
+      portions: portions.get(code) ?? [],
+    };
+  }
+}
@@ -0,0 +1,432 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import OpenAI from "openai";
+
+export type LLMContentPart =
+  | { type: "text"; text: string }
+  | {
+      type: "image_url";
+      image_url: { url: string; detail?: "low" | "high" | "auto" };
+    };
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | LLMContentPart[];
+  // Assistant turns that called tools
+  tool_calls?: LLMToolCall[];
+  // Tool turns carry the result of this call
+  tool_call_id?: string;
+}
+
+// A function the model may call; `parameters` is a JSON schema
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  // JSON as written by the model, so it may not parse
+  arguments: string;
+}
+
+export interface LLMRequest {
+  // Feature making the call; fixtures are stored per feature
+  feature: string;
+  model: string;
+  messages: LLMMessage[];
+  max_tokens?: number;
+  temperature?: number;
+  tools?: LLMTool[];
+}
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage: LLMUsage;
+  // Set when the model asked for tools instead of (or besides) answering
+  tool_calls?: LLMToolCall[];
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  // Providers honour the signal where they can; timeouts are enforced by
+  // LLMService either way
+  complete(request: LLMRequest, signal?: AbortSignal): Promise<LLMCompletion>;
+  // Passes the answer to onToken piece by piece and resolves with the whole
+  // completion. Providers without it are streamed as a single piece.
+  stream?(
+    request: LLMRequest,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<LLMCompletion>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public code?: string,
+    // Rate limits, server errors and dropped connections are worth retrying
+    public retryable = false
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
+  }
+}
+
+export class LLMFixtureNotFoundError extends Error {
+  constructor(public fixturePath: string) {
+    super(`No LLM fixture recorded at ${fixturePath}`);
+    this.name = "LLMFixtureNotFoundError";
+  }
+}
+
+function toOpenAIMessages(
+  messages: LLMMessage[]
+): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((message) => {
+    if (message.role === "tool") {
+      return {
+        role: "tool",
+        tool_call_id: message.tool_call_id || "",
+        content: message.content as string,
+      };
+    }
+    if (message.role === "assistant" && message.tool_calls?.length) {
+      return {
+        role: "assistant",
+        content: (message.content as string) || null,
+        tool_calls: message.tool_calls.map((call) => ({
+          id: call.id,
+          type: "function" as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return message as OpenAI.Chat.ChatCompletionMessageParam;
+  });
+}
+
+function toOpenAITools(tools?: LLMTool[]) {
+  return tools?.length
+    ? tools.map((tool) => ({ type: "function" as const, function: tool }))
+    : undefined;
+}
+
+// OpenAI itself, or any server speaking its chat completions API (Ollama,
+// llama.cpp, vLLM, LM Studio) when given a base URL
+export class OpenAIProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly name: string,
+    options: { apiKey: string; baseURL?: string }
+  ) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      // Retries and backoff are handled by LLMService
+      maxRetries: 0,
+    });
+  }
+
+  async complete(request: LLMRequest, signal?: AbortSignal) {
+    try {
+      const response = await this.client.chat.completions.create(
+        {
+          model: request.model,
+          messages: toOpenAIMessages(request.messages),
+          max_tokens: request.max_tokens,
+          temperature: request.temperature,
+          tools: toOpenAITools(request.tools),
+        },
+        { signal }
+      );
+
+      const message = response.choices[0]?.message;
+      const toolCalls = (message?.tool_calls || []).map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      }));
+
+      return {
+        content: message?.content || "",
+        model: response.model || request.model,
+        usage: {
+          prompt_tokens: response.usage?.prompt_tokens || 0,
+          completion_tokens: response.usage?.completion_tokens || 0,
+        },
+        tool_calls: toolCalls.length ? toolCalls : undefined,
+      };
+    } catch (error: any) {
+      throw this.toProviderError(error, signal);
+    }
+  }
+
+  async stream(
+    request: LLMRequest,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ) {
+    try {
+      const stream = await this.client.chat.completions.create(
+        {
+          model: request.model,
+          messages: toOpenAIMessages(request.messages),
+          max_tokens: request.max_tokens,
+          temperature: request.temperature,
+          tools: toOpenAITools(request.tools),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal }
+      );
+
+      let content = "";
+      let model = request.model;
+      const usage: LLMUsage = { prompt_tokens: 0, completion_tokens: 0 };
+      // Tool calls arrive in fragments keyed by their index
+      const toolCalls: LLMToolCall[] = [];
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        const token = delta?.content;
+        if (token) {
+          content += token;
+          onToken(token);
+        }
+        for (const fragment of delta?.tool_calls || []) {
+          const call = toolCalls[fragment.index] || {
+            id: "",
+            name: "",
+            arguments: "",
+          };
+          toolCalls[fragment.index] = call;
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) {
+            call.arguments += fragment.function.arguments;
+          }
+        }
+        if (chunk.model) model = chunk.model;
+        if (chunk.usage) {
+          usage.prompt_tokens = chunk.usage.prompt_tokens;
+          usage.completion_tokens = chunk.usage.completion_tokens;
+        }
+      }
+
+      return {
+        content,
+        model,
+        usage,
+        tool_calls: toolCalls.length ? toolCalls : undefined,
+      };
+    } catch (error: any) {
+      throw this.toProviderError(error, signal);
+    }
+  }
+
+  private toProviderError(error: any, signal?: AbortSignal) {
+    if (signal?.aborted) return error;
+
+    const status = typeof error?.status === "number" ? error.status : undefined;
+    return new LLMProviderError(
+      error?.message || "LLM request failed",
+      status,
+      error?.code || undefined,
+      status === undefined || status === 429 || status >= 500
+    );
+  }
+}
+
+interface FixtureFile {
+  feature: string;
+  model: string;
+  messages: LLMMessage[];
+  content: string;
+  tool_calls?: LLMToolCall[];
+  usage?: LLMUsage;
+}
+
+// Inline images are stored by hash so fixtures stay small and readable
+function redactImages(messages: LLMMessage[]): LLMMessage[] {
+  return messages.map((message) =>
+    typeof message.content === "string"
+      ? message
+      : {
+          ...message,
+          content: message.content.map((part) =>
+            part.type === "image_url" && part.image_url.url.startsWith("data:")
+              ? {
+                  ...part,
+                  image_url: {
+                    ...part.image_url,
+                    url: `sha256:${crypto
+                      .createHash("sha256")
+                      .update(part.image_url.url)
+                      .digest("hex")}`,
+                  },
+                }
+              : part
+          ),
+        }
+  );
+}
+
+/**
+ * Replays recorded completions so the backend runs offline and returns the
+ * same answer for the same prompt. Fixtures live at
+ * `<dir>/<feature>/<hash of the messages>.json`; a `default.json` next to
+ * them answers any other prompt when not recording. Model and sampling
+ * settings are left out of the hash, so changing a feature's model doesn't
+ * invalidate its fixtures.
+ *
+ * With an upstream provider, missing fixtures are recorded from it.
+ */
+export class FixtureLLMProvider implements LLMProvider {
+  readonly name = "fixture";
+
+  constructor(private dir: string, private upstream?: LLMProvider) {}
+
+  static fixtureKey(messages: LLMMessage[]) {
+    return crypto
+      .createHash("sha256")
+      .update(JSON.stringify(redactImages(messages)))
+      .digest("hex")
+      .slice(0, 32);
+  }
+
+  private fixturePath(feature: string, name: string) {
+    const fullPath = path.resolve(this.dir, feature, `${name}.json`);
+    if (!fullPath.startsWith(path.resolve(this.dir) + path.sep)) {
+      throw new Error("Invalid fixture feature");
+    }
+    return fullPath;
+  }
+
+  private async readFixture(fixturePath: string) {
+    try {
+      const raw = await fs.readFile(fixturePath, "utf8");
+      return JSON.parse(raw) as FixtureFile;
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async complete(request: LLMRequest, signal?: AbortSignal) {
+    const key = FixtureLLMProvider.fixtureKey(request.messages);
+    const fixturePath = this.fixturePath(request.feature, key);
+
+    let fixture = await this.readFixture(fixturePath);
+    // While recording, prompts without their own fixture go upstream
+    if (!fixture && !this.upstream) {
+      fixture = await this.readFixture(
+        this.fixturePath(request.feature, "default")
+      );
+    }
+
+    if (fixture) {
+      return {
+        content: fixture.content,
+        model: fixture.model || request.model,
+        usage: fixture.usage || { prompt_tokens: 0, completion_tokens: 0 },
+        tool_calls: fixture.tool_calls,
+      };
+    }
+
+    if (!this.upstream) {
+      throw new LLMFixtureNotFoundError(fixturePath);
+    }
+
+    const completion = await this.upstream.complete(request, signal);
+    const recorded: FixtureFile = {
+      feature: request.feature,
+      model: completion.model,
+      messages: redactImages(request.messages),
+      content: completion.content,
+      tool_calls: completion.tool_calls,
+      usage: completion.usage,
+    };
+    await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+    await fs.writeFile(fixturePath, JSON.stringify(recorded, null, 2));
+    console.log(`📼 Recorded LLM fixture ${request.feature}/${key}`);
+
+    return completion;
+  }
+
+  // Replays the recorded answer word by word, like a live stream
+  async stream(
+    request: LLMRequest,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ) {
+    const completion = await this.complete(request, signal);
+    for (const token of completion.content.match(/\s*\S+/g) || []) {
+      signal?.throwIfAborted();
+      onToken(token);
+    }
+    return completion;
+  }
+}
+
+function createProvider(name: string): LLMProvider {
+  if (name === "openai") {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("OPENAI_API_KEY environment variable is not set");
+    }
+    return new OpenAIProvider("openai", {
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+
+  if (name === "local") {
+    if (!process.env.LLM_BASE_URL) {
+      throw new Error("LLM_BASE_URL environment variable is not set");
+    }
+    return new OpenAIProvider("local", {
+      // Most local servers ignore the key but the client requires one
+      apiKey: process.env.LLM_API_KEY || "local",
+      baseURL: process.env.LLM_BASE_URL,
+    });
+  }
+
+  if (name === "fixture") {
+    return new FixtureLLMProvider(
+      process.env.LLM_FIXTURES_DIR ||
+        path.join(process.cwd(), "fixtures", "llm"),
+      process.env.LLM_FIXTURE_RECORD === "true"
+        ? createProvider(process.env.LLM_FIXTURE_UPSTREAM || "openai")
+        : undefined
+    );
+  }
+
+  throw new Error(`Unsupported LLM provider: ${name}`);
+}
+
+let llmProvider: LLMProvider | null | undefined;
+
+/**
+ * The provider named by LLM_PROVIDER ("openai", "local" or "fixture"). When
+ * unset, OpenAI is used if OPENAI_API_KEY is present; otherwise there is no
+ * provider and AI features use their built-in fallbacks.
+ */
+export function getLLMProvider(): LLMProvider | null {
+  if (llmProvider !== undefined) return llmProvider;
+
+  const name =
+    process.env.LLM_PROVIDER ||
+    (process.env.OPENAI_API_KEY ? "openai" : undefined);
+
+  llmProvider = name ? createProvider(name) : null;
+  return llmProvider;
+}
@@ -0,0 +1,201 @@
+import fs from "fs";
+import readline from "readline";
+import zlib from "zlib";
+import axios from "axios";
+import { ProductData } from "../types/foodProducts";
+
+const OFF_API_URL = "https://world.openfoodfacts.org/api/v0/product";
+
+// Live lookups can be switched off for fully offline deployments that rely
+// on an imported dump
+export function isLiveLookupEnabled() {
+  return process.env.OPENFOODFACTS_LIVE_LOOKUP !== "false";
+}
+
+function stripLanguagePrefix(tag: string) {
+  return tag.replace(/^[a-z]{2}:/, "");
+}
+
+function toNumber(value: unknown) {
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  return typeof number === "number" && Number.isFinite(number)
+    ? number
+    : undefined;
+}
+
+function splitList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== "string" || !value.trim()) return [];
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Maps an OpenFoodFacts product (API response or JSONL dump line) to our
+ * product shape. Returns null for records without a usable name or energy.
+ */
+export function mapOpenFoodFactsProduct(product: any): ProductData | null {
+  const barcode = String(product.code || product._id || "").trim();
+  const nutriments = product.nutriments || {};
+  const nutriment = (key: string) =>
+    toNumber(
+      nutriments[`${key}_100g`] ?? nutriments[`${key.replace(/-/g, "_")}_100g`]
+    );
+
+  const energyKcal =
+    nutriment("energy-kcal") ??
+    // energy_100g is in kJ
+    (nutriment("energy") !== undefined
+      ? Math.round(nutriment("energy")! / 4.184)
+      : undefined);
+
+  const name =
+    product.product_name || product.product_name_en || product.generic_name;
+  if (!barcode || !name || energyKcal === undefined) return null;
+
+  const sodium = nutriment("sodium");
+
+  return {
+    barcode,
+    name,
+    brand: splitList(product.brands)[0] || undefined,
+    category: splitList(product.categories)[0] || "Unknown",
+    nutrition_per_100g: {
+      calories: energyKcal,
+      protein: nutriment("proteins") || 0,
+      carbs: nutriment("carbohydrates") || 0,
+      fat: nutriment("fat") || 0,
+      fiber: nutriment("fiber"),
+      sugar: nutriment("sugars"),
+      // OpenFoodFacts reports sodium in grams
+      sodium: sodium !== undefined ? sodium * 1000 : undefined,
+      saturated_fat: nutriment("saturated-fat"),
+      trans_fat: nutriment("trans-fat"),
+      cholesterol: nutriment("cholesterol"),
+      potassium: nutriment("potassium"),
+      calcium: nutriment("calcium"),
+      iron: nutriment("iron"),
+      vitamin_c: nutriment("vitamin-c"),
+      vitamin_d: nutriment("vitamin-d"),
+    },
+    ingredients: splitList(
+      product.ingredients_text_en || product.ingredients_text
+    ),
+    allergens: splitList(product.allergens_tags || product.allergens).map(
+      stripLanguagePrefix
+    ),
+    labels: splitList(product.labels_tags).map(stripLanguagePrefix),
+    health_score: toNumber(product.nutriscore_score),
+    image_url: product.image_url || undefined,
+    serving_size: product.serving_size || undefined,
+  };
+}
+
+export async function fetchOpenFoodFactsProduct(
+  barcode: string
+): Promise<ProductData | null> {
+  const response = await axios.get(`${OFF_API_URL}/${barcode}.json`, {
+    timeout: 5000,
+  });
+
+  if (response.data.status !== 1 || !response.data.product) return null;
+  return mapOpenFoodFactsProduct({ code: barcode, ...response.data.product });
+}
+
+// Splits one CSV line, honouring double-quoted fields
+export function splitCsvLine(line: string, delimiter: string) {
+  if (delimiter === "\t") return line.split("\t");
+
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+// CSV exports flatten nutriments into "<name>_100g" columns
+function csvRowToProduct(header: string[], values: string[]) {
+  const product: Record<string, any> = { nutriments: {} };
+  header.forEach((column, index) => {
+    const value = values[index];
+    if (value === undefined || value === "") return;
+    if (column.endsWith("_100g")) {
+      product.nutriments[column] = value;
+    } else {
+      product[column] = value;
+    }
+  });
+  return product;
+}
+
+/**
+ * Streams products out of an OpenFoodFacts dump. Supports the JSONL export
+ * and the CSV export (tab separated upstream, comma separated also works),
+ * optionally gzipped. Unusable rows are counted, not thrown.
+ */
+export async function* readOpenFoodFactsDump(
+  filePath: string,
+  onSkip: () => void = () => {}
+): AsyncGenerator<ProductData> {
+  const isGzip = filePath.endsWith(".gz");
+  const format = filePath.replace(/\.gz$/, "").endsWith(".jsonl")
+    ? "jsonl"
+    : "csv";
+
+  const fileStream = fs.createReadStream(filePath);
+  const input = isGzip ? fileStream.pipe(zlib.createGunzip()) : fileStream;
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  let header: string[] | null = null;
+  let delimiter = "\t";
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let raw: any;
+    if (format === "jsonl") {
+      try {
+        raw = JSON.parse(line);
+      } catch {
+        onSkip();
+        continue;
+      }
+    } else if (!header) {
+      delimiter = line.includes("\t") ? "\t" : ",";
+      header = splitCsvLine(line, delimiter);
+      continue;
+    } else {
+      raw = csvRowToProduct(header, splitCsvLine(line, delimiter));
+    }
+
+    const product = mapOpenFoodFactsProduct(raw);
+    if (product) {
+      yield product;
+    } else {
+      onSkip();
+    }
+  }
+}
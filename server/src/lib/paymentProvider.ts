@@ -0,0 +1,198 @@
+import crypto from "crypto";
+
+export type PaidPlan = "PREMIUM" | "GOLD";
+
+export interface CheckoutSessionParams {
+  userId: string;
+  email: string;
+  plan: PaidPlan;
+  amount: number;
+  currency: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  sessionId: string;
+  checkoutUrl: string;
+}
+
+export interface RenewalChargeParams {
+  userId: string;
+  plan: PaidPlan;
+  amount: number;
+  currency: string;
+}
+
+// Provider-neutral view of a webhook notification
+export type BillingEventType =
+  | "payment.succeeded"
+  | "payment.failed"
+  | "subscription.canceled";
+
+export interface BillingEvent {
+  eventId: string;
+  type: BillingEventType;
+  userId: string;
+  plan: PaidPlan;
+  amount: number;
+  currency: string;
+  paymentId?: string;
+  sessionId?: string;
+  paymentMethod?: string;
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckoutSession(params: CheckoutSessionParams): Promise<CheckoutSession>;
+  // Verifies the signature and translates the payload; throws if invalid
+  parseWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ): Promise<BillingEvent>;
+  // Charges the stored payment method for the next period. Providers that
+  // renew on their own side and report through webhooks return null.
+  chargeRenewal(params: RenewalChargeParams): Promise<BillingEvent | null>;
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message = "Invalid webhook signature") {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
+
+interface FakeSession extends CheckoutSessionParams {
+  sessionId: string;
+  status: "open" | "completed" | "canceled";
+}
+
+/**
+ * In-process provider for development and tests. Checkout happens on a small
+ * HTML page served by the billing routes, and completed payments are sent
+ * through the same signed-webhook path a real provider would use.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  static readonly SIGNATURE_HEADER = "x-fake-signature";
+
+  private sessions = new Map<string, FakeSession>();
+
+  constructor(private webhookSecret: string, private baseUrl: string) {}
+
+  async createCheckoutSession(params: CheckoutSessionParams) {
+    const sessionId = `fake_cs_${crypto.randomBytes(12).toString("hex")}`;
+    this.sessions.set(sessionId, { ...params, sessionId, status: "open" });
+
+    return {
+      sessionId,
+      checkoutUrl: `${this.baseUrl}/billing/fake/checkout/${sessionId}`,
+    };
+  }
+
+  getSession(sessionId: string) {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Simulates the customer paying (or abandoning) the checkout. Returns the
+   * signed webhook request the provider would deliver, or null on cancel.
+   */
+  completeSession(sessionId: string, outcome: "pay" | "cancel") {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.status !== "open") return null;
+
+    if (outcome === "cancel") {
+      session.status = "canceled";
+      return null;
+    }
+
+    session.status = "completed";
+    return this.signEvent({
+      eventId: `fake_evt_${crypto.randomBytes(12).toString("hex")}`,
+      type: "payment.succeeded",
+      userId: session.userId,
+      plan: session.plan,
+      amount: session.amount,
+      currency: session.currency,
+      paymentId: `fake_pay_${crypto.randomBytes(12).toString("hex")}`,
+      sessionId,
+      paymentMethod: "fake_card",
+    });
+  }
+
+  signEvent(event: BillingEvent) {
+    const rawBody = Buffer.from(JSON.stringify(event));
+    const signature = crypto
+      .createHmac("sha256", this.webhookSecret)
+      .update(rawBody)
+      .digest("hex");
+    return {
+      rawBody,
+      headers: { [FakePaymentProvider.SIGNATURE_HEADER]: signature },
+    };
+  }
+
+  async parseWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ) {
+    const signature = headers[FakePaymentProvider.SIGNATURE_HEADER];
+    if (typeof signature !== "string") {
+      throw new WebhookSignatureError("Missing webhook signature");
+    }
+
+    const expected = crypto
+      .createHmac("sha256", this.webhookSecret)
+      .update(rawBody)
+      .digest("hex");
+    if (
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new WebhookSignatureError();
+    }
+
+    return JSON.parse(rawBody.toString("utf8")) as BillingEvent;
+  }
+
+  async chargeRenewal(params: RenewalChargeParams): Promise<BillingEvent> {
+    const failed = process.env.FAKE_BILLING_FAIL_RENEWALS === "true";
+
+    return {
+      eventId: `fake_evt_${crypto.randomBytes(12).toString("hex")}`,
+      type: failed ? "payment.failed" : "payment.succeeded",
+      userId: params.userId,
+      plan: params.plan,
+      amount: params.amount,
+      currency: params.currency,
+      paymentId: `fake_pay_${crypto.randomBytes(12).toString("hex")}`,
+      paymentMethod: "fake_card",
+      failureReason: failed ? "card_declined" : undefined,
+    };
+  }
+}
+
+let paymentProvider: PaymentProvider | undefined;
+
+export function getPaymentProvider(): PaymentProvider {
+  if (paymentProvider) return paymentProvider;
+
+  const provider = process.env.BILLING_PROVIDER || "fake";
+
+  if (provider === "fake") {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("The fake billing provider cannot run in production");
+    }
+    paymentProvider = new FakePaymentProvider(
+      process.env.BILLING_WEBHOOK_SECRET || "dev-billing-secret",
+      process.env.API_BASE_URL ||
+        `http://localhost:${process.env.PORT || 5000}/api`
+    );
+  } else {
+    throw new Error(`Unsupported billing provider: ${provider}`);
+  }
+
+  return paymentProvider;
+}
@@ -0,0 +1,58 @@
+import crypto from "crypto";
+
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+
+let cachedKey: Buffer | undefined;
+
+function getKey() {
+  if (cachedKey) return cachedKey;
+
+  const secret =
+    process.env.DEVICE_TOKEN_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error(
+      "DEVICE_TOKEN_ENCRYPTION_KEY environment variable is not set"
+    );
+  }
+  // Tokens already encrypted with the JWT secret stay readable, but rotating
+  // it would lose them
+  if (!process.env.DEVICE_TOKEN_ENCRYPTION_KEY) {
+    console.warn(
+      "⚠️ DEVICE_TOKEN_ENCRYPTION_KEY is not set, encrypting device tokens with JWT_SECRET"
+    );
+  }
+
+  // Any string works as a secret; hash it down to a 256-bit key
+  cachedKey = crypto.createHash("sha256").update(secret).digest();
+  return cachedKey;
+}
+
+export function encryptToken(token: string) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const data = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return (
+    PREFIX + [iv, tag, data].map((part) => part.toString("base64")).join(":")
+  );
+}
+
+export function decryptToken(encrypted: string) {
+  // Tokens stored before encryption was added are plain base64
+  if (!encrypted.startsWith(PREFIX)) {
+    return Buffer.from(encrypted, "base64").toString();
+  }
+
+  const [iv, tag, data] = encrypted
+    .slice(PREFIX.length)
+    .split(":")
+    .map((part) => Buffer.from(part, "base64"));
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString(
+    "utf8"
+  );
+}
@@ -0,0 +1,177 @@
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "./auth";
+import { AuthService } from "../services/auth";
+import { prisma } from "../lib/database";
+import {
+  addDaysToDateString,
+  getLocalDateString,
+  getZonedStartOfDay,
+  resolveTimeZone,
+} from "../utils/dates";
+
+export interface AiQuotaState {
+  plan: string;
+  limit: number; // -1 = unlimited
+  used: number;
+  remaining: number; // -1 = unlimited
+  resetAt: Date;
+}
+
+// Counters are reset by the rollover cron at each user's local midnight (see
+// CronJobService); the next reset is therefore the coming local midnight.
+export function getNextQuotaReset(
+  from: Date = new Date(),
+  timeZone?: string | null
+) {
+  const zone = resolveTimeZone(timeZone);
+  return getZonedStartOfDay(
+    addDaysToDateString(getLocalDateString(from, zone), 1),
+    zone
+  );
+}
+
+function getCurrentQuotaWindowStart(
+  from: Date = new Date(),
+  timeZone?: string | null
+) {
+  const zone = resolveTimeZone(timeZone);
+  return getZonedStartOfDay(getLocalDateString(from, zone), zone);
+}
+
+function setQuotaHeaders(res: Response, quota: AiQuotaState) {
+  res.setHeader("X-AI-Quota-Plan", quota.plan);
+  res.setHeader("X-AI-Quota-Limit", quota.limit);
+  res.setHeader("X-AI-Quota-Remaining", quota.remaining);
+  res.setHeader("X-AI-Quota-Reset", quota.resetAt.toISOString());
+}
+
+// Hands back a reserved request, e.g. when the work behind it failed on our side
+export function refundAiQuota(userId: string) {
+  prisma.user
+    .updateMany({
+      where: { user_id: userId, ai_requests_count: { gt: 0 } },
+      data: { ai_requests_count: { decrement: 1 } },
+    })
+    .catch((error: any) =>
+      console.error("❌ Failed to refund AI quota:", error)
+    );
+}
+
+/**
+ * Reserves one AI request from the user's daily plan allowance before the
+ * handler runs. The slot is handed back if the handler answers with a 4xx or
+ * 5xx, so users are not charged for rejected requests or our own errors.
+ *
+ * Must run after authenticateToken.
+ */
+export function enforceAiQuota(feature: string) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        error: "User not authenticated",
+      });
+    }
+
+    try {
+      const user = await prisma.user.findUnique({
+        where: { user_id: userId },
+        select: {
+          subscription_type: true,
+          ai_requests_count: true,
+          ai_requests_reset_at: true,
+          timezone: true,
+        },
+      });
+
+      if (!user) {
+        return res.status(401).json({
+          success: false,
+          error: "User not found",
+        });
+      }
+
+      const now = new Date();
+      const windowStart = getCurrentQuotaWindowStart(now, user.timezone);
+      const resetAt = getNextQuotaReset(now, user.timezone);
+      const { dailyRequests: limit } = await AuthService.getRolePermissions(
+        user.subscription_type
+      );
+
+      // Catch up if the midnight reset did not run (e.g. server was down)
+      if (user.ai_requests_reset_at < windowStart) {
+        await prisma.user.updateMany({
+          where: {
+            user_id: userId,
+            ai_requests_reset_at: { lt: windowStart },
+          },
+          data: { ai_requests_count: 0, ai_requests_reset_at: now },
+        });
+      }
+
+      // Conditional increment so concurrent requests cannot overshoot the limit
+      const reserved = await prisma.user.updateMany({
+        where: {
+          user_id: userId,
+          ...(limit === -1 ? {} : { ai_requests_count: { lt: limit } }),
+        },
+        data: { ai_requests_count: { increment: 1 } },
+      });
+
+      const { ai_requests_count: used } =
+        (await prisma.user.findUnique({
+          where: { user_id: userId },
+          select: { ai_requests_count: true },
+        })) || { ai_requests_count: 0 };
+
+      const quota: AiQuotaState = {
+        plan: user.subscription_type,
+        limit,
+        used,
+        remaining: limit === -1 ? -1 : Math.max(0, limit - used),
+        resetAt,
+      };
+      setQuotaHeaders(res, quota);
+
+      if (reserved.count === 0) {
+        console.log(
+          `⛔ AI quota exceeded for user ${userId} (${feature}): ${used}/${limit}`
+        );
+        res.setHeader(
+          "Retry-After",
+          Math.ceil((resetAt.getTime() - now.getTime()) / 1000)
+        );
+        return res.status(429).json({
+          success: false,
+          error: "Daily AI request limit reached",
+          code: "AI_QUOTA_EXCEEDED",
+          quota: {
+            feature,
+            plan: quota.plan,
+            limit: quota.limit,
+            used: quota.used,
+            remaining: 0,
+            resetAt: quota.resetAt.toISOString(),
+          },
+        });
+      }
+
+      res.locals.aiQuota = quota;
+
+      res.on("finish", () => {
+        if (res.statusCode < 400) return;
+        refundAiQuota(userId);
+      });
+
+      next();
+    } catch (error) {
+      console.error("💥 AI quota check failed:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to check AI request quota",
+      });
+    }
+  };
+}
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import { AuthService } from "../services/auth";
+import { TimeZoneService } from "../services/timeZone";
+import { isValidTimeZone } from "../utils/dates";
 
 export interface AuthRequest extends Request {
   user?: any;
@@ -49,6 +51,20 @@ export async function authenticateToken(
     const user = await AuthService.verifyToken(token);
     console.log("✅ Token verified for user:", user.user_id);
 
+    // The app sends its current zone with every request; keep the stored one
+    // in step so travelling users get their days bucketed locally
+    const headerTimeZone = req.headers["x-timezone"];
+    if (
+      typeof headerTimeZone === "string" &&
+      headerTimeZone !== user.timezone &&
+      isValidTimeZone(headerTimeZone)
+    ) {
+      user.timezone = headerTimeZone;
+      TimeZoneService.setUserTimeZone(user.user_id, headerTimeZone).catch(
+        (error) => console.error("❌ Failed to update time zone:", error)
+      );
+    }
+
     req.user = user;
     next();
   } catch (error) {
@@ -0,0 +1,33 @@
+import { Response, NextFunction } from "express";
+import { AuthRequest } from "./auth";
+
+// Moderators are configured by email, e.g.
+// PRODUCT_MODERATOR_EMAILS=alice@example.com,bob@example.com
+function getModeratorEmails() {
+  return (process.env.PRODUCT_MODERATOR_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Restricts a route to product catalog moderators.
+ *
+ * Must run after authenticateToken.
+ */
+export function requireModerator(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const email = req.user?.email?.toLowerCase();
+
+  if (!email || !getModeratorEmails().includes(email)) {
+    return res.status(403).json({
+      success: false,
+      error: "Moderator access required",
+    });
+  }
+
+  next();
+}
@@ -0,0 +1,210 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { BillingService } from "../services/billing";
+import {
+  FakePaymentProvider,
+  getPaymentProvider,
+  WebhookSignatureError,
+} from "../lib/paymentProvider";
+import { createCheckoutSchema } from "../types/billing";
+
+const router = Router();
+
+function getApiBaseUrl(req: Request) {
+  return (
+    process.env.API_BASE_URL || `${req.protocol}://${req.get("host")}/api`
+  );
+}
+
+// GET /api/billing/plans - Paid plans and their prices
+router.get("/plans", (req, res) => {
+  res.json({ success: true, data: BillingService.getPlans() });
+});
+
+// GET /api/billing/subscription - Current plan, period and grace state
+router.get(
+  "/subscription",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const status = await BillingService.getSubscriptionStatus(
+        req.user.user_id
+      );
+      res.json({ success: true, data: status });
+    } catch (error) {
+      console.error("💥 Get subscription status error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch subscription status",
+      });
+    }
+  }
+);
+
+// POST /api/billing/checkout - Start a checkout session for a paid plan
+router.post(
+  "/checkout",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const input = createCheckoutSchema.parse(req.body);
+      const returnUrl = `${getApiBaseUrl(req)}/billing/checkout/return`;
+
+      const session = await BillingService.createCheckout(
+        req.user.user_id,
+        input.plan,
+        {
+          successUrl: input.success_url || returnUrl,
+          cancelUrl: input.cancel_url || returnUrl,
+        }
+      );
+
+      res.json({ success: true, data: session });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: error.errors[0]?.message || "Invalid checkout request",
+        });
+      }
+      console.error("💥 Create checkout error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to start checkout",
+      });
+    }
+  }
+);
+
+// Landing page for checkouts started without a success/cancel URL
+router.get("/checkout/return", (req, res) => {
+  res.send(
+    "<html><body style=\"font-family: sans-serif; text-align: center; padding: 40px\">" +
+      "<p>You can now return to the app.</p></body></html>"
+  );
+});
+
+// GET /api/billing/checkout/:sessionId - Poll whether a checkout was paid
+router.get(
+  "/checkout/:sessionId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const status = await BillingService.getCheckoutStatus(
+        req.user.user_id,
+        req.params.sessionId
+      );
+      res.json({ success: true, data: status });
+    } catch (error) {
+      console.error("💥 Get checkout status error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch checkout status",
+      });
+    }
+  }
+);
+
+// POST /api/billing/cancel - Stop auto-renew; plan stays until period end
+router.post(
+  "/cancel",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const status = await BillingService.cancelSubscription(req.user.user_id);
+      res.json({ success: true, data: status });
+    } catch (error) {
+      console.error("💥 Cancel subscription error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to cancel subscription",
+      });
+    }
+  }
+);
+
+// POST /api/billing/webhook - Provider notifications (raw body, signed)
+router.post("/webhook", async (req: Request, res: Response) => {
+  try {
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(400).json({
+        success: false,
+        error: "Webhook body must be raw",
+      });
+    }
+
+    const result = await BillingService.handleWebhook(req.body, req.headers);
+    res.json({ success: true, received: true, applied: result.applied });
+  } catch (error) {
+    if (error instanceof WebhookSignatureError) {
+      console.warn("⚠️ Rejected billing webhook:", error.message);
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error("💥 Billing webhook error:", error);
+    // Non-2xx makes the provider retry later
+    res.status(500).json({
+      success: false,
+      error: "Failed to process webhook",
+    });
+  }
+});
+
+function getFakeProvider() {
+  const provider = getPaymentProvider();
+  return provider instanceof FakePaymentProvider ? provider : null;
+}
+
+// GET /api/billing/fake/checkout/:sessionId - Fake provider's hosted page
+router.get("/fake/checkout/:sessionId", (req, res) => {
+  const provider = getFakeProvider();
+  const session = provider?.getSession(req.params.sessionId);
+
+  if (!session || session.status !== "open") {
+    return res.status(404).send("Checkout session not found");
+  }
+
+  res.send(`<!DOCTYPE html>
+<html>
+  <head><meta name="viewport" content="width=device-width, initial-scale=1" /></head>
+  <body style="font-family: sans-serif; text-align: center; padding: 40px">
+    <h2>Test checkout</h2>
+    <p>${session.plan} plan - ${session.amount} ${session.currency} / month</p>
+    <form method="POST">
+      <button name="outcome" value="pay" style="padding: 12px 32px">Pay</button>
+      <button name="outcome" value="cancel" style="padding: 12px 32px">Cancel</button>
+    </form>
+  </body>
+</html>`);
+});
+
+// POST /api/billing/fake/checkout/:sessionId - Complete the fake checkout
+router.post("/fake/checkout/:sessionId", async (req, res) => {
+  try {
+    const provider = getFakeProvider();
+    const session = provider?.getSession(req.params.sessionId);
+
+    if (!provider || !session || session.status !== "open") {
+      return res.status(404).send("Checkout session not found");
+    }
+
+    const outcome = req.body?.outcome === "pay" ? "pay" : "cancel";
+    const webhook = provider.completeSession(session.sessionId, outcome);
+
+    if (!webhook) {
+      return res.redirect(session.cancelUrl);
+    }
+
+    // Deliver through the regular webhook path, signature check included
+    await BillingService.handleWebhook(webhook.rawBody, webhook.headers);
+
+    const successUrl = new URL(session.successUrl);
+    successUrl.searchParams.set("session_id", session.sessionId);
+    res.redirect(successUrl.toString());
+  } catch (error) {
+    console.error("💥 Fake checkout error:", error);
+    res.status(500).send("Checkout failed");
+  }
+});
+
+export { router as billingRoutes };
@@ -0,0 +1,112 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import {
+  BodyMetricNotFoundError,
+  BodyMetricsService,
+} from "../services/bodyMetrics";
+import {
+  bodyMetricsQuerySchema,
+  logBodyMetricSchema,
+} from "../types/bodyMetrics";
+
+const router = Router();
+
+// POST /api/body-metrics - Log a weigh-in and/or body measurements
+router.post("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const input = logBodyMetricSchema.parse(req.body);
+    const metric = await BodyMetricsService.logMetric(req.user.user_id, input);
+
+    res.status(201).json({ success: true, data: metric });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0]?.message || "Invalid measurement",
+      });
+    }
+    console.error("💥 Log body metric error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to log body metric",
+    });
+  }
+});
+
+// GET /api/body-metrics?from=YYYY-MM-DD&to=YYYY-MM-DD - Entries, daily trend
+// weight and a summary including the adaptive TDEE (last 90 days by default)
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const query = bodyMetricsQuerySchema.parse(req.query);
+    const metrics = await BodyMetricsService.getMetrics(
+      req.user.user_id,
+      query
+    );
+
+    res.json({ success: true, data: metrics });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0]?.message || "Invalid date range",
+      });
+    }
+    console.error("💥 Get body metrics error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch body metrics",
+    });
+  }
+});
+
+// GET /api/body-metrics/energy - Current TDEE estimate from intake vs. trend
+router.get(
+  "/energy",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const estimate = await BodyMetricsService.estimateTdee(req.user.user_id);
+
+      res.json({
+        success: true,
+        data: estimate,
+        message: estimate
+          ? undefined
+          : "Log meals and weigh in for at least two weeks to get an estimate",
+      });
+    } catch (error) {
+      console.error("💥 Estimate TDEE error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to estimate energy expenditure",
+      });
+    }
+  }
+);
+
+// DELETE /api/body-metrics/:metricId
+router.delete(
+  "/:metricId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await BodyMetricsService.deleteMetric(
+        req.user.user_id,
+        req.params.metricId
+      );
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof BodyMetricNotFoundError) {
+        return res.status(404).json({ success: false, error: error.message });
+      }
+      console.error("💥 Delete body metric error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to delete body metric",
+      });
+    }
+  }
+);
+
+export { router as bodyMetricsRoutes };
@@ -1,14 +1,22 @@
-import { Router, Request, Response } from "express";
+import { Router, Request, Response, NextFunction } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
-import { ChatService } from "../services/chat";
+import { enforceAiQuota, refundAiQuota } from "../middleware/aiQuota";
+import { ChatService, ChatThreadNotFoundError } from "../services/chat";
+import {
+  ChatActionNotFoundError,
+  ChatActionResolvedError,
+  ChatToolService,
+} from "../services/chatTools";
+import {
+  chatMessageSchema,
+  chatSearchSchema,
+  createThreadSchema,
+  updateThreadSchema,
+} from "../types/chat";
 import { z } from "zod";
 
 const router = Router();
 
-const chatSchema = z.object({
-  message: z.string().min(1).max(1000),
-});
-
 const healthBasedRecommendationSchema = z.object({
   userId: z.string(),
   healthData: z.object({
@@ -26,6 +34,7 @@ const healthBasedRecommendationSchema = z.object({
 router.post(
   "/message",
   authenticateToken,
+  enforceAiQuota("chat"),
   async (req: AuthRequest, res: Response) => {
     const userId = req.user?.user_id;
 
@@ -33,22 +42,25 @@ router.post(
       return res.status(401).json({ error: "User not authenticated" });
     }
 
-    try {
-      const { message, language = "hebrew" } = req.body;
-
-      if (!message || typeof message !== "string" || message.trim() === "") {
-        return res.status(400).json({
-          success: false,
-          error: "Message is required and must be a non-empty string",
-        });
-      }
+    const validationResult = chatMessageSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Message is required and must be a non-empty string",
+        details: validationResult.error.errors,
+      });
+    }
+    const { message, language, threadId } = validationResult.data;
 
+    try {
       console.log("🔄 Processing chat message for user:", userId);
       console.log("📝 Message:", message);
       console.log("🌐 Language:", language);
 
+      const thread = await ChatService.resolveThread(userId, threadId);
       const response = await ChatService.processMessage(
         userId,
+        thread,
         message,
         language
       );
@@ -61,10 +73,16 @@ router.post(
         response: {
           response: response.response,
           messageId: response.messageId,
+          threadId: response.threadId,
+          restriction_warnings: response.restriction_warnings,
+          actions: response.actions,
         },
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof ChatThreadNotFoundError) {
+        return res.status(404).json({ success: false, error: error.message });
+      }
       console.error("💥 Chat error:", error);
       res.status(500).json({
         success: false,
@@ -75,10 +93,395 @@ router.post(
   }
 );
 
+// Same as /message, but the answer arrives as server-sent events: "token"
+// events carry each piece of text, "action" each change proposed for the
+// user to confirm, and "done" the saved message. Closing the connection
+// cancels the answer.
+router.post(
+  "/message/stream",
+  authenticateToken,
+  enforceAiQuota("chat"),
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user?.user_id;
+
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const validationResult = chatMessageSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Message is required and must be a non-empty string",
+        details: validationResult.error.errors,
+      });
+    }
+    const { message, language, threadId } = validationResult.data;
+
+    // Resolved before the stream starts, so a missing thread is still a 404
+    let thread: string;
+    try {
+      thread = await ChatService.resolveThread(userId, threadId);
+    } catch (error) {
+      if (error instanceof ChatThreadNotFoundError) {
+        return res.status(404).json({ success: false, error: error.message });
+      }
+      console.error("💥 Chat thread error:", error);
+      return res.status(500).json({
+        success: false,
+        error: "Failed to process message",
+      });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    // "close" before the response ended means the client went away
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    let sentTokens = false;
+    const send = (event: string, data: unknown) => {
+      if (controller.signal.aborted) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      // Push through the compression middleware instead of buffering
+      if ("flush" in res) res.flush();
+    };
+
+    try {
+      console.log("🔄 Streaming chat message for user:", userId);
+      const result = await ChatService.streamMessage(
+        userId,
+        thread,
+        message,
+        language,
+        (token) => {
+          sentTokens = true;
+          send("token", { text: token });
+        },
+        controller.signal,
+        (action) => send("action", action)
+      );
+
+      send("done", {
+        response: result.response,
+        messageId: result.messageId,
+        threadId: result.threadId,
+        restriction_warnings: result.restriction_warnings,
+        actions: result.actions,
+      });
+    } catch (error) {
+      console.error("💥 Chat stream error:", error);
+      // The quota middleware only refunds error responses, and this one has
+      // already gone out as 200
+      if (!sentTokens) refundAiQuota(userId);
+      send("error", { error: "Failed to process message" });
+    }
+    res.end();
+  }
+);
+
+// Only actions whose confirmation calls the AI take a request from the quota
+async function enforceActionQuota(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) {
+  try {
+    const feature = await ChatToolService.confirmAiFeature(
+      req.user.user_id,
+      req.params.actionId
+    );
+    if (feature) {
+      return enforceAiQuota(feature)(req, res, next);
+    }
+    next();
+  } catch (error) {
+    console.error("💥 Chat action quota check error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to check AI request quota",
+    });
+  }
+}
+
+// POST /api/chat/actions/:actionId/confirm - Run a change the assistant
+// proposed. A failed run comes back as the action with status FAILED.
+router.post(
+  "/actions/:actionId/confirm",
+  authenticateToken,
+  enforceActionQuota,
+  async (req: AuthRequest, res: Response) => {
+    const userId = req.user.user_id;
+
+    try {
+      const action = await ChatToolService.confirmAction(
+        userId,
+        req.params.actionId
+      );
+      // A failed run goes out as 200, so its reserved request is handed back here
+      if (action.status === "FAILED" && res.locals.aiQuota) {
+        refundAiQuota(userId);
+      }
+      res.json({ success: action.status === "CONFIRMED", data: action });
+    } catch (error) {
+      if (error instanceof ChatActionNotFoundError) {
+        return res.status(404).json({ success: false, error: error.message });
+      }
+      if (error instanceof ChatActionResolvedError) {
+        return res.status(409).json({ success: false, error: error.message });
+      }
+      console.error("💥 Confirm chat action error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to confirm action",
+      });
+    }
+  }
+);
+
+// POST /api/chat/actions/:actionId/cancel
+router.post(
+  "/actions/:actionId/cancel",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const action = await ChatToolService.cancelAction(
+        req.user.user_id,
+        req.params.actionId
+      );
+      res.json({ success: true, data: action });
+    } catch (error) {
+      if (error instanceof ChatActionNotFoundError) {
+        return res.status(404).json({ success: false, error: error.message });
+      }
+      if (error instanceof ChatActionResolvedError) {
+        return res.status(409).json({ success: false, error: error.message });
+      }
+      console.error("💥 Cancel chat action error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to cancel action",
+      });
+    }
+  }
+);
+
+// GET /api/chat/threads - Active threads, or archived ones with ?archived=true
+router.get(
+  "/threads",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const threads = await ChatService.listThreads(
+        req.user.user_id,
+        req.query.archived === "true"
+      );
+      res.json({ success: true, data: threads });
+    } catch (error) {
+      console.error("💥 List chat threads error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch chat threads",
+      });
+    }
+  }
+);
+
+// POST /api/chat/threads - Start a new thread; untitled ones are named after
+// their first exchange
+router.post(
+  "/threads",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const validationResult = createThreadSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid thread",
+        details: validationResult.error.errors,
+      });
+    }
+
+    try {
+      const thread = await ChatService.createThread(
+        req.user.user_id,
+        validationResult.data.title
+      );
+      res.status(201).json({ success: true, data: thread });
+    } catch (error) {
+      console.error("💥 Create chat thread error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create chat thread",
+      });
+    }
+  }
+);
+
+// GET /api/chat/threads/:threadId/messages - Oldest first
+router.get(
+  "/threads/:threadId/messages",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const messages = await ChatService.getThreadMessages(
+        req.user.user_id,
+        req.params.threadId,
+        Math.min(limit, 200)
+      );
+      res.json({ success: true, data: messages });
+    } catch (error) {
+      if (error instanceof ChatThreadNotFoundError) {
+        return res.status(404).json({ success: false, error: error.message });
+      }
+      console.error("💥 Get chat thread messages error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch chat messages",
+      });
+    }
+  }
+);
+
+// PATCH /api/chat/threads/:threadId - Rename and/or archive
+router.patch(
+  "/threads/:threadId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const validationResult = updateThreadSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid thread update",
+        details: validationResult.error.errors,
+      });
+    }
+
+    try {
+      const thread = await ChatService.updateThread(
+        req.user.user_id,
+        req.params.threadId,
+        validationResult.data
+      );
+      res.json({ success: true, data: thread });
+    } catch (error) {
+      if (error instanceof ChatThreadNotFoundError) {
+        return res.status(404).json({ success: false, error: error.message });
+      }
+      console.error("💥 Update chat thread error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update chat thread",
+      });
+    }
+  }
+);
+
+// DELETE /api/chat/threads/:threadId - Deletes the thread and its messages
+router.delete(
+  "/threads/:threadId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await ChatService.deleteThread(req.user.user_id, req.params.threadId);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof ChatThreadNotFoundError) {
+        return res.status(404).json({ success: false, error: error.message });
+      }
+      console.error("💥 Delete chat thread error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to delete chat thread",
+      });
+    }
+  }
+);
+
+// GET /api/chat/search?q= - Full-text search over past questions and answers
+router.get(
+  "/search",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    const validationResult = chatSearchSchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Search query is required",
+        details: validationResult.error.errors,
+      });
+    }
+
+    try {
+      const { q, limit } = validationResult.data;
+      const results = await ChatService.searchMessages(
+        req.user.user_id,
+        q,
+        limit
+      );
+      res.json({ success: true, data: results });
+    } catch (error) {
+      console.error("💥 Chat search error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to search chat history",
+      });
+    }
+  }
+);
+
+// GET /api/chat/history - Latest messages across all threads, oldest first
+router.get(
+  "/history",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const messages = await ChatService.getChatHistory(
+        req.user.user_id,
+        Math.min(limit, 200)
+      );
+      res.json({ success: true, data: messages });
+    } catch (error) {
+      console.error("💥 Get chat history error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch chat history",
+      });
+    }
+  }
+);
+
+// DELETE /api/chat/history - Deletes every thread
+router.delete(
+  "/history",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await ChatService.clearChatHistory(req.user.user_id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("💥 Clear chat history error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to clear chat history",
+      });
+    }
+  }
+);
+
 // Health-based recommendation
 router.post(
   "/health-based-recommendation",
   authenticateToken,
+  enforceAiQuota("health_recommendation"),
   async (req: AuthRequest, res: Response) => {
     const userId = req.user?.user_id;
 
@@ -1,20 +1,40 @@
 import { Router } from "express";
+import { z } from "zod";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { DailyGoalsService } from "../services/dailyGoal";
+import {
+  dailyGoalsQuerySchema,
+  setWeekdayOverridesSchema,
+} from "../types/dailyGoals";
 
 const router = Router();
 
-// GET /api/daily-goals - Get user's daily goals
+// GET /api/daily-goals?date=YYYY-MM-DD - Goals that apply on a local day
+// (today by default), including that weekday's override
 router.get("/", authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = req.user.user_id;
-    const goals = await DailyGoalsService.getDailyGoals(userId);
+    const { date } = dailyGoalsQuerySchema.parse(req.query);
+    const goals = await DailyGoalsService.getDailyGoals(userId, date);
+
+    if (!goals) {
+      return res.status(404).json({
+        success: false,
+        error: "No goals were set for this date",
+      });
+    }
 
     res.json({
       success: true,
       data: goals,
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0]?.message || "Invalid date",
+      });
+    }
     console.error("Error fetching daily goals:", error);
     res.status(500).json({
       success: false,
@@ -23,7 +43,25 @@ router.get("/", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// PUT /api/daily-goals - Update user's daily goals
+// GET /api/daily-goals/history - All goal versions, newest first
+router.get("/history", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const history = await DailyGoalsService.getGoalHistory(req.user.user_id);
+
+    res.json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    console.error("Error fetching goal history:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch goal history",
+    });
+  }
+});
+
+// PUT /api/daily-goals - Recalculate goals; the new version applies from today
 router.put("/", authenticateToken, async (req: AuthRequest, res) => {
   try {
     const userId = req.user.user_id;
@@ -42,4 +80,36 @@ router.put("/", authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
+// PUT /api/daily-goals/weekday-overrides - Replace per-weekday targets
+router.put(
+  "/weekday-overrides",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const { overrides } = setWeekdayOverridesSchema.parse(req.body);
+      const goals = await DailyGoalsService.setWeekdayOverrides(
+        req.user.user_id,
+        overrides
+      );
+
+      res.json({
+        success: true,
+        data: goals,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: error.errors[0]?.message || "Invalid weekday overrides",
+        });
+      }
+      console.error("Error updating weekday overrides:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update weekday overrides",
+      });
+    }
+  }
+);
+
 export { router as dailyGoalsRoutes };
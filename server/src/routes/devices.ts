@@ -1,6 +1,11 @@
 import { Router } from "express";
+import { z } from "zod";
 import { DeviceService } from "../services/devices";
+import { DeviceSyncService } from "../services/deviceSync";
+import { ActivityMergeService } from "../services/activityMerge";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { metricPreferenceSchema, syncActivitySchema } from "../types/devices";
+import { isValidTimeZone } from "../utils/dates";
 
 const router = Router();
 
@@ -32,7 +37,14 @@ router.get("/", async (req: AuthRequest, res) => {
 // Connect a new device
 router.post("/connect", async (req: AuthRequest, res) => {
   try {
-    const { deviceType, deviceName, accessToken, refreshToken } = req.body;
+    const {
+      deviceType,
+      deviceName,
+      accessToken,
+      refreshToken,
+      expiresIn,
+      timezone,
+    } = req.body;
 
     if (!deviceType || !deviceName) {
       return res.status(400).json({
@@ -41,6 +53,13 @@ router.post("/connect", async (req: AuthRequest, res) => {
       });
     }
 
+    if (timezone && !isValidTimeZone(timezone)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid IANA time zone",
+      });
+    }
+
     console.log("🔗 Connect device request:", { deviceType, deviceName });
 
     const device = await DeviceService.connectDevice(
@@ -48,7 +67,9 @@ router.post("/connect", async (req: AuthRequest, res) => {
       deviceType,
       deviceName,
       accessToken,
-      refreshToken
+      refreshToken,
+      expiresIn,
+      timezone
     );
 
     res.json({
@@ -66,6 +87,100 @@ router.post("/connect", async (req: AuthRequest, res) => {
   }
 });
 
+// Build the provider's OAuth consent URL (client secrets stay on the server)
+router.get(
+  "/oauth/:deviceType/authorize-url",
+  async (req: AuthRequest, res) => {
+    try {
+      const { deviceType } = req.params;
+      const redirectUri = req.query.redirectUri;
+
+      if (typeof redirectUri !== "string" || !redirectUri) {
+        return res.status(400).json({
+          success: false,
+          error: "redirectUri is required",
+        });
+      }
+
+      if (!DeviceSyncService.isServerSynced(deviceType)) {
+        return res.status(400).json({
+          success: false,
+          error: `Device type ${deviceType} does not use OAuth`,
+        });
+      }
+
+      const url = DeviceSyncService.getAuthorizationUrl(
+        deviceType,
+        redirectUri
+      );
+
+      res.json({
+        success: true,
+        data: { url },
+      });
+    } catch (error) {
+      console.error("💥 Get authorize URL error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to build authorization URL",
+      });
+    }
+  }
+);
+
+// Exchange an OAuth authorization code and connect the device
+router.post("/oauth/:deviceType/exchange", async (req: AuthRequest, res) => {
+  try {
+    const { deviceType } = req.params;
+    const { code, redirectUri, deviceName, timezone } = req.body;
+
+    if (!code || !redirectUri) {
+      return res.status(400).json({
+        success: false,
+        error: "code and redirectUri are required",
+      });
+    }
+
+    if (timezone && !isValidTimeZone(timezone)) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid IANA time zone",
+      });
+    }
+
+    if (!DeviceSyncService.isServerSynced(deviceType)) {
+      return res.status(400).json({
+        success: false,
+        error: `Device type ${deviceType} does not use OAuth`,
+      });
+    }
+
+    console.log("🔗 OAuth exchange request:", deviceType);
+
+    const device = await DeviceSyncService.connectWithAuthorizationCode(
+      req.user.user_id,
+      deviceType,
+      code,
+      redirectUri,
+      deviceName,
+      timezone
+    );
+
+    res.json({
+      success: true,
+      data: device,
+    });
+  } catch (error) {
+    console.error("💥 OAuth exchange error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to connect device";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 // Disconnect a device
 router.delete("/:deviceId", async (req: AuthRequest, res) => {
   try {
@@ -94,14 +209,18 @@ router.delete("/:deviceId", async (req: AuthRequest, res) => {
 router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
   try {
     const { deviceId } = req.params;
-    const { activityData } = req.body;
+    const input = syncActivitySchema.parse(req.body);
 
-    console.log("🔄 Sync device data request:", deviceId);
+    console.log(
+      "🔄 Sync device data request:",
+      deviceId,
+      `(${input.records.length} record(s))`
+    );
 
-    const result = await DeviceService.syncDeviceData(
+    const result = await DeviceService.syncActivityBatch(
       req.user.user_id,
       deviceId,
-      activityData
+      input
     );
 
     res.json({
@@ -109,6 +228,12 @@ router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
       data: result,
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0]?.message || "Invalid activity data",
+      });
+    }
     console.error("💥 Sync device error:", error);
     const message =
       error instanceof Error ? error.message : "Failed to sync device";
@@ -119,6 +244,50 @@ router.post("/:deviceId/sync", async (req: AuthRequest, res) => {
   }
 });
 
+// Pull the latest data from the provider on the server
+router.post("/:deviceId/sync-now", async (req: AuthRequest, res) => {
+  try {
+    const { deviceId } = req.params;
+
+    const devices = await DeviceService.getUserDevices(req.user.user_id);
+    const device = devices.find(
+      (userDevice: any) => userDevice.connected_device_id === deviceId
+    );
+
+    if (!device) {
+      return res.status(404).json({
+        success: false,
+        error: "Device not found",
+      });
+    }
+
+    if (!DeviceSyncService.isServerSynced(device.device_type)) {
+      return res.status(400).json({
+        success: false,
+        error: "This device syncs from the phone",
+      });
+    }
+
+    console.log("🔄 Server sync request:", deviceId);
+
+    const result = await DeviceSyncService.syncDevice(deviceId);
+
+    res.status(result.success ? 200 : 502).json({
+      success: result.success,
+      data: result,
+      error: result.error,
+    });
+  } catch (error) {
+    console.error("💥 Server sync error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to sync device";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 // Get activity data for a date range
 router.get("/activity/:startDate/:endDate", async (req: AuthRequest, res) => {
   try {
@@ -155,6 +324,118 @@ router.get("/activity/:startDate/:endDate", async (req: AuthRequest, res) => {
   }
 });
 
+// Get one merged record per day across all of the user's devices
+router.get("/merged/:startDate/:endDate", async (req: AuthRequest, res) => {
+  try {
+    const { startDate, endDate } = req.params;
+
+    if (
+      !startDate.match(/^\d{4}-\d{2}-\d{2}$/) ||
+      !endDate.match(/^\d{4}-\d{2}-\d{2}$/)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "Dates must be in YYYY-MM-DD format",
+      });
+    }
+
+    console.log("📊 Get merged activity request:", { startDate, endDate });
+
+    const activity = await ActivityMergeService.getMergedActivity(
+      req.user.user_id,
+      startDate,
+      endDate
+    );
+
+    res.json({
+      success: true,
+      data: activity,
+    });
+  } catch (error) {
+    console.error("💥 Get merged activity error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch merged activity",
+    });
+  }
+});
+
+// Get per-metric source device overrides
+router.get("/merge-preferences", async (req: AuthRequest, res) => {
+  try {
+    const preferences = await ActivityMergeService.getPreferences(
+      req.user.user_id
+    );
+
+    res.json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    console.error("💥 Get merge preferences error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch merge preferences",
+    });
+  }
+});
+
+// Take one metric from a specific device type (deviceType null resets it)
+router.put("/merge-preferences", async (req: AuthRequest, res) => {
+  try {
+    const input = metricPreferenceSchema.parse(req.body);
+
+    const preferences = await ActivityMergeService.setPreference(
+      req.user.user_id,
+      input
+    );
+
+    res.json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0]?.message || "Invalid merge preference",
+      });
+    }
+    console.error("💥 Update merge preferences error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to update merge preferences",
+    });
+  }
+});
+
+// Make a device the default source for merged activity
+router.put("/:deviceId/primary", async (req: AuthRequest, res) => {
+  try {
+    const { deviceId } = req.params;
+
+    console.log("⭐ Set primary device request:", deviceId);
+
+    const devices = await DeviceService.setPrimaryDevice(
+      req.user.user_id,
+      deviceId
+    );
+
+    res.json({
+      success: true,
+      data: devices,
+    });
+  } catch (error) {
+    console.error("💥 Set primary device error:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to set primary device";
+    res.status(500).json({
+      success: false,
+      error: message,
+    });
+  }
+});
+
 // Get daily balance (calories in vs out)
 router.get("/balance/:date", async (req: AuthRequest, res) => {
   try {
@@ -1,6 +1,19 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { enforceAiQuota } from "../middleware/aiQuota";
+import { requireModerator } from "../middleware/moderator";
 import { FoodScannerService } from "../services/foodScanner";
+import {
+  ProductCatalogService,
+  ProductExistsError,
+  ProductNotFoundError,
+} from "../services/productCatalog";
+import {
+  createProductSchema,
+  flagProductSchema,
+  productCorrectionSchema,
+  resolveFlagSchema,
+} from "../types/foodProducts";
 import { z } from "zod";
 
 const router = Router();
@@ -77,6 +90,15 @@ router.post(
         data: result,
       });
     } catch (error) {
+      if (error instanceof ProductNotFoundError) {
+        // The app offers manual entry for unknown barcodes
+        return res.status(404).json({
+          success: false,
+          error: "Product not found",
+          code: "PRODUCT_NOT_FOUND",
+          barcode: error.barcode,
+        });
+      }
       console.error("❌ Barcode scan error:", error);
       res.status(500).json({
         success: false,
@@ -91,6 +113,7 @@ router.post(
 router.post(
   "/image",
   authenticateToken,
+  enforceAiQuota("product_image_scan"),
   async (req: AuthRequest, res: Response) => {
     try {
       const userId = req.user?.user_id;
@@ -214,4 +237,219 @@ router.get(
   }
 );
 
+// Create a product for a barcode the catalog doesn't know
+router.post(
+  "/products",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = createProductSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid product data",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const product = await ProductCatalogService.createProduct(
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.status(201).json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      if (error instanceof ProductExistsError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message,
+          code: "PRODUCT_EXISTS",
+        });
+      }
+      console.error("❌ Create product error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to create product",
+      });
+    }
+  }
+);
+
+// Save the user's own correction; the shared record stays untouched
+router.put(
+  "/products/:barcode/correction",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = productCorrectionSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid correction",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const product = await ProductCatalogService.saveCorrection(
+        req.user.user_id,
+        req.params.barcode,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      if (error instanceof ProductNotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: "Product not found",
+        });
+      }
+      console.error("❌ Save correction error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to save correction",
+      });
+    }
+  }
+);
+
+// Drop the user's correction and go back to the shared values
+router.delete(
+  "/products/:barcode/correction",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const product = await ProductCatalogService.deleteCorrection(
+        req.user.user_id,
+        req.params.barcode
+      );
+
+      res.json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      if (error instanceof ProductNotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: "Product not found",
+        });
+      }
+      console.error("❌ Delete correction error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to delete correction",
+      });
+    }
+  }
+);
+
+// Report wrong shared values for moderation
+router.post(
+  "/products/:barcode/flag",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = flagProductSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "A reason is required",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const product = await ProductCatalogService.flagProduct(
+        req.params.barcode,
+        `Reported by user: ${validationResult.data.reason}`
+      );
+
+      res.json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      if (error instanceof ProductNotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: "Product not found",
+        });
+      }
+      console.error("❌ Flag product error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to flag product",
+      });
+    }
+  }
+);
+
+// Moderation queue: flagged products with the corrections behind them
+router.get(
+  "/moderation",
+  authenticateToken,
+  requireModerator,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const products = await ProductCatalogService.getFlaggedProducts();
+
+      res.json({
+        success: true,
+        data: products,
+      });
+    } catch (error) {
+      console.error("❌ Get moderation queue error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to get moderation queue",
+      });
+    }
+  }
+);
+
+router.post(
+  "/moderation/:productId/resolve",
+  authenticateToken,
+  requireModerator,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = resolveFlagSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid resolution",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const product = await ProductCatalogService.resolveFlag(
+        Number(req.params.productId),
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: product,
+      });
+    } catch (error) {
+      console.error("❌ Resolve product flag error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to resolve flag",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
 export default router;
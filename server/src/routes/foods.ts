@@ -0,0 +1,71 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import {
+  FoodCompositionService,
+  FoodNotFoundError,
+} from "../services/foodComposition";
+import { foodSearchSchema } from "../types/foodComposition";
+
+const router = Router();
+
+// Search the food composition database by Hebrew or English name
+router.get(
+  "/search",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validationResult = foodSearchSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid search",
+          details: validationResult.error.errors,
+        });
+      }
+
+      const { q, limit } = validationResult.data;
+      const foods = await FoodCompositionService.search(q, limit);
+      res.json({ success: true, data: foods });
+    } catch (error) {
+      console.error("💥 Food search error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to search foods",
+      });
+    }
+  }
+);
+
+// A food with its full nutrient profile per 100 g and household portions
+router.get(
+  "/:foodId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const foodId = Number(req.params.foodId);
+      if (!Number.isInteger(foodId)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid food id",
+        });
+      }
+
+      const food = await FoodCompositionService.getFood(foodId);
+      res.json({ success: true, data: food });
+    } catch (error) {
+      if (error instanceof FoodNotFoundError) {
+        return res.status(404).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      console.error("💥 Get food error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch food",
+      });
+    }
+  }
+);
+
+export { router as foodRoutes };
@@ -0,0 +1,45 @@
+import { Router, Response } from "express";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { ImageStorageService } from "../services/imageStorage";
+
+const router = Router();
+
+// GET /api/images/:id?variant=thumbnail - Stream a stored meal image
+router.get("/:id", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const variant =
+      req.query.variant === "thumbnail" ? "thumbnail" : "original";
+
+    const image = await ImageStorageService.getImage(
+      req.user.user_id,
+      req.params.id,
+      variant
+    );
+
+    if (!image) {
+      return res.status(404).json({
+        success: false,
+        error: "Image not found",
+      });
+    }
+
+    const etag = `"${image.content_hash}-${variant}"`;
+    if (req.headers["if-none-match"] === etag) {
+      return res.status(304).end();
+    }
+
+    res.setHeader("Content-Type", image.mime_type);
+    res.setHeader("Content-Length", image.data.length);
+    res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+    res.setHeader("ETag", etag);
+    res.send(image.data);
+  } catch (error) {
+    console.error("💥 Get image error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch image",
+    });
+  }
+});
+
+export { router as imageRoutes };
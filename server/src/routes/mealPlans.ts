@@ -1,8 +1,13 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
-import { MealPlanService } from "../services/mealPlans";
+import { enforceAiQuota } from "../middleware/aiQuota";
+import {
+  MealPlanRestrictionError,
+  MealPlanService,
+} from "../services/mealPlans";
 import { prisma } from "../lib/database";
 import { MealTiming } from "@prisma/client";
+import { shoppingListItemsSchema } from "../types/mealPlans";
 
 const router = Router();
 
@@ -43,6 +48,7 @@ router.get("/recommended", authenticateToken, async (req: AuthRequest, res) => {
 router.post(
   "/recommended/generate",
   authenticateToken,
+  enforceAiQuota("meal_plan_generation"),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user.user_id;
@@ -275,99 +281,113 @@ router.get("/current", authenticateToken, async (req, res) => {
 });
 
 // Create new meal plan
-router.post("/create", authenticateToken, async (req, res) => {
-  try {
-    console.log("🤖 Creating meal plan for user:", req.user?.user_id);
-    console.log("📝 Config:", req.body);
+router.post(
+  "/create",
+  authenticateToken,
+  enforceAiQuota("meal_plan_generation"),
+  async (req, res) => {
+    try {
+      console.log("🤖 Creating meal plan for user:", req.user?.user_id);
+      console.log("📝 Config:", req.body);
 
-    const user_id = req.user?.user_id;
-    if (!user_id) {
-      return res.status(401).json({
-        success: false,
-        error: "User not authenticated",
-      });
-    }
+      const user_id = req.user?.user_id;
+      if (!user_id) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
 
-    const config = req.body;
+      const config = req.body;
 
-    // Validate required fields
-    if (!config.name || !config.plan_type || !config.meals_per_day) {
-      return res.status(400).json({
+      // Validate required fields
+      if (!config.name || !config.plan_type || !config.meals_per_day) {
+        return res.status(400).json({
+          success: false,
+          error: "Missing required fields: name, plan_type, meals_per_day",
+        });
+      }
+
+      const mealPlan = await MealPlanService.createUserMealPlan(
+        user_id,
+        config
+      );
+
+      console.log("✅ Meal plan created successfully");
+      res.json({
+        success: true,
+        data: mealPlan,
+        message: "Meal plan created successfully",
+      });
+    } catch (error) {
+      console.error("💥 Error creating meal plan:", error);
+      res.status(error instanceof MealPlanRestrictionError ? 422 : 500).json({
         success: false,
-        error: "Missing required fields: name, plan_type, meals_per_day",
+        error:
+          error instanceof Error ? error.message : "Failed to create meal plan",
       });
     }
-
-    const mealPlan = await MealPlanService.createUserMealPlan(user_id, config);
-
-    console.log("✅ Meal plan created successfully");
-    res.json({
-      success: true,
-      data: mealPlan,
-      message: "Meal plan created successfully",
-    });
-  } catch (error) {
-    console.error("💥 Error creating meal plan:", error);
-    res.status(500).json({
-      success: false,
-      error:
-        error instanceof Error ? error.message : "Failed to create meal plan",
-    });
   }
-});
+);
 
 // Replace meal in plan
-router.put("/:planId/replace", authenticateToken, async (req, res) => {
-  try {
-    console.log("🔄 Replacing meal in plan:", req.params.planId);
+router.put(
+  "/:planId/replace",
+  authenticateToken,
+  enforceAiQuota("meal_replacement"),
+  async (req, res) => {
+    try {
+      console.log("🔄 Replacing meal in plan:", req.params.planId);
 
-    const user_id = req.user?.user_id;
-    if (!user_id) {
-      return res.status(401).json({
-        success: false,
-        error: "User not authenticated",
-      });
-    }
+      const user_id = req.user?.user_id;
+      if (!user_id) {
+        return res.status(401).json({
+          success: false,
+          error: "User not authenticated",
+        });
+      }
 
-    const { planId } = req.params;
-    const {
-      day_of_week,
-      meal_timing,
-      meal_order = 0,
-      preferences = {},
-    } = req.body;
-
-    // Validate required fields
-    if (day_of_week === undefined || !meal_timing) {
-      return res.status(400).json({
+      const { planId } = req.params;
+      const {
+        day_of_week,
+        meal_timing,
+        meal_order = 0,
+        preferences = {},
+      } = req.body;
+
+      // Validate required fields
+      if (day_of_week === undefined || !meal_timing) {
+        return res.status(400).json({
+          success: false,
+          error: "Missing required fields: day_of_week, meal_timing",
+        });
+      }
+
+      const result = await MealPlanService.replaceMealInPlan(
+        user_id,
+        planId,
+        day_of_week,
+        meal_timing,
+        meal_order,
+        preferences
+      );
+
+      console.log("✅ Meal replaced successfully");
+      res.json({
+        success: true,
+        data: result,
+        message: "Meal replaced successfully",
+      });
+    } catch (error) {
+      console.error("💥 Error replacing meal:", error);
+      res.status(error instanceof MealPlanRestrictionError ? 422 : 500).json({
         success: false,
-        error: "Missing required fields: day_of_week, meal_timing",
+        error:
+          error instanceof Error ? error.message : "Failed to replace meal",
       });
     }
-
-    const result = await MealPlanService.replaceMealInPlan(
-      user_id,
-      planId,
-      day_of_week,
-      meal_timing,
-      meal_order,
-      preferences
-    );
-
-    console.log("✅ Meal replaced successfully");
-    res.json({
-      success: true,
-      data: result,
-      message: "Meal replaced successfully",
-    });
-  } catch (error) {
-    console.error("💥 Error replacing meal:", error);
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to replace meal",
-    });
   }
-});
+);
 
 // Generate shopping list
 router.post("/:planId/shopping-list", authenticateToken, async (req, res) => {
@@ -416,6 +436,36 @@ router.post("/:planId/shopping-list", authenticateToken, async (req, res) => {
   }
 });
 
+// Add items to the open shopping list, starting one if needed
+router.post(
+  "/shopping-list/items",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    const validationResult = shoppingListItemsSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Invalid shopping list items",
+        details: validationResult.error.errors,
+      });
+    }
+
+    try {
+      const shoppingList = await MealPlanService.addShoppingListItems(
+        req.user.user_id,
+        validationResult.data.items
+      );
+      res.json({ success: true, data: shoppingList });
+    } catch (error) {
+      console.error("💥 Error adding shopping list items:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to add shopping list items",
+      });
+    }
+  }
+);
+
 // Save meal preference
 router.post("/preferences", authenticateToken, async (req, res) => {
   try {
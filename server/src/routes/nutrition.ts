@@ -1,15 +1,31 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { enforceAiQuota } from "../middleware/aiQuota";
 import { prisma } from "../lib/database";
 import { z } from "zod";
-import { mealAnalysisSchema, mealUpdateSchema } from "../types/nutrition";
-import { NutritionService } from "../services/nutrition";
+import {
+  AnalysisJobView,
+  mealAnalysisSchema,
+  mealUpdateSchema,
+  textMealLogSchema,
+} from "../types/nutrition";
+import { NoFoodsFoundError, NutritionService } from "../services/nutrition";
+import { AnalysisJobService, isFinishedJob } from "../services/analysisJobs";
+import { RestrictionService } from "../services/restrictions";
+import { resolveTimeZone } from "../utils/dates";
 
 const router = Router();
 
+const ANALYSIS_EVENTS_RECHECK_MS = 5000;
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
 const waterIntakeSchema = z.object({
   cups: z.number().min(1).max(25),
-  date: z.string().optional(),
+  // The user's local day; defaults to today in their time zone
+  date: isoDate.optional(),
 });
 
 // Track water intake
@@ -25,126 +41,18 @@ router.post(
 
     try {
       const { cups, date } = waterIntakeSchema.parse(req.body);
-      const trackingDate = date ? new Date(date) : new Date();
-      const milliliters = cups * 250;
-
-      // Set date to start of day for consistent comparison
-      const startOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate()
-      );
-      const endOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate() + 1
+      const tracked = await NutritionService.trackWaterIntake(
+        userId,
+        cups,
+        date,
+        resolveTimeZone(req.user.timezone)
       );
 
-      // Check if water intake record exists for today
-      const existingRecord = await prisma.waterIntake.findFirst({
-        where: {
-          user_id: userId,
-          date: {
-            gte: startOfDay,
-            lt: endOfDay,
-          },
-        },
-      });
-
-      let waterRecord;
-      let xpAwarded = 0;
-      let badgeAwarded = null;
-
-      if (existingRecord) {
-        waterRecord = await prisma.waterIntake.update({
-          where: { id: existingRecord.id },
-          data: {
-            cups_consumed: cups,
-            milliliters_consumed: milliliters,
-            updated_at: new Date(),
-          },
-        });
-      } else {
-        waterRecord = await prisma.waterIntake.create({
-          data: {
-            user_id: userId,
-            date: startOfDay,
-            cups_consumed: cups,
-            milliliters_consumed: milliliters,
-          },
-        });
-      }
-
-      // Award XP and badge if 16+ cups (only if not already awarded today)
-      if (cups >= 16) {
-        // Check if user already has scuba diver badge for today
-        const todayBadgeCount = await prisma.userBadge.count({
-          where: {
-            user_id: userId,
-            badge_id: "scuba_diver",
-            earned_date: {
-              gte: startOfDay,
-              lt: endOfDay,
-            },
-          },
-        });
-
-        if (todayBadgeCount === 0) {
-          // Create scuba diver badge if it doesn't exist
-          await prisma.badge.upsert({
-            where: { id: "scuba_diver" },
-            update: {},
-            create: {
-              id: "scuba_diver",
-              name: "Scuba Diver",
-              description: "Drank 16+ cups of water in a day",
-              icon: "🤿",
-              rarity: "RARE",
-              points_awarded: 100,
-              category: "hydration",
-            },
-          });
-
-          // Award badge to user (create new entry each time they achieve it)
-          await prisma.userBadge.create({
-            data: {
-              user_id: userId,
-              badge_id: "scuba_diver",
-              earned_date: new Date(),
-            },
-          });
-
-          // Update user level and XP
-          const currentUser = await prisma.user.findUnique({
-            where: { user_id: userId },
-            select: { current_xp: true, total_points: true, level: true },
-          });
-
-          const newTotalPoints = (currentUser?.total_points || 0) + 100;
-          const newCurrentXP = (currentUser?.current_xp || 0) + 100;
-          const newLevel = Math.floor(newTotalPoints / 1000) + 1;
-          const finalXP =
-            newCurrentXP >= 1000 ? newCurrentXP - 1000 : newCurrentXP;
-
-          await prisma.user.update({
-            where: { user_id: userId },
-            data: {
-              current_xp: finalXP,
-              total_points: newTotalPoints,
-              level: newLevel,
-            },
-          });
-
-          xpAwarded = 100;
-          badgeAwarded = "scuba_diver";
-        }
-      }
-
       res.json({
         success: true,
-        data: waterRecord,
-        xpAwarded,
-        badgeAwarded,
+        data: tracked.waterRecord,
+        xpAwarded: tracked.xpAwarded,
+        badgeAwarded: tracked.badgeAwarded,
       });
     } catch (error) {
       console.error("Error tracking water intake:", error);
@@ -165,32 +73,16 @@ router.get(
       return res.status(401).json({ error: "User not authenticated" });
     }
 
-    try {
-      const trackingDate = new Date(date);
-      const startOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate()
-      );
-      const endOfDay = new Date(
-        trackingDate.getFullYear(),
-        trackingDate.getMonth(),
-        trackingDate.getDate() + 1
-      );
-
-      const waterRecord = await prisma.waterIntake.findFirst({
-        where: {
-          user_id: userId,
-          date: {
-            gte: startOfDay,
-            lt: endOfDay,
-          },
-        },
-      });
+    if (!isoDate.safeParse(date).success) {
+      return res
+        .status(400)
+        .json({ error: "Date must be in YYYY-MM-DD format" });
+    }
 
+    try {
       res.json({
         success: true,
-        data: waterRecord || { cups_consumed: 0, milliliters_consumed: 0 },
+        data: await NutritionService.getWaterIntake(userId, date),
       });
     } catch (error) {
       console.error("Error fetching water intake:", error);
@@ -203,145 +95,308 @@ router.get(
 router.use(authenticateToken);
 
 // Analyze meal endpoint
-router.post("/analyze", async (req: AuthRequest, res) => {
-  try {
-    console.log("Analyze meal request received");
-    console.log("Request body keys:", Object.keys(req.body));
+router.post(
+  "/analyze",
+  enforceAiQuota("meal_analysis"),
+  async (req: AuthRequest, res) => {
+    try {
+      console.log("Analyze meal request received");
+      console.log("Request body keys:", Object.keys(req.body));
 
-    // Validate request body
-    const validationResult = mealAnalysisSchema.safeParse(req.body);
+      // Validate request body
+      const validationResult = mealAnalysisSchema.safeParse(req.body);
 
-    if (!validationResult.success) {
-      console.error("Validation error:", validationResult.error);
-      return res.status(400).json({
-        success: false,
-        error:
-          "Invalid request data: " +
-          validationResult.error.errors.map((e) => e.message).join(", "),
-      });
-    }
+      if (!validationResult.success) {
+        console.error("Validation error:", validationResult.error);
+        return res.status(400).json({
+          success: false,
+          error:
+            "Invalid request data: " +
+            validationResult.error.errors.map((e) => e.message).join(", "),
+        });
+      }
 
-    const {
-      imageBase64,
-      language = "english",
-      date,
-      updateText,
-    } = validationResult.data;
+      const {
+        imageBase64,
+        language = "english",
+        updateText,
+      } = validationResult.data;
 
-    if (!imageBase64 || imageBase64.trim() === "") {
-      return res.status(400).json({
-        success: false,
-        error: "Image data is required",
-      });
-    }
+      if (!imageBase64 || imageBase64.trim() === "") {
+        return res.status(400).json({
+          success: false,
+          error: "Image data is required",
+        });
+      }
 
-    // Validate image data
-    let cleanBase64 = imageBase64;
-    if (imageBase64.startsWith("data:image/")) {
-      const commaIndex = imageBase64.indexOf(",");
-      if (commaIndex !== -1) {
-        cleanBase64 = imageBase64.substring(commaIndex + 1);
+      // Validate image data
+      let cleanBase64 = imageBase64;
+      if (imageBase64.startsWith("data:image/")) {
+        const commaIndex = imageBase64.indexOf(",");
+        if (commaIndex !== -1) {
+          cleanBase64 = imageBase64.substring(commaIndex + 1);
+        }
       }
-    }
 
-    // Check if base64 is valid
-    const base64Regex = /^[A-Za-z0-9+/]*={0,2}$/;
-    if (!base64Regex.test(cleanBase64)) {
-      return res.status(400).json({
+      // Check if base64 is valid
+      const base64Regex = /^[A-Za-z0-9+/]*={0,2}$/;
+      if (!base64Regex.test(cleanBase64)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid image data format",
+        });
+      }
+
+      if (cleanBase64.length < 1000) {
+        return res.status(400).json({
+          success: false,
+          error: "Image data is too small or invalid",
+        });
+      }
+
+      console.log("Queueing meal analysis for user:", req.user.user_id);
+      console.log("Image data length:", cleanBase64.length);
+
+      // The analysis runs as a background job; the client follows it through
+      // GET /analysis-jobs/:jobId or its /events stream
+      const job = await AnalysisJobService.enqueue(req.user.user_id, {
+        imageBase64: cleanBase64,
+        language,
+        updateText,
+      });
+
+      res.status(202).json({
+        success: true,
+        data: job,
+        remainingRequests: res.locals.aiQuota?.remaining ?? -1,
+      });
+    } catch (error) {
+      console.error("Analyze meal error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to analyze meal";
+      res.status(500).json({
         success: false,
-        error: "Invalid image data format",
+        error: message,
       });
     }
+  }
+);
 
-    if (cleanBase64.length < 1000) {
-      return res.status(400).json({
+// Status of a meal analysis job; the analyzed meal is in data.result once
+// the job has completed
+router.get("/analysis-jobs/:jobId", async (req: AuthRequest, res) => {
+  try {
+    const job = await AnalysisJobService.getJob(
+      req.user.user_id,
+      req.params.jobId
+    );
+    if (!job) {
+      return res.status(404).json({
         success: false,
-        error: "Image data is too small or invalid",
+        error: "Analysis job not found",
       });
     }
 
-    console.log("Processing meal analysis for user:", req.user.user_id);
-    console.log("Image data length:", cleanBase64.length);
-
-    // Validate request data
-    const analysisSchema = z.object({
-      imageBase64: z.string().min(1, "Image data is required"),
-      language: z.string().default("english"),
-      date: z.string().optional(),
-      updateText: z.string().optional(),
-    });
-
-    const validatedData = analysisSchema.parse({
-      imageBase64,
-      language,
-      date,
-      updateText,
-    });
-
-    const result = await NutritionService.analyzeMeal(req.user.user_id, {
-      imageBase64: validatedData.imageBase64,
-      language: validatedData.language,
-      date: validatedData.date || new Date().toISOString().split("T")[0],
-      updateText: validatedData.updateText,
-    });
-    console.log("nutrition.ts in routes", result);
-    console.log("Analysis completed successfully");
-    res.json(result);
+    res.json({ success: true, data: job });
   } catch (error) {
-    console.error("Analyze meal error:", error);
-    const message =
-      error instanceof Error ? error.message : "Failed to analyze meal";
+    console.error("Get analysis job error:", error);
     res.status(500).json({
       success: false,
-      error: message,
+      error: "Failed to fetch analysis job",
     });
   }
 });
 
-// Update meal endpoint
-router.put("/update", authenticateToken, async (req: AuthRequest, res) => {
+// Server-sent events with the job's status until it completes or fails
+router.get("/analysis-jobs/:jobId/events", async (req: AuthRequest, res) => {
+  const userId = req.user.user_id;
+  const { jobId } = req.params;
+
   try {
-    console.log("Update meal request received");
+    const job = await AnalysisJobService.getJob(userId, jobId);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: "Analysis job not found",
+      });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    let lastSent = "";
+    let closed = false;
+    const send = (update: AnalysisJobView) => {
+      if (closed) return;
+      const version = `${update.status}:${update.attempts}:${new Date(
+        update.updated_at
+      ).getTime()}`;
+      if (version !== lastSent) {
+        lastSent = version;
+        res.write(`event: status\ndata: ${JSON.stringify(update)}\n\n`);
+      } else {
+        res.write(": ping\n\n");
+      }
+      // Push through the compression middleware instead of buffering
+      if ("flush" in res) res.flush();
+      if (isFinishedJob(update)) close();
+    };
+
+    // Jobs run by another server process don't raise local events, so the
+    // stream also re-reads the job now and then
+    const recheck = setInterval(async () => {
+      try {
+        const latest = await AnalysisJobService.getJob(userId, jobId);
+        if (latest) send(latest);
+      } catch (error) {
+        console.error("Analysis job stream error:", error);
+      }
+    }, ANALYSIS_EVENTS_RECHECK_MS);
+    const unsubscribe = AnalysisJobService.subscribe(jobId, send);
+
+    function close() {
+      if (closed) return;
+      closed = true;
+      clearInterval(recheck);
+      unsubscribe();
+      res.end();
+    }
 
-    const validationResult = mealUpdateSchema.safeParse(req.body);
+    req.on("close", close);
+    send(job);
+  } catch (error) {
+    console.error("Analysis job events error:", error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: "Failed to stream analysis job",
+      });
+    } else {
+      res.end();
+    }
+  }
+});
+
+// Queues a failed analysis again
+router.post(
+  "/analysis-jobs/:jobId/retry",
+  enforceAiQuota("meal_analysis"),
+  async (req: AuthRequest, res) => {
+    try {
+      const job = await AnalysisJobService.retryJob(
+        req.user.user_id,
+        req.params.jobId
+      );
+      if (!job) {
+        return res.status(409).json({
+          success: false,
+          error: "Only failed analysis jobs can be retried",
+        });
+      }
+
+      res.status(202).json({ success: true, data: job });
+    } catch (error) {
+      console.error("Retry analysis job error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to retry analysis job",
+      });
+    }
+  }
+);
 
+// Analyze a meal described in words, typed or dictated. Returns the same
+// editable analysis as a photo; the client saves it through /save.
+router.post(
+  "/log-text",
+  enforceAiQuota("meal_text"),
+  async (req: AuthRequest, res) => {
+    const validationResult = textMealLogSchema.safeParse(req.body);
     if (!validationResult.success) {
-      console.error("Validation error:", validationResult.error);
       return res.status(400).json({
         success: false,
-        error:
-          "Invalid request data: " +
-          validationResult.error.errors.map((e) => e.message).join(", "),
+        error: validationResult.error.errors.map((e) => e.message).join(", "),
+      });
+    }
+
+    try {
+      const analysis = await NutritionService.analyzeMealText(
+        req.user.user_id,
+        validationResult.data
+      );
+
+      res.json({
+        success: true,
+        data: analysis,
+        remainingRequests: res.locals.aiQuota?.remaining ?? -1,
+      });
+    } catch (error) {
+      if (error instanceof NoFoodsFoundError) {
+        return res.status(422).json({ success: false, error: error.message });
+      }
+      console.error("Text meal log error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to analyze meal";
+      res.status(500).json({
+        success: false,
+        error: message,
       });
     }
+  }
+);
 
-    const { meal_id, updateText, language } = validationResult.data;
+// Update meal endpoint
+router.put(
+  "/update",
+  authenticateToken,
+  enforceAiQuota("meal_update"),
+  async (req: AuthRequest, res) => {
+    try {
+      console.log("Update meal request received");
 
-    console.log("Updating meal for user:", req.user.user_id);
+      const validationResult = mealUpdateSchema.safeParse(req.body);
 
-    const meal = await NutritionService.updateMeal(req.user.user_id, {
-      meal_id,
-      updateText,
-      language,
-    });
+      if (!validationResult.success) {
+        console.error("Validation error:", validationResult.error);
+        return res.status(400).json({
+          success: false,
+          error:
+            "Invalid request data: " +
+            validationResult.error.errors.map((e) => e.message).join(", "),
+        });
+      }
 
-    console.log("Meal updated successfully");
+      const { meal_id, updateText, language } = validationResult.data;
 
-    res.json({
-      success: true,
-      message: "Meal updated successfully",
-      data: meal,
-    });
-  } catch (error) {
-    console.error("Update meal error:", error);
-    const message =
-      error instanceof Error ? error.message : "Failed to update meal";
-    res.status(500).json({
-      success: false,
-      error: message,
-    });
+      console.log("Updating meal for user:", req.user.user_id);
+
+      const meal = await NutritionService.updateMeal(req.user.user_id, {
+        meal_id,
+        updateText,
+        language,
+      });
+
+      console.log("Meal updated successfully");
+
+      res.json({
+        success: true,
+        message: "Meal updated successfully",
+        data: meal,
+      });
+    } catch (error) {
+      console.error("Update meal error:", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to update meal";
+      res.status(500).json({
+        success: false,
+        error: message,
+      });
+    }
   }
-});
+);
 
 // Direct meal update endpoint for manual edits
 router.put(
@@ -732,6 +787,8 @@ router.get("/meals/:meal_id/details", authenticateToken, async (req, res) => {
       });
     }
 
+    const profile = await RestrictionService.getProfile(userId);
+
     // Format the complete meal data with all nutrition fields from schema
     const fullMealData = {
       ...meal,
@@ -765,6 +822,10 @@ router.get("/meals/:meal_id/details", authenticateToken, async (req, res) => {
       additives_json: meal.additives_json,
       health_risk_notes: meal.health_risk_notes,
       ingredients: meal.ingredients,
+      restriction_warnings: RestrictionService.checkFood(
+        profile,
+        RestrictionService.describeMeal(meal)
+      ),
     };
 
     console.log("✅ Full meal details retrieved");
@@ -805,9 +866,17 @@ router.get("/meals/:meal_id", authenticateToken, async (req, res) => {
 
     console.log("✅ Meal retrieved");
 
+    const profile = await RestrictionService.getProfile(userId);
+
     res.json({
       success: true,
-      data: meal,
+      data: {
+        ...meal,
+        restriction_warnings: RestrictionService.checkFood(
+          profile,
+          RestrictionService.describeMeal(meal)
+        ),
+      },
     });
   } catch (error) {
     console.error("💥 Get meal error:", error);
@@ -0,0 +1,141 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import { RecipeNotFoundError, RecipeService } from "../services/recipes";
+import { MealPlanNotFoundError } from "../services/mealPlans";
+import {
+  createRecipeSchema,
+  logRecipeSchema,
+  scheduleRecipeSchema,
+  updateRecipeSchema,
+} from "../types/recipes";
+
+const router = Router();
+
+function handleRecipeError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0]?.message || "Invalid recipe",
+    });
+  }
+  if (
+    error instanceof RecipeNotFoundError ||
+    error instanceof MealPlanNotFoundError
+  ) {
+    return res.status(404).json({ success: false, error: error.message });
+  }
+  console.error(`💥 ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+}
+
+// GET /api/recipes - The user's recipes, most recently changed first
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const recipes = await RecipeService.listRecipes(req.user.user_id);
+    res.json({ success: true, data: recipes });
+  } catch (error) {
+    handleRecipeError(res, error, "Failed to fetch recipes");
+  }
+});
+
+// POST /api/recipes - Save a recipe; nutrition is computed from ingredients
+router.post("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const input = createRecipeSchema.parse(req.body);
+    const recipe = await RecipeService.createRecipe(req.user.user_id, input);
+    res.status(201).json({ success: true, data: recipe });
+  } catch (error) {
+    handleRecipeError(res, error, "Failed to create recipe");
+  }
+});
+
+// GET /api/recipes/:recipeId
+router.get(
+  "/:recipeId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const recipe = await RecipeService.getRecipe(
+        req.user.user_id,
+        req.params.recipeId
+      );
+      res.json({ success: true, data: recipe });
+    } catch (error) {
+      handleRecipeError(res, error, "Failed to fetch recipe");
+    }
+  }
+);
+
+// PUT /api/recipes/:recipeId - Changed ingredients or servings recompute nutrition
+router.put(
+  "/:recipeId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const input = updateRecipeSchema.parse(req.body);
+      const recipe = await RecipeService.updateRecipe(
+        req.user.user_id,
+        req.params.recipeId,
+        input
+      );
+      res.json({ success: true, data: recipe });
+    } catch (error) {
+      handleRecipeError(res, error, "Failed to update recipe");
+    }
+  }
+);
+
+// DELETE /api/recipes/:recipeId
+router.delete(
+  "/:recipeId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await RecipeService.deleteRecipe(req.user.user_id, req.params.recipeId);
+      res.json({ success: true });
+    } catch (error) {
+      handleRecipeError(res, error, "Failed to delete recipe");
+    }
+  }
+);
+
+// POST /api/recipes/:recipeId/log - Log N servings as a meal
+router.post(
+  "/:recipeId/log",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { servings } = logRecipeSchema.parse(req.body);
+      const meal = await RecipeService.logServings(
+        req.user.user_id,
+        req.params.recipeId,
+        servings
+      );
+      res.status(201).json({ success: true, data: meal });
+    } catch (error) {
+      handleRecipeError(res, error, "Failed to log recipe");
+    }
+  }
+);
+
+// POST /api/recipes/:recipeId/schedule - Put the recipe in a meal plan slot
+router.post(
+  "/:recipeId/schedule",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const input = scheduleRecipeSchema.parse(req.body);
+      const schedule = await RecipeService.addToMealPlan(
+        req.user.user_id,
+        req.params.recipeId,
+        input
+      );
+      res.json({ success: true, data: schedule });
+    } catch (error) {
+      handleRecipeError(res, error, "Failed to add recipe to meal plan");
+    }
+  }
+);
+
+export { router as recipeRoutes };
@@ -1,8 +1,17 @@
 import { Router } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
-import { RecommendedMenuService } from "../services/recommendedMenu";
+import { enforceAiQuota } from "../middleware/aiQuota";
+import {
+  MenuRestrictionError,
+  RecommendedMenuService,
+} from "../services/recommendedMenu";
 import { prisma } from "../lib/database";
 import { Response } from "express";
+import {
+  dateStringToDbDate,
+  getLocalDateString,
+  resolveTimeZone,
+} from "../utils/dates";
 
 const router = Router();
 
@@ -19,18 +28,7 @@ router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
 
     console.log("📋 Getting recommended menus for user:", userId);
 
-    const menus = await prisma.recommendedMenu.findMany({
-      where: { user_id: userId },
-      include: {
-        meals: {
-          include: {
-            ingredients: true,
-          },
-          orderBy: [{ day_number: "asc" }, { meal_type: "asc" }],
-        },
-      },
-      orderBy: { created_at: "desc" },
-    });
+    const menus = await RecommendedMenuService.getUserMenus(userId);
 
     console.log(`✅ Found ${menus.length} recommended menus`);
 
@@ -47,6 +45,89 @@ router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
   }
 });
 
+// GET /api/recommended-menus/planned?from=YYYY-MM-DD&to=YYYY-MM-DD - Planned
+// meals of the started menu (defaults to today)
+router.get(
+  "/planned",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user.user_id;
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      const { from, to } = req.query;
+
+      if (
+        (from && !datePattern.test(String(from))) ||
+        (to && !datePattern.test(String(to)))
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: "Dates must be in YYYY-MM-DD format",
+        });
+      }
+
+      const fromDate = dateStringToDbDate(
+        from
+          ? String(from)
+          : getLocalDateString(new Date(), resolveTimeZone(req.user.timezone))
+      );
+      const toDate = to ? dateStringToDbDate(String(to)) : fromDate;
+
+      const meals = await RecommendedMenuService.getPlannedMeals(
+        userId,
+        fromDate,
+        toDate
+      );
+
+      res.json({
+        success: true,
+        data: meals,
+      });
+    } catch (error) {
+      console.error("💥 Error getting planned meals:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to get planned meals",
+      });
+    }
+  }
+);
+
+// POST /api/recommended-menus/planned/:plannedMealId/eaten - "I ate this"
+router.post(
+  "/planned/:plannedMealId/eaten",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user.user_id;
+      const { plannedMealId } = req.params;
+
+      const meal = await RecommendedMenuService.logPlannedMeal(
+        userId,
+        plannedMealId
+      );
+
+      res.json({
+        success: true,
+        data: meal,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "";
+      if (message === "Planned meal not found") {
+        return res.status(404).json({ success: false, error: message });
+      }
+      if (message === "Planned meal already logged") {
+        return res.status(409).json({ success: false, error: message });
+      }
+      console.error("💥 Error logging planned meal:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to log planned meal",
+      });
+    }
+  }
+);
+
 // Get specific menu details
 router.get(
   "/:menuId",
@@ -64,20 +145,8 @@ router.get(
       const { menuId } = req.params;
       console.log("📋 Getting menu details for:", menuId);
 
-      const menu = await prisma.recommendedMenu.findFirst({
-        where: {
-          menu_id: menuId,
-          user_id: userId, // Ensure user can only access their own menus
-        },
-        include: {
-          meals: {
-            include: {
-              ingredients: true,
-            },
-            orderBy: [{ day_number: "asc" }, { meal_type: "asc" }],
-          },
-        },
-      });
+      // Scoped to the user, so users can only access their own menus
+      const menu = await RecommendedMenuService.getMenuById(userId, menuId);
 
       if (!menu) {
         return res.status(404).json({
@@ -172,6 +241,7 @@ router.get("/debug", authenticateToken, async (req: AuthRequest, res) => {
 router.post(
   "/generate-custom",
   authenticateToken,
+  enforceAiQuota("menu_generation"),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user.user_id;
@@ -256,7 +326,10 @@ router.post(
       let errorMessage = "Failed to generate custom menu";
       let statusCode = 500;
 
-      if (error instanceof Error) {
+      if (error instanceof MenuRestrictionError) {
+        errorMessage = error.message;
+        statusCode = 422;
+      } else if (error instanceof Error) {
         if (error.message.includes("questionnaire not found")) {
           errorMessage =
             "Please complete your questionnaire first before generating a custom menu";
@@ -276,117 +349,129 @@ router.post(
 );
 
 // POST /api/recommended-menus/generate - Generate new menu with preferences
-router.post("/generate", authenticateToken, async (req: AuthRequest, res) => {
-  try {
-    const userId = req.user.user_id;
-    console.log("🎯 Generating menu for user:", userId);
-    console.log("📋 Request body:", req.body);
-
-    const {
-      days = 7,
-      mealsPerDay = "3_main", // "3_main", "3_plus_2_snacks", "2_plus_1_intermediate"
-      mealChangeFrequency = "daily", // "daily", "every_3_days", "weekly", "automatic"
-      includeLeftovers = false,
-      sameMealTimes = true,
-      targetCalories,
-      dietaryPreferences,
-      excludedIngredients,
-      budget,
-    } = req.body;
-
-    // Validate input parameters
-    if (days < 1 || days > 30) {
-      return res.status(400).json({
-        success: false,
-        error: "Days must be between 1 and 30",
-      });
-    }
+router.post(
+  "/generate",
+  authenticateToken,
+  enforceAiQuota("menu_generation"),
+  async (req: AuthRequest, res) => {
+    try {
+      const userId = req.user.user_id;
+      console.log("🎯 Generating menu for user:", userId);
+      console.log("📋 Request body:", req.body);
 
-    if (
-      !["3_main", "3_plus_2_snacks", "2_plus_1_intermediate"].includes(
-        mealsPerDay
-      )
-    ) {
-      return res.status(400).json({
-        success: false,
-        error: "Invalid meals per day option",
+      const {
+        days = 7,
+        mealsPerDay = "3_main", // "3_main", "3_plus_2_snacks", "2_plus_1_intermediate"
+        mealChangeFrequency = "daily", // "daily", "every_3_days", "weekly", "automatic"
+        includeLeftovers = false,
+        sameMealTimes = true,
+        targetCalories,
+        dietaryPreferences,
+        excludedIngredients,
+        budget,
+      } = req.body;
+
+      // Validate input parameters
+      if (days < 1 || days > 30) {
+        return res.status(400).json({
+          success: false,
+          error: "Days must be between 1 and 30",
+        });
+      }
+
+      if (
+        !["3_main", "3_plus_2_snacks", "2_plus_1_intermediate"].includes(
+          mealsPerDay
+        )
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid meals per day option",
+        });
+      }
+
+      console.log("✅ Input validation passed, generating menu...");
+
+      const menu = await RecommendedMenuService.generatePersonalizedMenu({
+        userId,
+        days,
+        mealsPerDay,
+        mealChangeFrequency,
+        includeLeftovers,
+        sameMealTimes,
+        targetCalories,
+        dietaryPreferences,
+        excludedIngredients,
+        budget,
       });
-    }
 
-    console.log("✅ Input validation passed, generating menu...");
-
-    const menu = await RecommendedMenuService.generatePersonalizedMenu({
-      userId,
-      days,
-      mealsPerDay,
-      mealChangeFrequency,
-      includeLeftovers,
-      sameMealTimes,
-      targetCalories,
-      dietaryPreferences,
-      excludedIngredients,
-      budget,
-    });
+      if (!menu) {
+        throw new Error("Menu generation returned null");
+      }
 
-    if (!menu) {
-      throw new Error("Menu generation returned null");
-    }
+      console.log("🎉 Menu generated successfully!");
+      console.log("📊 Menu stats:", {
+        menu_id: menu?.menu_id,
+        title: menu?.title,
+        meals_count: menu?.meals?.length || 0,
+        total_calories: menu?.total_calories,
+      });
 
-    console.log("🎉 Menu generated successfully!");
-    console.log("📊 Menu stats:", {
-      menu_id: menu?.menu_id,
-      title: menu?.title,
-      meals_count: menu?.meals?.length || 0,
-      total_calories: menu?.total_calories,
-    });
+      // Ensure the response has the expected structure
+      const responseData = {
+        ...menu,
+        // Ensure we have at least these fields for the client
+        menu_id: menu.menu_id,
+        title: menu.title,
+        description: menu.description,
+        meals: menu.meals || [],
+        days_count: menu.days_count,
+        total_calories: menu.total_calories,
+        estimated_cost: menu.estimated_cost,
+      };
 
-    // Ensure the response has the expected structure
-    const responseData = {
-      ...menu,
-      // Ensure we have at least these fields for the client
-      menu_id: menu.menu_id,
-      title: menu.title,
-      description: menu.description,
-      meals: menu.meals || [],
-      days_count: menu.days_count,
-      total_calories: menu.total_calories,
-      estimated_cost: menu.estimated_cost,
-    };
+      console.log(
+        "📤 Sending response with",
+        responseData.meals.length,
+        "meals"
+      );
 
-    console.log("📤 Sending response with", responseData.meals.length, "meals");
+      res.json({
+        success: true,
+        message: "Menu generated successfully",
+        data: responseData,
+      });
+    } catch (error) {
+      console.error("💥 Error generating menu:", error);
 
-    res.json({
-      success: true,
-      message: "Menu generated successfully",
-      data: responseData,
-    });
-  } catch (error) {
-    console.error("💥 Error generating menu:", error);
-
-    // Provide more specific error messages
-    let errorMessage = "Failed to generate menu";
-    let statusCode = 500;
-
-    if (error instanceof Error) {
-      if (error.message.includes("questionnaire not found")) {
-        errorMessage =
-          "Please complete your questionnaire first before generating a menu";
-        statusCode = 400;
-      } else if (error.message.includes("budget")) {
-        errorMessage = "Please set a daily food budget in your questionnaire";
-        statusCode = 400;
-      } else {
+      // Provide more specific error messages
+      let errorMessage = "Failed to generate menu";
+      let statusCode = 500;
+
+      if (error instanceof MenuRestrictionError) {
         errorMessage = error.message;
+        statusCode = 422;
+      } else if (error instanceof Error) {
+        if (error.message.includes("questionnaire not found")) {
+          errorMessage =
+            "Please complete your questionnaire first before generating a menu";
+          statusCode = 400;
+        } else if (error.message.includes("budget")) {
+          errorMessage = "Please set a daily food budget in your questionnaire";
+          statusCode = 400;
+        } else {
+          errorMessage = error.message;
+        }
       }
-    }
 
-    res.status(statusCode).json({
-      success: false,
-      error: errorMessage,
-      details: error instanceof Error ? error.message : "Unknown error",
-    });
+      res.status(statusCode).json({
+        success: false,
+        error: errorMessage,
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
   }
-});
+);
 
 // POST /api/recommended-menus/:menuId/replace-meal - Replace a specific meal
 router.post(
@@ -410,6 +495,9 @@ router.post(
         data: updatedMeal,
       });
     } catch (error) {
+      if (error instanceof MenuRestrictionError) {
+        return res.status(422).json({ success: false, error: error.message });
+      }
       console.error("💥 Error replacing meal:", error);
       res.status(500).json({
         success: false,
@@ -515,7 +603,7 @@ router.get(
   }
 );
 
-// POST /api/recommended-menus/:menuId/start-today - Mark menu as started
+// POST /api/recommended-menus/:menuId/start-today - Schedule menu from today
 router.post(
   "/:menuId/start-today",
   authenticateToken,
@@ -524,13 +612,23 @@ router.post(
       const userId = req.user.user_id;
       const { menuId } = req.params;
 
-      await RecommendedMenuService.startMenuToday(userId, menuId);
+      const schedule = await RecommendedMenuService.startMenuToday(
+        userId,
+        menuId
+      );
 
       res.json({
         success: true,
         message: "Menu started for today",
+        data: schedule,
       });
     } catch (error) {
+      if (error instanceof Error && error.message === "Menu not found") {
+        return res.status(404).json({
+          success: false,
+          error: "Menu not found",
+        });
+      }
       console.error("💥 Error starting menu:", error);
       res.status(500).json({
         success: false,
@@ -1,7 +1,14 @@
 import { Router, Response } from "express";
 import { authenticateToken, AuthRequest } from "../middleware/auth"; // Import your AuthRequest type here
 import { StatisticsService } from "../services/statistics";
+import { ReportRangeError } from "../services/nutritionReport";
 import { z } from "zod";
+import { reportQuerySchema } from "../types/statistics";
+import {
+  addDaysToDateString,
+  getLocalDateString,
+  resolveTimeZone,
+} from "../utils/dates";
 
 const router = Router();
 
@@ -27,9 +34,11 @@ router.get(
       );
 
       const period = periodSchema.parse(req.query.period || "week");
+      const { from, to } = reportQuerySchema.parse(req.query);
       const statistics = await StatisticsService.getNutritionStatistics(
         userId,
-        period
+        period,
+        period === "custom" && from && to ? { from, to } : undefined
       );
 
       console.log(`✅ Statistics fetched successfully for user: ${userId}`);
@@ -65,16 +74,38 @@ router.get(
     }
 
     try {
-      const pdfBuffer = await StatisticsService.generatePDFReport(userId);
+      const { from, to, language } = reportQuerySchema.parse(req.query);
+
+      // Default to the last 7 days, inclusive of the user's local today
+      const toDate =
+        to ||
+        getLocalDateString(new Date(), resolveTimeZone(req.user.timezone));
+      const fromDate = from || addDaysToDateString(toDate, -6);
+
+      const pdfBuffer = await StatisticsService.generatePDFReport(userId, {
+        from: fromDate,
+        to: toDate,
+        language,
+      });
+
+      const fileName = `nutrition-report-${fromDate}-to-${toDate}.pdf`;
 
       res.setHeader("Content-Type", "application/pdf");
-      res.setHeader(
-        "Content-Disposition",
-        "attachment; filename=nutrition-report.pdf"
-      );
+      res.setHeader("Content-Disposition", `attachment; filename=${fileName}`);
       res.send(pdfBuffer);
     } catch (error) {
       console.error("Error generating PDF report:", error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid report parameters",
+          details: error.errors,
+        });
+      }
+      if (error instanceof ReportRangeError) {
+        return res.status(400).json({ error: error.message });
+      }
+
       res.status(500).json({ error: "Failed to generate report" });
     }
   }
@@ -0,0 +1,107 @@
+import { Router, Response } from "express";
+import { z } from "zod";
+import { authenticateToken, AuthRequest } from "../middleware/auth";
+import {
+  StreakExistsError,
+  StreakNotFoundError,
+  StreakService,
+} from "../services/streaks";
+import {
+  createStreakSchema,
+  streakDaysQuerySchema,
+  updateStreakSchema,
+} from "../types/streaks";
+
+const router = Router();
+
+function handleStreakError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0]?.message || "Invalid streak",
+    });
+  }
+  if (error instanceof StreakNotFoundError) {
+    return res.status(404).json({ success: false, error: error.message });
+  }
+  if (error instanceof StreakExistsError) {
+    return res.status(409).json({ success: false, error: error.message });
+  }
+  console.error(`💥 ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+}
+
+// GET /api/streaks - All of the user's streaks, scored up to now
+router.get("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const streaks = await StreakService.evaluateStreaks(req.user.user_id);
+    res.json({ success: true, data: streaks });
+  } catch (error) {
+    handleStreakError(res, error, "Failed to fetch streaks");
+  }
+});
+
+// POST /api/streaks - Add a named streak with its day-success criteria
+router.post("/", authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const input = createStreakSchema.parse(req.body);
+    const streak = await StreakService.createStreak(req.user.user_id, input);
+    res.status(201).json({ success: true, data: streak });
+  } catch (error) {
+    handleStreakError(res, error, "Failed to create streak");
+  }
+});
+
+// PUT /api/streaks/:streakId - Rename, change criteria or make primary
+router.put(
+  "/:streakId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const input = updateStreakSchema.parse(req.body);
+      const streak = await StreakService.updateStreak(
+        req.user.user_id,
+        req.params.streakId,
+        input
+      );
+      res.json({ success: true, data: streak });
+    } catch (error) {
+      handleStreakError(res, error, "Failed to update streak");
+    }
+  }
+);
+
+// DELETE /api/streaks/:streakId
+router.delete(
+  "/:streakId",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await StreakService.deleteStreak(req.user.user_id, req.params.streakId);
+      res.json({ success: true });
+    } catch (error) {
+      handleStreakError(res, error, "Failed to delete streak");
+    }
+  }
+);
+
+// GET /api/streaks/:streakId/days?from=YYYY-MM-DD&to=YYYY-MM-DD
+router.get(
+  "/:streakId/days",
+  authenticateToken,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const query = streakDaysQuerySchema.parse(req.query);
+      const days = await StreakService.getStreakDays(
+        req.user.user_id,
+        req.params.streakId,
+        query
+      );
+      res.json({ success: true, data: days });
+    } catch (error) {
+      handleStreakError(res, error, "Failed to fetch streak days");
+    }
+  }
+);
+
+export { router as streakRoutes };
@@ -1,8 +1,16 @@
 import { Router } from "express";
+import { z } from "zod";
 import { prisma } from "../lib/database";
-import { updateProfileSchema } from "../types/auth";
+import { updateProfileSchema, updateTimeZoneSchema } from "../types/auth";
 import { authenticateToken, AuthRequest } from "../middleware/auth";
 import { StatisticsService } from "../services/statistics";
+import { AuthService } from "../services/auth";
+import { BillingService } from "../services/billing";
+import { getNextQuotaReset } from "../middleware/aiQuota";
+import { TimeZoneService } from "../services/timeZone";
+import { KosherService } from "../services/kosher";
+import { kosherSettingsSchema } from "../types/kosher";
+import { LLMService } from "../services/llm";
 
 const router = Router();
 
@@ -23,6 +31,7 @@ router.put(
           subscription_type: true,
           birth_date: true,
           ai_requests_count: true,
+          timezone: true,
           created_at: true,
         },
       });
@@ -43,6 +52,85 @@ router.put(
     }
   }
 );
+// Store the device's IANA zone; days are bucketed in it from now on
+router.put("/timezone", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { timezone } = updateTimeZoneSchema.parse(req.body);
+    await TimeZoneService.setUserTimeZone(req.user.user_id, timezone);
+
+    res.json({
+      success: true,
+      timezone,
+    });
+  } catch (error) {
+    console.error("💥 Update time zone error:", error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Invalid time zone",
+    });
+  }
+});
+
+// Waiting times between meat and dairy meals, used for kosher menus and plans
+router.get(
+  "/kosher-settings",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const settings = await KosherService.getSettings(req.user.user_id);
+      res.json({ success: true, data: settings });
+    } catch (error) {
+      console.error("💥 Get kosher settings error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to fetch kosher settings",
+      });
+    }
+  }
+);
+
+router.put(
+  "/kosher-settings",
+  authenticateToken,
+  async (req: AuthRequest, res) => {
+    try {
+      const input = kosherSettingsSchema.parse(req.body);
+      const settings = await KosherService.updateSettings(
+        req.user.user_id,
+        input
+      );
+      res.json({ success: true, data: settings });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: error.errors[0]?.message || "Invalid waiting times",
+        });
+      }
+      console.error("💥 Update kosher settings error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to update kosher settings",
+      });
+    }
+  }
+);
+
+// Tokens and estimated cost of the user's AI requests, by feature
+router.get("/ai-usage", authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const days = Math.min(Math.max(Number(req.query.days) || 30, 1), 365);
+    const usage = await LLMService.getUsageSummary(req.user.user_id, days);
+    res.json({ success: true, data: usage });
+  } catch (error) {
+    console.error("💥 Get AI usage error:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to fetch AI usage",
+    });
+  }
+});
+
 // src/routes/user.ts
 router.put(
   "/subscription",
@@ -58,12 +146,22 @@ router.put(
           .json({ success: false, error: "Invalid subscription type" });
       }
 
-      await prisma.user.update({
-        where: { user_id: userId },
-        data: { subscription_type },
-      });
+      // Paid plans are only granted by a confirmed payment
+      if (subscription_type !== "FREE") {
+        return res.status(402).json({
+          success: false,
+          error: "Paid plans must be purchased through /api/billing/checkout",
+          code: "CHECKOUT_REQUIRED",
+        });
+      }
+
+      const subscription = await BillingService.cancelSubscription(userId);
 
-      return res.json({ success: true, message: "Subscription updated" });
+      return res.json({
+        success: true,
+        message: "Subscription updated",
+        subscription,
+      });
     } catch (error) {
       console.error("Subscription update error:", error);
       return res
@@ -77,23 +175,26 @@ router.get(
   "/subscription-info",
   authenticateToken,
   async (req: AuthRequest, res) => {
-    const subscriptionInfo = {
-      FREE: { dailyRequests: 2, name: "Free Plan" },
-      BASIC: { dailyRequests: 20, name: "Basic Plan" },
-      PREMIUM: { dailyRequests: 50, name: "Premium Plan" },
+    const planNames = {
+      FREE: "Free Plan",
+      PREMIUM: "Premium Plan",
+      GOLD: "Gold Plan",
     };
 
     const userSubscriptionType = req.user.subscription_type;
-    const info =
-      subscriptionInfo[userSubscriptionType as keyof typeof subscriptionInfo] ||
-      subscriptionInfo.FREE;
+    const { dailyRequests } = await AuthService.getRolePermissions(
+      userSubscriptionType
+    );
 
     res.json({
       success: true,
       subscription: {
-        ...info,
+        name:
+          planNames[userSubscriptionType as keyof typeof planNames] ||
+          planNames.FREE,
+        dailyRequests,
         currentRequests: req.user.ai_requests_count,
-        resetAt: req.user.ai_requests_reset_at,
+        resetAt: getNextQuotaReset(new Date(), req.user.timezone),
       },
     });
   }
@@ -171,6 +272,7 @@ router.patch(
           subscription_type: true,
           birth_date: true,
           ai_requests_count: true,
+          timezone: true,
           created_at: true,
         },
       });
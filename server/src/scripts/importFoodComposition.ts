@@ -0,0 +1,42 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import { prisma } from "../lib/database";
+import { readTzameretFoods, readUsdaFoods } from "../lib/foodComposition";
+import { FoodCompositionService } from "../services/foodComposition";
+
+// Loads a food composition table into the local food database used for
+// meal nutrient math. USDA takes the extracted FoodData Central CSV
+// directory; Tzameret takes the foods CSV and, optionally, its household
+// measures CSV. Safe to re-run with a newer release.
+async function main() {
+  const [source, filePath, portionsPath] = process.argv.slice(2);
+  if (!filePath || (source !== "usda" && source !== "tzameret")) {
+    console.error(
+      "Usage: npm run foods:import -- usda <fooddata-central-csv-dir>\n" +
+        "       npm run foods:import -- tzameret <foods.csv> [portions.csv]"
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`🚀 Importing ${source} foods from`, filePath);
+  let skipped = 0;
+  const foods =
+    source === "usda"
+      ? readUsdaFoods(filePath, () => skipped++)
+      : readTzameretFoods(filePath, portionsPath, () => skipped++);
+
+  const stats = await FoodCompositionService.importFoods(foods, (imported) =>
+    console.log(`🥕 ${imported} imported, ${skipped} skipped`)
+  );
+
+  console.log("✅ Import finished:", { ...stats, skipped });
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Food composition import failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,41 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import { prisma } from "../lib/database";
+import { readOpenFoodFactsDump } from "../lib/openFoodFacts";
+import { ProductCatalogService } from "../services/productCatalog";
+
+// Bulk-loads an OpenFoodFacts export (.jsonl or .csv, optionally .gz) into
+// the shared catalog so barcode lookups work without the live API. Safe to
+// re-run with a newer dump; verified products are never overwritten.
+async function main() {
+  const filePath = process.argv[2];
+  if (!filePath) {
+    console.error(
+      "Usage: npm run products:import -- <openfoodfacts-dump.jsonl.gz>"
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log("🚀 Importing OpenFoodFacts products from", filePath);
+  let skipped = 0;
+  const products = readOpenFoodFactsDump(filePath, () => skipped++);
+
+  const stats = await ProductCatalogService.importProducts(
+    products,
+    (progress) =>
+      console.log(
+        `📦 ${progress.created} created, ${progress.updated} updated, ${progress.flagged} flagged, ${skipped} skipped`
+      )
+  );
+
+  console.log("✅ Import finished:", { ...stats, skipped });
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 OpenFoodFacts import failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,21 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import { prisma } from "../lib/database";
+import { ImageStorageService } from "../services/imageStorage";
+
+// One-off job: move base64 meal photos out of the Meal table into the
+// configured blob store. Safe to re-run; already migrated rows are skipped.
+async function main() {
+  console.log("🚀 Migrating inline meal images to blob storage...");
+  const batchSize = Number(process.argv[2]) || undefined;
+  const result = await ImageStorageService.migrateInlineMealImages(batchSize);
+  process.exitCode = result.failed > 0 ? 1 : 0;
+}
+
+main()
+  .catch((error) => {
+    console.error("💥 Meal image migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,135 @@
+import { prisma } from "../lib/database";
+import {
+  ACTIVITY_METRICS,
+  ActivityMetric,
+  MergedDailyActivity,
+  MetricPreferenceInput,
+} from "../types/devices";
+import { dateStringToDbDate, dbDateToDateString } from "../utils/dates";
+
+type ActivitySummaryRow = {
+  date: Date;
+  sync_timestamp: Date;
+  device: { device_type: string; is_primary_device: boolean };
+} & Record<ActivityMetric, number | null>;
+
+/**
+ * Merges per-device DailyActivitySummary rows into one view per day. Each
+ * metric comes from exactly one device, never a sum, so wearing two devices
+ * doesn't double-count. Source order per metric: the user's override for
+ * that metric, then the primary device, then the most recently synced one.
+ */
+export class ActivityMergeService {
+  static async getPreferences(user_id: string) {
+    const preferences = await prisma.activityMetricPreference.findMany({
+      where: { user_id },
+    });
+
+    return Object.fromEntries(
+      preferences.map((preference: any) => [
+        preference.metric,
+        preference.device_type,
+      ])
+    ) as Partial<Record<ActivityMetric, string>>;
+  }
+
+  static async setPreference(user_id: string, input: MetricPreferenceInput) {
+    if (input.deviceType === null) {
+      await prisma.activityMetricPreference.deleteMany({
+        where: { user_id, metric: input.metric },
+      });
+    } else {
+      await prisma.activityMetricPreference.upsert({
+        where: { user_id_metric: { user_id, metric: input.metric } },
+        update: { device_type: input.deviceType },
+        create: {
+          user_id,
+          metric: input.metric,
+          device_type: input.deviceType,
+        },
+      });
+    }
+
+    console.log("⚙️ Activity source preference updated:", input);
+    return this.getPreferences(user_id);
+  }
+
+  static async getMergedActivity(
+    user_id: string,
+    startDate: string,
+    endDate: string
+  ): Promise<MergedDailyActivity[]> {
+    const [rows, preferences] = await Promise.all([
+      prisma.dailyActivitySummary.findMany({
+        where: {
+          user_id,
+          date: {
+            gte: dateStringToDbDate(startDate),
+            lte: dateStringToDbDate(endDate),
+          },
+        },
+        include: {
+          device: {
+            select: { device_type: true, is_primary_device: true },
+          },
+        },
+        orderBy: { date: "asc" },
+      }),
+      this.getPreferences(user_id),
+    ]);
+
+    const rowsByDate = new Map<string, ActivitySummaryRow[]>();
+    for (const row of rows as ActivitySummaryRow[]) {
+      const date = dbDateToDateString(row.date);
+      rowsByDate.set(date, [...(rowsByDate.get(date) || []), row]);
+    }
+
+    return Array.from(rowsByDate.entries()).map(([date, dayRows]) =>
+      this.mergeDay(date, dayRows, preferences)
+    );
+  }
+
+  static async getMergedDay(user_id: string, date: string) {
+    const [day] = await this.getMergedActivity(user_id, date, date);
+    return day || null;
+  }
+
+  private static mergeDay(
+    date: string,
+    rows: ActivitySummaryRow[],
+    preferences: Partial<Record<ActivityMetric, string>>
+  ): MergedDailyActivity {
+    const byDefaultPriority = [...rows].sort((a, b) => {
+      if (a.device.is_primary_device !== b.device.is_primary_device) {
+        return a.device.is_primary_device ? -1 : 1;
+      }
+      return b.sync_timestamp.getTime() - a.sync_timestamp.getTime();
+    });
+
+    const merged = { date, sources: {} } as MergedDailyActivity;
+
+    for (const metric of ACTIVITY_METRICS) {
+      const preferred = preferences[metric];
+      const candidates = preferred
+        ? [
+            ...byDefaultPriority.filter(
+              (row) => row.device.device_type === preferred
+            ),
+            ...byDefaultPriority.filter(
+              (row) => row.device.device_type !== preferred
+            ),
+          ]
+        : byDefaultPriority;
+
+      // Devices store 0 for metrics they don't track, so 0 means "no data"
+      const source = candidates.find((row) => Number(row[metric]) > 0);
+
+      merged[metric] = source ? Number(source[metric]) : null;
+      if (source) {
+        merged.sources[metric] = source.device.device_type;
+      }
+    }
+
+    return merged;
+  }
+}
@@ -0,0 +1,302 @@
+import { EventEmitter } from "events";
+import { prisma } from "../lib/database";
+import { LLMProviderError } from "../lib/llmProvider";
+import { refundAiQuota } from "../middleware/aiQuota";
+import { AnalysisJobView } from "../types/nutrition";
+import { ImageStorageService } from "./imageStorage";
+import { AIOutputValidationError, LLMTimeoutError } from "./llm";
+import { NutritionService } from "./nutrition";
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_CONCURRENT_JOBS = 3;
+// Attempt n waits RETRY_BASE_DELAY_MS * 3^(n-1) before the next one
+const RETRY_BASE_DELAY_MS = 5000;
+// A RUNNING job this old lost its worker (e.g. a restart) and is requeued
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+// Status changes of jobs run by this process, keyed by job_id
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+// Timeouts, rate limits, provider 5xx, answers that failed validation and
+// dropped database connections are worth another attempt
+function isTransient(error: unknown) {
+  if (error instanceof LLMTimeoutError) return true;
+  if (error instanceof AIOutputValidationError) return true;
+  if (error instanceof LLMProviderError) return error.retryable;
+  const code = (error as any)?.code;
+  return typeof code === "string" && code.startsWith("P1");
+}
+
+function toJobView(job: any): AnalysisJobView {
+  return {
+    job_id: job.job_id,
+    meal_id: job.meal_id,
+    status: job.status,
+    attempts: job.attempts,
+    max_attempts: job.max_attempts,
+    error: job.error,
+    created_at: job.created_at,
+    updated_at: job.updated_at,
+    completed_at: job.completed_at,
+    result: job.result ?? null,
+  };
+}
+
+export function isFinishedJob(job: AnalysisJobView) {
+  return job.status === "COMPLETED" || job.status === "FAILED";
+}
+
+/**
+ * Meal photo analysis as persisted background jobs. An upload creates a
+ * PENDING meal and a QUEUED job; a worker in each server process claims due
+ * jobs, retries transient failures with backoff and finally marks both the
+ * job and the meal COMPLETED or FAILED. Totals, streaks and reports count
+ * only COMPLETED meals.
+ */
+export class AnalysisJobService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = 0;
+  private static claiming = false;
+
+  static async enqueue(
+    user_id: string,
+    data: { imageBase64: string; language: string; updateText?: string }
+  ) {
+    const image = await ImageStorageService.storeBase64Image(
+      user_id,
+      data.imageBase64
+    );
+
+    const meal = await prisma.meal.create({
+      data: {
+        user_id,
+        image_url: image.url,
+        analysis_status: "PENDING",
+        analysisJob: {
+          create: {
+            user_id,
+            image_id: image.image_id,
+            language: data.language,
+            update_text: data.updateText || null,
+          },
+        },
+      },
+      include: { analysisJob: true },
+    });
+
+    const job = meal.analysisJob;
+    if (!job) {
+      throw new Error(`Analysis job for meal ${meal.meal_id} was not created`);
+    }
+
+    console.log("📥 Queued analysis job", job.job_id);
+    this.kick();
+    return toJobView(job);
+  }
+
+  static async getJob(user_id: string, job_id: string) {
+    const job = await prisma.analysisJob.findFirst({
+      where: { job_id, user_id },
+    });
+    return job ? toJobView(job) : null;
+  }
+
+  /**
+   * Queues a FAILED job again with a fresh set of attempts. Returns null if
+   * there is no such job or it hasn't failed.
+   */
+  static async retryJob(user_id: string, job_id: string) {
+    const requeued = await prisma.analysisJob.updateMany({
+      where: { job_id, user_id, status: "FAILED" },
+      data: {
+        status: "QUEUED",
+        attempts: 0,
+        run_after: new Date(),
+        locked_at: null,
+        error: null,
+      },
+    });
+    if (requeued.count === 0) return null;
+
+    const job = await prisma.analysisJob.update({
+      where: { job_id },
+      data: { meal: { update: { analysis_status: "PENDING" } } },
+    });
+    this.publish(job);
+    this.kick();
+    return toJobView(job);
+  }
+
+  // Calls `listener` on every status change of the job in this process
+  static subscribe(job_id: string, listener: (job: AnalysisJobView) => void) {
+    jobEvents.on(job_id, listener);
+    return () => {
+      jobEvents.off(job_id, listener);
+    };
+  }
+
+  static startWorker() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.kick(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    this.kick();
+    console.log("🧵 Analysis job worker started");
+  }
+
+  static stopWorker() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private static kick() {
+    setImmediate(() =>
+      this.processDueJobs().catch((error) =>
+        console.error("❌ Analysis job worker failed:", error)
+      )
+    );
+  }
+
+  private static async processDueJobs() {
+    if (this.claiming) return;
+    this.claiming = true;
+
+    try {
+      await prisma.analysisJob.updateMany({
+        where: {
+          status: "RUNNING",
+          locked_at: { lt: new Date(Date.now() - STALE_JOB_MS) },
+        },
+        data: { status: "QUEUED", locked_at: null, run_after: new Date() },
+      });
+
+      while (this.running < MAX_CONCURRENT_JOBS) {
+        const job = await this.claimNextJob();
+        if (!job) break;
+
+        this.running++;
+        this.runJob(job).finally(() => {
+          this.running--;
+          this.kick();
+        });
+      }
+    } finally {
+      this.claiming = false;
+    }
+  }
+
+  // Claims are conditional updates, so two workers never run the same job
+  private static async claimNextJob() {
+    for (;;) {
+      const candidate = await prisma.analysisJob.findFirst({
+        where: { status: "QUEUED", run_after: { lte: new Date() } },
+        orderBy: { run_after: "asc" },
+      });
+      if (!candidate) return null;
+
+      const claimed = await prisma.analysisJob.updateMany({
+        where: { job_id: candidate.job_id, status: "QUEUED" },
+        data: {
+          status: "RUNNING",
+          locked_at: new Date(),
+          attempts: { increment: 1 },
+        },
+      });
+      if (claimed.count === 0) continue;
+
+      const job = await prisma.analysisJob.findUnique({
+        where: { job_id: candidate.job_id },
+      });
+      this.publish(job);
+      return job;
+    }
+  }
+
+  private static async runJob(job: any) {
+    try {
+      // A job that keeps taking its worker down is not tried forever
+      if (job.attempts > job.max_attempts) {
+        throw new Error("Analysis did not finish after repeated attempts");
+      }
+
+      const image = await ImageStorageService.getImage(
+        job.user_id,
+        job.image_id
+      );
+      if (!image) throw new Error("Uploaded image is no longer available");
+
+      const result = await NutritionService.analyzePendingMeal(
+        job.user_id,
+        job.meal_id,
+        {
+          imageBase64: image.data.toString("base64"),
+          language: job.language,
+          updateText: job.update_text || undefined,
+        }
+      );
+
+      const completed = await prisma.analysisJob.update({
+        where: { job_id: job.job_id },
+        data: {
+          status: "COMPLETED",
+          locked_at: null,
+          error: null,
+          result: JSON.parse(JSON.stringify(result)),
+          completed_at: new Date(),
+        },
+      });
+      console.log("✅ Analysis job completed", job.job_id);
+      this.publish(completed);
+    } catch (error) {
+      await this.handleFailure(job, error);
+    }
+  }
+
+  private static async handleFailure(job: any, error: unknown) {
+    const message =
+      error instanceof Error ? error.message : "Meal analysis failed";
+
+    try {
+      if (isTransient(error) && job.attempts < job.max_attempts) {
+        const delay = RETRY_BASE_DELAY_MS * 3 ** (job.attempts - 1);
+        const requeued = await prisma.analysisJob.update({
+          where: { job_id: job.job_id },
+          data: {
+            status: "QUEUED",
+            locked_at: null,
+            error: message,
+            run_after: new Date(Date.now() + delay),
+          },
+        });
+        console.warn(
+          `🔁 Analysis job ${job.job_id} failed (attempt ${job.attempts}), retrying in ${delay}ms:`,
+          message
+        );
+        this.publish(requeued);
+        return;
+      }
+
+      const failed = await prisma.analysisJob.update({
+        where: { job_id: job.job_id },
+        data: {
+          status: "FAILED",
+          locked_at: null,
+          error: message,
+          completed_at: new Date(),
+          meal: { update: { analysis_status: "FAILED" } },
+        },
+      });
+      console.error(`❌ Analysis job ${job.job_id} failed:`, message);
+      // The user isn't charged for an analysis we couldn't deliver
+      refundAiQuota(job.user_id);
+      this.publish(failed);
+    } catch (updateError) {
+      // Left RUNNING; the stale job sweep picks it up again
+      console.error("❌ Failed to record analysis job failure:", updateError);
+    }
+  }
+
+  private static publish(job: any) {
+    if (job) jobEvents.emit(job.job_id, toJobView(job));
+  }
+}
@@ -16,6 +16,7 @@ const userSelectFields = {
   birth_date: true,
   ai_requests_count: true,
   ai_requests_reset_at: true,
+  timezone: true,
   created_at: true,
   email_verified: true,
   is_questionnaire_completed: true,
@@ -33,7 +34,7 @@ function getSessionExpiryDate() {
 
 export class AuthService {
   static async signUp(data: SignUpInput) {
-    const { email, name, password, birth_date } = data;
+    const { email, name, password, birth_date, timezone } = data;
 
     const existingUser = await prisma.user.findFirst({
       where: { email },
@@ -91,6 +92,7 @@ export class AuthService {
         email_verified: false,
         email_verification_code: emailVerificationCode,
         email_verification_expires: new Date(Date.now() + 15 * 60 * 1000), // 15 minutes
+        timezone,
       },
       select: {
         ...userSelectFields,
@@ -373,14 +375,21 @@ export class AuthService {
   }
 
   static async signIn(data: SignInInput) {
-    const { email, password } = data;
+    const { email, password, timezone } = data;
 
-    const user = await prisma.user.findUnique({ where: { email } });
+    let user = await prisma.user.findUnique({ where: { email } });
     if (!user) throw new Error("Invalid email or password");
 
     const isValid = await bcrypt.compare(password, user.password_hash);
     if (!isValid) throw new Error("Invalid email or password");
 
+    if (timezone && timezone !== user.timezone) {
+      user = await prisma.user.update({
+        where: { user_id: user.user_id },
+        data: { timezone },
+      });
+    }
+
     const token = generateToken({ user_id: user.user_id, email: user.email });
 
     await prisma.session.create({
@@ -0,0 +1,333 @@
+import { prisma } from "../lib/database";
+import {
+  BillingEvent,
+  getPaymentProvider,
+  PaidPlan,
+} from "../lib/paymentProvider";
+import { SubscriptionStatus } from "../types/billing";
+
+const PLAN_PRICING: Record<PaidPlan, { amount: number; currency: string }> = {
+  PREMIUM: { amount: 49, currency: "ILS" },
+  GOLD: { amount: 99, currency: "ILS" },
+};
+
+const BILLING_PERIOD_MONTHS = 1;
+const DEFAULT_GRACE_PERIOD_DAYS = 3;
+
+function getGracePeriodDays() {
+  const days = Number(process.env.BILLING_GRACE_PERIOD_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_GRACE_PERIOD_DAYS;
+}
+
+function addMonths(date: Date, months: number) {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+function getGracePeriodEnd(subscriptionEnd: Date) {
+  return new Date(
+    subscriptionEnd.getTime() + getGracePeriodDays() * 24 * 60 * 60 * 1000
+  );
+}
+
+export class BillingService {
+  static getPlans() {
+    return Object.entries(PLAN_PRICING).map(([plan, pricing]) => ({
+      plan,
+      ...pricing,
+      interval_months: BILLING_PERIOD_MONTHS,
+    }));
+  }
+
+  static async getSubscriptionStatus(
+    userId: string
+  ): Promise<SubscriptionStatus> {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: {
+        subscription_type: true,
+        subscription_start: true,
+        subscription_end: true,
+        subscription_auto_renew: true,
+      },
+    });
+    if (!user) throw new Error("User not found");
+
+    const status: SubscriptionStatus = {
+      plan: user.subscription_type,
+      state: "free",
+      auto_renew: user.subscription_auto_renew,
+      subscription_start: user.subscription_start,
+      subscription_end: user.subscription_end,
+      grace_period_end: null,
+    };
+
+    if (user.subscription_type === "FREE") return status;
+
+    // Paid plans without an end date were granted manually and never expire
+    if (!user.subscription_end) {
+      status.state = "active";
+      return status;
+    }
+
+    const now = new Date();
+    const graceEnd = getGracePeriodEnd(user.subscription_end);
+
+    if (user.subscription_end > now) {
+      status.state = user.subscription_auto_renew ? "active" : "canceling";
+    } else if (graceEnd > now && user.subscription_auto_renew) {
+      status.state = "grace_period";
+      status.grace_period_end = graceEnd;
+    } else {
+      // Downgrade is pending the next renewal run
+      status.state = "expired";
+    }
+
+    return status;
+  }
+
+  static async createCheckout(
+    userId: string,
+    plan: PaidPlan,
+    urls: { successUrl: string; cancelUrl: string }
+  ) {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: { email: true },
+    });
+    if (!user) throw new Error("User not found");
+
+    const provider = getPaymentProvider();
+    const pricing = PLAN_PRICING[plan];
+
+    const session = await provider.createCheckoutSession({
+      userId,
+      email: user.email,
+      plan,
+      amount: pricing.amount,
+      currency: pricing.currency,
+      successUrl: urls.successUrl,
+      cancelUrl: urls.cancelUrl,
+    });
+
+    console.log(
+      `💳 Created ${provider.name} checkout ${session.sessionId} for user ${userId} (${plan})`
+    );
+
+    return { ...session, plan, ...pricing };
+  }
+
+  static async getCheckoutStatus(userId: string, sessionId: string) {
+    const payment = await prisma.subscriptionPayment.findFirst({
+      where: { user_id: userId, provider_session_id: sessionId },
+      orderBy: { payment_date: "desc" },
+    });
+
+    if (!payment) return { status: "pending" as const };
+
+    return {
+      status:
+        payment.status === "SUCCEEDED"
+          ? ("completed" as const)
+          : ("failed" as const),
+      plan: payment.plan_type,
+      period_end: payment.period_end,
+    };
+  }
+
+  static async handleWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>
+  ) {
+    const provider = getPaymentProvider();
+    const event = await provider.parseWebhook(rawBody, headers);
+
+    console.log(
+      `🔔 Billing webhook ${event.eventId} (${event.type}) for user ${event.userId}`
+    );
+
+    return this.applyEvent(event, provider.name);
+  }
+
+  /**
+   * Applies a provider event to the user's subscription. Payment events are
+   * idempotent on the provider payment id, so webhook retries are harmless.
+   */
+  static async applyEvent(event: BillingEvent, providerName: string) {
+    if (event.type === "subscription.canceled") {
+      await prisma.user.update({
+        where: { user_id: event.userId },
+        data: { subscription_auto_renew: false },
+      });
+      return { applied: true };
+    }
+
+    if (event.paymentId) {
+      const existing = await prisma.subscriptionPayment.findUnique({
+        where: { provider_payment_id: event.paymentId },
+      });
+      if (existing) {
+        console.log(`ℹ️ Payment ${event.paymentId} already recorded`);
+        return { applied: false, payment: existing };
+      }
+    }
+
+    if (event.type === "payment.failed") {
+      const payment = await prisma.subscriptionPayment.create({
+        data: {
+          user_id: event.userId,
+          plan_type: event.plan,
+          amount: event.amount,
+          currency: event.currency,
+          status: "FAILED",
+          provider: providerName,
+          provider_payment_id: event.paymentId,
+          provider_session_id: event.sessionId,
+          payment_method: event.paymentMethod,
+          failure_reason: event.failureReason,
+        },
+      });
+      console.log(
+        `⚠️ Payment failed for user ${event.userId}: ${event.failureReason}`
+      );
+      return { applied: true, payment };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { user_id: event.userId },
+      select: {
+        subscription_type: true,
+        subscription_start: true,
+        subscription_end: true,
+      },
+    });
+    if (!user) throw new Error("User not found");
+
+    // Renewals of the same plan extend the current period; anything else
+    // (new subscription, plan change, lapsed plan) starts a fresh one.
+    const now = new Date();
+    const isRenewal =
+      user.subscription_type === event.plan &&
+      !!user.subscription_end &&
+      getGracePeriodEnd(user.subscription_end) > now;
+    const periodStart = isRenewal ? user.subscription_end! : now;
+    const periodEnd = addMonths(periodStart, BILLING_PERIOD_MONTHS);
+
+    const [payment] = await prisma.$transaction([
+      prisma.subscriptionPayment.create({
+        data: {
+          user_id: event.userId,
+          plan_type: event.plan,
+          amount: event.amount,
+          currency: event.currency,
+          status: "SUCCEEDED",
+          provider: providerName,
+          provider_payment_id: event.paymentId,
+          provider_session_id: event.sessionId,
+          payment_method: event.paymentMethod,
+          period_start: periodStart,
+          period_end: periodEnd,
+        },
+      }),
+      prisma.user.update({
+        where: { user_id: event.userId },
+        data: {
+          subscription_type: event.plan,
+          subscription_start: isRenewal ? user.subscription_start : now,
+          subscription_end: periodEnd,
+          subscription_auto_renew: true,
+        },
+      }),
+    ]);
+
+    console.log(
+      `✅ ${event.plan} active for user ${event.userId} until ${periodEnd.toISOString()}`
+    );
+    return { applied: true, payment };
+  }
+
+  // Keeps the paid plan until the end of the current period
+  static async cancelSubscription(userId: string) {
+    await prisma.user.update({
+      where: { user_id: userId },
+      data: { subscription_auto_renew: false },
+    });
+    console.log(`🛑 Subscription auto-renew disabled for user ${userId}`);
+    return this.getSubscriptionStatus(userId);
+  }
+
+  /**
+   * Daily job: charges renewals for subscriptions whose period has ended and
+   * downgrades to FREE once the grace period is over without a payment.
+   */
+  static async processSubscriptionRenewals() {
+    const now = new Date();
+    const provider = getPaymentProvider();
+    let renewed = 0;
+    let failed = 0;
+    let downgraded = 0;
+
+    const dueUsers = await prisma.user.findMany({
+      where: {
+        subscription_type: { not: "FREE" },
+        subscription_end: { lte: now },
+      },
+      select: {
+        user_id: true,
+        subscription_type: true,
+        subscription_end: true,
+        subscription_auto_renew: true,
+      },
+    });
+
+    console.log(`🔁 Processing ${dueUsers.length} due subscriptions`);
+
+    for (const user of dueUsers) {
+      try {
+        const plan = user.subscription_type as PaidPlan;
+        const graceEnd = getGracePeriodEnd(user.subscription_end!);
+
+        if (user.subscription_auto_renew && graceEnd > now) {
+          const event = await provider.chargeRenewal({
+            userId: user.user_id,
+            plan,
+            ...PLAN_PRICING[plan],
+          });
+
+          // null means the provider renews itself and will send a webhook
+          if (!event) continue;
+
+          await this.applyEvent(event, provider.name);
+          if (event.type === "payment.succeeded") {
+            renewed++;
+            continue;
+          }
+          failed++;
+        }
+
+        if (!user.subscription_auto_renew || graceEnd <= now) {
+          await prisma.user.update({
+            where: { user_id: user.user_id },
+            data: {
+              subscription_type: "FREE",
+              subscription_auto_renew: true,
+            },
+          });
+          downgraded++;
+          console.log(`⬇️ Downgraded user ${user.user_id} to FREE`);
+        }
+      } catch (error) {
+        console.error(
+          `❌ Failed to process subscription for user ${user.user_id}:`,
+          error
+        );
+      }
+    }
+
+    console.log(
+      `✅ Subscription renewals done: ${renewed} renewed, ${failed} failed, ${downgraded} downgraded`
+    );
+    return { renewed, failed, downgraded };
+  }
+}
@@ -0,0 +1,405 @@
+import { prisma } from "../lib/database";
+import {
+  BodyMetricsQuery,
+  BodyMetricsSummary,
+  EnergyEstimate,
+  LogBodyMetricInput,
+  WeightTrendPoint,
+} from "../types/bodyMetrics";
+import { DatedActivityData } from "../types/devices";
+import { TimeZoneService } from "./timeZone";
+import {
+  addDaysToDateString,
+  dateStringToDbDate,
+  dbDateToDateString,
+  getLocalDateString,
+  getZonedRangeBounds,
+  getZonedStartOfDay,
+  listDateStrings,
+} from "../utils/dates";
+
+// Exponential smoothing factor for the trend weight; 0.1 evens out the
+// day-to-day water swings while still following a real change within weeks
+const TREND_SMOOTHING = 0.1;
+// Days of weigh-ins before a range that are read to settle the trend
+const TREND_WARMUP_DAYS = 60;
+const DEFAULT_RANGE_DAYS = 90;
+
+const KCAL_PER_KG = 7700;
+const CALIBRATION_WINDOW_DAYS = 28;
+const MIN_INTAKE_DAYS = 14;
+const MIN_WEIGH_INS = 4;
+// Days under this were most likely only partly logged and would drag the
+// average intake (and with it the estimate) down
+const MIN_LOGGED_CALORIES = 800;
+const MAX_WEEKLY_TDEE_CHANGE = 250;
+const MIN_TDEE = 1200;
+const MAX_TDEE = 5000;
+
+export class BodyMetricNotFoundError extends Error {
+  constructor() {
+    super("Body metric not found");
+    this.name = "BodyMetricNotFoundError";
+  }
+}
+
+function round(value: number, digits = 1) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Smooths weigh-ins into a daily trend weight. Days without a weigh-in
+ * carry the trend forward; several weigh-ins on one day are averaged.
+ */
+export function buildWeightTrend(
+  weighIns: { date: string; weight_kg: number }[]
+): WeightTrendPoint[] {
+  if (weighIns.length === 0) return [];
+
+  const byDate = new Map<string, number[]>();
+  for (const { date, weight_kg } of weighIns) {
+    byDate.set(date, [...(byDate.get(date) || []), weight_kg]);
+  }
+
+  const dates = Array.from(byDate.keys()).sort();
+  let trend: number | null = null;
+
+  return listDateStrings(dates[0], dates[dates.length - 1]).map((date) => {
+    const weights = byDate.get(date);
+    const weight = weights
+      ? weights.reduce((sum, value) => sum + value, 0) / weights.length
+      : null;
+
+    if (weight !== null) {
+      trend =
+        trend === null ? weight : trend + TREND_SMOOTHING * (weight - trend);
+    }
+
+    return {
+      date,
+      weight_kg: weight === null ? null : round(weight, 2),
+      trend_kg: round(trend!, 2),
+    };
+  });
+}
+
+export class BodyMetricsService {
+  static async logMetric(user_id: string, input: LogBodyMetricInput) {
+    const timeZone = await TimeZoneService.getUserTimeZone(user_id);
+    const measuredAt = input.measured_at
+      ? new Date(input.measured_at)
+      : new Date();
+
+    const metric = await prisma.bodyMetric.create({
+      data: {
+        user_id,
+        date: dateStringToDbDate(getLocalDateString(measuredAt, timeZone)),
+        measured_at: measuredAt,
+        weight_kg: input.weight_kg,
+        body_fat_percentage: input.body_fat_percentage,
+        waist_cm: input.waist_cm,
+        hip_cm: input.hip_cm,
+        notes: input.notes,
+        source: "MANUAL",
+      },
+    });
+
+    console.log("⚖️ Body metric logged for user:", user_id);
+    return metric;
+  }
+
+  static async deleteMetric(user_id: string, metric_id: string) {
+    const { count } = await prisma.bodyMetric.deleteMany({
+      where: { metric_id, user_id },
+    });
+    if (count === 0) {
+      throw new BodyMetricNotFoundError();
+    }
+  }
+
+  /**
+   * Stores weight and body fat pushed by a device, one entry per device and
+   * day. Called from the activity sync.
+   */
+  static async recordDeviceMeasurements(
+    user_id: string,
+    device_id: string,
+    records: DatedActivityData[],
+    timeZone: string
+  ) {
+    const measurements = records.filter(
+      (record) => (record.weight || 0) > 0 || (record.bodyFat || 0) > 0
+    );
+
+    for (const record of measurements) {
+      const date = dateStringToDbDate(record.date);
+      const data = {
+        weight_kg: record.weight || null,
+        body_fat_percentage: record.bodyFat || null,
+        // Devices report daily values, so the day is all we know
+        measured_at: getZonedStartOfDay(record.date, timeZone),
+      };
+
+      const existing = await prisma.bodyMetric.findFirst({
+        where: { user_id, device_id, date, source: "DEVICE" },
+      });
+
+      if (existing) {
+        await prisma.bodyMetric.update({
+          where: { metric_id: existing.metric_id },
+          data,
+        });
+      } else {
+        await prisma.bodyMetric.create({
+          data: { ...data, user_id, device_id, date, source: "DEVICE" },
+        });
+      }
+    }
+
+    if (measurements.length > 0) {
+      console.log(
+        `⚖️ Stored ${measurements.length} device weigh-in(s) for user:`,
+        user_id
+      );
+    }
+  }
+
+  // Daily trend over [from, to], settled on the weigh-ins before `from`
+  static async getWeightTrend(user_id: string, from: string, to: string) {
+    const weighIns = await prisma.bodyMetric.findMany({
+      where: {
+        user_id,
+        weight_kg: { not: null },
+        date: {
+          gte: dateStringToDbDate(
+            addDaysToDateString(from, -TREND_WARMUP_DAYS)
+          ),
+          lte: dateStringToDbDate(to),
+        },
+      },
+      select: { date: true, weight_kg: true },
+      orderBy: { date: "asc" },
+    });
+
+    return buildWeightTrend(
+      weighIns.map((entry: any) => ({
+        date: dbDateToDateString(entry.date),
+        weight_kg: entry.weight_kg,
+      }))
+    ).filter((point) => point.date >= from);
+  }
+
+  // Latest trend weight, or null when the user never logged one
+  static async getTrendWeight(user_id: string) {
+    const { date: today } = await TimeZoneService.getUserToday(user_id);
+    const trend = await this.getWeightTrend(
+      user_id,
+      addDaysToDateString(today, -TREND_WARMUP_DAYS),
+      today
+    );
+    return trend.length > 0 ? trend[trend.length - 1].trend_kg : null;
+  }
+
+  static async getMetrics(user_id: string, query: BodyMetricsQuery) {
+    const { date: today } = await TimeZoneService.getUserToday(user_id);
+    const to = query.to || today;
+    const from = query.from || addDaysToDateString(to, -DEFAULT_RANGE_DAYS);
+
+    const [entries, trend, summary] = await Promise.all([
+      prisma.bodyMetric.findMany({
+        where: {
+          user_id,
+          date: { gte: dateStringToDbDate(from), lte: dateStringToDbDate(to) },
+        },
+        orderBy: { measured_at: "desc" },
+      }),
+      this.getWeightTrend(user_id, from, to),
+      this.getSummary(user_id),
+    ]);
+
+    return { from, to, entries, trend, summary };
+  }
+
+  static async getSummary(user_id: string): Promise<BodyMetricsSummary> {
+    const latest = (field: string) =>
+      prisma.bodyMetric.findFirst({
+        where: { user_id, [field]: { not: null } },
+        orderBy: { measured_at: "desc" },
+        select: { [field]: true },
+      });
+
+    const { date: today } = await TimeZoneService.getUserToday(user_id);
+    const [weight, bodyFat, waist, hip, user, trend] = await Promise.all([
+      latest("weight_kg"),
+      latest("body_fat_percentage"),
+      latest("waist_cm"),
+      latest("hip_cm"),
+      prisma.user.findUnique({
+        where: { user_id },
+        select: { adaptive_tdee: true, adaptive_tdee_updated_at: true },
+      }),
+      this.getWeightTrend(user_id, addDaysToDateString(today, -7), today),
+    ]);
+
+    const waistCm = (waist as any)?.waist_cm ?? null;
+    const hipCm = (hip as any)?.hip_cm ?? null;
+    const current = trend[trend.length - 1];
+
+    return {
+      latest_weight_kg: (weight as any)?.weight_kg ?? null,
+      trend_weight_kg: current?.trend_kg ?? null,
+      weekly_change_kg:
+        trend.length > 1
+          ? round(current.trend_kg - trend[0].trend_kg, 2)
+          : null,
+      latest_body_fat_percentage: (bodyFat as any)?.body_fat_percentage ?? null,
+      latest_waist_cm: waistCm,
+      latest_hip_cm: hipCm,
+      waist_to_hip_ratio: waistCm && hipCm ? round(waistCm / hipCm, 2) : null,
+      adaptive_tdee: user?.adaptive_tdee ?? null,
+      adaptive_tdee_updated_at: user?.adaptive_tdee_updated_at ?? null,
+    };
+  }
+
+  /**
+   * Estimates the user's real TDEE over the last four complete weeks: what
+   * they ate on average, corrected by the energy the trend weight gained or
+   * lost. Returns null until enough intake and weigh-ins are logged.
+   */
+  static async estimateTdee(user_id: string): Promise<EnergyEstimate | null> {
+    const { timeZone, date: today } = await TimeZoneService.getUserToday(
+      user_id
+    );
+    // Today is still being logged
+    const end = addDaysToDateString(today, -1);
+    const start = addDaysToDateString(end, -(CALIBRATION_WINDOW_DAYS - 1));
+    const { start: windowStart, end: windowEnd } = getZonedRangeBounds(
+      start,
+      end,
+      timeZone
+    );
+
+    const [meals, trend] = await Promise.all([
+      prisma.meal.findMany({
+        where: {
+          user_id,
+          analysis_status: "COMPLETED",
+          upload_time: { gte: windowStart, lt: windowEnd },
+        },
+        select: { upload_time: true, calories: true },
+      }),
+      this.getWeightTrend(user_id, start, end),
+    ]);
+
+    const intakeByDate = new Map<string, number>();
+    for (const meal of meals) {
+      const date = getLocalDateString(meal.upload_time, timeZone);
+      intakeByDate.set(
+        date,
+        (intakeByDate.get(date) || 0) + (meal.calories || 0)
+      );
+    }
+    const loggedDays = Array.from(intakeByDate.values()).filter(
+      (calories) => calories >= MIN_LOGGED_CALORIES
+    );
+
+    const weighIns = trend.filter((point) => point.weight_kg !== null);
+    if (
+      loggedDays.length < MIN_INTAKE_DAYS ||
+      weighIns.length < MIN_WEIGH_INS
+    ) {
+      return null;
+    }
+
+    const first = trend[0];
+    const last = trend[trend.length - 1];
+    const spanDays = listDateStrings(first.date, last.date).length - 1;
+    if (spanDays < MIN_INTAKE_DAYS) return null;
+
+    const averageIntake =
+      loggedDays.reduce((sum, calories) => sum + calories, 0) /
+      loggedDays.length;
+    const trendChange = last.trend_kg - first.trend_kg;
+    const dailyBalance = (trendChange * KCAL_PER_KG) / spanDays;
+
+    return {
+      tdee: Math.round(averageIntake - dailyBalance),
+      average_intake: Math.round(averageIntake),
+      trend_change_kg: round(trendChange, 2),
+      days: loggedDays.length,
+    };
+  }
+
+  /**
+   * Stores a new adaptive TDEE. A single week can move it by at most
+   * MAX_WEEKLY_TDEE_CHANGE so one badly logged week can't swing the targets.
+   */
+  static async recalibrateTdee(user_id: string) {
+    const estimate = await this.estimateTdee(user_id);
+    if (!estimate) return null;
+
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { adaptive_tdee: true },
+    });
+    const previous = user?.adaptive_tdee;
+
+    const limited = previous
+      ? clamp(
+          estimate.tdee,
+          previous - MAX_WEEKLY_TDEE_CHANGE,
+          previous + MAX_WEEKLY_TDEE_CHANGE
+        )
+      : estimate.tdee;
+    const tdee = Math.round(clamp(limited, MIN_TDEE, MAX_TDEE));
+
+    await prisma.user.update({
+      where: { user_id },
+      data: { adaptive_tdee: tdee, adaptive_tdee_updated_at: new Date() },
+    });
+
+    console.log(
+      `🔥 Adaptive TDEE for ${user_id}: ${tdee} kcal (estimate ${estimate.tdee}, previous ${
+        previous ?? "none"
+      })`
+    );
+    return { ...estimate, tdee };
+  }
+
+  // Recalibrates everyone who weighed in during the window; returns the ids
+  // of users whose TDEE was updated
+  static async recalibrateAllUsers() {
+    const since = new Date(
+      Date.now() - CALIBRATION_WINDOW_DAYS * 24 * 60 * 60 * 1000
+    );
+    const users = await prisma.user.findMany({
+      where: {
+        bodyMetrics: {
+          some: { weight_kg: { not: null }, measured_at: { gte: since } },
+        },
+      },
+      select: { user_id: true },
+    });
+
+    const updated: string[] = [];
+    for (const { user_id } of users) {
+      try {
+        if (await this.recalibrateTdee(user_id)) {
+          updated.push(user_id);
+        }
+      } catch (error) {
+        console.error("❌ TDEE recalibration failed for user:", user_id, error);
+      }
+    }
+
+    console.log(
+      `✅ Recalibrated TDEE for ${updated.length} of ${users.length} users`
+    );
+    return updated;
+  }
+}
@@ -6,9 +6,20 @@ import {
   CalendarEvent,
   GamificationBadge,
 } from "../types/calendar";
+import { ActivityMergeService } from "./activityMerge";
+import { TimeZoneService } from "./timeZone";
+import { DailyGoalsService } from "./dailyGoal";
+import { StreakService } from "./streaks";
+import {
+  dateStringToDbDate,
+  dbDateToDateString,
+  getLocalDateString,
+  getZonedRangeBounds,
+  listDateStrings,
+} from "../utils/dates";
 
 export class CalendarService {
-  // Default nutritional goals (can be customized per user later)
+  // Used for days before the user's first goals were set
   private static getDefaultGoals() {
     return {
       calories: 2000,
@@ -27,19 +38,28 @@ export class CalendarService {
     try {
       console.log("📅 Fetching calendar data for user:", user_id, year, month);
 
-      // Get start and end dates for the month
-      const startDate = new Date(year, month - 1, 1);
-      const endDate = new Date(year, month, 0); // Last day of the month
+      // Days of the month as local dates in the user's time zone
+      const monthPrefix = `${year}-${String(month).padStart(2, "0")}`;
+      const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      const startDateStr = `${monthPrefix}-01`;
+      const endDateStr = `${monthPrefix}-${String(daysInMonth).padStart(2, "0")}`;
+      const timeZone = await TimeZoneService.getUserTimeZone(user_id);
+      const { start, end } = getZonedRangeBounds(
+        startDateStr,
+        endDateStr,
+        timeZone
+      );
 
-      console.log("📊 Date range:", startDate, "to", endDate);
+      console.log("📊 Date range:", startDateStr, "to", endDateStr, timeZone);
 
       // Fetch meals for the month
       const meals = await prisma.meal.findMany({
         where: {
           user_id: user_id,
+          analysis_status: "COMPLETED",
           created_at: {
-            gte: startDate,
-            lte: new Date(endDate.getTime() + 24 * 60 * 60 * 1000),
+            gte: start,
+            lt: end,
           },
         },
         orderBy: {
@@ -52,8 +72,8 @@ export class CalendarService {
         where: {
           user_id: user_id,
           date: {
-            gte: startDate,
-            lte: endDate,
+            gte: dateStringToDbDate(startDateStr),
+            lte: dateStringToDbDate(endDateStr),
           },
         },
         orderBy: {
@@ -61,27 +81,27 @@ export class CalendarService {
         },
       });
 
-      // Fetch activity data if available
-      const activities = await prisma.dailyActivitySummary.findMany({
-        where: {
-          user_id: user_id,
-          date: {
-            gte: startDate,
-            lte: endDate,
-          },
-        },
-      });
+      // Fetch activity data if available, one merged record per day
+      const activities = await ActivityMergeService.getMergedActivity(
+        user_id,
+        startDateStr,
+        endDateStr
+      );
 
       console.log("🍽️ Found", meals.length, "meals for the month");
       console.log("📅 Found", events.length, "events for the month");
 
-      // Get user goals (for now using defaults)
-      const goals = this.getDefaultGoals();
+      // Each day is scored against the goals that applied on that day
+      const goalsByDate = await DailyGoalsService.getGoalsForDates(
+        user_id,
+        startDateStr,
+        endDateStr
+      );
 
       // Group meals by date
       const mealsByDate: Record<string, any[]> = {};
       meals.forEach((meal) => {
-        const dateStr = meal.created_at.toISOString().split("T")[0];
+        const dateStr = getLocalDateString(meal.created_at, timeZone);
         if (!mealsByDate[dateStr]) {
           mealsByDate[dateStr] = [];
         }
@@ -91,7 +111,7 @@ export class CalendarService {
       // Group events by date
       const eventsByDate: Record<string, any[]> = {};
       events.forEach((event) => {
-        const dateStr = event.date.toISOString().split("T")[0];
+        const dateStr = dbDateToDateString(event.date);
         if (!eventsByDate[dateStr]) {
           eventsByDate[dateStr] = [];
         }
@@ -101,20 +121,25 @@ export class CalendarService {
       // Group activities by date
       const activitiesByDate: Record<string, any> = {};
       activities.forEach((activity) => {
-        const dateStr = activity.date.toISOString().split("T")[0];
-        activitiesByDate[dateStr] = activity;
+        activitiesByDate[activity.date] = activity;
       });
 
       // Generate calendar data for each day of the month
       const calendarData: Record<string, DayData> = {};
-      const daysInMonth = endDate.getDate();
-
-      for (let day = 1; day <= daysInMonth; day++) {
-        const date = new Date(year, month - 1, day);
-        const dateStr = date.toISOString().split("T")[0];
+      for (const dateStr of listDateStrings(startDateStr, endDateStr)) {
         const dayMeals = mealsByDate[dateStr] || [];
         const dayEvents = eventsByDate[dateStr] || [];
         const dayActivity = activitiesByDate[dateStr];
+        const dayGoals = goalsByDate.get(dateStr);
+        const goals = dayGoals
+          ? {
+              calories: dayGoals.calories,
+              protein: dayGoals.protein_g,
+              carbs: dayGoals.carbs_g,
+              fat: dayGoals.fats_g,
+              water: dayGoals.water_ml,
+            }
+          : this.getDefaultGoals();
 
         // Calculate totals for the day
         const totals = dayMeals.reduce(
@@ -197,7 +222,6 @@ export class CalendarService {
         prevMonth
       );
 
-      const goals = this.getDefaultGoals();
       const currentDays = Object.values(currentMonthData);
       const prevDays = Object.values(prevMonthData);
 
@@ -209,8 +233,9 @@ export class CalendarService {
       const totalDays = currentDays.length;
       const monthlyProgress = totalDays > 0 ? (goalDays / totalDays) * 100 : 0;
 
-      // Calculate streak days
-      const streakDays = this.calculateStreakDays(currentDays);
+      // The user's primary streak, as reported by the statistics endpoint
+      const primaryStreak = await StreakService.getPrimaryStreak(user_id);
+      const streakDays = primaryStreak.current_streak;
 
       // Calculate averages
       const totalCalories = currentDays.reduce(
@@ -407,27 +432,6 @@ export class CalendarService {
     return Math.round(finalScore);
   }
 
-  private static calculateStreakDays(days: DayData[]): number {
-    let streak = 0;
-    const today = new Date();
-
-    // Sort days by date (most recent first)
-    const sortedDays = days
-      .filter((day) => new Date(day.date) <= today) // Only count days up to today
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-    for (const day of sortedDays) {
-      const progress = day.calories_actual / day.calories_goal;
-      if (progress >= 1.0) {
-        streak++;
-      } else {
-        break;
-      }
-    }
-
-    return streak;
-  }
-
   private static analyzeWeeksDetailed(days: DayData[]): {
     bestWeek: string;
     challengingWeek: string;
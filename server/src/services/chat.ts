@@ -1,64 +1,119 @@
-import OpenAI from "openai";
 import { prisma } from "../lib/database";
+import { LLMCompletion, LLMMessage, LLMTool } from "../lib/llmProvider";
+import { LLMService } from "./llm";
+import { RestrictionService } from "./restrictions";
+import { TimeZoneService } from "./timeZone";
+import { UserContextService } from "./userContext";
+import { RestrictionWarning } from "../types/restrictions";
+import { CHAT_TOOLS, ChatToolService } from "./chatTools";
+import {
+  ChatActionView,
+  ChatSearchResult,
+  ChatThreadView,
+  UpdateThreadInput,
+} from "../types/chat";
+import { UserContext } from "../types/userContext";
+
+export class ChatThreadNotFoundError extends Error {
+  constructor(readonly threadId: string) {
+    super(`Chat thread ${threadId} not found`);
+    this.name = "ChatThreadNotFoundError";
+  }
+}
+
+// Shown until the first exchange gives the thread a real title
+const NEW_THREAD_TITLE = "New conversation";
+const MAX_TITLE_LENGTH = 60;
+// Exchanges of the thread sent to the model with each new message
+const CONTEXT_EXCHANGES = 10;
+// Rounds of tool calls before the model has to answer
+const MAX_TOOL_ROUNDS = 3;
+
+function toTitle(text: string) {
+  const title = text.replace(/\s+/g, " ").trim();
+  return title.length > MAX_TITLE_LENGTH
+    ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : title;
+}
 
-const openai = process.env.OPENAI_API_KEY
-  ? new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    })
-  : null;
+function toThreadView(thread: {
+  thread_id: string;
+  title: string;
+  archived_at: Date | null;
+  last_message_at: Date;
+  created_at: Date;
+  _count: { messages: number };
+  messages: { user_message: string }[];
+}): ChatThreadView {
+  return {
+    thread_id: thread.thread_id,
+    title: thread.title,
+    archived: thread.archived_at !== null,
+    message_count: thread._count.messages,
+    last_message: thread.messages[0]?.user_message ?? null,
+    last_message_at: thread.last_message_at,
+    created_at: thread.created_at,
+  };
+}
+
+const THREAD_VIEW_INCLUDE = {
+  _count: { select: { messages: true } },
+  messages: {
+    orderBy: { created_at: "desc" as const },
+    take: 1,
+    select: { user_message: true },
+  },
+};
 
 export class ChatService {
   static async processMessage(
     userId: string,
+    threadId: string,
     message: string,
     language: string = "hebrew"
   ): Promise<{
     response: string;
     messageId: string;
+    threadId: string;
+    restriction_warnings: RestrictionWarning[];
+    actions: ChatActionView[];
   }> {
     try {
       console.log("🤖 Processing chat message:", message);
       console.log("🌐 Language:", language);
 
-      // Get user context for personalized advice
-      const userContext = await this.getUserNutritionContext(userId);
-
-      // Get recent chat history for context
-      const recentHistory = await this.getChatHistory(userId, 10);
-
-      // Create system prompt
-      const systemPrompt = this.createNutritionSystemPrompt(
-        language,
-        userContext
-      );
-
-      // Build conversation context
-      const conversationHistory = this.buildConversationHistory(
-        recentHistory,
-        message
+      const { userContext, messages } = await this.prepareConversation(
+        userId,
+        threadId,
+        message,
+        language
       );
 
       let aiResponse: string;
+      let actions: ChatActionView[] = [];
 
-      if (!openai || !process.env.OPENAI_API_KEY) {
-        console.log("⚠️ No OpenAI API key, using fallback response");
+      if (!LLMService.isAvailable()) {
+        console.log("⚠️ No LLM provider, using fallback response");
         aiResponse = this.getFallbackResponse(message, language);
       } else {
         try {
           console.log("🔄 Calling OpenAI API...");
 
           // Call OpenAI with improved error handling
-          const response = await openai.chat.completions.create({
-            model: "gpt-4o",
-            messages: [
-              { role: "system", content: systemPrompt },
-              ...conversationHistory,
-            ],
-            max_tokens: 1000,
-            temperature: 0.7,
-          });
-
-          const aiContent = response.choices[0]?.message?.content;
+          const response = await this.answerWithTools(
+            userId,
+            threadId,
+            messages,
+            (conversation, tools) =>
+              LLMService.complete("chat", {
+                userId,
+                messages: conversation,
+                tools,
+              })
+          );
+          actions = response.actions;
+
+          const aiContent = response.content;
 
           if (!aiContent || aiContent.trim() === "") {
             console.log("⚠️ Empty response from OpenAI, using fallback");
@@ -85,13 +140,25 @@ export class ChatService {
       }
 
       // Save conversation to database
-      const messageId = await this.saveChatMessage(userId, message, aiResponse);
+      const messageId = await this.saveChatMessage(
+        userId,
+        threadId,
+        message,
+        aiResponse,
+        actions
+      );
 
       console.log("✅ Chat processing completed successfully");
 
       return {
         response: aiResponse,
         messageId: messageId,
+        threadId,
+        restriction_warnings: this.getRestrictionWarnings(
+          userContext,
+          aiResponse
+        ),
+        actions,
       };
     } catch (error) {
       console.error("💥 Chat service error:", error);
@@ -101,13 +168,215 @@ export class ChatService {
       return {
         response: fallbackResponse,
         messageId: "",
+        threadId,
+        restriction_warnings: [],
+        actions: [],
       };
     }
   }
 
+  /**
+   * Like processMessage, but hands the answer to `onToken` as the model
+   * writes it. The exchange is saved once the stream ends; if the client
+   * cancels through `signal`, the part it already received is saved. When
+   * there's no provider, or the model fails before writing anything, the
+   * fallback answer is sent as a single piece. Actions the model proposes
+   * go to `onAction` as soon as they are stored.
+   */
+  static async streamMessage(
+    userId: string,
+    threadId: string,
+    message: string,
+    language: string,
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+    onAction: (action: ChatActionView) => void = () => {}
+  ): Promise<{
+    response: string;
+    messageId: string;
+    threadId: string;
+    restriction_warnings: RestrictionWarning[];
+    actions: ChatActionView[];
+    cancelled: boolean;
+  }> {
+    console.log("🤖 Streaming chat message:", message);
+
+    const { userContext, messages } = await this.prepareConversation(
+      userId,
+      threadId,
+      message,
+      language
+    );
+
+    let aiResponse = "";
+    let cancelled = false;
+    const actions: ChatActionView[] = [];
+    if (LLMService.isAvailable()) {
+      try {
+        await this.answerWithTools(
+          userId,
+          threadId,
+          messages,
+          (conversation, tools) =>
+            LLMService.stream("chat", {
+              userId,
+              messages: conversation,
+              tools,
+              signal,
+              onToken: (token) => {
+                aiResponse += token;
+                onToken(token);
+              },
+            }),
+          (action) => {
+            actions.push(action);
+            onAction(action);
+          }
+        );
+      } catch (error) {
+        if (signal?.aborted) {
+          cancelled = true;
+          console.log("⏹️ Chat stream cancelled by client");
+        } else {
+          console.error("💥 Chat stream error:", error);
+        }
+      }
+    } else {
+      console.log("⚠️ No LLM provider, using fallback response");
+    }
+
+    if (!cancelled && aiResponse.trim() === "") {
+      aiResponse = this.getFallbackResponse(message, language);
+      onToken(aiResponse);
+    }
+
+    aiResponse = aiResponse.trim();
+    const messageId = aiResponse
+      ? await this.saveChatMessage(
+          userId,
+          threadId,
+          message,
+          aiResponse,
+          actions
+        )
+      : "";
+
+    return {
+      response: aiResponse,
+      messageId,
+      threadId,
+      restriction_warnings: this.getRestrictionWarnings(
+        userContext,
+        aiResponse
+      ),
+      actions,
+      cancelled,
+    };
+  }
+
+  /**
+   * Calls the model until it answers in words. Tool calls along the way go
+   * to ChatToolService and their results back to the model. After
+   * MAX_TOOL_ROUNDS rounds no tools are offered, so the model has to answer.
+   */
+  private static async answerWithTools(
+    userId: string,
+    threadId: string,
+    messages: LLMMessage[],
+    call: (
+      conversation: LLMMessage[],
+      tools?: LLMTool[]
+    ) => Promise<LLMCompletion>,
+    onAction: (action: ChatActionView) => void = () => {}
+  ) {
+    const conversation = [...messages];
+    const actions: ChatActionView[] = [];
+
+    for (let round = 0; ; round++) {
+      const tools = round < MAX_TOOL_ROUNDS ? CHAT_TOOLS : undefined;
+      const completion = await call(conversation, tools);
+      if (!tools || !completion.tool_calls?.length) {
+        return { content: completion.content, actions };
+      }
+
+      conversation.push({
+        role: "assistant",
+        content: completion.content,
+        tool_calls: completion.tool_calls,
+      });
+      for (const toolCall of completion.tool_calls) {
+        console.log("🧰 Chat tool call:", toolCall.name);
+        const outcome = await ChatToolService.runTool(
+          userId,
+          threadId,
+          toolCall
+        );
+        if (outcome.action) {
+          actions.push(outcome.action);
+          onAction(outcome.action);
+        }
+        conversation.push({
+          role: "tool",
+          tool_call_id: toolCall.id,
+          content: outcome.content,
+        });
+      }
+    }
+  }
+
+  // The user's context, the system prompt and the thread's recent exchanges
+  private static async prepareConversation(
+    userId: string,
+    threadId: string,
+    message: string,
+    language: string
+  ) {
+    // Get user context for personalized advice
+    const userContext = await UserContextService.build(userId).catch(
+      (error) => {
+        console.error("Error getting user context:", error);
+        return null;
+      }
+    );
+
+    const recentHistory = await this.getChatHistory(
+      userId,
+      CONTEXT_EXCHANGES,
+      threadId
+    );
+
+    const systemPrompt = this.createNutritionSystemPrompt(
+      language,
+      userContext
+    );
+    const { date: today } = await TimeZoneService.getUserToday(userId);
+    const messages: LLMMessage[] = [
+      { role: "system", content: systemPrompt },
+      {
+        role: "system",
+        content: `Today is ${today}. You can act for the user with tools: log a meal they ate, add water, look up what they logged between dates, swap a meal in their active meal plan and add items to their shopping list. Changes only happen once the user confirms them on a card in the app, so say what you proposed rather than that it is done.`,
+      },
+      ...this.buildConversationHistory(recentHistory, message),
+    ];
+
+    return { userContext, messages };
+  }
+
+  // Foods in the answer that conflict with the user's restrictions
+  private static getRestrictionWarnings(
+    userContext: UserContext | null,
+    answer: string
+  ) {
+    return userContext?.restrictionProfile && answer
+      ? RestrictionService.checkFood(userContext.restrictionProfile, {
+          name: answer,
+        })
+      : [];
+  }
+
   private static createNutritionSystemPrompt(
     language: string,
-    userContext: any
+    userContext: UserContext | null
   ): string {
     const isHebrew = language === "hebrew";
 
@@ -146,18 +415,7 @@ export class ChatService {
 📊 User information:`;
 
     const contextInfo = userContext
-      ? `
-יעדים יומיים: ${userContext.dailyGoals?.calories || "לא זמין"} קלוריות, ${
-          userContext.dailyGoals?.protein || "לא זמין"
-        }ג חלבון
-צריכה היום: ${userContext.todayIntake?.calories || 0} קלוריות, ${
-          userContext.todayIntake?.protein || 0
-        }ג חלבון
-הגבלות תזונתיות: ${userContext.restrictions?.join(", ") || "אין"}
-אלרגיות: ${
-          userContext.allergies?.join(", ") || "אין"
-        } - חשוב ביותר: לעולם אל תציע מזונות עם אלרגנים אלה!
-`
+      ? `\n${UserContextService.summarize(userContext)}\n`
       : isHebrew
       ? "מידע על המשתמש לא זמין"
       : "User information not available";
@@ -188,64 +446,16 @@ For food questions: provide information about calories, protein, carbs, fat, and
 For meal recommendations: consider goals, restrictions, allergies and what's left to consume today.
 For cooking questions: give suggestions for nutritional improvement of the recipe.`;
 
-    return basePrompt + contextInfo + instructions;
-  }
-
-  private static async getUserNutritionContext(userId: string): Promise<any> {
-    try {
-      // Get user's nutrition goals
-      const nutritionPlan = await prisma.nutritionPlan.findFirst({
-        where: { user_id: userId },
-      });
-
-      // Get today's intake
-      const today = new Date().toISOString().split("T")[0];
-      const todayMeals = await prisma.meal.findMany({
-        where: {
-          user_id: userId,
-          created_at: {
-            gte: new Date(today),
-            lt: new Date(new Date(today).getTime() + 24 * 60 * 60 * 1000),
-          },
-        },
-      });
-
-      const todayIntake = todayMeals.reduce(
-        (acc, meal) => ({
-          calories: acc.calories + (meal.calories || 0),
-          protein: acc.protein + (meal.protein_g || 0),
-          carbs: acc.carbs + (meal.carbs_g || 0),
-          fat: acc.fat + (meal.fats_g || 0),
-        }),
-        { calories: 0, protein: 0, carbs: 0, fat: 0 }
-      );
-
-      // Get user questionnaire for restrictions and allergies
-      const questionnaire = await prisma.userQuestionnaire.findFirst({
-        where: { user_id: userId },
-      });
+    const restrictions = userContext?.restrictionProfile
+      ? RestrictionService.describeForPrompt(userContext.restrictionProfile)
+      : "";
 
-      return {
-        dailyGoals: nutritionPlan
-          ? {
-              calories: nutritionPlan.goal_calories,
-              protein: nutritionPlan.goal_protein_g,
-              carbs: nutritionPlan.goal_carbs_g,
-              fat: nutritionPlan.goal_fats_g,
-            }
-          : null,
-        todayIntake,
-        restrictions: questionnaire?.dietary_style
-          ? [questionnaire.dietary_style]
-          : [],
-        allergies: Array.isArray(questionnaire?.allergies)
-          ? questionnaire.allergies
-          : questionnaire?.allergies_text || [],
-      };
-    } catch (error) {
-      console.error("Error getting user context:", error);
-      return null;
-    }
+    return (
+      basePrompt +
+      contextInfo +
+      (restrictions ? `\n${restrictions}\n` : "") +
+      instructions
+    );
   }
 
   private static buildConversationHistory(
@@ -300,18 +510,39 @@ For cooking questions: give suggestions for nutritional improvement of the recip
 
   static async saveChatMessage(
     userId: string,
+    threadId: string,
     userMessage: string,
-    aiResponse: string
+    aiResponse: string,
+    actions: ChatActionView[] = []
   ): Promise<string> {
     try {
-      const chatMessage = await prisma.chatMessage.create({
-        data: {
-          user_id: userId,
-          user_message: userMessage,
-          ai_response: aiResponse,
-          created_at: new Date(),
-        },
-      });
+      const now = new Date();
+      const [chatMessage, thread] = await prisma.$transaction([
+        prisma.chatMessage.create({
+          data: {
+            user_id: userId,
+            thread_id: threadId,
+            user_message: userMessage,
+            ai_response: aiResponse,
+            created_at: now,
+          },
+        }),
+        // Writing to an archived thread brings it back
+        prisma.chatThread.update({
+          where: { thread_id: threadId },
+          data: { last_message_at: now, archived_at: null },
+          include: { _count: { select: { messages: true } } },
+        }),
+      ]);
+
+      await ChatToolService.attachToMessage(
+        actions.map((action) => action.action_id),
+        chatMessage.message_id
+      );
+
+      if (thread._count.messages === 1 && !thread.title_is_custom) {
+        this.generateThreadTitle(userId, threadId, userMessage, aiResponse);
+      }
 
       return chatMessage.message_id.toString();
     } catch (error) {
@@ -322,13 +553,16 @@ For cooking questions: give suggestions for nutritional improvement of the recip
 
   static async getChatHistory(
     userId: string,
-    limit: number = 50
+    limit: number = 50,
+    threadId?: string
   ): Promise<any[]> {
     try {
       const messages = await prisma.chatMessage.findMany({
-        where: { user_id: userId },
+        where: { user_id: userId, ...(threadId && { thread_id: threadId }) },
         orderBy: { created_at: "desc" },
         take: limit,
+        // The cards of actions proposed in each answer
+        include: { actions: { orderBy: { created_at: "asc" } } },
       });
 
       return messages.reverse(); // Return in chronological order
@@ -338,9 +572,10 @@ For cooking questions: give suggestions for nutritional improvement of the recip
     }
   }
 
+  // Deletes every thread of the user along with its messages
   static async clearChatHistory(userId: string): Promise<void> {
     try {
-      await prisma.chatMessage.deleteMany({
+      await prisma.chatThread.deleteMany({
         where: { user_id: userId },
       });
     } catch (error) {
@@ -348,27 +583,200 @@ For cooking questions: give suggestions for nutritional improvement of the recip
     }
   }
 
+  /**
+   * The thread a message goes to: the given one, which must belong to the
+   * user, or else the user's most recent active thread (a new one if there
+   * is none), so clients without threads keep one running conversation.
+   */
+  static async resolveThread(userId: string, threadId?: string) {
+    if (threadId) {
+      const thread = await prisma.chatThread.findFirst({
+        where: { thread_id: threadId, user_id: userId },
+      });
+      if (!thread) {
+        throw new ChatThreadNotFoundError(threadId);
+      }
+      return thread.thread_id;
+    }
+
+    const latest = await prisma.chatThread.findFirst({
+      where: { user_id: userId, archived_at: null },
+      orderBy: { last_message_at: "desc" },
+    });
+    return latest
+      ? latest.thread_id
+      : (await this.createThread(userId)).thread_id;
+  }
+
+  static async createThread(userId: string, title?: string) {
+    const thread = await prisma.chatThread.create({
+      data: {
+        user_id: userId,
+        title: title ? toTitle(title) : NEW_THREAD_TITLE,
+        title_is_custom: !!title,
+      },
+      include: THREAD_VIEW_INCLUDE,
+    });
+
+    console.log("💬 Chat thread created:", thread.thread_id);
+    return toThreadView(thread);
+  }
+
+  // Most recently active first
+  static async listThreads(userId: string, archived: boolean = false) {
+    const threads = await prisma.chatThread.findMany({
+      where: {
+        user_id: userId,
+        archived_at: archived ? { not: null } : null,
+      },
+      orderBy: { last_message_at: "desc" },
+      include: THREAD_VIEW_INCLUDE,
+    });
+
+    return threads.map(toThreadView);
+  }
+
+  static async getThreadMessages(
+    userId: string,
+    threadId: string,
+    limit: number = 50
+  ) {
+    await this.resolveThread(userId, threadId);
+    return this.getChatHistory(userId, limit, threadId);
+  }
+
+  // Renaming marks the title as the user's own, so it is never regenerated
+  static async updateThread(
+    userId: string,
+    threadId: string,
+    input: UpdateThreadInput
+  ) {
+    await this.resolveThread(userId, threadId);
+
+    const thread = await prisma.chatThread.update({
+      where: { thread_id: threadId },
+      data: {
+        ...(input.title !== undefined && {
+          title: toTitle(input.title),
+          title_is_custom: true,
+        }),
+        ...(input.archived !== undefined && {
+          archived_at: input.archived ? new Date() : null,
+        }),
+      },
+      include: THREAD_VIEW_INCLUDE,
+    });
+
+    return toThreadView(thread);
+  }
+
+  static async deleteThread(userId: string, threadId: string) {
+    const deleted = await prisma.chatThread.deleteMany({
+      where: { thread_id: threadId, user_id: userId },
+    });
+    if (deleted.count === 0) {
+      throw new ChatThreadNotFoundError(threadId);
+    }
+    console.log("🗑️ Chat thread deleted:", threadId);
+  }
+
+  /**
+   * Full-text search over the user's past questions and answers, best
+   * matches first. Uses the "simple" text search configuration, which
+   * splits words without language-specific stemming, so Hebrew and English
+   * both match on whole words.
+   */
+  static async searchMessages(
+    userId: string,
+    query: string,
+    limit: number = 20
+  ): Promise<ChatSearchResult[]> {
+    return prisma.$queryRaw<ChatSearchResult[]>`
+      SELECT
+        m."message_id",
+        m."thread_id",
+        t."title" AS "thread_title",
+        m."user_message",
+        ts_headline(
+          'simple',
+          m."ai_response",
+          q.query,
+          'MaxFragments=1, MinWords=8, MaxWords=25'
+        ) AS "snippet",
+        m."created_at"
+      FROM "ChatMessage" m
+      JOIN "chat_threads" t ON t."thread_id" = m."thread_id",
+        plainto_tsquery('simple', ${query}) AS q(query)
+      WHERE m."user_id" = ${userId}
+        AND to_tsvector('simple', m."user_message" || ' ' || m."ai_response")
+          @@ q.query
+      ORDER BY
+        ts_rank(
+          to_tsvector('simple', m."user_message" || ' ' || m."ai_response"),
+          q.query
+        ) DESC,
+        m."created_at" DESC
+      LIMIT ${limit}
+    `;
+  }
+
+  // Names a thread after its first exchange. Without the AI, or when it
+  // fails, the opening question becomes the title.
+  private static async generateThreadTitle(
+    userId: string,
+    threadId: string,
+    userMessage: string,
+    aiResponse: string
+  ) {
+    let title = toTitle(userMessage);
+
+    if (LLMService.isAvailable()) {
+      try {
+        const completion = await LLMService.complete("chat_title", {
+          userId,
+          messages: [
+            {
+              role: "system",
+              content:
+                "Write a title of at most 6 words for this nutrition chat, in the language of the user's question. Reply with the title only, without quotes.",
+            },
+            {
+              role: "user",
+              content: `Question: ${userMessage}\n\nAnswer: ${aiResponse.slice(
+                0,
+                1000
+              )}`,
+            },
+          ],
+        });
+        const generated = completion.content
+          .trim()
+          .replace(/^["'“”]+|["'“”.]+$/g, "");
+        if (generated) title = toTitle(generated);
+      } catch (error) {
+        console.error("⚠️ Chat title generation failed:", error);
+      }
+    }
+
+    // A rename while the title was being generated wins
+    await prisma.chatThread
+      .updateMany({
+        where: { thread_id: threadId, title_is_custom: false },
+        data: { title },
+      })
+      .catch((error: any) =>
+        console.error("❌ Failed to save chat title:", error)
+      );
+  }
+
   static async processHealthBasedRecommendation(
     userId: string,
     healthData: any,
     customPrompt?: string
   ): Promise<string> {
     try {
-      // Get user's complete profile
-      const user = await prisma.user.findUnique({
-        where: { user_id: userId },
-        include: {
-          questionnaires: true,
-          nutritionPlans: true,
-        },
-      });
-
-      if (!user) {
-        throw new Error("User not found");
-      }
-
-      // Get the latest questionnaire
-      const questionnaire = user.questionnaires?.[0];
+      // Goals, intake, health restrictions and plan, as chat sees them
+      const userContext = await UserContextService.build(userId);
 
       // Create comprehensive health-based prompt
       const healthPrompt =
@@ -382,40 +790,7 @@ For cooking questions: give suggestions for nutritional improvement of the recip
         - Active Minutes: ${healthData.activeMinutes} minutes
 
         User Profile:
-        - Daily Calorie Goal: ${
-          user.nutritionPlans?.[0]?.goal_calories || "Not set"
-        }
-        - Protein Goal: ${
-          user.nutritionPlans?.[0]?.goal_protein_g || "Not set"
-        }g
-        - Carbs Goal: ${user.nutritionPlans?.[0]?.goal_carbs_g || "Not set"}g
-        - Fat Goal: ${user.nutritionPlans?.[0]?.goal_fats_g || "Not set"}g
-
-        Personal Health Information:
-        ${
-          questionnaire?.allergies?.length
-            ? `- ALLERGIES: ${questionnaire.allergies.join(
-                ", "
-              )} (CRITICAL: Never suggest foods containing these allergens!)`
-            : ""
-        }
-        ${
-          questionnaire?.medical_conditions_text?.length
-            ? `- Medical Conditions: ${questionnaire.medical_conditions_text.join(
-                ", "
-              )}`
-            : ""
-        }
-        ${
-          questionnaire?.dietary_style
-            ? `- Dietary Style: ${questionnaire.dietary_style}`
-            : ""
-        }
-        ${
-          questionnaire?.physical_activity_level
-            ? `- Regular Activity Level: ${questionnaire.physical_activity_level}`
-            : ""
-        }
+        ${UserContextService.summarize(userContext)}
 
         Based on today's activity data and the user's health profile, provide:
         1. Personalized meal recommendations that match their activity level
@@ -428,7 +803,7 @@ For cooking questions: give suggestions for nutritional improvement of the recip
       `;
 
       // Process with OpenAI
-      if (!process.env.OPENAI_API_KEY || !openai) {
+      if (!LLMService.isAvailable()) {
         return `על בסיס הפעילות שלך היום (${healthData.steps} צעדים, ${
           healthData.caloriesBurned
         } קלוריות שנשרפו), מומלץ:
@@ -441,8 +816,8 @@ For cooking questions: give suggestions for nutritional improvement of the recip
         הערה: זוהי המלצה כללית. לייעוץ אישי, יש להוסיף מפתח OpenAI.`;
       }
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const completion = await LLMService.complete("health_recommendation", {
+        userId,
         messages: [
           {
             role: "system",
@@ -454,14 +829,9 @@ For cooking questions: give suggestions for nutritional improvement of the recip
             content: healthPrompt,
           },
         ],
-        max_tokens: 500,
-        temperature: 0.7,
       });
 
-      return (
-        completion.choices[0]?.message?.content ||
-        "לא הצלחתי ליצור המלצות מותאמות אישית."
-      );
+      return completion.content || "לא הצלחתי ליצור המלצות מותאמות אישית.";
     } catch (error) {
       console.error("Error in health-based recommendation:", error);
       throw error;
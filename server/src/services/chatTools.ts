@@ -0,0 +1,459 @@
+import { prisma } from "../lib/database";
+import { LLMTool, LLMToolCall } from "../lib/llmProvider";
+import {
+  ChatActionView,
+  ChatToolArguments,
+  ChatToolName,
+  chatToolArgumentSchemas,
+} from "../types/chat";
+import { NutritionService } from "./nutrition";
+import { MealPlanService } from "./mealPlans";
+import { TimeZoneService } from "./timeZone";
+
+export class ChatActionNotFoundError extends Error {
+  constructor(readonly actionId: string) {
+    super(`Chat action ${actionId} not found`);
+    this.name = "ChatActionNotFoundError";
+  }
+}
+
+export class ChatActionResolvedError extends Error {
+  constructor(readonly actionId: string, readonly status: string) {
+    super(`Chat action ${actionId} is already ${status.toLowerCase()}`);
+    this.name = "ChatActionResolvedError";
+  }
+}
+
+// Tools that only read run as soon as the model calls them; every other
+// tool waits for the user to confirm
+const READ_ONLY_TOOLS: ChatToolName[] = ["get_nutrition_stats"];
+
+// Longest range the stats tool summarizes
+const MAX_STATS_DAYS = 93;
+
+const DATE_PARAMETER = {
+  type: "string",
+  description: "Date as YYYY-MM-DD",
+};
+
+export const CHAT_TOOLS: LLMTool[] = [
+  {
+    name: "log_meal",
+    description:
+      "Log a meal the user ate, from a description of the foods and amounts. Use when the user says they ate or want to log something.",
+    parameters: {
+      type: "object",
+      properties: {
+        description: {
+          type: "string",
+          description:
+            "The foods and amounts, in the user's words, e.g. '2 eggs and a slice of bread'",
+        },
+      },
+      required: ["description"],
+    },
+  },
+  {
+    name: "add_water",
+    description: "Add cups (250 ml each) of water to the user's intake.",
+    parameters: {
+      type: "object",
+      properties: {
+        cups: { type: "integer", minimum: 1, maximum: 25 },
+        date: {
+          ...DATE_PARAMETER,
+          description: "The day to add to; omit for today",
+        },
+      },
+      required: ["cups"],
+    },
+  },
+  {
+    name: "get_nutrition_stats",
+    description:
+      "Get what the user ate between two dates: meals logged, daily calories and macros, and averages per logged day.",
+    parameters: {
+      type: "object",
+      properties: {
+        start_date: DATE_PARAMETER,
+        end_date: DATE_PARAMETER,
+      },
+      required: ["start_date", "end_date"],
+    },
+  },
+  {
+    name: "swap_plan_meal",
+    description:
+      "Replace one meal in the user's active meal plan with a different one.",
+    parameters: {
+      type: "object",
+      properties: {
+        day_of_week: {
+          type: "integer",
+          minimum: 0,
+          maximum: 6,
+          description: "0 is Sunday",
+        },
+        meal_timing: {
+          type: "string",
+          enum: chatToolArgumentSchemas.swap_plan_meal.shape.meal_timing
+            .options,
+        },
+        meal_order: {
+          type: "integer",
+          minimum: 1,
+          description:
+            "Which meal of that timing, counting from 1, when there are several",
+        },
+      },
+      required: ["day_of_week", "meal_timing"],
+    },
+  },
+  {
+    name: "add_shopping_items",
+    description: "Add items to the user's shopping list.",
+    parameters: {
+      type: "object",
+      properties: {
+        items: {
+          type: "array",
+          minItems: 1,
+          maxItems: 30,
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              quantity: { type: "number" },
+              unit: { type: "string", description: "e.g. g, kg, piece" },
+              category: {
+                type: "string",
+                description: "e.g. Produce, Dairy, Bakery",
+              },
+            },
+            required: ["name"],
+          },
+        },
+      },
+      required: ["items"],
+    },
+  },
+];
+
+export interface ChatToolOutcome {
+  // Sent back to the model as the tool's result
+  content: string;
+  // For state-changing tools, the action awaiting the user's confirmation
+  action?: ChatActionView;
+}
+
+function isChatTool(name: string): name is ChatToolName {
+  return Object.prototype.hasOwnProperty.call(chatToolArgumentSchemas, name);
+}
+
+function toActionView(action: any): ChatActionView {
+  return {
+    action_id: action.action_id,
+    tool: action.tool,
+    arguments: action.arguments,
+    status: action.status,
+    result: action.result ?? null,
+    error: action.error ?? null,
+    created_at: action.created_at,
+  };
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export class ChatToolService {
+  /**
+   * Handles one tool call from the model. Arguments are validated first;
+   * problems go back to the model as the tool's result so it can correct
+   * itself. Read-only tools run right away. State-changing ones are stored
+   * as pending actions and only run from confirmAction().
+   */
+  static async runTool(
+    userId: string,
+    threadId: string,
+    call: LLMToolCall
+  ): Promise<ChatToolOutcome> {
+    if (!isChatTool(call.name)) {
+      return {
+        content: JSON.stringify({ error: `Unknown tool ${call.name}` }),
+      };
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(call.arguments || "{}");
+    } catch {
+      return {
+        content: JSON.stringify({ error: "Arguments are not valid JSON" }),
+      };
+    }
+
+    const parsed = chatToolArgumentSchemas[call.name].safeParse(raw);
+    if (!parsed.success) {
+      return {
+        content: JSON.stringify({
+          error: "Invalid arguments",
+          issues: parsed.error.errors.map(
+            (issue) => `${issue.path.join(".")}: ${issue.message}`
+          ),
+        }),
+      };
+    }
+
+    if (READ_ONLY_TOOLS.includes(call.name)) {
+      try {
+        const result = await this.execute(userId, call.name, parsed.data);
+        return { content: JSON.stringify(result) };
+      } catch (error) {
+        return {
+          content: JSON.stringify({
+            error: error instanceof Error ? error.message : "Tool failed",
+          }),
+        };
+      }
+    }
+
+    const action = await prisma.chatAction.create({
+      data: {
+        user_id: userId,
+        thread_id: threadId,
+        tool: call.name,
+        arguments: parsed.data,
+      },
+    });
+    console.log(`🧰 Chat action proposed: ${call.name} (${action.action_id})`);
+
+    return {
+      content: JSON.stringify({
+        status: "awaiting_confirmation",
+        note: "Nothing has changed yet. The app shows the user a card to confirm or cancel this; tell them what it will do.",
+      }),
+      action: toActionView(action),
+    };
+  }
+
+  // Links the actions proposed while answering to the saved answer
+  static async attachToMessage(actionIds: string[], messageId: number) {
+    if (actionIds.length === 0) return;
+    await prisma.chatAction.updateMany({
+      where: { action_id: { in: actionIds } },
+      data: { message_id: messageId },
+    });
+  }
+
+  // The AI feature a confirmation runs, if any: a logged meal analyzes its
+  // description and a plan swap generates the new meal
+  static async confirmAiFeature(userId: string, actionId: string) {
+    const action = await prisma.chatAction.findFirst({
+      where: { action_id: actionId, user_id: userId },
+      select: { tool: true },
+    });
+    if (action?.tool === "log_meal") return "meal_text";
+    if (action?.tool === "swap_plan_meal") return "meal_replacement";
+    return null;
+  }
+
+  /**
+   * Runs a pending action through the same service methods as the REST
+   * routes. A failure is recorded on the action (and returned) rather than
+   * thrown, so the card can show it. A meal is analyzed only now, when the
+   * user confirms it.
+   */
+  static async confirmAction(userId: string, actionId: string) {
+    const action = await this.claimPendingAction(userId, actionId, "CONFIRMED");
+
+    try {
+      const tool: string = action.tool;
+      if (!isChatTool(tool)) {
+        throw new Error(`Unknown tool ${tool}`);
+      }
+      const result = await this.execute(
+        userId,
+        tool,
+        chatToolArgumentSchemas[tool].parse(action.arguments)
+      );
+      const confirmed = await prisma.chatAction.update({
+        where: { action_id: actionId },
+        data: { result, resolved_at: new Date() },
+      });
+      console.log(`✅ Chat action confirmed: ${tool} (${actionId})`);
+      return toActionView(confirmed);
+    } catch (error) {
+      console.error(`💥 Chat action ${actionId} failed:`, error);
+      const failed = await prisma.chatAction.update({
+        where: { action_id: actionId },
+        data: {
+          status: "FAILED",
+          error: error instanceof Error ? error.message : "Action failed",
+          resolved_at: new Date(),
+        },
+      });
+      return toActionView(failed);
+    }
+  }
+
+  static async cancelAction(userId: string, actionId: string) {
+    const action = await this.claimPendingAction(userId, actionId, "CANCELLED");
+    return toActionView(action);
+  }
+
+  // Moves the action out of PENDING with one conditional update, so a double
+  // tap can't run it twice
+  private static async claimPendingAction(
+    userId: string,
+    actionId: string,
+    status: "CONFIRMED" | "CANCELLED"
+  ) {
+    const claimed = await prisma.chatAction.updateMany({
+      where: { action_id: actionId, user_id: userId, status: "PENDING" },
+      data: {
+        status,
+        resolved_at: status === "CANCELLED" ? new Date() : undefined,
+      },
+    });
+
+    const action = await prisma.chatAction.findFirst({
+      where: { action_id: actionId, user_id: userId },
+    });
+    if (!action) {
+      throw new ChatActionNotFoundError(actionId);
+    }
+    if (claimed.count === 0) {
+      throw new ChatActionResolvedError(actionId, action.status);
+    }
+    return action;
+  }
+
+  private static async execute(
+    userId: string,
+    tool: ChatToolName,
+    args: unknown
+  ): Promise<any> {
+    switch (tool) {
+      case "get_nutrition_stats":
+        return this.getNutritionStats(
+          userId,
+          args as ChatToolArguments<"get_nutrition_stats">
+        );
+
+      case "log_meal": {
+        const { description } = args as ChatToolArguments<"log_meal">;
+        const analysis = await NutritionService.analyzeMealText(userId, {
+          text: description,
+          source: "text",
+        });
+        const meal = await NutritionService.saveMeal(userId, analysis);
+        return {
+          meal_id: meal.meal_id,
+          meal_name: analysis.meal_name,
+          calories: analysis.calories,
+          protein_g: analysis.protein_g,
+          carbs_g: analysis.carbs_g,
+          fats_g: analysis.fats_g,
+        };
+      }
+
+      case "add_water": {
+        const { cups, date } = args as ChatToolArguments<"add_water">;
+        const { timeZone, date: today } = await TimeZoneService.getUserToday(
+          userId
+        );
+        const day = date || today;
+        const current = await NutritionService.getWaterIntake(userId, day);
+        const tracked = await NutritionService.trackWaterIntake(
+          userId,
+          Math.min(current.cups_consumed + cups, 25),
+          day,
+          timeZone
+        );
+        return {
+          date: day,
+          cups_consumed: tracked.waterRecord.cups_consumed,
+          badge_awarded: tracked.badgeAwarded,
+        };
+      }
+
+      case "swap_plan_meal": {
+        const { day_of_week, meal_timing, meal_order } =
+          args as ChatToolArguments<"swap_plan_meal">;
+        const plan = await MealPlanService.getActiveMealPlan(userId);
+        if (!plan) {
+          throw new Error("You don't have an active meal plan");
+        }
+        const { new_meal } = await MealPlanService.replaceMealInPlan(
+          userId,
+          plan.plan_id,
+          day_of_week,
+          meal_timing,
+          meal_order
+        );
+        return {
+          plan_id: plan.plan_id,
+          new_meal: new_meal.name,
+          calories: new_meal.calories,
+        };
+      }
+
+      case "add_shopping_items": {
+        const { items } = args as ChatToolArguments<"add_shopping_items">;
+        const list = await MealPlanService.addShoppingListItems(userId, items);
+        return {
+          list_id: list.list_id,
+          list_name: list.name,
+          added: items.map((item) => item.name),
+        };
+      }
+    }
+  }
+
+  // A compact summary; the full breakdown lists every meal's nutrients
+  private static async getNutritionStats(
+    userId: string,
+    { start_date, end_date }: ChatToolArguments<"get_nutrition_stats">
+  ) {
+    const days =
+      (Date.parse(end_date) - Date.parse(start_date)) / (24 * 60 * 60 * 1000) +
+      1;
+    if (days < 1) {
+      throw new Error("start_date must not be after end_date");
+    }
+    if (days > MAX_STATS_DAYS) {
+      throw new Error(`The range can be at most ${MAX_STATS_DAYS} days`);
+    }
+
+    const stats: any = await NutritionService.getRangeStatistics(
+      userId,
+      start_date,
+      end_date
+    );
+    const sum = (meals: any[], key: string) =>
+      round1(meals.reduce((total, meal) => total + (meal[key] || 0), 0));
+
+    return {
+      start_date,
+      end_date,
+      days_logged: stats.totalDays,
+      meals_logged: stats.totalMeals,
+      average_per_logged_day: {
+        calories: Math.round(stats.average_calories || 0),
+        protein_g: round1(stats.average_protein_g || 0),
+        carbs_g: round1(stats.average_carbs_g || 0),
+        fats_g: round1(stats.average_fats_g || 0),
+        fiber_g: round1(stats.average_fiber_g || 0),
+        sugar_g: round1(stats.average_sugar_g || 0),
+        sodium_mg: Math.round(stats.average_sodium_mg || 0),
+      },
+      days: stats.dailyBreakdown.map((day: any) => ({
+        date: day.date,
+        meals: day.meals.map((meal: any) => meal.meal_name),
+        calories: Math.round(sum(day.meals, "calories")),
+        protein_g: sum(day.meals, "protein_g"),
+        carbs_g: sum(day.meals, "carbs_g"),
+        fats_g: sum(day.meals, "fats_g"),
+      })),
+    };
+  }
+}
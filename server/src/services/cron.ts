@@ -1,17 +1,20 @@
 import { prisma } from '../lib/database';
 
-export async function resetDailyLimits() {
+// Resets the given users' AI request counters; called by the rollover job at
+// each user's local midnight
+export async function resetDailyLimits(userIds: string[]) {
   try {
     const now = new Date();
     
     await prisma.user.updateMany({
+      where: { user_id: { in: userIds } },
       data: {
         ai_requests_count: 0,
         ai_requests_reset_at: now,
       }
     });
 
-    console.log(`✅ Daily AI request limits reset at ${now.toISOString()}`);
+    console.log(`✅ Daily AI request limits reset for ${userIds.length} users at ${now.toISOString()}`);
   } catch (error) {
     console.error('❌ Error resetting daily limits:', error);
   }
@@ -1,126 +1,110 @@
 import cron from "node-cron";
 import { prisma } from "../lib/database";
+import { resetDailyLimits } from "./cron";
+import { BillingService } from "./billing";
+import { DeviceSyncService } from "./deviceSync";
+import { BodyMetricsService } from "./bodyMetrics";
+import { DailyGoalsService } from "./dailyGoal";
+import { StreakService } from "./streaks";
+import {
+  dateStringToDbDate,
+  getLocalDateString,
+  resolveTimeZone,
+} from "../utils/dates";
 
 export class CronJobService {
   static initializeCronJobs() {
-    // Reset water badges daily at midnight
-    cron.schedule("0 0 * * *", async () => {
-      console.log("🕛 Running daily reset job at midnight");
-      await this.resetDailyBadges();
+    // Midnight jobs follow each user's own time zone. Quarter-hour ticks
+    // also catch zones with :30 and :45 offsets.
+    cron.schedule("*/15 * * * *", async () => {
+      await this.runDailyRollover();
     });
 
-    console.log("📅 Cron jobs initialized");
-  }
-
-  private static async resetDailyBadges() {
-    try {
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      yesterday.setHours(0, 0, 0, 0);
-
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+    // Renew due subscriptions and downgrade lapsed ones after the grace period
+    cron.schedule("0 1 * * *", async () => {
+      console.log("💳 Running subscription renewal job");
+      try {
+        await BillingService.processSubscriptionRenewals();
+      } catch (error) {
+        console.error("❌ Subscription renewal job failed:", error);
+      }
+    });
 
-      console.log("🧹 Cleaning up daily badges from:", yesterday.toISOString());
+    // Re-estimate TDEE from the past weeks' intake and weight trend, then
+    // start a goal version from today on it
+    cron.schedule("0 3 * * 1", async () => {
+      console.log("🔥 Running weekly TDEE recalibration");
+      try {
+        const userIds = await BodyMetricsService.recalibrateAllUsers();
+        for (const userId of userIds) {
+          await DailyGoalsService.createOrUpdateDailyGoals(userId);
+        }
+      } catch (error) {
+        console.error("❌ TDEE recalibration job failed:", error);
+      }
+    });
 
-      // This doesn't delete badges, just ensures they're date-specific
-      // The scuba diver badge logic already handles daily awards correctly
+    // Pull wearable data; each device is synced on its own frequency
+    cron.schedule("15 * * * *", async () => {
+      console.log("⌚ Running device sync job");
+      try {
+        await DeviceSyncService.syncDueDevices();
+      } catch (error) {
+        console.error("❌ Device sync job failed:", error);
+      }
+    });
 
-      console.log("✅ Daily badge reset completed");
-    } catch (error) {
-      console.error("❌ Error resetting daily badges:", error);
-    }
+    console.log("📅 Cron jobs initialized");
   }
 
-  static async createDailyGoalsForAllUsers() {
+  /**
+   * Runs the midnight jobs for every user whose local date has moved on since
+   * their last rollover: the AI request counter is reset and the finished
+   * day is scored for their streaks. Users are processed one time zone at a
+   * time.
+   */
+  static async runDailyRollover(now: Date = new Date()) {
     try {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      const zones = await prisma.user.findMany({
+        distinct: ["timezone"],
+        select: { timezone: true },
+      });
 
-      // Get all users who don't have today's daily goal
-      const usersWithoutTodayGoal = await prisma.user.findMany({
-        where: {
-          dailyGoals: {
-            none: {
-              date: today,
-            },
+      for (const { timezone } of zones) {
+        const today = getLocalDateString(now, resolveTimeZone(timezone));
+        const todayDate = dateStringToDbDate(today);
+
+        const users = await prisma.user.findMany({
+          where: {
+            timezone,
+            OR: [
+              { daily_rollover_date: null },
+              { daily_rollover_date: { lt: todayDate } },
+            ],
           },
-        },
-        include: {
-          questionnaires: {
-            orderBy: { date_completed: "desc" },
-            take: 1,
-          },
-        },
-      });
+          select: { user_id: true },
+        });
 
-      console.log(
-        `📊 Creating daily goals for ${usersWithoutTodayGoal.length} users`
-      );
+        if (users.length === 0) continue;
 
-      for (const user of usersWithoutTodayGoal) {
-        const questionnaire = user.questionnaires[0];
-        const defaultCalories = this.calculateDailyCalories(
-          questionnaire,
-          user
+        console.log(
+          `🕛 Local midnight in ${resolveTimeZone(timezone)}: rolling over ${
+            users.length
+          } users to ${today}`
         );
 
-        await prisma.dailyGoal.create({
-          data: {
-            user_id: user.user_id,
-            date: today,
-            calories: defaultCalories,
-            protein_g: (defaultCalories * 0.25) / 4,
-            carbs_g: (defaultCalories * 0.45) / 4,
-            fats_g: (defaultCalories * 0.3) / 9,
-            fiber_g: 25,
-            sodium_mg: 2300,
-            sugar_g: 50,
-            water_ml: 2500,
-          },
+        const userIds = users.map((user: any) => user.user_id);
+        await resetDailyLimits(userIds);
+        await prisma.user.updateMany({
+          where: { user_id: { in: userIds } },
+          data: { daily_rollover_date: todayDate },
         });
+        await StreakService.evaluateUsers(userIds);
       }
 
-      console.log("✅ Daily goals created for all users");
+      console.log("✅ Daily rollover completed");
     } catch (error) {
-      console.error("❌ Error creating daily goals:", error);
+      console.error("❌ Error running daily rollover:", error);
     }
   }
-
-  private static calculateDailyCalories(questionnaire: any, user: any): number {
-    if (!questionnaire) return 2000;
-
-    const weight = questionnaire.weight_kg || 70;
-    const height = questionnaire.height_cm || 170;
-    const age = questionnaire.age || 30;
-    const gender = questionnaire.gender || "male";
-
-    let bmr;
-    if (gender.toLowerCase() === "male") {
-      bmr = 10 * weight + 6.25 * height - 5 * age + 5;
-    } else {
-      bmr = 10 * weight + 6.25 * height - 5 * age - 161;
-    }
-
-    const activityMultipliers = {
-      NONE: 1.2,
-      LIGHT: 1.375,
-      MODERATE: 1.55,
-      HIGH: 1.725,
-    };
-
-    const activityLevel = questionnaire.physical_activity_level || "LIGHT";
-    const multiplier = activityMultipliers[activityLevel] || 1.375;
-
-    let tdee = bmr * multiplier;
-
-    const mainGoal = questionnaire.main_goal;
-    if (mainGoal === "WEIGHT_LOSS") {
-      tdee -= 500;
-    } else if (mainGoal === "WEIGHT_GAIN") {
-      tdee += 500;
-    }
-
-    return Math.round(Math.max(1200, Math.min(4000, tdee)));
-  }
 }
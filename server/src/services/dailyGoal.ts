@@ -1,54 +1,235 @@
 import { prisma } from "../lib/database";
+import { TimeZoneService } from "./timeZone";
+import { BodyMetricsService } from "./bodyMetrics";
+import {
+  GOAL_TARGET_FIELDS,
+  GoalSource,
+  GoalTargets,
+  GoalVersionSummary,
+  ResolvedDailyGoals,
+  WeekdayOverride,
+  weekdayOverrideSchema,
+} from "../types/dailyGoals";
+import {
+  addDaysToDateString,
+  dateStringToDbDate,
+  dbDateToDateString,
+  listDateStrings,
+} from "../utils/dates";
 
+// Stored overrides that no longer validate are dropped, not carried forward
+function readWeekdayOverrides(value: unknown): WeekdayOverride[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((override) => {
+    const parsed = weekdayOverrideSchema.safeParse(override);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+function pickTargets(values: Record<string, any>) {
+  const targets: Partial<GoalTargets> = {};
+  for (const field of GOAL_TARGET_FIELDS) {
+    if (values[field] != null) targets[field] = values[field];
+  }
+  return targets;
+}
+
+/**
+ * Goals are stored as versions with an effective date rather than one row
+ * per day. A version applies from its effective_from until the next version,
+ * so changing goals never re-scores past days. Each version may carry
+ * per-weekday overrides (e.g. more carbs on training days).
+ */
 export class DailyGoalsService {
   static async createOrUpdateDailyGoals(userId: string) {
     try {
       console.log(`📊 Creating/updating daily goals for user: ${userId}`);
 
-      // Get user questionnaire data
-      const questionnaire = await prisma.userQuestionnaire.findFirst({
-        where: { user_id: userId },
-        orderBy: { date_completed: "desc" },
-      });
-
-      if (!questionnaire) {
-        console.log("No questionnaire found, using default goals");
-      }
+      const { targets, source } = await this.buildDailyGoals(userId);
 
-      // Calculate daily goals based on questionnaire
-      const dailyGoals = this.calculateDailyGoals(questionnaire);
-
-      // Check if daily goals already exist
-      const existingGoals = await prisma.dailyGoal.findFirst({
-        where: { user_id: userId },
-      });
-
-      let savedGoals;
-      if (existingGoals) {
-        // Update existing goals
-        savedGoals = await prisma.dailyGoal.update({
-          where: { id: existingGoals.id },
-          data: dailyGoals,
-        });
-      } else {
-        // Create new goals
-        savedGoals = await prisma.dailyGoal.create({
-          data: {
-            user_id: userId,
-            ...dailyGoals,
-          },
-        });
-      }
+      // New targets take effect from the user's local today
+      const { date: today } = await TimeZoneService.getUserToday(userId);
+      await this.setGoalVersion(userId, today, targets, source);
 
       console.log("✅ Daily goals saved successfully");
-      return savedGoals;
+      return (await this.getGoalsForDate(userId, today))!;
     } catch (error) {
       console.error("Error creating/updating daily goals:", error);
       throw error;
     }
   }
 
-  private static calculateDailyGoals(questionnaire: any) {
+  /**
+   * Starts a version on effectiveFrom with the given targets. Targets not
+   * given, and the weekday overrides, carry over from the version in effect
+   * that day. A second change on the same day replaces that day's version,
+   * and unchanged targets don't start a new one.
+   */
+  static async setGoalVersion(
+    userId: string,
+    effectiveFrom: string,
+    targets: Partial<GoalTargets>,
+    source: GoalSource,
+    weekdayOverrides?: WeekdayOverride[]
+  ) {
+    const current = await this.getVersionInEffect(userId, effectiveFrom);
+    const values = {
+      ...this.getDefaultTargets(),
+      ...(current ? pickTargets(current) : {}),
+      ...targets,
+    };
+    const overrides =
+      weekdayOverrides ?? readWeekdayOverrides(current?.weekday_overrides);
+
+    const unchanged =
+      current &&
+      GOAL_TARGET_FIELDS.every((field) => current[field] === values[field]) &&
+      JSON.stringify(current.weekday_overrides) === JSON.stringify(overrides);
+    if (unchanged) return current;
+
+    const effectiveDate = dateStringToDbDate(effectiveFrom);
+    const version = await prisma.goalVersion.upsert({
+      where: {
+        user_id_effective_from: {
+          user_id: userId,
+          effective_from: effectiveDate,
+        },
+      },
+      update: { ...values, weekday_overrides: overrides, source },
+      create: {
+        user_id: userId,
+        effective_from: effectiveDate,
+        ...values,
+        weekday_overrides: overrides,
+        source,
+      },
+    });
+
+    console.log(
+      `🎯 Goal version ${version.version_id} effective from ${effectiveFrom} (${source})`
+    );
+    return version;
+  }
+
+  /**
+   * Targets for a limited run of days, e.g. while a menu is followed. Any
+   * version scheduled inside the period is dropped, and the day after it the
+   * last non-menu targets take over again.
+   */
+  static async setGoalsForPeriod(
+    userId: string,
+    from: string,
+    to: string,
+    targets: Partial<GoalTargets>,
+    source: GoalSource
+  ) {
+    const dayAfter = addDaysToDateString(to, 1);
+    const previous = await prisma.goalVersion.findFirst({
+      where: {
+        user_id: userId,
+        effective_from: { lte: dateStringToDbDate(from) },
+        source: { not: "MENU" },
+      },
+      orderBy: { effective_from: "desc" },
+    });
+
+    await prisma.goalVersion.deleteMany({
+      where: {
+        user_id: userId,
+        effective_from: {
+          gt: dateStringToDbDate(from),
+          lte: dateStringToDbDate(to),
+        },
+      },
+    });
+    const following = await prisma.goalVersion.findUnique({
+      where: {
+        user_id_effective_from: {
+          user_id: userId,
+          effective_from: dateStringToDbDate(dayAfter),
+        },
+      },
+    });
+
+    const version = await this.setGoalVersion(userId, from, targets, source);
+
+    if (previous && !following) {
+      await this.setGoalVersion(
+        userId,
+        dayAfter,
+        pickTargets(previous),
+        previous.source,
+        readWeekdayOverrides(previous.weekday_overrides)
+      );
+    }
+
+    return version;
+  }
+
+  // Replaces the weekday overrides from today on; targets stay as they are
+  static async setWeekdayOverrides(
+    userId: string,
+    overrides: WeekdayOverride[]
+  ) {
+    const { date: today } = await TimeZoneService.getUserToday(userId);
+    const current = await this.getVersionInEffect(userId, today);
+    const { targets, source } = current
+      ? { targets: {}, source: current.source as GoalSource }
+      : await this.buildDailyGoals(userId);
+
+    await this.setGoalVersion(
+      userId,
+      today,
+      targets,
+      source,
+      [...overrides].sort((a, b) => a.weekday - b.weekday)
+    );
+    return (await this.getGoalsForDate(userId, today))!;
+  }
+
+  /**
+   * Goal values for the user's today. Once enough intake and weigh-ins are
+   * logged the calorie target follows the adaptive TDEE (see
+   * BodyMetricsService), and macros follow the trend weight; until then
+   * the questionnaire's Harris-Benedict estimate is used.
+   */
+  static async buildDailyGoals(
+    userId: string
+  ): Promise<{ targets: GoalTargets; source: GoalSource }> {
+    const [questionnaire, user, trendWeight] = await Promise.all([
+      prisma.userQuestionnaire.findFirst({
+        where: { user_id: userId },
+        orderBy: { date_completed: "desc" },
+      }),
+      prisma.user.findUnique({
+        where: { user_id: userId },
+        select: { adaptive_tdee: true },
+      }),
+      BodyMetricsService.getTrendWeight(userId),
+    ]);
+
+    if (!questionnaire) {
+      console.log("No questionnaire found, using default goals");
+    }
+
+    const adaptiveTdee = user?.adaptive_tdee ?? null;
+    return {
+      targets: this.calculateDailyGoals(questionnaire, {
+        adaptiveTdee,
+        weightKg: trendWeight,
+      }),
+      source: adaptiveTdee
+        ? "ADAPTIVE"
+        : questionnaire
+        ? "QUESTIONNAIRE"
+        : "DEFAULT",
+    };
+  }
+
+  private static calculateDailyGoals(
+    questionnaire: any,
+    body: { adaptiveTdee: number | null; weightKg: number | null }
+  ): GoalTargets {
     // Default values
     let baseCalories = 2000;
     let baseProtein = 120;
@@ -56,33 +237,38 @@ export class DailyGoalsService {
     let baseFats = 70;
     let baseWaterMl = 2500;
 
-    if (questionnaire) {
-      // Calculate BMR using Harris-Benedict equation
-      const weight = questionnaire.weight_kg || 70;
-      const height = questionnaire.height_cm || 170;
-      const age = questionnaire.age || 25;
-      const gender = questionnaire.gender || "MALE";
-
-      let bmr;
-      if (gender === "MALE") {
-        bmr = 88.362 + 13.397 * weight + 4.799 * height - 5.677 * age;
-      } else {
-        bmr = 447.593 + 9.247 * weight + 3.098 * height - 4.33 * age;
-      }
+    if (questionnaire || body.adaptiveTdee) {
+      const weight = body.weightKg || questionnaire?.weight_kg || 70;
+      let tdee = body.adaptiveTdee;
+
+      if (!tdee) {
+        // Calculate BMR using Harris-Benedict equation
+        const height = questionnaire.height_cm || 170;
+        const age = questionnaire.age || 25;
+        const gender = questionnaire.gender || "MALE";
+
+        let bmr;
+        if (gender === "MALE") {
+          bmr = 88.362 + 13.397 * weight + 4.799 * height - 5.677 * age;
+        } else {
+          bmr = 447.593 + 9.247 * weight + 3.098 * height - 4.33 * age;
+        }
 
-      // Apply activity level multiplier
-      const activityMultipliers = {
-        NONE: 1.2,
-        LIGHT: 1.375,
-        MODERATE: 1.55,
-        HIGH: 1.725,
-      };
+        // Apply activity level multiplier
+        const activityMultipliers = {
+          NONE: 1.2,
+          LIGHT: 1.375,
+          MODERATE: 1.55,
+          HIGH: 1.725,
+        };
 
-      const activityLevel = questionnaire.physical_activity_level || "MODERATE";
-      const tdee = bmr * (activityMultipliers[activityLevel] || 1.55);
+        const activityLevel =
+          questionnaire.physical_activity_level || "MODERATE";
+        tdee = bmr * (activityMultipliers[activityLevel] || 1.55);
+      }
 
       // Adjust based on goal
-      switch (questionnaire.main_goal) {
+      switch (questionnaire?.main_goal) {
         case "WEIGHT_LOSS":
           baseCalories = Math.round(tdee - 500); // 500 calorie deficit
           break;
@@ -105,33 +291,154 @@ export class DailyGoalsService {
     }
 
     return {
-      goal_calories: baseCalories,
-      goal_protein_g: baseProtein,
-      goal_carbs_g: baseCarbs,
-      goal_fats_g: baseFats,
-      goal_fiber_g: 25,
-      goal_water_ml: baseWaterMl,
-      goal_sodium_mg: 2300,
-      goal_sugar_g: 50,
-      updated_at: new Date(),
+      calories: baseCalories,
+      protein_g: baseProtein,
+      carbs_g: baseCarbs,
+      fats_g: baseFats,
+      fiber_g: 25,
+      water_ml: baseWaterMl,
+      sodium_mg: 2300,
+      sugar_g: 50,
+    };
+  }
+
+  static getDefaultTargets(): GoalTargets {
+    return {
+      calories: 2000,
+      protein_g: 120,
+      carbs_g: 250,
+      fats_g: 67,
+      fiber_g: 25,
+      sodium_mg: 2300,
+      sugar_g: 50,
+      water_ml: 2500,
+    };
+  }
+
+  private static getVersionInEffect(userId: string, date: string) {
+    return prisma.goalVersion.findFirst({
+      where: {
+        user_id: userId,
+        effective_from: { lte: dateStringToDbDate(date) },
+      },
+      orderBy: { effective_from: "desc" },
+    });
+  }
+
+  private static resolveVersion(
+    version: any,
+    date: string
+  ): ResolvedDailyGoals {
+    const weekday = dateStringToDbDate(date).getUTCDay();
+    const override = readWeekdayOverrides(version.weekday_overrides).find(
+      (candidate) => candidate.weekday === weekday
+    );
+    const overrideTargets = override ? pickTargets(override) : {};
+
+    return {
+      date,
+      version_id: version.version_id,
+      effective_from: dbDateToDateString(version.effective_from),
+      source: version.source,
+      ...(pickTargets(version) as GoalTargets),
+      ...overrideTargets,
+      weekday_override: Object.keys(overrideTargets).length > 0,
     };
   }
 
-  static async getDailyGoals(userId: string) {
+  /**
+   * The targets that applied on each local day from `from` to `to`
+   * (inclusive). Days before the user's first version map to null.
+   */
+  static async getGoalsForDates(
+    userId: string,
+    from: string,
+    to: string
+  ): Promise<Map<string, ResolvedDailyGoals | null>> {
+    const [initial, changes] = await Promise.all([
+      this.getVersionInEffect(userId, from),
+      prisma.goalVersion.findMany({
+        where: {
+          user_id: userId,
+          effective_from: {
+            gt: dateStringToDbDate(from),
+            lte: dateStringToDbDate(to),
+          },
+        },
+        orderBy: { effective_from: "asc" },
+      }),
+    ]);
+
+    const goalsByDate = new Map<string, ResolvedDailyGoals | null>();
+    let version = initial;
+    let nextChange = 0;
+
+    for (const date of listDateStrings(from, to)) {
+      while (
+        nextChange < changes.length &&
+        dbDateToDateString(changes[nextChange].effective_from) <= date
+      ) {
+        version = changes[nextChange++];
+      }
+      goalsByDate.set(
+        date,
+        version ? this.resolveVersion(version, date) : null
+      );
+    }
+
+    return goalsByDate;
+  }
+
+  static async getGoalsForDate(userId: string, date: string) {
+    const goals = await this.getGoalsForDates(userId, date, date);
+    return goals.get(date) || null;
+  }
+
+  // Defaults to the user's local today
+  static async getDailyGoals(userId: string, date?: string) {
     try {
-      const goals = await prisma.dailyGoal.findFirst({
+      const day = date || (await TimeZoneService.getUserToday(userId)).date;
+      const goals = await this.getGoalsForDate(userId, day);
+      if (goals) return goals;
+
+      const hasGoals = await prisma.goalVersion.count({
         where: { user_id: userId },
       });
-
-      if (!goals) {
+      if (!hasGoals) {
         // Create default goals if none exist
-        return await this.createOrUpdateDailyGoals(userId);
+        const created = await this.createOrUpdateDailyGoals(userId);
+        return !date || date >= created.effective_from ? created : null;
       }
 
-      return goals;
+      // The day predates the user's first goals
+      return null;
     } catch (error) {
       console.error("Error fetching daily goals:", error);
       throw error;
     }
   }
+
+  // Newest first
+  static async getGoalHistory(userId: string): Promise<GoalVersionSummary[]> {
+    const versions = await prisma.goalVersion.findMany({
+      where: { user_id: userId },
+      orderBy: { effective_from: "desc" },
+    });
+
+    return versions.map((version: any, index: number) => ({
+      version_id: version.version_id,
+      effective_from: dbDateToDateString(version.effective_from),
+      effective_to:
+        index > 0
+          ? addDaysToDateString(
+              dbDateToDateString(versions[index - 1].effective_from),
+              -1
+            )
+          : null,
+      source: version.source,
+      ...(pickTargets(version) as GoalTargets),
+      weekday_overrides: version.weekday_overrides,
+      created_at: version.created_at,
+    }));
+  }
 }
@@ -0,0 +1,284 @@
+import { ConnectedDevice } from "@prisma/client";
+import { prisma } from "../lib/database";
+import { decryptToken, encryptToken } from "../lib/tokenCrypto";
+import {
+  DeviceAuthorizationError,
+  getDeviceProvider,
+  SERVER_SYNCED_DEVICE_TYPES,
+} from "../lib/deviceProviders";
+import { ACTIVITY_BACKFILL_DAYS, DatedActivityData } from "../types/devices";
+import {
+  addDaysToDateString,
+  getLocalDateString,
+  listDateStrings,
+} from "../utils/dates";
+import { DeviceService } from "./devices";
+import { TimeZoneService } from "./timeZone";
+
+// Refresh a little before expiry so a sync never starts with a dying token
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// A SYNCING status older than this is a crashed run, not a running one
+const STALE_SYNC_MS = 30 * 60 * 1000;
+const DEFAULT_SYNC_FREQUENCY_HOURS = 24;
+
+export class DeviceSyncService {
+  static isServerSynced(deviceType: string) {
+    return SERVER_SYNCED_DEVICE_TYPES.some((type) => type === deviceType);
+  }
+
+  static getAuthorizationUrl(
+    deviceType: string,
+    redirectUri: string,
+    state?: string
+  ) {
+    const provider = getDeviceProvider(deviceType);
+    if (!provider) {
+      throw new Error(`Device type ${deviceType} does not use OAuth`);
+    }
+    return provider.getAuthorizationUrl(redirectUri, state);
+  }
+
+  /**
+   * Completes the OAuth flow on the server so client secrets never reach the
+   * phone. Tokens are stored encrypted and the initial backfill starts in
+   * the background.
+   */
+  static async connectWithAuthorizationCode(
+    user_id: string,
+    deviceType: string,
+    code: string,
+    redirectUri: string,
+    deviceName?: string,
+    timeZone?: string
+  ) {
+    const provider = getDeviceProvider(deviceType);
+    if (!provider) {
+      throw new Error(`Device type ${deviceType} does not use OAuth`);
+    }
+
+    const tokens = await provider.exchangeCode(code, redirectUri);
+    const device = await DeviceService.connectDevice(
+      user_id,
+      deviceType,
+      deviceName || deviceType,
+      tokens.accessToken,
+      tokens.refreshToken,
+      tokens.expiresIn,
+      timeZone
+    );
+
+    // Backfilling pulls up to ACTIVITY_BACKFILL_DAYS days from the provider,
+    // too slow to hold the request for
+    this.syncDevice(device.connected_device_id).catch((error) =>
+      console.error("💥 Initial device sync failed:", error)
+    );
+
+    return device;
+  }
+
+  /**
+   * Every local day that still needs pulling: the full backfill window until
+   * one has completed, afterwards each day since the last successful sync.
+   * That day is pulled again since it was likely partial.
+   */
+  private static getDatesToSync(
+    device: ConnectedDevice,
+    timeZone: string,
+    now: Date
+  ) {
+    const today = getLocalDateString(now, timeZone);
+    const earliest = addDaysToDateString(today, 1 - ACTIVITY_BACKFILL_DAYS);
+
+    if (!device.backfill_completed_at || !device.last_sync_time) {
+      return listDateStrings(earliest, today);
+    }
+
+    const lastSynced = getLocalDateString(device.last_sync_time, timeZone);
+    return listDateStrings(
+      lastSynced > earliest ? lastSynced : earliest,
+      today
+    );
+  }
+
+  /**
+   * Returns a usable access token, refreshing it when it expires within the
+   * refresh margin. Rotated refresh tokens are persisted.
+   */
+  private static async getValidAccessToken(device: ConnectedDevice) {
+    const provider = getDeviceProvider(device.device_type)!;
+
+    if (!device.access_token_encrypted) {
+      throw new DeviceAuthorizationError("Device has no access token");
+    }
+
+    const expiresAt = device.token_expires_at;
+    if (
+      !expiresAt ||
+      expiresAt.getTime() - Date.now() > TOKEN_REFRESH_MARGIN_MS
+    ) {
+      return decryptToken(device.access_token_encrypted);
+    }
+
+    if (!device.refresh_token_encrypted) {
+      throw new DeviceAuthorizationError();
+    }
+
+    console.log("🔑 Refreshing access token for device:", device.device_type);
+    const tokens = await provider.refreshAccessToken(
+      decryptToken(device.refresh_token_encrypted)
+    );
+
+    await prisma.connectedDevice.update({
+      where: { connected_device_id: device.connected_device_id },
+      data: {
+        access_token_encrypted: encryptToken(tokens.accessToken),
+        refresh_token_encrypted: tokens.refreshToken
+          ? encryptToken(tokens.refreshToken)
+          : device.refresh_token_encrypted,
+        token_expires_at: new Date(
+          Date.now() + (tokens.expiresIn || 3600) * 1000
+        ),
+      },
+    });
+
+    return tokens.accessToken;
+  }
+
+  /**
+   * Pulls activity for one device, catching up on every day missed since the
+   * last successful sync. Failures are recorded on the device instead of
+   * thrown.
+   */
+  static async syncDevice(deviceId: string) {
+    const device = await prisma.connectedDevice.findUnique({
+      where: { connected_device_id: deviceId },
+    });
+    if (!device) throw new Error("Device not found");
+
+    const provider = getDeviceProvider(device.device_type);
+    if (!provider) {
+      throw new Error(`Device type ${device.device_type} syncs from the phone`);
+    }
+
+    const startedAt = new Date();
+    await prisma.connectedDevice.update({
+      where: { connected_device_id: deviceId },
+      data: { connection_status: "SYNCING", last_sync_attempt_at: startedAt },
+    });
+
+    try {
+      const accessToken = await this.getValidAccessToken(device);
+
+      const timeZone = DeviceService.getDeviceTimeZone(
+        device,
+        await TimeZoneService.getUserTimeZone(device.user_id)
+      );
+      const dates = this.getDatesToSync(device, timeZone, startedAt);
+
+      const records: DatedActivityData[] = [];
+      for (const date of dates) {
+        const activity = await provider.fetchDailyActivity(
+          accessToken,
+          date,
+          timeZone
+        );
+        if (activity) records.push({ ...activity, date });
+      }
+
+      if (records.length > 0) {
+        await DeviceService.syncActivityHistory(
+          device.user_id,
+          deviceId,
+          records
+        );
+      }
+
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: deviceId },
+        data: {
+          connection_status: "CONNECTED",
+          last_sync_time: new Date(),
+          last_sync_error: null,
+          backfill_completed_at: device.backfill_completed_at || new Date(),
+        },
+      });
+
+      console.log(
+        `✅ Synced ${records.length} of ${dates.length} day(s) for ${device.device_type} device ${deviceId}`
+      );
+      return {
+        success: true,
+        daysSynced: records.length,
+        from: dates[0],
+        to: dates[dates.length - 1],
+      };
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unknown sync error";
+      console.error(
+        `❌ Sync failed for ${device.device_type} device ${deviceId}:`,
+        message
+      );
+
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: deviceId },
+        data: { connection_status: "ERROR", last_sync_error: message },
+      });
+
+      return {
+        success: false,
+        error: message,
+        requiresReconnect: error instanceof DeviceAuthorizationError,
+      };
+    }
+  }
+
+  /**
+   * Cron entry point: syncs every server-synced device whose
+   * sync_frequency_hours has elapsed since its last attempt.
+   */
+  static async syncDueDevices() {
+    const now = Date.now();
+
+    const devices = await prisma.connectedDevice.findMany({
+      where: {
+        device_type: { in: SERVER_SYNCED_DEVICE_TYPES },
+        connection_status: { in: ["CONNECTED", "ERROR", "SYNCING"] },
+        access_token_encrypted: { not: null },
+      },
+      select: {
+        connected_device_id: true,
+        connection_status: true,
+        sync_frequency_hours: true,
+        last_sync_attempt_at: true,
+        last_sync_time: true,
+      },
+    });
+
+    const dueDevices = devices.filter((device) => {
+      const lastAttempt = device.last_sync_attempt_at || device.last_sync_time;
+      if (device.connection_status === "SYNCING") {
+        return !lastAttempt || now - lastAttempt.getTime() > STALE_SYNC_MS;
+      }
+      if (!lastAttempt) return true;
+
+      const frequencyHours =
+        device.sync_frequency_hours || DEFAULT_SYNC_FREQUENCY_HOURS;
+      return now - lastAttempt.getTime() >= frequencyHours * 60 * 60 * 1000;
+    });
+
+    console.log(
+      `⌚ ${dueDevices.length} of ${devices.length} devices due for sync`
+    );
+
+    let succeeded = 0;
+    let failed = 0;
+    for (const device of dueDevices) {
+      const result = await this.syncDevice(device.connected_device_id);
+      if (result.success) succeeded++;
+      else failed++;
+    }
+
+    return { due: dueDevices.length, succeeded, failed };
+  }
+}
@@ -1,5 +1,30 @@
+import { Prisma } from "@prisma/client";
 import { prisma } from "../lib/database";
-import { ActivityData, DailyBalance } from "../types/devices";
+import {
+  ActivityData,
+  DailyBalance,
+  DatedActivityData,
+  SyncActivityInput,
+} from "../types/devices";
+import { decryptToken, encryptToken } from "../lib/tokenCrypto";
+import { ActivityMergeService } from "./activityMerge";
+import { TimeZoneService } from "./timeZone";
+import { BodyMetricsService } from "./bodyMetrics";
+import {
+  dateStringToDbDate,
+  getLocalDateString,
+  getZonedDayBounds,
+  resolveTimeZone,
+} from "../utils/dates";
+import { asJsonObject } from "../utils/nutrition";
+
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600;
+
+function getTokenExpiry(expiresIn?: number) {
+  return new Date(
+    Date.now() + (expiresIn || DEFAULT_TOKEN_LIFETIME_SECONDS) * 1000
+  );
+}
 
 export class DeviceService {
   static async getUserDevices(user_id: string) {
@@ -24,7 +49,9 @@ export class DeviceService {
     deviceType: string,
     deviceName: string,
     accessToken?: string,
-    refreshToken?: string
+    refreshToken?: string,
+    expiresIn?: number,
+    timeZone?: string
   ) {
     try {
       console.log("🔗 Connecting device for user:", user_id, {
@@ -60,6 +87,22 @@ export class DeviceService {
         },
       });
 
+      // The device becomes primary when no connected device is
+      const primaryDevice = await prisma.connectedDevice.findFirst({
+        where: {
+          user_id,
+          is_primary_device: true,
+          connection_status: "CONNECTED",
+        },
+      });
+      if (!primaryDevice) {
+        // Drop a flag left on a device that is no longer connected
+        await prisma.connectedDevice.updateMany({
+          where: { user_id, is_primary_device: true },
+          data: { is_primary_device: false },
+        });
+      }
+
       if (existingDevice) {
         // Update existing device
         const updatedDevice = await prisma.connectedDevice.update({
@@ -67,16 +110,22 @@ export class DeviceService {
           data: {
             device_name: deviceName,
             connection_status: "CONNECTED",
+            ...(!primaryDevice && { is_primary_device: true }),
             last_sync_time: new Date(),
             access_token_encrypted: accessToken
-              ? this.encryptToken(accessToken)
+              ? encryptToken(accessToken)
               : null,
             refresh_token_encrypted: refreshToken
-              ? this.encryptToken(refreshToken)
+              ? encryptToken(refreshToken)
               : null,
-            token_expires_at: accessToken
-              ? new Date(Date.now() + 3600000)
-              : null, // 1 hour default
+            token_expires_at: accessToken ? getTokenExpiry(expiresIn) : null,
+            last_sync_error: null,
+            device_settings: timeZone
+              ? {
+                  ...(existingDevice.device_settings as object),
+                  timezone: timeZone,
+                }
+              : undefined,
             updated_at: new Date(),
           },
         });
@@ -92,16 +141,16 @@ export class DeviceService {
             device_type: deviceType as any,
             connection_status: "CONNECTED",
             last_sync_time: new Date(),
-            is_primary_device: true, // First device is primary
+            is_primary_device: !primaryDevice,
             access_token_encrypted: accessToken
-              ? this.encryptToken(accessToken)
+              ? encryptToken(accessToken)
               : null,
             refresh_token_encrypted: refreshToken
-              ? this.encryptToken(refreshToken)
+              ? encryptToken(refreshToken)
               : null,
-            token_expires_at: accessToken
-              ? new Date(Date.now() + 3600000)
-              : null, // 1 hour default
+            token_expires_at: accessToken ? getTokenExpiry(expiresIn) : null,
+            last_sync_error: null,
+            device_settings: timeZone ? { timezone: timeZone } : undefined,
           },
         });
 
@@ -114,6 +163,31 @@ export class DeviceService {
     }
   }
 
+  // The primary device is the default source for every merged metric
+  static async setPrimaryDevice(user_id: string, deviceId: string) {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id },
+    });
+
+    if (!device) {
+      throw new Error("Device not found");
+    }
+
+    await prisma.$transaction([
+      prisma.connectedDevice.updateMany({
+        where: { user_id, is_primary_device: true },
+        data: { is_primary_device: false },
+      }),
+      prisma.connectedDevice.update({
+        where: { connected_device_id: deviceId },
+        data: { is_primary_device: true },
+      }),
+    ]);
+
+    console.log("⭐ Primary device set:", deviceId);
+    return this.getUserDevices(user_id);
+  }
+
   static async disconnectDevice(user_id: string, deviceId: string) {
     try {
       console.log("🔌 Disconnecting device:", deviceId, "for user:", user_id);
@@ -134,6 +208,7 @@ export class DeviceService {
         where: { connected_device_id: deviceId },
         data: {
           connection_status: "DISCONNECTED",
+          is_primary_device: false,
           access_token_encrypted: null,
           refresh_token_encrypted: null,
           token_expires_at: null,
@@ -141,6 +216,24 @@ export class DeviceService {
         },
       });
 
+      if (device.is_primary_device) {
+        // The most recently synced connected device takes over as primary
+        const successor = await prisma.connectedDevice.findFirst({
+          where: { user_id, connection_status: "CONNECTED" },
+          orderBy: { last_sync_time: { sort: "desc", nulls: "last" } },
+        });
+        if (successor) {
+          await prisma.connectedDevice.update({
+            where: { connected_device_id: successor.connected_device_id },
+            data: { is_primary_device: true },
+          });
+          console.log(
+            "⭐ Primary device moved to:",
+            successor.connected_device_id
+          );
+        }
+      }
+
       console.log("✅ Device disconnected");
     } catch (error) {
       console.error("💥 Error disconnecting device:", error);
@@ -148,13 +241,125 @@ export class DeviceService {
     }
   }
 
+  // Zone the device's days are bucketed in, as last reported by the app;
+  // devices that never reported one follow the user's zone
+  static getDeviceTimeZone(
+    device: { device_settings?: any },
+    userTimeZone?: string | null
+  ) {
+    return resolveTimeZone(device.device_settings?.timezone || userTimeZone);
+  }
+
   static async syncDeviceData(
     user_id: string,
     deviceId: string,
-    activityData: ActivityData
+    activityData: ActivityData,
+    date?: string
+  ) {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id },
+    });
+    if (!device) {
+      throw new Error("Device not found");
+    }
+
+    const [activitySummary] = await this.syncActivityHistory(
+      user_id,
+      deviceId,
+      [
+        {
+          ...activityData,
+          date:
+            date ||
+            getLocalDateString(
+              new Date(),
+              this.getDeviceTimeZone(
+                device,
+                await TimeZoneService.getUserTimeZone(user_id)
+              )
+            ),
+        },
+      ]
+    );
+    return activitySummary;
+  }
+
+  /**
+   * Places each record of a batch sync on its own local day. Records without
+   * a date are bucketed by their timestamp in the request's time zone, which
+   * is remembered on the device for server-side syncs.
+   */
+  static async syncActivityBatch(
+    user_id: string,
+    deviceId: string,
+    input: SyncActivityInput
+  ) {
+    const device = await prisma.connectedDevice.findFirst({
+      where: { connected_device_id: deviceId, user_id },
+    });
+    if (!device) {
+      throw new Error("Device not found");
+    }
+
+    const timeZone =
+      input.timezone ||
+      this.getDeviceTimeZone(
+        device,
+        await TimeZoneService.getUserTimeZone(user_id)
+      );
+    const settings = asJsonObject(device.device_settings);
+    if (input.timezone && input.timezone !== settings.timezone) {
+      await prisma.connectedDevice.update({
+        where: { connected_device_id: deviceId },
+        data: {
+          device_settings: {
+            ...settings,
+            timezone: input.timezone,
+          },
+        },
+      });
+    }
+
+    // Later records for the same day replace earlier ones
+    const recordsByDate = new Map<string, DatedActivityData>();
+    for (const { date, timestamp, ...activityData } of input.records) {
+      const localDate =
+        date ||
+        getLocalDateString(
+          timestamp ? new Date(timestamp) : new Date(),
+          timeZone
+        );
+      recordsByDate.set(localDate, { ...activityData, date: localDate });
+    }
+
+    const summaries = await this.syncActivityHistory(
+      user_id,
+      deviceId,
+      Array.from(recordsByDate.values())
+    );
+
+    const dates = Array.from(recordsByDate.keys()).sort();
+    return {
+      daysSynced: summaries.length,
+      from: dates[0],
+      to: dates[dates.length - 1],
+      timezone: timeZone,
+    };
+  }
+
+  // Upserts one DailyActivitySummary per record, all or nothing
+  static async syncActivityHistory(
+    user_id: string,
+    deviceId: string,
+    records: DatedActivityData[]
   ) {
     try {
-      console.log("🔄 Syncing device data:", deviceId, activityData);
+      console.log(
+        "🔄 Syncing",
+        records.length,
+        "day(s) of activity for device:",
+        deviceId
+      );
 
       const device = await prisma.connectedDevice.findFirst({
         where: {
@@ -167,49 +372,61 @@ export class DeviceService {
         throw new Error("Device not found");
       }
 
-      const today = new Date().toISOString().split("T")[0];
+      const summaries = await prisma.$transaction(
+        records.map(({ date, ...activityData }) =>
+          prisma.dailyActivitySummary.upsert({
+            where: {
+              user_id_device_id_date: {
+                user_id,
+                device_id: deviceId,
+                date: dateStringToDbDate(date),
+              },
+            },
+            update: {
+              steps: activityData.steps || 0,
+              calories_burned: activityData.caloriesBurned || 0,
+              active_minutes: activityData.activeMinutes || 0,
+              bmr_estimate: activityData.bmr || 0,
+              heart_rate_avg: activityData.heartRate,
+              weight_kg: activityData.weight,
+              body_fat_percentage: activityData.bodyFat,
+              sleep_hours: activityData.sleepHours,
+              distance_km: activityData.distance,
+              sync_timestamp: new Date(),
+              updated_at: new Date(),
+              raw_data: activityData as Prisma.InputJsonObject,
+            },
+            create: {
+              user_id,
+              device_id: deviceId,
+              date: dateStringToDbDate(date),
+              steps: activityData.steps || 0,
+              calories_burned: activityData.caloriesBurned || 0,
+              active_minutes: activityData.activeMinutes || 0,
+              bmr_estimate: activityData.bmr || 0,
+              heart_rate_avg: activityData.heartRate,
+              weight_kg: activityData.weight,
+              body_fat_percentage: activityData.bodyFat,
+              sleep_hours: activityData.sleepHours,
+              distance_km: activityData.distance,
+              source_device: device.device_name,
+              sync_timestamp: new Date(),
+              raw_data: activityData as Prisma.InputJsonObject,
+            },
+          })
+        )
+      );
 
-      // Upsert daily activity summary
-      const activitySummary = await prisma.dailyActivitySummary.upsert({
-        where: {
-          user_id_device_id_date: {
-            user_id,
-            device_id: deviceId,
-            date: new Date(today),
-          },
-        },
-        update: {
-          steps: activityData.steps || 0,
-          calories_burned: activityData.caloriesBurned || 0,
-          active_minutes: activityData.activeMinutes || 0,
-          bmr_estimate: activityData.bmr || 0,
-          heart_rate_avg: activityData.heartRate,
-          weight_kg: activityData.weight,
-          body_fat_percentage: activityData.bodyFat,
-          sleep_hours: activityData.sleepHours,
-          distance_km: activityData.distance,
-          sync_timestamp: new Date(),
-          updated_at: new Date(),
-          raw_data: activityData as any,
-        },
-        create: {
-          user_id,
-          device_id: deviceId,
-          date: new Date(today),
-          steps: activityData.steps || 0,
-          calories_burned: activityData.caloriesBurned || 0,
-          active_minutes: activityData.activeMinutes || 0,
-          bmr_estimate: activityData.bmr || 0,
-          heart_rate_avg: activityData.heartRate,
-          weight_kg: activityData.weight,
-          body_fat_percentage: activityData.bodyFat,
-          sleep_hours: activityData.sleepHours,
-          distance_km: activityData.distance,
-          source_device: device.device_name,
-          sync_timestamp: new Date(),
-          raw_data: activityData as any,
-        },
-      });
+      // Smart scales: weigh-ins also feed the body metrics log
+      await BodyMetricsService.recordDeviceMeasurements(
+        user_id,
+        deviceId,
+        records,
+        this.getDeviceTimeZone(
+          device,
+          await TimeZoneService.getUserTimeZone(user_id)
+        )
+      );
 
       // Update device last sync time
       await prisma.connectedDevice.update({
@@ -217,12 +434,13 @@ export class DeviceService {
         data: {
           last_sync_time: new Date(),
           connection_status: "CONNECTED",
+          last_sync_error: null,
           updated_at: new Date(),
         },
       });
 
       console.log("✅ Device data synced successfully");
-      return activitySummary;
+      return summaries;
     } catch (error) {
       console.error("💥 Error syncing device data:", error);
       throw new Error("Failed to sync device data");
@@ -276,17 +494,17 @@ export class DeviceService {
         date
       );
 
-      // Get calories consumed from meals
-      const startDate = new Date(date);
-      const endDate = new Date(date);
-      endDate.setDate(endDate.getDate() + 1);
+      // Get calories consumed from meals during the user's local day
+      const timeZone = await TimeZoneService.getUserTimeZone(user_id);
+      const { start, end } = getZonedDayBounds(date, timeZone);
 
       const meals = await prisma.meal.findMany({
         where: {
           user_id,
+          analysis_status: "COMPLETED",
           created_at: {
-            gte: startDate,
-            lt: endDate,
+            gte: start,
+            lt: end,
           },
         },
       });
@@ -296,16 +514,11 @@ export class DeviceService {
         0
       );
 
-      // Get calories burned from activity data
-      const activityData = await prisma.dailyActivitySummary.findFirst({
-        where: {
-          user_id,
-          date: new Date(date),
-        },
-        orderBy: {
-          sync_timestamp: "desc",
-        },
-      });
+      // Get calories burned from the merged view across all devices
+      const activityData = await ActivityMergeService.getMergedDay(
+        user_id,
+        date
+      );
 
       if (!activityData) {
         console.log("⚠️ No activity data found for date");
@@ -345,19 +558,6 @@ export class DeviceService {
     }
   }
 
-  // TOKEN ENCRYPTION/DECRYPTION (Basic implementation - use proper encryption in production)
-  private static encryptToken(token: string): string {
-    // In production, use proper encryption like AES
-    // For now, just base64 encode (NOT SECURE - for demo only)
-    return Buffer.from(token).toString("base64");
-  }
-
-  private static decryptToken(encryptedToken: string): string {
-    // In production, use proper decryption
-    // For now, just base64 decode (NOT SECURE - for demo only)
-    return Buffer.from(encryptedToken, "base64").toString();
-  }
-
   static async getDeviceTokens(
     user_id: string,
     deviceId: string
@@ -379,10 +579,10 @@ export class DeviceService {
 
       return {
         accessToken: device.access_token_encrypted
-          ? this.decryptToken(device.access_token_encrypted)
+          ? decryptToken(device.access_token_encrypted)
           : undefined,
         refreshToken: device.refresh_token_encrypted
-          ? this.decryptToken(device.refresh_token_encrypted)
+          ? decryptToken(device.refresh_token_encrypted)
           : undefined,
       };
     } catch (error) {
@@ -395,7 +595,8 @@ export class DeviceService {
     user_id: string,
     deviceId: string,
     accessToken?: string,
-    refreshToken?: string
+    refreshToken?: string,
+    expiresIn?: number
   ) {
     try {
       await prisma.connectedDevice.updateMany({
@@ -405,14 +606,12 @@ export class DeviceService {
         },
         data: {
           access_token_encrypted: accessToken
-            ? this.encryptToken(accessToken)
+            ? encryptToken(accessToken)
             : undefined,
           refresh_token_encrypted: refreshToken
-            ? this.encryptToken(refreshToken)
-            : undefined,
-          token_expires_at: accessToken
-            ? new Date(Date.now() + 3600000)
+            ? encryptToken(refreshToken)
             : undefined,
+          token_expires_at: accessToken ? getTokenExpiry(expiresIn) : undefined,
           updated_at: new Date(),
         },
       });
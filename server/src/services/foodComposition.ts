@@ -0,0 +1,275 @@
+import { prisma } from "../lib/database";
+import { normalizePortionUnit } from "../lib/foodComposition";
+import {
+  FoodCompositionData,
+  FoodCompositionRecord,
+  FoodCompositionSourceName,
+  FoodPortionData,
+  NutrientKey,
+  NutrientProfile,
+} from "../types/foodComposition";
+import { foodNameWords } from "../utils/mealText";
+
+export class FoodNotFoundError extends Error {
+  constructor(readonly foodId: number) {
+    super(`No food found with id ${foodId}`);
+    this.name = "FoodNotFoundError";
+  }
+}
+
+const IMPORT_BATCH_SIZE = 200;
+const MATCH_MAX_WORDS = 6;
+const MATCH_CANDIDATES = 500;
+const SEARCH_CANDIDATES = 200;
+
+// Units that count whole items ("2 eggs", "an apple") rather than measure
+const COUNT_UNITS = new Set([
+  "serving",
+  "piece",
+  "unit",
+  "item",
+  "whole",
+  "each",
+  "יחידה",
+  "מנה",
+  "חתיכה",
+]);
+
+// Portions that stand for one whole item, in order of preference
+const ITEM_PORTION_UNITS = [
+  "medium",
+  "piece",
+  "unit",
+  "each",
+  "large",
+  "small",
+  "serving",
+  "יחידה",
+  "בינוני",
+  "מנה",
+];
+
+function toSearchText(record: { name_en: string; name_he?: string | null }) {
+  return foodNameWords([record.name_en, record.name_he].join(" ")).join(" ");
+}
+
+function toFoodData(food: {
+  food_id: number;
+  source: string;
+  source_id: string;
+  name_en: string;
+  name_he: string | null;
+  category: string | null;
+  nutrients: any;
+  portions: { unit: string; label: string | null; grams: number }[];
+}): FoodCompositionData {
+  return {
+    food_id: food.food_id,
+    source: food.source as FoodCompositionSourceName,
+    source_id: food.source_id,
+    name_en: food.name_en,
+    name_he: food.name_he ?? undefined,
+    category: food.category ?? undefined,
+    nutrients_per_100g: (food.nutrients || {}) as NutrientProfile,
+    portions: food.portions.map((portion): FoodPortionData => ({
+      unit: portion.unit,
+      label: portion.label ?? undefined,
+      grams: portion.grams,
+    })),
+  };
+}
+
+/**
+ * How well a database food fits a food named in free text, or null when it
+ * doesn't fit. The leading part of the database name ("Bread" in "Bread,
+ * whole-wheat, commercially prepared") must be in the query; each further
+ * query word found raises the score and each unmatched name word lowers it.
+ */
+function matchScore(queryWords: Set<string>, food: FoodCompositionData) {
+  let best: number | null = null;
+  for (const name of [food.name_en, food.name_he]) {
+    if (!name) continue;
+    const headWords = foodNameWords(name.split(",")[0]);
+    if (
+      headWords.length === 0 ||
+      !headWords.every((word) => queryWords.has(word))
+    ) {
+      continue;
+    }
+
+    const nameWords = new Set(foodNameWords(name));
+    let matched = 0;
+    nameWords.forEach((word) => {
+      if (queryWords.has(word)) matched++;
+    });
+    const score = matched * 10 - (nameWords.size - matched);
+    if (best === null || score > best) best = score;
+  }
+  return best;
+}
+
+export class FoodCompositionService {
+  /**
+   * Loads foods from a composition table, replacing earlier imports of the
+   * same source records along with their portions. Safe to re-run with a
+   * newer release of the dataset.
+   */
+  static async importFoods(
+    foods: AsyncIterable<FoodCompositionRecord>,
+    onProgress?: (imported: number) => void
+  ) {
+    let imported = 0;
+    let batch: FoodCompositionRecord[] = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+      await prisma.$transaction(
+        batch.map((food) => {
+          const fields = {
+            name_en: food.name_en,
+            name_he: food.name_he ?? null,
+            category: food.category ?? null,
+            nutrients: food.nutrients_per_100g,
+            search_text: toSearchText(food),
+          };
+          return prisma.foodComposition.upsert({
+            where: {
+              source_source_id: {
+                source: food.source,
+                source_id: food.source_id,
+              },
+            },
+            create: {
+              source: food.source,
+              source_id: food.source_id,
+              ...fields,
+              portions: { create: food.portions },
+            },
+            update: {
+              ...fields,
+              portions: { deleteMany: {}, create: food.portions },
+            },
+          });
+        })
+      );
+      imported += batch.length;
+      batch = [];
+      onProgress?.(imported);
+    };
+
+    for await (const food of foods) {
+      batch.push(food);
+      if (batch.length >= IMPORT_BATCH_SIZE) {
+        await flush();
+      }
+    }
+    await flush();
+
+    return { imported };
+  }
+
+  // Foods whose Hebrew or English name contains every word of the query,
+  // shortest (most generic) names first
+  static async search(query: string, limit: number) {
+    const words = foodNameWords(query).slice(0, MATCH_MAX_WORDS);
+    if (words.length === 0) return [];
+
+    const foods = await prisma.foodComposition.findMany({
+      where: {
+        AND: words.map((word) => ({ search_text: { contains: word } })),
+      },
+      include: { portions: true },
+      take: SEARCH_CANDIDATES,
+    });
+
+    return foods
+      .map(toFoodData)
+      .sort(
+        (a, b) =>
+          foodNameWords(a.name_en).length - foodNameWords(b.name_en).length
+      )
+      .slice(0, limit);
+  }
+
+  static async getFood(foodId: number) {
+    const food = await prisma.foodComposition.findUnique({
+      where: { food_id: foodId },
+      include: { portions: true },
+    });
+    if (!food) {
+      throw new FoodNotFoundError(foodId);
+    }
+    return toFoodData(food);
+  }
+
+  /**
+   * The database food that best fits a food named in free text. Names are
+   * tried in order (e.g. the Hebrew name, then its English translation)
+   * until one matches.
+   */
+  static async findBestMatch(names: string[]) {
+    for (const name of names) {
+      const words = foodNameWords(name).slice(0, MATCH_MAX_WORDS);
+      if (words.length === 0) continue;
+
+      const candidates = await prisma.foodComposition.findMany({
+        where: {
+          OR: words.map((word) => ({ search_text: { contains: word } })),
+        },
+        include: { portions: true },
+        take: MATCH_CANDIDATES,
+      });
+
+      const queryWords = new Set(words);
+      let best: FoodCompositionData | null = null;
+      let bestScore = -Infinity;
+      for (const candidate of candidates.map(toFoodData)) {
+        const score = matchScore(queryWords, candidate);
+        if (score !== null && score > bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+      if (best) return best;
+    }
+    return null;
+  }
+
+  /**
+   * Grams in an amount given in the food's household measures ("2 slice",
+   * "1 cup"). Counted items ("2 eggs", "1 serving") use the food's typical
+   * whole-item portion. Returns null when the food has no fitting measure.
+   */
+  static gramsForAmount(
+    food: FoodCompositionData,
+    quantity: number,
+    unit: string
+  ) {
+    const wanted = normalizePortionUnit(unit);
+    const exact = food.portions.find((portion) => portion.unit === wanted);
+    if (exact) return exact.grams * quantity;
+
+    const nameWords = foodNameWords(`${food.name_en} ${food.name_he ?? ""}`);
+    const countsItems =
+      COUNT_UNITS.has(wanted) || nameWords.includes(foodNameWords(wanted)[0]);
+    if (!countsItems) return null;
+
+    for (const itemUnit of ITEM_PORTION_UNITS) {
+      const portion = food.portions.find((p) => p.unit === itemUnit);
+      if (portion) return portion.grams * quantity;
+    }
+    return null;
+  }
+
+  // The food's nutrients in the given weight; keys without data stay absent
+  static nutrientsFor(food: FoodCompositionData, grams: number) {
+    const scale = grams / 100;
+    const nutrients: NutrientProfile = {};
+    for (const [key, amount] of Object.entries(food.nutrients_per_100g)) {
+      if (typeof amount === "number") {
+        nutrients[key as NutrientKey] = amount * scale;
+      }
+    }
+    return nutrients;
+  }
+}
@@ -1,37 +1,9 @@
 import { prisma } from "../lib/database";
-import { openai } from "./openai";
-import axios from "axios";
-
-interface ProductData {
-  barcode?: string;
-  name: string;
-  brand?: string;
-  category: string;
-  nutrition_per_100g: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    fiber?: number;
-    sugar?: number;
-    sodium?: number;
-    saturated_fat?: number;
-    trans_fat?: number;
-    cholesterol?: number;
-    potassium?: number;
-    calcium?: number;
-    iron?: number;
-    vitamin_c?: number;
-    vitamin_d?: number;
-  };
-  ingredients: string[];
-  allergens: string[];
-  labels: string[];
-  health_score?: number;
-  image_url?: string;
-  serving_size?: string;
-  servings_per_container?: number;
-}
+import { LLMService } from "./llm";
+import { ProductCatalogService } from "./productCatalog";
+import { RestrictionService } from "./restrictions";
+import { ProductData } from "../types/foodProducts";
+import { RestrictionWarning } from "../types/restrictions";
 
 interface UserAnalysis {
   compatibility_score: number;
@@ -44,8 +16,18 @@ interface UserAnalysis {
   alerts: string[];
   recommendations: string[];
   health_assessment: string;
+  restriction_warnings: RestrictionWarning[];
 }
 
+const RESTRICTION_ALERT_ICONS = {
+  allergen: "⚠️",
+  diet: "🌱",
+  kosher: "✡️",
+} as const;
+
+// Score penalty per warning severity
+const RESTRICTION_PENALTIES = { high: 30, medium: 10, low: 5 } as const;
+
 export class FoodScannerService {
   static async scanBarcode(
     barcode: string,
@@ -57,26 +39,11 @@ export class FoodScannerService {
     try {
       console.log("🔍 Scanning barcode:", barcode);
 
-      // Try to get product from our database first
-      let productData = await this.getProductFromDatabase(barcode);
-
-      if (!productData) {
-        // Try external food database APIs
-        productData = await this.getProductFromExternalAPI(barcode);
-
-        if (!productData) {
-          throw new Error("Product not found in any database");
-        }
-
-        // Save to our database for future use
-        await this.saveProductToDatabase(productData, barcode, userId);
-      } else {
-        // Update the access time for existing products
-        await prisma.foodProduct.update({
-          where: { barcode },
-          data: { updated_at: new Date() },
-        });
-      }
+      // Shared catalog first, OpenFoodFacts as a fallback
+      const productData = await ProductCatalogService.lookupBarcode(
+        barcode,
+        userId
+      );
 
       // Get user-specific analysis
       const userAnalysis = await this.analyzeProductForUser(
@@ -104,8 +71,8 @@ export class FoodScannerService {
     try {
       console.log("📷 Scanning product image with AI...");
 
-      if (!openai || !process.env.OPENAI_API_KEY) {
-        throw new Error("AI image scanning not available - no API key");
+      if (!LLMService.isAvailable()) {
+        throw new Error("AI image scanning not available - no LLM provider");
       }
 
       const systemPrompt = `You are a comprehensive nutrition label scanner. Analyze the food product image and extract complete nutritional information.
@@ -143,8 +110,8 @@ Return JSON with this exact structure:
 
 Extract all visible nutritional information. If a value is not visible, use 0 or null. Calculate health score based on nutritional quality: high fiber/protein = good, high sugar/sodium = bad. Be precise with nutritional values.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const response = await LLMService.complete("product_scan", {
+        userId,
         messages: [
           {
             role: "system",
@@ -167,22 +134,20 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
             ],
           },
         ],
-        max_tokens: 1000,
-        temperature: 0.1,
       });
 
-      const content = response.choices[0]?.message?.content;
+      const content = response.content;
       if (!content) {
         throw new Error("No response from AI");
       }
 
-      const productData = JSON.parse(content) as ProductData;
+      const scannedProduct = JSON.parse(content) as ProductData;
 
-      // Save to database if barcode was detected, or create a unique identifier for image scans
-      const productId =
-        productData.barcode ||
-        `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      await this.saveProductToDatabase(productData, productId, userId);
+      // Known barcodes keep the label reading as this user's correction
+      const productData = await ProductCatalogService.saveLabelScan(
+        userId,
+        scannedProduct
+      );
 
       // Get user-specific analysis
       const userAnalysis = await this.analyzeProductForUser(
@@ -292,10 +257,11 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
   static async getScanHistory(userId: string): Promise<any[]> {
     try {
       // Get both scanned food products and meals created from scanned items
-      const [products, meals] = await Promise.all([
-        prisma.foodProduct.findMany({
+      const [products, meals, profile] = await Promise.all([
+        prisma.productScan.findMany({
           where: { user_id: userId },
-          orderBy: { created_at: "desc" },
+          include: { product: true },
+          orderBy: { scanned_at: "desc" },
           take: 25,
         }),
         prisma.meal.findMany({
@@ -306,19 +272,24 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
           orderBy: { created_at: "desc" },
           take: 25,
         }),
+        RestrictionService.getProfile(userId),
       ]);
 
       // Combine and format the results
       const history = [
-        ...products.map((product) => ({
-          id: product.product_id,
-          product_name: product.product_name,
-          name: product.product_name,
-          brand: product.brand,
-          category: product.category,
-          barcode: product.barcode,
-          created_at: product.created_at,
+        ...products.map((scan) => ({
+          id: scan.product.product_id,
+          product_name: scan.product.product_name,
+          name: scan.product.product_name,
+          brand: scan.product.brand,
+          category: scan.product.category,
+          barcode: scan.product.barcode,
+          created_at: scan.scanned_at,
           type: "product",
+          restriction_warnings: RestrictionService.checkFood(
+            profile,
+            RestrictionService.describeMeal(scan.product)
+          ),
         })),
         ...meals.map((meal) => ({
           id: meal.meal_id,
@@ -327,6 +298,10 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
           category: meal.food_category,
           created_at: meal.created_at,
           type: "meal",
+          restriction_warnings: RestrictionService.checkFood(
+            profile,
+            RestrictionService.describeMeal(meal)
+          ),
         })),
       ].sort(
         (a, b) =>
@@ -340,148 +315,15 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
     }
   }
 
-  private static async getProductFromDatabase(
-    barcode: string
-  ): Promise<ProductData | null> {
-    try {
-      const product = await prisma.foodProduct.findUnique({
-        where: { barcode },
-      });
-
-      if (!product) return null;
-
-      return {
-        barcode: product.barcode,
-        name: product.product_name,
-        brand: product.brand || undefined,
-        category: product.category,
-        nutrition_per_100g: product.nutrition_per_100g as any,
-        ingredients: product.ingredients as string[],
-        allergens: product.allergens as string[],
-        labels: product.labels as string[],
-        health_score: product.health_score || undefined,
-        image_url: product.image_url || undefined,
-      };
-    } catch (error) {
-      console.error("Error getting product from database:", error);
-      return null;
-    }
-  }
-
-  private static async getProductFromExternalAPI(
-    barcode: string
-  ): Promise<ProductData | null> {
-    try {
-      // Try OpenFoodFacts
-      const response = await axios.get(
-        `https://world.openfoodfacts.org/api/v0/product/${barcode}.json`,
-        { timeout: 5000 }
-      );
-
-      if (response.data.status === 1 && response.data.product) {
-        const product = response.data.product;
-        const nutriments = product.nutriments || {};
-
-        return {
-          barcode,
-          name: product.product_name || "Unknown Product",
-          brand: product.brands || undefined,
-          category: product.categories?.split(",")[0] || "Unknown",
-          nutrition_per_100g: {
-            calories:
-              nutriments.energy_kcal_100g ||
-              nutriments["energy-kcal_100g"] ||
-              nutriments.energy_100g ||
-              0,
-            protein: nutriments.proteins_100g || 0,
-            carbs: nutriments.carbohydrates_100g || 0,
-            fat: nutriments.fat_100g || 0,
-            fiber: nutriments.fiber_100g || undefined,
-            sugar: nutriments.sugars_100g || undefined,
-            sodium: nutriments.sodium_100g
-              ? nutriments.sodium_100g * 1000
-              : undefined,
-            saturated_fat: nutriments.saturated_fat_100g || undefined,
-            trans_fat: nutriments.trans_fat_100g || undefined,
-            cholesterol: nutriments.cholesterol_100g || undefined,
-            potassium: nutriments.potassium_100g || undefined,
-            calcium: nutriments.calcium_100g || undefined,
-            iron: nutriments.iron_100g || undefined,
-            vitamin_c: nutriments.vitamin_c_100g || undefined,
-            vitamin_d: nutriments.vitamin_d_100g || undefined,
-          },
-          ingredients:
-            product.ingredients_text_en
-              ?.split(",")
-              .map((i: string) => i.trim()) || [],
-          allergens:
-            product.allergens_tags?.map((a: string) => a.replace("en:", "")) ||
-            [],
-          labels:
-            product.labels_tags?.map((l: string) => l.replace("en:", "")) || [],
-          health_score: product.nutriscore_score || undefined,
-          image_url: product.image_url || undefined,
-          serving_size: product.serving_size || undefined,
-          servings_per_container: product.servings_per_container || undefined,
-        };
-      }
-
-      return null;
-    } catch (error: any) {
-      console.warn("❌ OpenFoodFacts failed:", error.message || error);
-      return null;
-    }
-  }
-
-  private static async saveProductToDatabase(
-    productData: ProductData,
-    barcode: string,
-    user_id: string
-  ): Promise<void> {
-    try {
-      await prisma.foodProduct.upsert({
-        where: { barcode },
-        update: {
-          product_name: productData.name,
-          brand: productData.brand,
-          category: productData.category,
-          nutrition_per_100g: productData.nutrition_per_100g,
-          ingredients: productData.ingredients,
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score,
-          image_url: productData.image_url,
-          updated_at: new Date(),
-        },
-        create: {
-          barcode,
-          product_name: productData.name,
-          brand: productData.brand,
-          category: productData.category,
-          nutrition_per_100g: productData.nutrition_per_100g,
-          ingredients: productData.ingredients,
-          allergens: productData.allergens,
-          labels: productData.labels,
-          health_score: productData.health_score,
-          image_url: productData.image_url,
-          user_id,
-          created_at: new Date(),
-        },
-      });
-    } catch (error) {
-      console.error("Error saving product to database:", error);
-    }
-  }
-
   private static async analyzeProductForUser(
     productData: ProductData,
     userId: string
   ): Promise<UserAnalysis> {
     try {
       // Get user's nutrition goals and preferences
-      const [nutritionPlan, questionnaire] = await Promise.all([
+      const [nutritionPlan, profile] = await Promise.all([
         prisma.nutritionPlan.findFirst({ where: { user_id: userId } }),
-        prisma.userQuestionnaire.findFirst({ where: { user_id: userId } }),
+        RestrictionService.getProfile(userId),
       ]);
 
       const analysis: UserAnalysis = {
@@ -495,6 +337,7 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
         alerts: [],
         recommendations: [],
         health_assessment: "מוצר נייטרלי מבחינה תזונתית",
+        restriction_warnings: [],
       };
 
       // Calculate daily contribution percentages
@@ -516,43 +359,21 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
         };
       }
 
-      // Check for dietary restrictions
-      if (questionnaire) {
-        const userAllergies =
-          (questionnaire.allergies as string[] | null | undefined) || [];
-        const productAllergens = productData.allergens || [];
-        const allergenMatches = userAllergies.filter((allergy: string) =>
-          productAllergens.some((allergen) =>
-            allergen.toLowerCase().includes(allergy.toLowerCase())
-          )
+      // Allergies, diet and kosher, shared with every other food surface
+      const restrictionWarnings = RestrictionService.checkFood(profile, {
+        name: productData.name,
+        ingredients: productData.ingredients,
+        allergens: productData.allergens,
+        labels: productData.labels,
+      });
+      for (const warning of restrictionWarnings) {
+        analysis.alerts.push(
+          `${RESTRICTION_ALERT_ICONS[warning.type]} ${warning.message}`
         );
-
-        if (allergenMatches.length > 0) {
-          analysis.alerts.push(
-            `⚠️ אלרגן: המוצר מכיל ${allergenMatches.join(", ")}`
-          );
-          analysis.compatibility_score -= 30;
-        }
-
-        // Check dietary style compatibility
-        const dietaryStyle = questionnaire.dietary_style?.toLowerCase();
-        const productLabels = productData.labels.map((l) => l.toLowerCase());
-
-        if (dietaryStyle === "vegan" && !productLabels.includes("vegan")) {
-          analysis.alerts.push("🌱 המוצר אינו מתאים לתזונה טבגנית");
-          analysis.compatibility_score -= 20;
-        }
-
-        if (dietaryStyle === "vegetarian" && productLabels.includes("meat")) {
-          analysis.alerts.push("🥬 המוצר מכיל בשר ואינו מתאים לצמחונים");
-          analysis.compatibility_score -= 20;
-        }
-
-        if (questionnaire.kosher && !productLabels.includes("kosher")) {
-          analysis.alerts.push("✡️ המוצר אינו כשר");
-          analysis.compatibility_score -= 15;
-        }
+        analysis.compatibility_score -= RESTRICTION_PENALTIES[warning.severity];
       }
+      analysis.restriction_warnings = restrictionWarnings;
+      productData.restriction_warnings = restrictionWarnings;
 
       // Health assessment based on nutrition
       const nutrition = productData.nutrition_per_100g;
@@ -607,6 +428,7 @@ Extract all visible nutritional information. If a value is not visible, use 0 or
         alerts: [],
         recommendations: [],
         health_assessment: "לא הצלחנו לנתח את המוצר",
+        restriction_warnings: [],
       };
     }
   }
@@ -0,0 +1,200 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import { prisma } from "../lib/database";
+import { getBlobStore } from "../lib/blobStore";
+
+const IMAGE_URL_PREFIX = "/api/images/";
+const THUMBNAIL_SIZE = 320;
+const MIGRATION_BATCH_SIZE = 25;
+
+export type ImageVariant = "original" | "thumbnail";
+
+export function toImageReference(image_id: string) {
+  return `${IMAGE_URL_PREFIX}${image_id}`;
+}
+
+export function isInlineImage(imageUrl?: string | null) {
+  return !!imageUrl && imageUrl.startsWith("data:image/");
+}
+
+function decodeBase64Image(imageBase64: string) {
+  const match = imageBase64.match(/^data:(image\/[a-zA-Z+.-]+);base64,/);
+  const cleanBase64 = imageBase64.replace(/^data:.*base64,/, "").trim();
+  return {
+    buffer: Buffer.from(cleanBase64, "base64"),
+    declaredMimeType: match?.[1],
+  };
+}
+
+function isRawBase64(value: string) {
+  return /^[A-Za-z0-9+/]+={0,2}$/.test(value.replace(/\s/g, ""));
+}
+
+export class ImageStorageService {
+  /**
+   * Stores an image once per content hash. Uploading the same photo twice
+   * (e.g. analyze followed by save) reuses the existing blob and row.
+   */
+  static async storeImage(user_id: string, buffer: Buffer, mimeType?: string) {
+    if (buffer.length === 0) throw new Error("Image data is empty");
+
+    const content_hash = crypto
+      .createHash("sha256")
+      .update(buffer)
+      .digest("hex");
+
+    const existing = await prisma.storedImage.findUnique({
+      where: { user_id_content_hash: { user_id, content_hash } },
+    });
+    if (existing) {
+      return { ...existing, url: toImageReference(existing.image_id) };
+    }
+
+    const store = getBlobStore();
+    const metadata = await sharp(buffer).metadata();
+    const mime_type =
+      mimeType || (metadata.format ? `image/${metadata.format}` : "image/jpeg");
+
+    const storage_key = `images/${content_hash.slice(0, 2)}/${content_hash}`;
+    const thumbnail_key = `thumbnails/${content_hash.slice(
+      0,
+      2
+    )}/${content_hash}.jpg`;
+
+    // Blobs are shared across users, so only write when missing
+    if (!(await store.exists(storage_key))) {
+      await store.put(storage_key, buffer, mime_type);
+    }
+    if (!(await store.exists(thumbnail_key))) {
+      const thumbnail = await sharp(buffer)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+        .jpeg({ quality: 75 })
+        .toBuffer();
+      await store.put(thumbnail_key, thumbnail, "image/jpeg");
+    }
+
+    const image = await prisma.storedImage.upsert({
+      where: { user_id_content_hash: { user_id, content_hash } },
+      update: {},
+      create: {
+        user_id,
+        content_hash,
+        mime_type,
+        size_bytes: buffer.length,
+        width: metadata.width ?? null,
+        height: metadata.height ?? null,
+        storage_backend: store.backend,
+        storage_key,
+        thumbnail_key,
+      },
+    });
+
+    console.log("🖼️ Stored image", image.image_id, `(${buffer.length} bytes)`);
+    return { ...image, url: toImageReference(image.image_id) };
+  }
+
+  static async storeBase64Image(user_id: string, imageBase64: string) {
+    const { buffer, declaredMimeType } = decodeBase64Image(imageBase64);
+    return this.storeImage(user_id, buffer, declaredMimeType);
+  }
+
+  /**
+   * Resolves what a meal should store in image_url: existing references are
+   * kept as-is, inline base64 is moved into the blob store. Anything else,
+   * such as a file:// path local to the phone, is dropped.
+   */
+  static async resolveImageUrl(user_id: string, image?: string | null) {
+    if (!image?.trim()) return undefined;
+    if (image.startsWith(IMAGE_URL_PREFIX) || /^https?:\/\//.test(image)) {
+      return image;
+    }
+    if (!image.startsWith("data:image/") && !isRawBase64(image)) {
+      console.log("⚠️ Ignoring image that is neither a URL nor base64 data");
+      return undefined;
+    }
+    const stored = await this.storeBase64Image(user_id, image);
+    return stored.url;
+  }
+
+  static async getImage(
+    user_id: string,
+    image_id: string,
+    variant: ImageVariant = "original"
+  ) {
+    const image = await prisma.storedImage.findFirst({
+      where: { image_id, user_id },
+    });
+    if (!image) return null;
+
+    const store = getBlobStore();
+    const key =
+      variant === "thumbnail" && image.thumbnail_key
+        ? image.thumbnail_key
+        : image.storage_key;
+    const data = await store.get(key);
+    if (!data) return null;
+
+    return {
+      data,
+      mime_type:
+        variant === "thumbnail" && image.thumbnail_key
+          ? "image/jpeg"
+          : image.mime_type,
+      content_hash: image.content_hash,
+    };
+  }
+
+  /**
+   * Moves meals that still carry data:image/...;base64 payloads into the
+   * blob store and rewrites image_url to the new reference.
+   */
+  static async migrateInlineMealImages(batchSize = MIGRATION_BATCH_SIZE) {
+    let migrated = 0;
+    let failed = 0;
+    let lastId = 0;
+
+    while (true) {
+      const meals = await prisma.meal.findMany({
+        // Failed rows keep their inline data, so page past them by id
+        where: {
+          image_url: { startsWith: "data:image/" },
+          meal_id: { gt: lastId },
+        },
+        select: { meal_id: true, user_id: true, image_url: true },
+        orderBy: { meal_id: "asc" },
+        take: batchSize,
+      });
+
+      if (meals.length === 0) break;
+
+      for (const meal of meals) {
+        try {
+          const stored = await this.storeBase64Image(
+            meal.user_id,
+            meal.image_url
+          );
+          await prisma.meal.update({
+            where: { meal_id: meal.meal_id },
+            data: { image_url: stored.url },
+          });
+          migrated++;
+        } catch (error) {
+          failed++;
+          console.error(
+            `❌ Failed to migrate image for meal ${meal.meal_id}:`,
+            error
+          );
+        }
+      }
+
+      lastId = meals[meals.length - 1].meal_id;
+      console.log(`📦 Migrated ${migrated} meal images so far...`);
+    }
+
+    console.log(
+      `✅ Meal image migration finished: ${migrated} migrated, ${failed} failed`
+    );
+    return { migrated, failed };
+  }
+}
@@ -0,0 +1,69 @@
+import { prisma } from "../lib/database";
+import {
+  KosherScheduledMeal,
+  KosherSettings,
+  KosherSettingsInput,
+} from "../types/kosher";
+import { RestrictionWarning } from "../types/restrictions";
+import { DEFAULT_KOSHER_SETTINGS, checkKosherSchedule } from "../utils/kosher";
+
+const SETTINGS_SELECT = {
+  meat_to_dairy_wait_minutes: true,
+  dairy_to_meat_wait_minutes: true,
+} as const;
+
+/**
+ * Per-user kosher waiting times and the schedule check built on them. The
+ * per-meal rules (non-kosher ingredients, meat with dairy) run as part of
+ * RestrictionService.checkFood.
+ */
+export class KosherService {
+  static async getSettings(userId: string): Promise<KosherSettings> {
+    const user = await prisma.user.findUnique({
+      where: { user_id: userId },
+      select: SETTINGS_SELECT,
+    });
+
+    return user || { ...DEFAULT_KOSHER_SETTINGS };
+  }
+
+  static async updateSettings(
+    userId: string,
+    input: KosherSettingsInput
+  ): Promise<KosherSettings> {
+    const user = await prisma.user.update({
+      where: { user_id: userId },
+      data: input,
+      select: SETTINGS_SELECT,
+    });
+
+    console.log("✡️ Kosher waiting times updated:", input);
+    return user;
+  }
+
+  // Waiting-time warnings keyed by the meal that breaks them
+  static getScheduleWarnings(
+    meals: KosherScheduledMeal[],
+    settings: KosherSettings
+  ) {
+    const warnings = new Map<string, RestrictionWarning[]>();
+    for (const issue of checkKosherSchedule(meals, settings)) {
+      warnings.set(issue.key, [
+        ...(warnings.get(issue.key) || []),
+        issue.warning,
+      ]);
+    }
+    return warnings;
+  }
+
+  // Whether the meal takes part in any waiting-time conflict, on either side
+  static breaksSchedule(
+    meals: KosherScheduledMeal[],
+    settings: KosherSettings,
+    key: string
+  ) {
+    return checkKosherSchedule(meals, settings).some(
+      (issue) => issue.key === key || issue.conflicts_with === key
+    );
+  }
+}
@@ -0,0 +1,564 @@
+import { prisma } from "../lib/database";
+import {
+  getLLMProvider,
+  LLMCompletion,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderError,
+  LLMRequest,
+  LLMTool,
+  LLMUsage,
+} from "../lib/llmProvider";
+import { z } from "zod";
+import {
+  AIOutputOutcome,
+  AiUsageSummary,
+  LLMFeature,
+  LLMFeatureConfig,
+} from "../types/llm";
+import { parseAIOutput } from "../utils/openai";
+
+const LLM_FEATURES: Record<LLMFeature, LLMFeatureConfig> = {
+  meal_analysis: {
+    model: "gpt-4o",
+    max_tokens: 3000,
+    temperature: 0.1,
+    timeout_ms: 60000,
+    max_retries: 2,
+  },
+  meal_update: {
+    model: "gpt-4o",
+    max_tokens: 3000,
+    temperature: 0.1,
+    timeout_ms: 30000,
+    max_retries: 2,
+  },
+  meal_text: {
+    model: "gpt-4o",
+    max_tokens: 1500,
+    temperature: 0.1,
+    timeout_ms: 30000,
+    max_retries: 2,
+  },
+  menu_generation: {
+    model: "gpt-4",
+    max_tokens: 4000,
+    temperature: 0.3,
+    timeout_ms: 120000,
+    max_retries: 1,
+  },
+  meal_replacement: {
+    model: "gpt-4o",
+    max_tokens: 1000,
+    temperature: 0.5,
+    timeout_ms: 30000,
+    max_retries: 2,
+  },
+  daily_menu: {
+    model: "gpt-3.5-turbo",
+    temperature: 0.9,
+    timeout_ms: 30000,
+    max_retries: 2,
+  },
+  chat: {
+    model: "gpt-4o",
+    max_tokens: 1000,
+    temperature: 0.7,
+    timeout_ms: 30000,
+    max_retries: 2,
+  },
+  chat_title: {
+    model: "gpt-4o-mini",
+    max_tokens: 30,
+    temperature: 0.3,
+    timeout_ms: 15000,
+    max_retries: 1,
+  },
+  health_recommendation: {
+    model: "gpt-4o",
+    max_tokens: 500,
+    temperature: 0.7,
+    timeout_ms: 30000,
+    max_retries: 2,
+  },
+  product_scan: {
+    model: "gpt-4o",
+    max_tokens: 1000,
+    temperature: 0.1,
+    timeout_ms: 60000,
+    max_retries: 2,
+  },
+};
+
+// USD per million tokens, matched by model prefix (e.g. gpt-4o-2024-08-06)
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+};
+
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+export class LLMUnavailableError extends Error {
+  constructor() {
+    super("No LLM provider is configured");
+    this.name = "LLMUnavailableError";
+  }
+}
+
+export class LLMTimeoutError extends Error {
+  constructor(public feature: string, public timeoutMs: number) {
+    super(`LLM request for ${feature} timed out after ${timeoutMs}ms`);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+export class AIOutputValidationError extends Error {
+  constructor(public feature: string, public issues: string[]) {
+    super(
+      `AI output for ${feature} failed validation: ${issues
+        .slice(0, 3)
+        .join("; ")}`
+    );
+    this.name = "AIOutputValidationError";
+  }
+}
+
+interface LLMCallOptions {
+  messages: LLMMessage[];
+  userId?: string | null;
+  max_tokens?: number;
+  temperature?: number;
+  tools?: LLMTool[];
+}
+
+// Repair prompts and logs list at most this many issues
+const MAX_REPORTED_ISSUES = 20;
+
+function isRetryable(error: unknown) {
+  return (
+    error instanceof LLMTimeoutError ||
+    (error instanceof LLMProviderError && error.retryable)
+  );
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Every AI feature goes through here: it picks the feature's model and
+ * limits, enforces the timeout, retries transient failures with exponential
+ * backoff, and records tokens and cost against the user.
+ */
+export class LLMService {
+  static isAvailable() {
+    return getLLMProvider() !== null;
+  }
+
+  /**
+   * Feature defaults, overridable per feature with LLM_MODEL_<FEATURE>,
+   * LLM_TIMEOUT_MS_<FEATURE> and LLM_MAX_RETRIES_<FEATURE>. LLM_MODEL sets
+   * the model for every feature, e.g. for a local server with one model.
+   */
+  static getFeatureConfig(feature: LLMFeature): LLMFeatureConfig {
+    const defaults = LLM_FEATURES[feature];
+    const suffix = feature.toUpperCase();
+    const timeout = Number(process.env[`LLM_TIMEOUT_MS_${suffix}`]);
+    const retries = Number(process.env[`LLM_MAX_RETRIES_${suffix}`]);
+
+    return {
+      ...defaults,
+      model:
+        process.env[`LLM_MODEL_${suffix}`] ||
+        process.env.LLM_MODEL ||
+        defaults.model,
+      timeout_ms: timeout > 0 ? timeout : defaults.timeout_ms,
+      max_retries:
+        retries >= 0 && !isNaN(retries) ? retries : defaults.max_retries,
+    };
+  }
+
+  static async complete(
+    feature: LLMFeature,
+    options: LLMCallOptions
+  ): Promise<LLMCompletion> {
+    const provider = getLLMProvider();
+    if (!provider) throw new LLMUnavailableError();
+
+    const config = this.getFeatureConfig(feature);
+    const request: LLMRequest = {
+      feature,
+      model: config.model,
+      messages: options.messages,
+      max_tokens: options.max_tokens ?? config.max_tokens,
+      temperature: options.temperature ?? config.temperature,
+      tools: options.tools,
+    };
+    const startedAt = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const completion = await this.completeWithTimeout(
+          provider,
+          request,
+          config.timeout_ms
+        );
+
+        this.recordUsage({
+          userId: options.userId,
+          feature,
+          provider: provider.name,
+          model: completion.model,
+          usage: completion.usage,
+          latencyMs: Date.now() - startedAt,
+          attempts: attempt,
+        });
+        return completion;
+      } catch (error) {
+        if (!isRetryable(error) || attempt > config.max_retries) {
+          this.recordUsage({
+            userId: options.userId,
+            feature,
+            provider: provider.name,
+            model: request.model,
+            latencyMs: Date.now() - startedAt,
+            attempts: attempt,
+            error,
+          });
+          throw error;
+        }
+
+        const delay = Math.min(
+          RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+          RETRY_MAX_DELAY_MS
+        );
+        console.warn(
+          `🔁 ${feature} LLM request failed (attempt ${attempt}), retrying in ${delay}ms:`,
+          error instanceof Error ? error.message : error
+        );
+        await sleep(delay + Math.random() * delay * 0.2);
+      }
+    }
+  }
+
+  /**
+   * Streams a completion, passing each piece of text to `onToken` as it
+   * arrives. Failures before the first piece are retried like complete();
+   * once text has been sent they are thrown, since it can't be taken back.
+   * The feature timeout bounds the wait for each piece rather than the
+   * whole answer. Aborting `signal` stops the stream and throws.
+   */
+  static async stream(
+    feature: LLMFeature,
+    options: LLMCallOptions & {
+      onToken: (token: string) => void;
+      signal?: AbortSignal;
+    }
+  ): Promise<LLMCompletion> {
+    const provider = getLLMProvider();
+    if (!provider) throw new LLMUnavailableError();
+
+    const config = this.getFeatureConfig(feature);
+    const request: LLMRequest = {
+      feature,
+      model: config.model,
+      messages: options.messages,
+      max_tokens: options.max_tokens ?? config.max_tokens,
+      temperature: options.temperature ?? config.temperature,
+      tools: options.tools,
+    };
+    const startedAt = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      let streamed = false;
+      try {
+        const completion = await this.streamWithTimeout(
+          provider,
+          request,
+          config.timeout_ms,
+          (token) => {
+            streamed = true;
+            options.onToken(token);
+          },
+          options.signal
+        );
+
+        this.recordUsage({
+          userId: options.userId,
+          feature,
+          provider: provider.name,
+          model: completion.model,
+          usage: completion.usage,
+          latencyMs: Date.now() - startedAt,
+          attempts: attempt,
+        });
+        return completion;
+      } catch (error) {
+        if (
+          streamed ||
+          options.signal?.aborted ||
+          !isRetryable(error) ||
+          attempt > config.max_retries
+        ) {
+          this.recordUsage({
+            userId: options.userId,
+            feature,
+            provider: provider.name,
+            model: request.model,
+            latencyMs: Date.now() - startedAt,
+            attempts: attempt,
+            error,
+          });
+          throw error;
+        }
+
+        const delay = Math.min(
+          RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+          RETRY_MAX_DELAY_MS
+        );
+        console.warn(
+          `🔁 ${feature} LLM stream failed (attempt ${attempt}), retrying in ${delay}ms:`,
+          error instanceof Error ? error.message : error
+        );
+        await sleep(delay + Math.random() * delay * 0.2);
+      }
+    }
+  }
+
+  /**
+   * Completes a prompt that asks for JSON and validates the answer against
+   * `schema`, plus `check` for rules a schema can't express (such as
+   * ingredients adding up to the meal). An invalid answer gets one repair
+   * round-trip that sends the issues back to the model; if the repaired
+   * answer is still invalid, throws AIOutputValidationError.
+   */
+  static async completeJSON<T>(
+    feature: LLMFeature,
+    options: LLMCallOptions & {
+      schema: z.ZodType<T>;
+      check?: (data: T) => string[];
+    }
+  ): Promise<T> {
+    const { schema, check, ...callOptions } = options;
+
+    const first = await this.complete(feature, callOptions);
+    const parsed = parseAIOutput(first.content, schema, check);
+    if (parsed.success) {
+      this.logOutputOutcome(feature, "valid", []);
+      return parsed.data;
+    }
+
+    const issues = parsed.issues.slice(0, MAX_REPORTED_ISSUES);
+    const repair = await this.complete(feature, {
+      ...callOptions,
+      messages: [
+        ...callOptions.messages,
+        { role: "assistant", content: first.content },
+        {
+          role: "user",
+          content: `Your JSON did not pass validation:\n${issues
+            .map((issue) => `- ${issue}`)
+            .join(
+              "\n"
+            )}\n\nReturn the complete corrected JSON only, with no explanations.`,
+        },
+      ],
+    });
+    const repaired = parseAIOutput(repair.content, schema, check);
+    if (repaired.success) {
+      this.logOutputOutcome(feature, "repaired", issues);
+      return repaired.data;
+    }
+
+    const remaining = repaired.issues.slice(0, MAX_REPORTED_ISSUES);
+    this.logOutputOutcome(feature, "invalid", remaining);
+    throw new AIOutputValidationError(feature, remaining);
+  }
+
+  static estimateCost(provider: string, model: string, usage: LLMUsage) {
+    // Local and fixture providers cost nothing
+    if (provider !== "openai") return 0;
+
+    const prefix = Object.keys(MODEL_PRICING)
+      .filter((name) => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!prefix) return 0;
+
+    const pricing = MODEL_PRICING[prefix];
+    return (
+      (usage.prompt_tokens * pricing.input +
+        usage.completion_tokens * pricing.output) /
+      1_000_000
+    );
+  }
+
+  static async getUsageSummary(
+    userId: string,
+    days: number = 30
+  ): Promise<AiUsageSummary> {
+    const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const groups = await prisma.aiUsage.groupBy({
+      by: ["feature"],
+      where: { user_id: userId, created_at: { gte: from } },
+      _count: { _all: true },
+      _sum: { prompt_tokens: true, completion_tokens: true, cost_usd: true },
+    });
+
+    const byFeature = groups
+      .map((group) => ({
+        feature: group.feature,
+        requests: group._count._all,
+        prompt_tokens: group._sum.prompt_tokens || 0,
+        completion_tokens: group._sum.completion_tokens || 0,
+        cost_usd: group._sum.cost_usd || 0,
+      }))
+      .sort((a, b) => b.cost_usd - a.cost_usd);
+
+    return {
+      from: from.toISOString(),
+      total: byFeature.reduce(
+        (total, feature) => ({
+          requests: total.requests + feature.requests,
+          prompt_tokens: total.prompt_tokens + feature.prompt_tokens,
+          completion_tokens:
+            total.completion_tokens + feature.completion_tokens,
+          cost_usd: total.cost_usd + feature.cost_usd,
+        }),
+        { requests: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 }
+      ),
+      by_feature: byFeature,
+    };
+  }
+
+  private static async completeWithTimeout(
+    provider: LLMProvider,
+    request: LLMRequest,
+    timeoutMs: number
+  ) {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LLMTimeoutError(request.feature, timeoutMs));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([
+        provider.complete(request, controller.signal),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // The timer restarts with every piece, so long answers aren't cut off
+  private static async streamWithTimeout(
+    provider: LLMProvider,
+    request: LLMRequest,
+    timeoutMs: number,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ) {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) abort();
+    signal?.addEventListener("abort", abort);
+
+    let timer: NodeJS.Timeout | undefined;
+    let rejectTimeout: (error: Error) => void = () => {};
+    const timeout = new Promise<never>((_, reject) => {
+      rejectTimeout = reject;
+    });
+    const restartTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        controller.abort();
+        rejectTimeout(new LLMTimeoutError(request.feature, timeoutMs));
+      }, timeoutMs);
+    };
+    const onPiece = (token: string) => {
+      if (controller.signal.aborted) return;
+      restartTimer();
+      onToken(token);
+    };
+
+    const run = async () => {
+      if (provider.stream) {
+        return provider.stream(request, onPiece, controller.signal);
+      }
+      const completion = await provider.complete(request, controller.signal);
+      if (completion.content) onPiece(completion.content);
+      return completion;
+    };
+
+    restartTimer();
+    try {
+      return await Promise.race([run(), timeout]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+
+  // One line per validated call, so prompt regressions show up in the logs
+  private static logOutputOutcome(
+    feature: LLMFeature,
+    outcome: AIOutputOutcome,
+    issues: string[]
+  ) {
+    const line = `📐 AI output ${feature}: ${outcome}`;
+    if (outcome === "valid") {
+      console.log(line);
+    } else if (outcome === "repaired") {
+      console.warn(`${line} after ${issues.length} issue(s):`, issues);
+    } else {
+      console.error(`${line} after repair:`, issues);
+    }
+  }
+
+  // Accounting never fails the request it describes
+  private static recordUsage(entry: {
+    userId?: string | null;
+    feature: LLMFeature;
+    provider: string;
+    model: string;
+    usage?: LLMUsage;
+    latencyMs: number;
+    attempts: number;
+    error?: unknown;
+  }) {
+    const usage = entry.usage || { prompt_tokens: 0, completion_tokens: 0 };
+
+    prisma.aiUsage
+      .create({
+        data: {
+          user_id: entry.userId || null,
+          feature: entry.feature,
+          provider: entry.provider,
+          model: entry.model,
+          prompt_tokens: usage.prompt_tokens,
+          completion_tokens: usage.completion_tokens,
+          cost_usd: this.estimateCost(entry.provider, entry.model, usage),
+          latency_ms: entry.latencyMs,
+          attempts: entry.attempts,
+          success: !entry.error,
+          error: entry.error
+            ? entry.error instanceof Error
+              ? entry.error.message.slice(0, 500)
+              : String(entry.error).slice(0, 500)
+            : null,
+        },
+      })
+      .catch((error: any) =>
+        console.error("❌ Failed to record AI usage:", error)
+      );
+  }
+}
@@ -2,10 +2,19 @@ import { prisma } from "../lib/database";
 import {
   AIMealPlanResponse,
   MealPlanTemplate,
+  ShoppingListItemInput,
   UserMealPlanConfig,
   WeeklyMealPlan,
 } from "../types/mealPlans";
+import { MealPlanRequest, ReplacementMeal } from "../types/openai";
 import { OpenAIService } from "./openai";
+import { RestrictionService } from "./restrictions";
+import { KosherService } from "./kosher";
+import {
+  checkKosherMeal,
+  checkKosherSchedule,
+  describeKosherSchedule,
+} from "../utils/kosher";
 
 // Helper function to sanitize strings
 function sanitizeString(input: string): string {
@@ -27,6 +36,55 @@ function validateEnum<T>(value: any, validValues: T[], fallback: T): T {
   return validValues.includes(value) ? value : fallback;
 }
 
+type PlanMeal = AIMealPlanResponse["weekly_plan"][number]["meals"][number];
+
+const WEEK_DAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// A generated meal in the shape meal templates are stored from
+function toPlanMeal(
+  meal: ReplacementMeal,
+  meal_timing: string,
+  dietary_category: string
+): PlanMeal {
+  return {
+    name: sanitizeString(meal.name),
+    description: meal.cooking_method ?? undefined,
+    meal_timing,
+    dietary_category,
+    prep_time_minutes: meal.prep_time_minutes ?? undefined,
+    calories: meal.calories,
+    protein_g: meal.protein,
+    carbs_g: meal.carbs,
+    fats_g: meal.fat,
+    fiber_g: meal.fiber ?? undefined,
+    ingredients: meal.ingredients,
+    instructions: [meal.instructions ?? []].flat(),
+    allergens: [],
+  };
+}
+
+export class MealPlanRestrictionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MealPlanRestrictionError";
+  }
+}
+
+export class MealPlanNotFoundError extends Error {
+  constructor() {
+    super("Meal plan not found");
+    this.name = "MealPlanNotFoundError";
+  }
+}
+
 export class MealPlanService {
   // Valid enum values (should match your Prisma schema)
   private static readonly VALID_MEAL_TIMINGS = [
@@ -86,6 +144,7 @@ export class MealPlanService {
 
       // Generate AI meal plan BEFORE starting transaction
       const aiMealPlan = await this.generateAIMealPlan(
+        user_id,
         sanitizedConfig,
         questionnaire,
         nutritionPlan,
@@ -101,6 +160,10 @@ export class MealPlanService {
         throw new Error("Invalid AI meal plan response structure");
       }
 
+      if (questionnaire?.kosher) {
+        await this.assertKosherPlan(user_id, aiMealPlan);
+      }
+
       // Create the meal plan using transaction (now much faster)
       const result = await prisma.$transaction(
         async (tx) => {
@@ -144,6 +207,7 @@ export class MealPlanService {
       return result;
     } catch (error) {
       console.error("💥 Error creating AI meal plan:", error);
+      if (error instanceof MealPlanRestrictionError) throw error;
       throw new Error(
         `Failed to create meal plan: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -152,6 +216,43 @@ export class MealPlanService {
     }
   }
 
+  /**
+   * Rejects plans with non-kosher meals, meals mixing meat and dairy, or
+   * days that break the user's meat/dairy waiting times.
+   */
+  private static async assertKosherPlan(
+    user_id: string,
+    plan: AIMealPlanResponse
+  ) {
+    const settings = await KosherService.getSettings(user_id);
+    const meals = plan.weekly_plan.flatMap((dayPlan, dayIndex) =>
+      dayPlan.meals.map((meal) => ({
+        key: `${dayPlan.day}: ${meal.name}`,
+        day: dayIndex,
+        meal_timing: meal.meal_timing,
+        food: RestrictionService.describeMeal(meal),
+      }))
+    );
+
+    const problems = [
+      ...meals.flatMap((meal) =>
+        checkKosherMeal(meal.food).map(
+          (warning) => `${meal.key} - ${warning.message_en}`
+        )
+      ),
+      ...checkKosherSchedule(meals, settings).map(
+        (issue) => `${issue.key} - ${issue.warning.message_en}`
+      ),
+    ];
+
+    if (problems.length > 0) {
+      console.warn("✡️ Meal plan breaks kosher rules:", problems);
+      throw new MealPlanRestrictionError(
+        `Meal plan breaks kosher rules: ${problems.slice(0, 3).join("; ")}`
+      );
+    }
+  }
+
   private static sanitizeConfig(
     config: UserMealPlanConfig
   ): UserMealPlanConfig {
@@ -188,32 +289,74 @@ export class MealPlanService {
     };
   }
 
+  /**
+   * Generates the plan's distinct days with the AI and repeats them through
+   * the week. Throws MealPlanRestrictionError when a meal breaks a hard
+   * restriction; AI failures are passed on.
+   */
   static async generateAIMealPlan(
+    user_id: string,
     config: UserMealPlanConfig,
     questionnaire: any,
     nutritionPlan: any,
     user: any
   ): Promise<AIMealPlanResponse> {
-    try {
-      console.log("🤖 Generating AI meal plan...");
-
-      // Build user profile for AI
-      const userProfile = this.buildUserProfile(
-        config,
-        questionnaire,
-        nutritionPlan,
-        user
+    console.log("🤖 Generating AI meal plan...");
+
+    const [profile, kosherSettings] = await Promise.all([
+      RestrictionService.getProfile(user_id),
+      KosherService.getSettings(user_id),
+    ]);
+    const generated = await OpenAIService.generateMealPlan(
+      this.buildUserProfile(config, questionnaire, nutritionPlan, user),
+      {
+        userId: user_id,
+        restrictionNotes: [
+          RestrictionService.describeForPrompt(profile),
+          profile.kosher ? describeKosherSchedule(kosherSettings) : "",
+        ]
+          .filter(Boolean)
+          .join("\n"),
+      }
+    );
+
+    const unsafeMeals = generated.meals.filter((meal) =>
+      RestrictionService.hasHardViolation(
+        RestrictionService.checkFood(
+          profile,
+          RestrictionService.describeMeal(meal)
+        )
+      )
+    );
+    if (unsafeMeals.length > 0) {
+      throw new MealPlanRestrictionError(
+        `Meal plan breaks your dietary restrictions: ${unsafeMeals
+          .slice(0, 3)
+          .map((meal) => meal.name)
+          .join(", ")}`
       );
-
-      // For now, use fallback directly to avoid OpenAI issues
-      console.log("🔄 Using reliable fallback meal plan generation");
-      return this.generateFallbackMealPlan(config);
-    } catch (error) {
-      console.error("💥 Error generating AI meal plan:", error);
-      console.log("🔄 Falling back to default meal plan");
-      // Return fallback meal plan if AI fails
-      return this.generateFallbackMealPlan(config);
     }
+
+    const dietaryCategory = validateEnum(
+      config.dietary_preferences[0]?.toUpperCase(),
+      this.VALID_DIETARY_CATEGORIES,
+      "BALANCED"
+    );
+    const dayNumbers = [
+      ...new Set(generated.meals.map((meal) => meal.day_number)),
+    ].sort((a, b) => a - b);
+
+    return {
+      weekly_plan: WEEK_DAYS.map((day, index) => {
+        const dayNumber = dayNumbers[index % dayNumbers.length];
+        return {
+          day,
+          meals: generated.meals
+            .filter((meal) => meal.day_number === dayNumber)
+            .map((meal) => toPlanMeal(meal, meal.meal_type, dietaryCategory)),
+        };
+      }),
+    };
   }
 
   static validateAndStructureAIResponse(aiResponse: any): AIMealPlanResponse {
@@ -303,161 +446,12 @@ export class MealPlanService {
     }
   }
 
-  static generateFallbackMealPlan(
-    config: UserMealPlanConfig
-  ): AIMealPlanResponse {
-    console.log("🔄 Generating fallback meal plan...");
-
-    const days = [
-      "Sunday",
-      "Monday",
-      "Tuesday",
-      "Wednesday",
-      "Thursday",
-      "Friday",
-      "Saturday",
-    ];
-    const mealTimings = ["BREAKFAST", "LUNCH", "DINNER"];
-
-    const fallbackMeals = [
-      {
-        name: "Scrambled Eggs with Toast",
-        description: "Classic breakfast with protein and carbs",
-        meal_timing: "BREAKFAST",
-        dietary_category: "BALANCED",
-        prep_time_minutes: 15,
-        difficulty_level: 1,
-        calories: 350,
-        protein_g: 18,
-        carbs_g: 25,
-        fats_g: 18,
-        fiber_g: 3,
-        sugar_g: 4,
-        sodium_mg: 450,
-        ingredients: [
-          { name: "eggs", quantity: 2, unit: "piece", category: "Protein" },
-          { name: "bread", quantity: 2, unit: "slice", category: "Grains" },
-          { name: "butter", quantity: 1, unit: "tbsp", category: "Fats" },
-        ],
-        instructions: [
-          "Heat butter in pan",
-          "Scramble eggs",
-          "Toast bread",
-          "Serve together",
-        ],
-        allergens: ["eggs", "gluten"],
-        image_url: null,
-        portion_multiplier: 1.0,
-        is_optional: false,
-      },
-      {
-        name: "Grilled Chicken Salad",
-        description: "Healthy lunch with lean protein and vegetables",
-        meal_timing: "LUNCH",
-        dietary_category: "BALANCED",
-        prep_time_minutes: 25,
-        difficulty_level: 2,
-        calories: 400,
-        protein_g: 35,
-        carbs_g: 15,
-        fats_g: 20,
-        fiber_g: 8,
-        sugar_g: 8,
-        sodium_mg: 600,
-        ingredients: [
-          {
-            name: "chicken breast",
-            quantity: 150,
-            unit: "g",
-            category: "Protein",
-          },
-          {
-            name: "mixed greens",
-            quantity: 100,
-            unit: "g",
-            category: "Vegetables",
-          },
-          { name: "olive oil", quantity: 2, unit: "tbsp", category: "Fats" },
-        ],
-        instructions: [
-          "Grill chicken breast",
-          "Prepare salad",
-          "Add dressing",
-          "Combine and serve",
-        ],
-        allergens: [],
-        image_url: null,
-        portion_multiplier: 1.0,
-        is_optional: false,
-      },
-      {
-        name: "Baked Salmon with Rice",
-        description: "Nutritious dinner with omega-3 rich fish",
-        meal_timing: "DINNER",
-        dietary_category: "BALANCED",
-        prep_time_minutes: 30,
-        difficulty_level: 2,
-        calories: 500,
-        protein_g: 35,
-        carbs_g: 45,
-        fats_g: 18,
-        fiber_g: 2,
-        sugar_g: 2,
-        sodium_mg: 400,
-        ingredients: [
-          {
-            name: "salmon fillet",
-            quantity: 150,
-            unit: "g",
-            category: "Protein",
-          },
-          { name: "brown rice", quantity: 80, unit: "g", category: "Grains" },
-          {
-            name: "broccoli",
-            quantity: 100,
-            unit: "g",
-            category: "Vegetables",
-          },
-        ],
-        instructions: [
-          "Bake salmon at 400°F for 15 minutes",
-          "Cook rice according to package",
-          "Steam broccoli",
-          "Serve together",
-        ],
-        allergens: ["fish"],
-        image_url: null,
-        portion_multiplier: 1.0,
-        is_optional: false,
-      },
-    ];
-
-    return {
-      weekly_plan: days.map((day, dayIndex) => ({
-        day,
-        meals: mealTimings
-          .slice(0, config.meals_per_day)
-          .map((timing, mealIndex) => {
-            const baseMeal =
-              fallbackMeals.find((m) => m.meal_timing === timing) ||
-              fallbackMeals[0];
-            return {
-              ...baseMeal,
-              name: `${baseMeal.name} - ${day}`,
-              meal_timing: timing,
-              image_url: baseMeal.image_url ?? undefined,
-            };
-          }),
-      })),
-    };
-  }
-
   static buildUserProfile(
     config: UserMealPlanConfig,
     questionnaire: any,
     nutritionPlan: any,
     user: any
-  ) {
+  ): MealPlanRequest {
     return {
       // Nutrition goals
       target_calories_daily: nutritionPlan?.goal_calories ?? 2000,
@@ -692,24 +686,28 @@ export class MealPlanService {
       console.log("📋 Getting meal plan for user:", user_id);
 
       // Get the active meal plan or specific plan
-      const mealPlan = await prisma.userMealPlan.findFirst({
-        where: {
-          user_id,
-          ...(plan_id ? { plan_id } : { is_active: true }),
-        },
-        include: {
-          schedules: {
-            include: {
-              template: true,
+      const [mealPlan, profile, kosherSettings] = await Promise.all([
+        prisma.userMealPlan.findFirst({
+          where: {
+            user_id,
+            ...(plan_id ? { plan_id } : { is_active: true }),
+          },
+          include: {
+            schedules: {
+              include: {
+                template: true,
+              },
+              orderBy: [
+                { day_of_week: "asc" },
+                { meal_timing: "asc" },
+                { meal_order: "asc" },
+              ],
             },
-            orderBy: [
-              { day_of_week: "asc" },
-              { meal_timing: "asc" },
-              { meal_order: "asc" },
-            ],
           },
-        },
-      });
+        }),
+        RestrictionService.getProfile(user_id),
+        KosherService.getSettings(user_id),
+      ]);
 
       if (!mealPlan) {
         console.log("⚠️ No meal plan found for user:", user_id);
@@ -717,6 +715,19 @@ export class MealPlanService {
         return {};
       }
 
+      // Meat/dairy waiting times between meals of the same day
+      const scheduleWarnings = profile.kosher
+        ? KosherService.getScheduleWarnings(
+            mealPlan.schedules.map((schedule) => ({
+              key: schedule.schedule_id,
+              day: schedule.day_of_week,
+              meal_timing: schedule.meal_timing,
+              food: RestrictionService.describeMeal(schedule.template),
+            })),
+            kosherSettings
+          )
+        : new Map();
+
       // Organize by day and meal timing
       const weeklyPlan: WeeklyMealPlan = {};
       const dayNames = [
@@ -821,6 +832,13 @@ export class MealPlanService {
             instructions,
             allergens,
             image_url: schedule.template.image_url || undefined,
+            restriction_warnings: [
+              ...RestrictionService.checkFood(
+                profile,
+                RestrictionService.describeMeal(schedule.template)
+              ),
+              ...(scheduleWarnings.get(schedule.schedule_id) || []),
+            ],
           });
           return acc;
         }, {} as Record<string, MealPlanTemplate[]>);
@@ -873,7 +891,8 @@ export class MealPlanService {
         throw new Error("Meal not found in plan");
       }
 
-      const currentMeal = mealPlan.schedules[0].template;
+      const currentSchedule = mealPlan.schedules[0];
+      const currentMeal = currentSchedule.template;
 
       // Get user profile for AI replacement
       const questionnaire = await prisma.userQuestionnaire.findFirst({
@@ -881,38 +900,100 @@ export class MealPlanService {
         orderBy: { date_completed: "desc" },
       });
 
-      const user = await prisma.userQuestionnaire.findFirst({
-        where: { user_id: user_id },
-        select: { age: true, weight_kg: true, height_cm: true },
-      });
-
-      // For now, use a fallback replacement meal since OpenAI service needs fixing
-      const replacementMeal = this.generateFallbackReplacementMeal({
-        current_meal: {
-          name: currentMeal.name,
-          meal_timing: currentMeal.meal_timing,
-          dietary_category: currentMeal.dietary_category,
-          calories: Number(currentMeal.calories) || 0,
-          protein_g: Number(currentMeal.protein_g) || 0,
-          carbs_g: Number(currentMeal.carbs_g) || 0,
-          fats_g: Number(currentMeal.fats_g) || 0,
-        },
-        user_preferences: {
-          dietary_preferences: validateArray(
-            mealPlan.dietary_preferences as any
-          ),
-          excluded_ingredients: validateArray(
-            mealPlan.excluded_ingredients as any
-          ),
-          allergies: validateArray(questionnaire?.allergies),
-          preferred_dietary_category: preferences?.dietary_category,
-          max_prep_time: preferences?.max_prep_time,
-        },
-        nutrition_targets: {
-          target_calories: mealPlan.target_calories_daily || 2000,
-          target_protein: mealPlan.target_protein_daily || 150,
+      const [profile, kosherSettings, daySchedules] = await Promise.all([
+        RestrictionService.getProfile(user_id),
+        KosherService.getSettings(user_id),
+        prisma.mealPlanSchedule.findMany({
+          where: {
+            plan_id,
+            day_of_week,
+            schedule_id: { not: currentSchedule.schedule_id },
+          },
+          include: { template: true },
+        }),
+      ]);
+      const scheduledDayMeals = daySchedules.map((schedule: any) => ({
+        key: schedule.schedule_id,
+        day: schedule.day_of_week,
+        meal_timing: schedule.meal_timing,
+        food: RestrictionService.describeMeal(schedule.template),
+      }));
+
+      const generated = await OpenAIService.generateReplacementMeal(
+        {
+          current_meal: {
+            name: currentMeal.name,
+            meal_timing: currentMeal.meal_timing,
+            dietary_category: currentMeal.dietary_category,
+            calories: Number(currentMeal.calories) || 0,
+            protein_g: Number(currentMeal.protein_g) || 0,
+            carbs_g: Number(currentMeal.carbs_g) || 0,
+            fats_g: Number(currentMeal.fats_g) || 0,
+          },
+          user_preferences: {
+            dietary_preferences: validateArray(
+              mealPlan.dietary_preferences as any
+            ),
+            excluded_ingredients: validateArray(
+              mealPlan.excluded_ingredients as any
+            ),
+            allergies: validateArray(questionnaire?.allergies),
+            preferred_dietary_category: preferences?.dietary_category,
+            max_prep_time: preferences?.max_prep_time,
+          },
+          nutrition_targets: {
+            target_calories: mealPlan.target_calories_daily || 2000,
+            target_protein: mealPlan.target_protein_daily || 150,
+          },
         },
-      });
+        {
+          userId: user_id,
+          restrictionNotes: [
+            RestrictionService.describeForPrompt(profile),
+            profile.kosher ? describeKosherSchedule(kosherSettings) : "",
+          ]
+            .filter(Boolean)
+            .join("\n"),
+        }
+      );
+      const replacementMeal = toPlanMeal(
+        generated,
+        meal_timing,
+        validateEnum(
+          preferences?.dietary_category,
+          this.VALID_DIETARY_CATEGORIES,
+          currentMeal.dietary_category
+        )
+      );
+
+      // A meal the user can't eat, or that breaks kosher waiting times with
+      // the rest of the day, isn't saved
+      const food = RestrictionService.describeMeal(replacementMeal);
+      const breaksKosher =
+        profile.kosher &&
+        KosherService.breaksSchedule(
+          [
+            ...scheduledDayMeals,
+            {
+              key: currentSchedule.schedule_id,
+              day: day_of_week,
+              meal_timing,
+              food,
+            },
+          ],
+          kosherSettings,
+          currentSchedule.schedule_id
+        );
+      if (
+        breaksKosher ||
+        RestrictionService.hasHardViolation(
+          RestrictionService.checkFood(profile, food)
+        )
+      ) {
+        throw new MealPlanRestrictionError(
+          "No replacement meal fits your dietary restrictions"
+        );
+      }
 
       // Use transaction for replacement
       const result = await prisma.$transaction(async (tx) => {
@@ -1064,6 +1145,95 @@ export class MealPlanService {
     }
   }
 
+  /**
+   * Adds items to the user's open shopping list (the newest one not marked
+   * completed), or to a new list for the active plan when there is none.
+   * An item already on the list in the same unit gets the quantities added
+   * up instead of a second line.
+   */
+  static async addShoppingListItems(
+    user_id: string,
+    items: ShoppingListItemInput[]
+  ) {
+    const openList = await prisma.shoppingList.findFirst({
+      where: { user_id, is_completed: false },
+      orderBy: { created_at: "desc" },
+    });
+
+    const stored = openList?.items_json as any;
+    const groupedItems: Record<string, any[]> = Array.isArray(stored)
+      ? { Other: stored }
+      : { ...(stored || {}) };
+
+    for (const item of items) {
+      const name = item.name.toLowerCase();
+      const existing = Object.values(groupedItems)
+        .flat()
+        .find(
+          (listed) =>
+            listed.name?.toLowerCase() === name &&
+            listed.unit === item.unit &&
+            !listed.is_purchased
+        );
+
+      if (existing) {
+        existing.quantity =
+          Math.ceil((Number(existing.quantity) + item.quantity) * 100) / 100;
+        existing.estimated_cost = this.estimateIngredientCost(
+          name,
+          existing.quantity,
+          existing.unit
+        );
+        continue;
+      }
+
+      if (!groupedItems[item.category]) groupedItems[item.category] = [];
+      groupedItems[item.category].push({
+        name,
+        quantity: item.quantity,
+        unit: item.unit,
+        category: item.category,
+        estimated_cost: this.estimateIngredientCost(
+          name,
+          item.quantity,
+          item.unit
+        ),
+        is_purchased: false,
+      });
+    }
+
+    const totalCost =
+      Math.round(
+        Object.values(groupedItems)
+          .flat()
+          .reduce((sum, item) => sum + (Number(item.estimated_cost) || 0), 0) *
+          100
+      ) / 100;
+
+    if (openList) {
+      return prisma.shoppingList.update({
+        where: { list_id: openList.list_id },
+        data: { items_json: groupedItems, total_estimated_cost: totalCost },
+      });
+    }
+
+    const activePlan = await prisma.userMealPlan.findFirst({
+      where: { user_id, is_active: true },
+      select: { plan_id: true },
+    });
+    const shoppingList = await prisma.shoppingList.create({
+      data: {
+        user_id,
+        plan_id: activePlan?.plan_id,
+        name: "Shopping List",
+        items_json: groupedItems,
+        total_estimated_cost: totalCost,
+      },
+    });
+    console.log("🛒 Shopping list created:", shoppingList.list_id);
+    return shoppingList;
+  }
+
   static async saveMealPreference(
     user_id: string,
     template_id: string,
@@ -1267,85 +1437,44 @@ export class MealPlanService {
     return Math.round(totalCost * 100) / 100; // Round to 2 decimal places
   }
 
-  // Fallback replacement meal generator
-  private static generateFallbackReplacementMeal(request: any) {
-    const { current_meal, user_preferences } = request;
+  /**
+   * Puts a template in one slot of the user's plan (the active one when no
+   * plan is given), replacing whatever was scheduled there.
+   */
+  static async scheduleTemplate(
+    user_id: string,
+    template_id: string,
+    slot: {
+      plan_id?: string;
+      day_of_week: number;
+      meal_timing: string;
+      meal_order: number;
+    }
+  ) {
+    const plan = await prisma.userMealPlan.findFirst({
+      where: slot.plan_id
+        ? { plan_id: slot.plan_id, user_id }
+        : { user_id, is_active: true },
+    });
+    if (!plan) {
+      throw new MealPlanNotFoundError();
+    }
 
-    const fallbackMeals = [
-      {
-        name: "Healthy Chicken Bowl",
-        description: "Grilled chicken with quinoa and vegetables",
-        meal_timing: current_meal.meal_timing,
-        dietary_category: "BALANCED",
-        prep_time_minutes: 25,
-        difficulty_level: 2,
-        calories: current_meal.calories || 400,
-        protein_g: current_meal.protein_g || 30,
-        carbs_g: current_meal.carbs_g || 35,
-        fats_g: current_meal.fats_g || 15,
-        fiber_g: 8,
-        sugar_g: 5,
-        sodium_mg: 500,
-        ingredients: [
-          {
-            name: "chicken breast",
-            quantity: 150,
-            unit: "g",
-            category: "Protein",
-          },
-          { name: "quinoa", quantity: 80, unit: "g", category: "Grains" },
-          {
-            name: "mixed vegetables",
-            quantity: 100,
-            unit: "g",
-            category: "Vegetables",
-          },
-        ],
-        instructions: [
-          "Grill chicken breast",
-          "Cook quinoa according to package instructions",
-          "Steam vegetables",
-          "Combine in bowl and serve",
-        ],
-        allergens: [],
-        image_url: null,
-      },
-      {
-        name: "Mediterranean Salad",
-        description: "Fresh salad with feta cheese and olive oil",
-        meal_timing: current_meal.meal_timing,
-        dietary_category: "MEDITERRANEAN",
-        prep_time_minutes: 15,
-        difficulty_level: 1,
-        calories: current_meal.calories || 350,
-        protein_g: current_meal.protein_g || 15,
-        carbs_g: current_meal.carbs_g || 25,
-        fats_g: current_meal.fats_g || 20,
-        fiber_g: 10,
-        sugar_g: 8,
-        sodium_mg: 400,
-        ingredients: [
-          {
-            name: "mixed greens",
-            quantity: 100,
-            unit: "g",
-            category: "Vegetables",
-          },
-          { name: "feta cheese", quantity: 50, unit: "g", category: "Dairy" },
-          { name: "olive oil", quantity: 2, unit: "tbsp", category: "Fats" },
-        ],
-        instructions: [
-          "Wash and prepare greens",
-          "Crumble feta cheese",
-          "Drizzle with olive oil",
-          "Toss and serve",
-        ],
-        allergens: ["dairy"],
-        image_url: null,
-      },
-    ];
+    const where = {
+      plan_id: plan.plan_id,
+      day_of_week: slot.day_of_week,
+      meal_timing: slot.meal_timing as any,
+      meal_order: slot.meal_order,
+    };
+    const schedule = await prisma.mealPlanSchedule.upsert({
+      where: { plan_id_day_of_week_meal_timing_meal_order: where },
+      update: { template_id },
+      create: { ...where, template_id },
+      include: { template: true },
+    });
 
-    return fallbackMeals[Math.floor(Math.random() * fallbackMeals.length)];
+    console.log("📅 Template scheduled in meal plan:", plan.plan_id, where);
+    return schedule;
   }
 
   // Additional utility methods
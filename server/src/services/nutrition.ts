@@ -1,10 +1,47 @@
 import { OpenAIService } from "./openai";
 import { prisma } from "../lib/database";
-import { MealAnalysisInput, MealUpdateInput } from "../types/nutrition";
+import {
+  MealUpdateInput,
+  TextMealIngredient,
+  TextMealLogInput,
+  TextMealNutrientSource,
+} from "../types/nutrition";
+import { AnalyzedIngredient, MealTextItem } from "../types/openai";
+import { ProductData } from "../types/foodProducts";
 import { AuthService } from "./auth";
-import { asJsonObject, mapExistingMealToPrismaInput } from "../utils/nutrition";
-
-function transformMealForClient(meal: any) {
+import {
+  asJsonObject,
+  mapExistingMealToPrismaInput,
+  pickNutrients,
+  roundNutrients,
+  sumNutrients,
+} from "../utils/nutrition";
+import { ImageStorageService } from "./imageStorage";
+import { TimeZoneService } from "./timeZone";
+import { RestrictionService } from "./restrictions";
+import { RestrictionProfile } from "../types/restrictions";
+import { LLMService } from "./llm";
+import { ProductCatalogService } from "./productCatalog";
+import { FoodCompositionService } from "./foodComposition";
+import {
+  FoodCompositionData,
+  MINERAL_KEYS,
+  VITAMIN_KEYS,
+} from "../types/foodComposition";
+import {
+  parseServingGrams,
+  splitMealText,
+  weightInGrams,
+} from "../utils/mealText";
+import {
+  dateStringToDbDate,
+  getLocalDateString,
+  getZonedDayBounds,
+  getZonedRangeBounds,
+  getZonedStartOfDay,
+} from "../utils/dates";
+
+function transformMealForClient(meal: any, profile: RestrictionProfile) {
   const additives = meal.additives_json || {};
   const feedback = additives.feedback || {};
   return {
@@ -36,185 +73,433 @@ function transformMealForClient(meal: any) {
     satietyRating: feedback.satietyRating || 0,
     energyRating: feedback.energyRating || 0,
     heavinessRating: feedback.heavinessRating || 0,
+    restriction_warnings: RestrictionService.checkFood(
+      profile,
+      RestrictionService.describeMeal(meal)
+    ),
   };
 }
 
-// QUOTA CHECKS REMOVED - NO LIMITS ENFORCED
+// Per-ingredient rows of an analysis, in the shape the review screen edits
+function toAnalysisItems(ingredients: AnalyzedIngredient[]) {
+  return ingredients.map((ingredient, index) => ({
+    id: index,
+    name: ingredient.name || `Item ${index + 1}`,
+    calories: ingredient.calories.toString(),
+    protein: ingredient.protein_g.toString(),
+    protein_g: ingredient.protein_g,
+    carbs: ingredient.carbs_g.toString(),
+    carbs_g: ingredient.carbs_g,
+    fat: ingredient.fats_g.toString(),
+    fats_g: ingredient.fats_g,
+    fiber: ingredient.fiber_g ?? 0,
+    fiber_g: ingredient.fiber_g ?? 0,
+    sugar: ingredient.sugar_g ?? 0,
+    sugar_g: ingredient.sugar_g ?? 0,
+    sodium_mg: ingredient.sodium_mg ?? 0,
+    cholesterol_mg: ingredient.cholesterol_mg ?? 0,
 
-export class NutritionService {
-  static async analyzeMeal(user_id: string, data: MealAnalysisInput) {
-    const { imageBase64, language } = data;
-    if (!imageBase64?.trim()) throw new Error("Image data is required");
+    // Detailed fats
+    saturated_fats_g: ingredient.saturated_fats_g ?? 0,
+    polyunsaturated_fats_g: ingredient.polyunsaturated_fats_g ?? 0,
+    monounsaturated_fats_g: ingredient.monounsaturated_fats_g ?? 0,
+    omega_3_g: ingredient.omega_3_g ?? 0,
+    omega_6_g: ingredient.omega_6_g ?? 0,
+
+    // Detailed fiber
+    soluble_fiber_g: ingredient.soluble_fiber_g ?? 0,
+    insoluble_fiber_g: ingredient.insoluble_fiber_g ?? 0,
 
-    let cleanBase64 = imageBase64.trim().replace(/^data:.*base64,/, "");
-    const base64Regex = /^[A-Za-z0-9+/]*={0,2}$/;
-    if (!base64Regex.test(cleanBase64))
-      throw new Error("Invalid base64 image format");
+    // Additional nutrients
+    alcohol_g: ingredient.alcohol_g ?? 0,
+    caffeine_mg: ingredient.caffeine_mg ?? 0,
+    serving_size_g: ingredient.serving_size_g ?? ingredient.quantity_g ?? 0,
+
+    // Analysis data
+    glycemic_index: ingredient.glycemic_index ?? null,
+    insulin_index: ingredient.insulin_index ?? null,
+
+    // JSON fields
+    vitamins_json: ingredient.vitamins_json ?? {},
+    micronutrients_json: ingredient.micronutrients_json ?? {},
+    allergens_json: ingredient.allergens_json ?? {},
+  }));
+}
 
-    const user = await prisma.user.findUnique({ where: { user_id } });
-    if (!user) throw new Error("User not found");
+export class NoFoodsFoundError extends Error {
+  constructor() {
+    super("No foods found in the meal description");
+    this.name = "NoFoodsFoundError";
+  }
+}
 
-    // const permissions = await checkDailyLimit(user);
+// Grams assumed for one counted portion of a product without a serving size
+const DEFAULT_PORTION_G = 100;
+
+// A food found in a meal description, before its nutrients are resolved
+interface DescribedFood {
+  // Names to look up, most specific first
+  names: string[];
+  portion: string;
+  count: number;
+  unit: string;
+  grams: number | null;
+  // The AI's nutrient estimate for the whole portion, if it parsed the text
+  estimate: MealTextItem | null;
+}
 
-    console.log("🚀 Starting meal analysis - NO RESTRICTIONS!");
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function toTextMealIngredient(
+  food: DescribedFood,
+  grams: number,
+  nutrients: {
+    calories: number;
+    protein_g: number;
+    carbs_g: number;
+    fats_g: number;
+    fiber_g?: number | null;
+    sugar_g?: number | null;
+    sodium_mg?: number | null;
+  },
+  source: TextMealNutrientSource,
+  product?: ProductData
+): TextMealIngredient {
+  const protein = round1(nutrients.protein_g);
+  const carbs = round1(nutrients.carbs_g);
+  const fat = round1(nutrients.fats_g);
+  return {
+    name: food.names[0],
+    portion: food.portion,
+    quantity: round1(grams),
+    unit: "g",
+    quantity_g: round1(grams),
+    calories: Math.round(nutrients.calories),
+    protein,
+    protein_g: protein,
+    carbs,
+    carbs_g: carbs,
+    fat,
+    fats_g: fat,
+    fiber_g: round1(nutrients.fiber_g ?? 0),
+    sugar_g: round1(nutrients.sugar_g ?? 0),
+    sodium_mg: Math.round(nutrients.sodium_mg ?? 0),
+    source,
+    matched_product: product && {
+      barcode: product.barcode,
+      name: product.name,
+      brand: product.brand,
+    },
+  };
+}
+
+export class NutritionService {
+  /**
+   * Runs the vision analysis for a meal uploaded in PENDING state (see
+   * AnalysisJobService) and fills the meal in. AI failures are thrown rather
+   * than replaced with estimates, so the job can retry them.
+   */
+  static async analyzePendingMeal(
+    user_id: string,
+    meal_id: number,
+    data: { imageBase64: string; language: string; updateText?: string }
+  ) {
+    const meal = await prisma.meal.findFirst({ where: { meal_id, user_id } });
+    if (!meal) throw new Error("Meal not found");
+
+    console.log("🚀 Starting meal analysis");
 
-    // Always attempt analysis - never fail
     const analysis = await OpenAIService.analyzeMealImage(
-      cleanBase64,
-      language
+      data.imageBase64,
+      data.language,
+      data.updateText,
+      user_id
     );
 
-    // Update request count
-    await prisma.user.update({
-      where: { user_id },
-      data: { ai_requests_count: user.ai_requests_count + 1 },
-    });
-
-    const items = (analysis.ingredients || []).map((ingredient, index) => ({
-      id: index,
-      name:
-        typeof ingredient === "string"
-          ? ingredient
-          : ingredient.name || `Item ${index + 1}`,
-      calories:
-        typeof ingredient === "string"
-          ? "0"
-          : (ingredient.calories || 0).toString(),
-      protein:
-        typeof ingredient === "string"
-          ? "0"
-          : (ingredient.protein_g || ingredient.protein || 0).toString(),
-      protein_g:
-        typeof ingredient === "string"
-          ? 0
-          : Number(ingredient.protein_g || ingredient.protein || 0),
-      carbs:
-        typeof ingredient === "string"
-          ? "0"
-          : (ingredient.carbs_g || ingredient.carbs || 0).toString(),
-      carbs_g:
-        typeof ingredient === "string"
-          ? 0
-          : Number(ingredient.carbs_g || ingredient.carbs || 0),
-      fat:
-        typeof ingredient === "string"
-          ? "0"
-          : (ingredient.fats_g || ingredient.fat || 0).toString(),
-      fats_g:
-        typeof ingredient === "string"
-          ? 0
-          : Number(ingredient.fats_g || ingredient.fat || 0),
-      fiber:
-        typeof ingredient === "string" ? 0 : Number(ingredient.fiber_g ?? 0),
-      fiber_g:
-        typeof ingredient === "string" ? 0 : Number(ingredient.fiber_g ?? 0),
-      sugar:
-        typeof ingredient === "string" ? 0 : Number(ingredient.sugar_g ?? 0),
-      sugar_g:
-        typeof ingredient === "string" ? 0 : Number(ingredient.sugar_g ?? 0),
-      sodium_mg:
-        typeof ingredient === "string" ? 0 : Number(ingredient.sodium_mg ?? 0),
-      cholesterol_mg:
-        typeof ingredient === "string"
-          ? 0
-          : Number(ingredient.cholesterol_mg ?? 0),
-
-      // Detailed fats
-      saturated_fats_g:
-        typeof ingredient === "string"
-          ? 0
-          : Number(ingredient.saturated_fats_g ?? 0),
-      polyunsaturated_fats_g:
-        typeof ingredient === "string"
-          ? 0
-          : Number(ingredient.polyunsaturated_fats_g ?? 0),
-      monounsaturated_fats_g:
-        typeof ingredient === "string"
-          ? 0
-          : Number(ingredient.monounsaturated_fats_g ?? 0),
-      omega_3_g:
-        typeof ingredient === "string" ? 0 : Number(ingredient.omega_3_g ?? 0),
-      omega_6_g:
-        typeof ingredient === "string" ? 0 : Number(ingredient.omega_6_g ?? 0),
-
-      // Detailed fiber
-      soluble_fiber_g:
-        typeof ingredient === "string"
-          ? 0
-          : Number(ingredient.soluble_fiber_g ?? 0),
-      insoluble_fiber_g:
-        typeof ingredient === "string"
-          ? 0
-          : Number(ingredient.insoluble_fiber_g ?? 0),
-
-      // Additional nutrients
-      alcohol_g:
-        typeof ingredient === "string" ? 0 : Number(ingredient.alcohol_g ?? 0),
-      caffeine_mg:
-        typeof ingredient === "string"
-          ? 0
-          : Number(ingredient.caffeine_mg ?? 0),
-      serving_size_g:
-        typeof ingredient === "string"
-          ? 0
-          : Number(ingredient.serving_size_g ?? 0),
-
-      // Analysis data
-      glycemic_index:
-        typeof ingredient === "string"
-          ? null
-          : ingredient.glycemic_index ?? null,
-      insulin_index:
-        typeof ingredient === "string"
-          ? null
-          : ingredient.insulin_index ?? null,
-
-      // JSON fields
-      vitamins_json:
-        typeof ingredient === "string" ? {} : ingredient.vitamins_json ?? {},
-      micronutrients_json:
-        typeof ingredient === "string"
-          ? {}
-          : ingredient.micronutrients_json ?? {},
-      allergens_json:
-        typeof ingredient === "string" ? {} : ingredient.allergens_json ?? {},
-    }));
+    const items = toAnalysisItems(analysis.ingredients || []);
 
     const mappedMeal = mapMealDataToPrismaFields(
       analysis,
       user_id,
-      cleanBase64
+      meal.image_url
     );
 
-    // Ensure we always have meaningful data
-    if (mappedMeal.calories === 0 && mappedMeal.protein_g === 0) {
-      console.log("🔧 Enhancing analysis data...");
-      mappedMeal.calories = analysis.calories || 350;
-      mappedMeal.protein_g = analysis.protein || 20;
-      mappedMeal.carbs_g = analysis.carbs || 40;
-      mappedMeal.fats_g = analysis.fat || 15;
-      mappedMeal.fiber_g = analysis.fiber || 8;
-      mappedMeal.sugar_g = analysis.sugar || 12;
-      mappedMeal.sodium_mg = analysis.sodium || 600;
-      mappedMeal.meal_name = analysis.name || "Analyzed Meal";
-    }
+    // Only the analyzed fields; the meal keeps its photo and upload time
+    await prisma.meal.update({
+      where: { meal_id },
+      data: {
+        analysis_status: "COMPLETED",
+        meal_name: mappedMeal.meal_name,
+        calories: mappedMeal.calories,
+        protein_g: mappedMeal.protein_g,
+        carbs_g: mappedMeal.carbs_g,
+        fats_g: mappedMeal.fats_g,
+        fiber_g: mappedMeal.fiber_g,
+        sugar_g: mappedMeal.sugar_g,
+        sodium_mg: mappedMeal.sodium_mg,
+        saturated_fats_g: mappedMeal.saturated_fats_g,
+        polyunsaturated_fats_g: mappedMeal.polyunsaturated_fats_g,
+        monounsaturated_fats_g: mappedMeal.monounsaturated_fats_g,
+        omega_3_g: mappedMeal.omega_3_g,
+        omega_6_g: mappedMeal.omega_6_g,
+        soluble_fiber_g: mappedMeal.soluble_fiber_g,
+        insoluble_fiber_g: mappedMeal.insoluble_fiber_g,
+        cholesterol_mg: mappedMeal.cholesterol_mg,
+        alcohol_g: mappedMeal.alcohol_g,
+        caffeine_mg: mappedMeal.caffeine_mg,
+        liquids_ml: mappedMeal.liquids_ml,
+        serving_size_g: mappedMeal.serving_size_g,
+        allergens_json: mappedMeal.allergens_json,
+        vitamins_json: mappedMeal.vitamins_json,
+        micronutrients_json: mappedMeal.micronutrients_json,
+        additives_json: mappedMeal.additives_json,
+        glycemic_index: mappedMeal.glycemic_index,
+        insulin_index: mappedMeal.insulin_index,
+        food_category: mappedMeal.food_category,
+        processing_level: mappedMeal.processing_level,
+        cooking_method: mappedMeal.cooking_method,
+        health_risk_notes: mappedMeal.health_risk_notes,
+        ingredients: mappedMeal.ingredients,
+      },
+    });
 
     console.log("✅ Meal analysis completed successfully!");
 
+    const profile = await RestrictionService.getProfile(user_id);
+
     return {
-      success: true,
-      data: {
-        ...mappedMeal,
-        items,
-        healthScore: Math.max(analysis.confidence || 75, 60).toString(),
-        recommendations:
-          analysis.healthNotes ||
-          "Successfully analyzed meal - enjoy your nutritious food!",
-      },
-      remainingRequests: -1,
+      ...mappedMeal,
+      meal_id,
+      upload_time: meal.upload_time,
+      items,
+      restriction_warnings: RestrictionService.checkFood(
+        profile,
+        RestrictionService.describeMeal(mappedMeal)
+      ),
+      healthScore: Math.max(analysis.confidence || 75, 60).toString(),
+      recommendations:
+        analysis.healthNotes ||
+        "Successfully analyzed meal - enjoy your nutritious food!",
+    };
+  }
+
+  /**
+   * Turns a typed or dictated meal description into the same editable
+   * analysis a photo gets, without logging it. Foods found in the product
+   * catalog or the food composition database get their nutrients scaled to
+   * the portion; the rest keep the AI's estimate. Without the AI the text is
+   * split locally, so only database matches get nutrients and the user fills
+   * in the others.
+   */
+  static async analyzeMealText(user_id: string, input: TextMealLogInput) {
+    const language =
+      input.language || (/[א-ת]/.test(input.text) ? "hebrew" : "english");
+
+    let mealName: string | null = null;
+    let foods: DescribedFood[];
+    try {
+      if (!LLMService.isAvailable()) {
+        throw new Error("No LLM provider configured");
+      }
+      const parsed = await OpenAIService.parseMealText(
+        input.text,
+        language,
+        input.source,
+        user_id
+      );
+      mealName = parsed.meal_name;
+      foods = parsed.items.map((item) => ({
+        names: [item.name, item.name_english].filter(
+          (name): name is string => !!name
+        ),
+        portion: `${item.quantity} ${item.unit}`,
+        count: item.quantity,
+        unit: item.unit,
+        grams: item.quantity_g,
+        estimate: item,
+      }));
+    } catch (error: any) {
+      console.log("⚠️ Splitting meal text locally:", error.message);
+      foods = splitMealText(input.text).map((portion) => ({
+        names: [portion.name],
+        portion: portion.text,
+        count: portion.quantity,
+        unit: portion.unit,
+        grams: portion.quantity_g,
+        estimate: null,
+      }));
+    }
+
+    if (foods.length === 0) {
+      throw new NoFoodsFoundError();
+    }
+
+    const ingredients = await Promise.all(
+      foods.map((food) => this.resolveDescribedFood(user_id, food))
+    );
+
+    const sum = (key: keyof TextMealIngredient) =>
+      round1(
+        ingredients.reduce(
+          (total, ingredient) => total + Number(ingredient[key] || 0),
+          0
+        )
+      );
+    const mealData = {
+      meal_name: mealName || ingredients.map((item) => item.name).join(", "),
+      calories: Math.round(sum("calories")),
+      protein_g: sum("protein_g"),
+      carbs_g: sum("carbs_g"),
+      fats_g: sum("fats_g"),
+      fiber_g: sum("fiber_g"),
+      sugar_g: sum("sugar_g"),
+      sodium_mg: Math.round(sum("sodium_mg")),
+      serving_size_g: sum("quantity"),
+      vitamins_json: roundNutrients(
+        sumNutrients(ingredients.map((item) => item.vitamins_json ?? {}))
+      ),
+      micronutrients_json: roundNutrients(
+        sumNutrients(ingredients.map((item) => item.micronutrients_json ?? {}))
+      ),
+      ingredients,
+    };
+
+    const {
+      user_id: _userId,
+      upload_time: _uploadTime,
+      created_at: _createdAt,
+      ...fields
+    } = mapMealDataToPrismaFields(mealData, user_id);
+    const profile = await RestrictionService.getProfile(user_id);
+
+    console.log(
+      "✅ Meal text analyzed:",
+      ingredients.map((item) => `${item.name} (${item.source})`).join(", ")
+    );
+
+    return {
+      ...fields,
+      description: input.text,
+      source: input.source,
+      items: toAnalysisItems(ingredients),
+      restriction_warnings: RestrictionService.checkFood(
+        profile,
+        RestrictionService.describeMeal(fields)
+      ),
     };
   }
 
+  /**
+   * Nutrients of one ingredient line ("2 egg", "150 g rice"), looked up the
+   * same way as foods in a meal description. Lines nothing matches come back
+   * at zero with source "unmatched".
+   */
+  static resolveIngredient(
+    user_id: string,
+    line: { name: string; quantity: number; unit: string }
+  ) {
+    return this.resolveDescribedFood(user_id, {
+      names: [line.name],
+      portion: `${line.quantity} ${line.unit}`,
+      count: line.quantity,
+      unit: line.unit,
+      grams: weightInGrams(line.quantity, line.unit),
+      estimate: null,
+    });
+  }
+
+  private static async resolveDescribedFood(
+    user_id: string,
+    food: DescribedFood
+  ): Promise<TextMealIngredient> {
+    let product: ProductData | null = null;
+    for (const name of food.names) {
+      product = await ProductCatalogService.findByName(name, user_id);
+      if (product) break;
+    }
+
+    if (product) {
+      const grams =
+        food.grams ??
+        (parseServingGrams(product.serving_size) ?? DEFAULT_PORTION_G) *
+          food.count;
+      const per100g = product.nutrition_per_100g;
+      const scale = grams / 100;
+      return toTextMealIngredient(
+        food,
+        grams,
+        {
+          calories: (per100g.calories || 0) * scale,
+          protein_g: (per100g.protein || 0) * scale,
+          carbs_g: (per100g.carbs || 0) * scale,
+          fats_g: (per100g.fat || 0) * scale,
+          fiber_g: (per100g.fiber || 0) * scale,
+          sugar_g: (per100g.sugar || 0) * scale,
+          sodium_mg: (per100g.sodium || 0) * scale,
+        },
+        "catalog",
+        product
+      );
+    }
+
+    let compositionFood: FoodCompositionData | null = null;
+    try {
+      compositionFood = await FoodCompositionService.findBestMatch(food.names);
+    } catch (error: any) {
+      console.log("⚠️ Food database lookup failed:", error.message);
+    }
+
+    if (compositionFood) {
+      const grams =
+        food.grams ??
+        FoodCompositionService.gramsForAmount(
+          compositionFood,
+          food.count,
+          food.unit
+        ) ??
+        DEFAULT_PORTION_G * food.count;
+      const nutrients = roundNutrients(
+        FoodCompositionService.nutrientsFor(compositionFood, grams)
+      );
+      return {
+        ...toTextMealIngredient(
+          food,
+          grams,
+          {
+            ...nutrients,
+            calories: nutrients.calories ?? 0,
+            protein_g: nutrients.protein_g ?? 0,
+            carbs_g: nutrients.carbs_g ?? 0,
+            fats_g: nutrients.fats_g ?? 0,
+          },
+          "database"
+        ),
+        matched_food: {
+          food_id: compositionFood.food_id,
+          name: compositionFood.name_en,
+        },
+        vitamins_json: pickNutrients(nutrients, VITAMIN_KEYS),
+        micronutrients_json: pickNutrients(nutrients, MINERAL_KEYS),
+      };
+    }
+
+    if (food.estimate) {
+      return toTextMealIngredient(
+        food,
+        food.estimate.quantity_g,
+        food.estimate,
+        "estimate"
+      );
+    }
+
+    return toTextMealIngredient(
+      food,
+      food.grams ?? 0,
+      { calories: 0, protein_g: 0, carbs_g: 0, fats_g: 0 },
+      "unmatched"
+    );
+  }
+
   static async updateMeal(
     user_id: string,
     updateData: {
@@ -284,7 +569,8 @@ export class NutritionService {
       const updatedAnalysis = await OpenAIService.updateMealAnalysis(
         originalAnalysis,
         updateData.updateText,
-        updateData.language || "english"
+        updateData.language || "english",
+        user_id
       );
 
       // Update meal in database - preserve all existing fields that aren't updated
@@ -356,7 +642,14 @@ export class NutritionService {
       });
 
       console.log("✅ Meal updated successfully");
-      return updatedMeal;
+      const profile = await RestrictionService.getProfile(user_id);
+      return {
+        ...updatedMeal,
+        restriction_warnings: RestrictionService.checkFood(
+          profile,
+          RestrictionService.describeMeal(updatedMeal)
+        ),
+      };
     } catch (error) {
       console.error("💥 Error updating meal:", error);
       throw error;
@@ -365,10 +658,17 @@ export class NutritionService {
 
   static async saveMeal(user_id: string, mealData: any, imageBase64?: string) {
     try {
-      const meal = await prisma.meal.create({
-        data: mapMealDataToPrismaFields(mealData, user_id, imageBase64),
-      });
-      return transformMealForClient(meal);
+      const imageUrl = await ImageStorageService.resolveImageUrl(
+        user_id,
+        imageBase64 || mealData.image_url
+      );
+      const [meal, profile] = await Promise.all([
+        prisma.meal.create({
+          data: mapMealDataToPrismaFields(mealData, user_id, imageUrl),
+        }),
+        RestrictionService.getProfile(user_id),
+      ]);
+      return transformMealForClient(meal, profile);
     } catch (error) {
       throw new Error("Failed to save meal");
     }
@@ -376,11 +676,14 @@ export class NutritionService {
 
   static async getUserMeals(user_id: string) {
     try {
-      const meals = await prisma.meal.findMany({
-        where: { user_id },
-        orderBy: { created_at: "desc" },
-      });
-      return meals.map(transformMealForClient);
+      const [meals, profile] = await Promise.all([
+        prisma.meal.findMany({
+          where: { user_id },
+          orderBy: { created_at: "desc" },
+        }),
+        RestrictionService.getProfile(user_id),
+      ]);
+      return meals.map((meal: any) => transformMealForClient(meal, profile));
     } catch (error) {
       throw new Error("Failed to fetch meals");
     }
@@ -398,15 +701,17 @@ export class NutritionService {
       console.log("📊 Getting range statistics for user:", userId);
       console.log("📅 Date range:", { startDate, endDate });
 
-      const startDateTime = new Date(startDate + "T00:00:00.000Z");
-      const endDateTime = new Date(endDate + "T23:59:59.999Z");
+      // Days are the user's local days, not UTC ones
+      const timeZone = await TimeZoneService.getUserTimeZone(userId);
+      const { start, end } = getZonedRangeBounds(startDate, endDate, timeZone);
 
       const meals = await prisma.meal.findMany({
         where: {
           user_id: userId,
+          analysis_status: "COMPLETED",
           created_at: {
-            gte: startDateTime,
-            lte: endDateTime,
+            gte: start,
+            lt: end,
           },
         },
         orderBy: {
@@ -488,7 +793,7 @@ export class NutritionService {
       }
 
       const uniqueDates = new Set(
-        meals.map((meal) => meal.created_at.toISOString().split("T")[0])
+        meals.map((meal) => getLocalDateString(meal.created_at, timeZone))
       );
       const totalDays = uniqueDates.size;
 
@@ -501,7 +806,7 @@ export class NutritionService {
 
       // Group meals by day
       const dailyData = meals.reduce((acc, meal) => {
-        const date = meal.created_at.toISOString().split("T")[0];
+        const date = getLocalDateString(meal.created_at, timeZone);
         if (!acc[date]) {
           acc[date] = {
             date,
@@ -588,14 +893,14 @@ export class NutritionService {
 
   static async getDailyStats(user_id: string, date: string) {
     try {
-      const startDate = new Date(date);
-      const endDate = new Date(date);
-      endDate.setDate(endDate.getDate() + 1);
+      const timeZone = await TimeZoneService.getUserTimeZone(user_id);
+      const { start, end } = getZonedDayBounds(date, timeZone);
 
       const meals = await prisma.meal.findMany({
         where: {
           user_id,
-          created_at: { gte: startDate, lt: endDate },
+          analysis_status: "COMPLETED",
+          created_at: { gte: start, lt: end },
         },
       });
 
@@ -688,19 +993,179 @@ export class NutritionService {
     });
     if (!originalMeal) throw new Error("Meal not found");
 
-    const duplicateDate = newDate ? new Date(newDate) : new Date();
+    const duplicateDate = newDate
+      ? await getDuplicateTime(user_id, newDate)
+      : new Date();
+    const imageUrl = await ImageStorageService.resolveImageUrl(
+      user_id,
+      originalMeal.image_url
+    );
     const duplicatedMeal = await prisma.meal.create({
-      data: mapExistingMealToPrismaInput(originalMeal, user_id, duplicateDate),
+      data: mapExistingMealToPrismaInput(
+        { ...originalMeal, image_url: imageUrl },
+        user_id,
+        duplicateDate
+      ),
     });
 
-    return transformMealForClient(duplicatedMeal);
+    const profile = await RestrictionService.getProfile(user_id);
+    return transformMealForClient(duplicatedMeal, profile);
   }
+
+  // Water drunk on a local day (YYYY-MM-DD)
+  static async getWaterIntake(user_id: string, date: string) {
+    const waterRecord = await prisma.waterIntake.findUnique({
+      where: {
+        user_id_date: {
+          user_id,
+          date: dateStringToDbDate(date),
+        },
+      },
+    });
+
+    return waterRecord || { cups_consumed: 0, milliliters_consumed: 0 };
+  }
+
+  /**
+   * Sets the cups of water drunk on a local day, today in the user's time
+   * zone by default. Reaching 16 cups earns the Scuba Diver badge and its
+   * XP, once per day.
+   */
+  static async trackWaterIntake(
+    user_id: string,
+    cups: number,
+    date?: string,
+    timeZone?: string
+  ) {
+    const zone = timeZone || (await TimeZoneService.getUserTimeZone(user_id));
+    const trackingDate = date || getLocalDateString(new Date(), zone);
+    const milliliters = cups * 250;
+
+    // Bounds of the user's local day, for badges earned during it
+    const { start: startOfDay, end: endOfDay } = getZonedDayBounds(
+      trackingDate,
+      zone
+    );
+
+    // Check if water intake record exists for the day
+    const existingRecord = await prisma.waterIntake.findUnique({
+      where: {
+        user_id_date: {
+          user_id,
+          date: dateStringToDbDate(trackingDate),
+        },
+      },
+    });
+
+    let waterRecord;
+    let xpAwarded = 0;
+    let badgeAwarded = null;
+
+    if (existingRecord) {
+      waterRecord = await prisma.waterIntake.update({
+        where: { id: existingRecord.id },
+        data: {
+          cups_consumed: cups,
+          milliliters_consumed: milliliters,
+          updated_at: new Date(),
+        },
+      });
+    } else {
+      waterRecord = await prisma.waterIntake.create({
+        data: {
+          user_id,
+          date: dateStringToDbDate(trackingDate),
+          cups_consumed: cups,
+          milliliters_consumed: milliliters,
+        },
+      });
+    }
+
+    // Award XP and badge if 16+ cups (only if not already awarded today)
+    if (cups >= 16) {
+      // Check if user already has scuba diver badge for today
+      const todayBadgeCount = await prisma.userBadge.count({
+        where: {
+          user_id,
+          badge_id: "scuba_diver",
+          earned_date: {
+            gte: startOfDay,
+            lt: endOfDay,
+          },
+        },
+      });
+
+      if (todayBadgeCount === 0) {
+        // Create scuba diver badge if it doesn't exist
+        await prisma.badge.upsert({
+          where: { id: "scuba_diver" },
+          update: {},
+          create: {
+            id: "scuba_diver",
+            name: "Scuba Diver",
+            description: "Drank 16+ cups of water in a day",
+            icon: "🤿",
+            rarity: "RARE",
+            points_awarded: 100,
+            category: "hydration",
+          },
+        });
+
+        // Award badge to user (create new entry each time they achieve it)
+        await prisma.userBadge.create({
+          data: {
+            user_id,
+            badge_id: "scuba_diver",
+            earned_date: new Date(),
+          },
+        });
+
+        // Update user level and XP
+        const currentUser = await prisma.user.findUnique({
+          where: { user_id },
+          select: { current_xp: true, total_points: true, level: true },
+        });
+
+        const newTotalPoints = (currentUser?.total_points || 0) + 100;
+        const newCurrentXP = (currentUser?.current_xp || 0) + 100;
+        const newLevel = Math.floor(newTotalPoints / 1000) + 1;
+        const finalXP =
+          newCurrentXP >= 1000 ? newCurrentXP - 1000 : newCurrentXP;
+
+        await prisma.user.update({
+          where: { user_id },
+          data: {
+            current_xp: finalXP,
+            total_points: newTotalPoints,
+            level: newLevel,
+          },
+        });
+
+        xpAwarded = 100;
+        badgeAwarded = "scuba_diver";
+      }
+    }
+
+    return { waterRecord, xpAwarded, badgeAwarded };
+  }
+}
+
+// A copy onto another day keeps the current local time of day, so a
+// YYYY-MM-DD target lands on that day in the user's zone
+async function getDuplicateTime(user_id: string, newDate: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(newDate)) return new Date(newDate);
+
+  const { timeZone, date: today } = await TimeZoneService.getUserToday(
+    user_id
+  );
+  const timeOfDay = Date.now() - getZonedStartOfDay(today, timeZone).getTime();
+  return new Date(getZonedStartOfDay(newDate, timeZone).getTime() + timeOfDay);
 }
 
 function mapMealDataToPrismaFields(
   mealData: any,
   user_id: string,
-  imageBase64?: string
+  imageUrl?: string
 ) {
   const ingredients = Array.isArray(mealData.ingredients)
     ? mealData.ingredients
@@ -708,7 +1173,7 @@ function mapMealDataToPrismaFields(
 
   return {
     user_id,
-    image_url: imageBase64 ? `data:image/jpeg;base64,${imageBase64}` : null,
+    image_url: imageUrl ?? null,
     upload_time: new Date(),
     analysis_status: "COMPLETED",
     meal_name: mealData.meal_name || mealData.name || "Unknown Meal",
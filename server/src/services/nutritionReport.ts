@@ -0,0 +1,621 @@
+import PDFDocument from "pdfkit";
+import path from "path";
+import bidiFactory from "bidi-js";
+import { prisma } from "../lib/database";
+import { StatisticsService } from "./statistics";
+import { ReportLanguage } from "../types/statistics";
+import { dateStringToDbDate } from "../utils/dates";
+
+const FONT_DIR = path.join(
+  path.dirname(require.resolve("dejavu-fonts-ttf/package.json")),
+  "ttf"
+);
+const FONT_REGULAR = path.join(FONT_DIR, "DejaVuSans.ttf");
+const FONT_BOLD = path.join(FONT_DIR, "DejaVuSans-Bold.ttf");
+
+const PAGE_MARGIN = 40;
+const GOAL_TOLERANCE = 0.1; // ±10% of the calorie goal counts as "on target"
+const MAX_REPORT_DAYS = 366;
+
+const COLORS = {
+  primary: "#10b981",
+  calories: "#f59e0b",
+  water: "#3b82f6",
+  goal: "#ef4444",
+  text: "#1f2937",
+  muted: "#6b7280",
+  border: "#e5e7eb",
+  stripe: "#f9fafb",
+};
+
+const STRINGS = {
+  en: {
+    title: "Nutrition Report",
+    period: "Period",
+    generated: "Generated",
+    summary: "Summary",
+    avgCalories: "Avg. calories",
+    avgProtein: "Avg. protein",
+    avgCarbs: "Avg. carbs",
+    avgFats: "Avg. fats",
+    avgWater: "Avg. water",
+    adherence: "Goal adherence",
+    loggedDays: "Days logged",
+    currentStreak: "Current streak",
+    bestStreak: "Best streak",
+    days: "days",
+    caloriesChart: "Daily calories vs. goal",
+    waterChart: "Daily water intake (ml)",
+    dailyTable: "Daily breakdown",
+    date: "Date",
+    meals: "Meals",
+    calories: "Calories",
+    protein: "Protein (g)",
+    carbs: "Carbs (g)",
+    fats: "Fats (g)",
+    water: "Water (ml)",
+    goalPercent: "% of goal",
+    badges: "Badges earned",
+    noBadges: "No badges earned yet",
+    noData: "No meals were logged in this period",
+    goalLegend: "Goal",
+  },
+  he: {
+    title: "דוח תזונה",
+    period: "תקופה",
+    generated: "הופק",
+    summary: "סיכום",
+    avgCalories: "ממוצע קלוריות",
+    avgProtein: "ממוצע חלבון",
+    avgCarbs: "ממוצע פחמימות",
+    avgFats: "ממוצע שומנים",
+    avgWater: "ממוצע מים",
+    adherence: "עמידה ביעד",
+    loggedDays: "ימים מתועדים",
+    currentStreak: "רצף נוכחי",
+    bestStreak: "רצף שיא",
+    days: "ימים",
+    caloriesChart: "קלוריות יומיות מול היעד",
+    waterChart: "צריכת מים יומית (מ״ל)",
+    dailyTable: "פירוט יומי",
+    date: "תאריך",
+    meals: "ארוחות",
+    calories: "קלוריות",
+    protein: "חלבון (ג׳)",
+    carbs: "פחמימות (ג׳)",
+    fats: "שומנים (ג׳)",
+    water: "מים (מ״ל)",
+    goalPercent: "% מהיעד",
+    badges: "תגים שהושגו",
+    noBadges: "עדיין לא הושגו תגים",
+    noData: "לא תועדו ארוחות בתקופה זו",
+    goalLegend: "יעד",
+  },
+};
+
+type ReportStrings = (typeof STRINGS)["en"];
+
+interface ReportDayGoal {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  water_ml: number;
+}
+
+interface ReportDay {
+  date: string;
+  meal_count: number;
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  liquids_ml: number;
+  goal: ReportDayGoal | null;
+}
+
+interface TextOptions {
+  bold?: boolean;
+  size?: number;
+  color?: string;
+  align?: "left" | "right" | "center";
+}
+
+export interface NutritionReportOptions {
+  // Inclusive YYYY-MM-DD dates in the user's time zone
+  from: string;
+  to: string;
+  language: ReportLanguage;
+}
+
+const bidi = bidiFactory();
+
+// pdfkit shapes text word by word and fontkit reverses every Hebrew run, which
+// scrambles word order and mixed numbers. Instead the bidi algorithm produces
+// the final visual order, and the string is handed to fontkit pre-reversed as
+// a single run so its own RTL reversal lands on exactly that order.
+function shapeRTL(text: string) {
+  if (!/[\u0590-\u05FF]/.test(text)) return null;
+  const levels = bidi.getEmbeddingLevels(text, "rtl");
+  return bidi.getReorderedString(text, levels).split("").reverse().join("");
+}
+
+function round(value: number, digits = 0) {
+  const factor = Math.pow(10, digits);
+  return Math.round((value || 0) * factor) / factor;
+}
+
+export class ReportRangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReportRangeError";
+  }
+}
+
+export class NutritionReportService {
+  static async generatePDF(
+    userId: string,
+    options: NutritionReportOptions
+  ): Promise<Buffer> {
+    const { from, to, language } = options;
+
+    if (from > to) {
+      throw new ReportRangeError("from must be before or equal to to");
+    }
+    const spanDays = Math.round(
+      (dateStringToDbDate(to).getTime() - dateStringToDbDate(from).getTime()) /
+        (1000 * 60 * 60 * 24)
+    );
+    if (spanDays > MAX_REPORT_DAYS) {
+      throw new ReportRangeError(
+        `Report range cannot exceed ${MAX_REPORT_DAYS} days`
+      );
+    }
+
+    const [user, statistics] = await Promise.all([
+      prisma.user.findUnique({
+        where: { user_id: userId },
+        select: { name: true, email: true },
+      }),
+      StatisticsService.getNutritionStatistics(userId, "custom", { from, to }),
+    ]);
+
+    if (!user) throw new Error("User not found");
+
+    const stats = statistics.data;
+    const days = stats.dailyBreakdown as ReportDay[];
+
+    console.log(
+      `📄 Rendering ${language} report for ${userId}: ${days.length} days`
+    );
+
+    const renderer = new ReportRenderer(language);
+    renderer.header(user.name || user.email, from, to);
+    renderer.summary(stats, days);
+    renderer.caloriesChart(days);
+    renderer.waterChart(days);
+    renderer.dailyTable(days);
+    renderer.badges(stats.badges);
+
+    return renderer.finish();
+  }
+}
+
+class ReportRenderer {
+  private doc: PDFKit.PDFDocument;
+  private chunks: Buffer[] = [];
+  private t: ReportStrings;
+  private rtl: boolean;
+  private locale: string;
+
+  constructor(language: ReportLanguage) {
+    this.t = STRINGS[language];
+    this.rtl = language === "he";
+    this.locale = this.rtl ? "he-IL" : "en-GB";
+
+    this.doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      info: { Title: this.t.title },
+    });
+    this.doc.registerFont("regular", FONT_REGULAR);
+    this.doc.registerFont("bold", FONT_BOLD);
+    this.doc.font("regular");
+    this.doc.on("data", (chunk: Buffer) => this.chunks.push(chunk));
+  }
+
+  private get contentWidth() {
+    return this.doc.page.width - PAGE_MARGIN * 2;
+  }
+
+  // Mirrors a box (x measured from the leading edge) for RTL layouts
+  private x(offset: number, width: number) {
+    return this.rtl
+      ? this.doc.page.width - PAGE_MARGIN - offset - width
+      : PAGE_MARGIN + offset;
+  }
+
+  private text(
+    value: string,
+    offset: number,
+    y: number,
+    width: number,
+    options: TextOptions = {}
+  ) {
+    const align = options.align || (this.rtl ? "right" : "left");
+    const boxX = this.x(offset, width);
+
+    this.doc
+      .font(options.bold ? "bold" : "regular")
+      .fontSize(options.size || 10)
+      .fillColor(options.color || COLORS.text);
+
+    const shaped = shapeRTL(value);
+    if (!shaped) {
+      this.doc.text(value, boxX, y, { width, align, lineBreak: false });
+      return;
+    }
+
+    // A single-run layout cannot go through the line wrapper, so alignment
+    // is computed by hand
+    const textWidth = this.doc.widthOfString(shaped, { features: [] });
+    const textX =
+      align === "right"
+        ? boxX + width - textWidth
+        : align === "center"
+        ? boxX + (width - textWidth) / 2
+        : boxX;
+    this.doc.text(shaped, textX, y, { lineBreak: false, features: [] });
+  }
+
+  private formatDate(date: Date | string) {
+    const value = typeof date === "string" ? new Date(date) : date;
+    return value.toLocaleDateString(this.locale, {
+      day: "2-digit",
+      month: "2-digit",
+      year: "numeric",
+      timeZone: "UTC",
+    });
+  }
+
+  private ensureSpace(height: number) {
+    if (this.doc.y + height > this.doc.page.height - PAGE_MARGIN) {
+      this.doc.addPage();
+      this.doc.y = PAGE_MARGIN;
+    }
+  }
+
+  private sectionTitle(title: string) {
+    this.ensureSpace(40);
+    const y = this.doc.y + 10;
+    this.text(title, 0, y, this.contentWidth, {
+      bold: true,
+      size: 14,
+      color: COLORS.primary,
+    });
+    this.doc.y = y + 24;
+  }
+
+  header(userName: string, from: string, to: string) {
+    this.text(this.t.title, 0, PAGE_MARGIN, this.contentWidth, {
+      bold: true,
+      size: 22,
+    });
+    this.text(userName, 0, PAGE_MARGIN + 32, this.contentWidth, {
+      size: 12,
+      color: COLORS.muted,
+    });
+    this.text(
+      `${this.t.period}: ${this.formatDate(from)} – ${this.formatDate(to)}`,
+      0,
+      PAGE_MARGIN + 50,
+      this.contentWidth,
+      { size: 10, color: COLORS.muted }
+    );
+    this.text(
+      `${this.t.generated}: ${this.formatDate(new Date())}`,
+      0,
+      PAGE_MARGIN + 64,
+      this.contentWidth,
+      { size: 10, color: COLORS.muted }
+    );
+
+    const lineY = PAGE_MARGIN + 84;
+    this.doc
+      .moveTo(PAGE_MARGIN, lineY)
+      .lineTo(this.doc.page.width - PAGE_MARGIN, lineY)
+      .strokeColor(COLORS.border)
+      .stroke();
+    this.doc.y = lineY + 6;
+  }
+
+  summary(stats: any, days: ReportDay[]) {
+    this.sectionTitle(this.t.summary);
+
+    const loggedDays = days.filter((day) => day.meal_count > 0);
+    const scoredDays = loggedDays.filter((day) => day.goal?.calories);
+    const onTargetDays = scoredDays.filter(
+      (day) =>
+        Math.abs(day.calories - day.goal!.calories) <=
+        day.goal!.calories * GOAL_TOLERANCE
+    );
+    const adherence =
+      scoredDays.length > 0
+        ? Math.round((onTargetDays.length / scoredDays.length) * 100)
+        : 0;
+    const averageWater =
+      days.length > 0
+        ? days.reduce((sum, day) => sum + (day.liquids_ml || 0), 0) /
+          days.length
+        : 0;
+
+    const cards: Array<[string, string]> = [
+      [this.t.avgCalories, `${round(stats.averageCalories)} kcal`],
+      [this.t.avgProtein, `${round(stats.averageProtein)} g`],
+      [this.t.avgCarbs, `${round(stats.averageCarbs)} g`],
+      [this.t.avgFats, `${round(stats.averageFats)} g`],
+      [this.t.avgWater, `${round(averageWater)} ml`],
+      [this.t.adherence, `${adherence}%`],
+      [this.t.loggedDays, `${loggedDays.length} / ${days.length}`],
+      [this.t.currentStreak, `${stats.currentStreak} ${this.t.days}`],
+      [this.t.bestStreak, `${stats.bestStreak} ${this.t.days}`],
+    ];
+
+    const columns = 3;
+    const gap = 10;
+    const cardWidth = (this.contentWidth - gap * (columns - 1)) / columns;
+    const cardHeight = 44;
+    const top = this.doc.y;
+
+    cards.forEach(([label, value], index) => {
+      const column = index % columns;
+      const row = Math.floor(index / columns);
+      const offset = column * (cardWidth + gap);
+      const y = top + row * (cardHeight + gap);
+
+      this.doc
+        .roundedRect(this.x(offset, cardWidth), y, cardWidth, cardHeight, 6)
+        .fillColor(COLORS.stripe)
+        .fill();
+      this.text(label, offset + 8, y + 7, cardWidth - 16, {
+        size: 9,
+        color: COLORS.muted,
+      });
+      this.text(value, offset + 8, y + 21, cardWidth - 16, {
+        bold: true,
+        size: 13,
+      });
+    });
+
+    const rows = Math.ceil(cards.length / columns);
+    this.doc.y = top + rows * (cardHeight + gap);
+
+    if (loggedDays.length === 0) {
+      this.text(this.t.noData, 0, this.doc.y + 4, this.contentWidth, {
+        color: COLORS.muted,
+      });
+      this.doc.y += 20;
+    }
+  }
+
+  private barChart(
+    title: string,
+    days: ReportDay[],
+    valueOf: (day: ReportDay) => number,
+    goalOf: (day: ReportDay) => number | undefined,
+    color: string
+  ) {
+    const chartHeight = 140;
+    this.sectionTitle(title);
+    this.ensureSpace(chartHeight + 40);
+
+    const legendY = this.doc.y;
+    const top = legendY + 14;
+    const values = days.map(valueOf);
+    const goals = days.map(goalOf);
+    const maxValue = Math.max(1, ...values, ...goals.map((goal) => goal || 0));
+    const slot = this.contentWidth / Math.max(days.length, 1);
+    const barWidth = Math.max(2, Math.min(24, slot * 0.7));
+    const baseY = top + chartHeight;
+
+    this.doc
+      .moveTo(PAGE_MARGIN, baseY)
+      .lineTo(this.doc.page.width - PAGE_MARGIN, baseY)
+      .strokeColor(COLORS.border)
+      .stroke();
+
+    days.forEach((day, index) => {
+      // Days run right-to-left in Hebrew, matching the reading direction
+      const center = this.x(index * slot, slot) + slot / 2;
+      const height = (values[index] / maxValue) * chartHeight;
+      if (height > 0) {
+        this.doc
+          .rect(center - barWidth / 2, baseY - height, barWidth, height)
+          .fillColor(color)
+          .fill();
+      }
+
+      const goal = goals[index];
+      if (goal) {
+        const goalY = baseY - (goal / maxValue) * chartHeight;
+        this.doc
+          .moveTo(center - slot / 2, goalY)
+          .lineTo(center + slot / 2, goalY)
+          .strokeColor(COLORS.goal)
+          .lineWidth(1.5)
+          .stroke()
+          .lineWidth(1);
+      }
+
+      const labelEvery = Math.ceil(days.length / 10);
+      if (index % labelEvery === 0) {
+        this.doc
+          .font("regular")
+          .fontSize(7)
+          .fillColor(COLORS.muted)
+          .text(day.date.slice(5), center - 20, baseY + 4, {
+            width: 40,
+            align: "center",
+            lineBreak: false,
+          });
+      }
+    });
+
+    this.text(
+      `${this.t.goalLegend} ―  max ${round(maxValue)}`,
+      0,
+      legendY,
+      this.contentWidth,
+      { size: 8, color: COLORS.goal, align: this.rtl ? "left" : "right" }
+    );
+
+    this.doc.y = baseY + 20;
+  }
+
+  caloriesChart(days: ReportDay[]) {
+    this.barChart(
+      this.t.caloriesChart,
+      days,
+      (day) => day.calories,
+      (day) => day.goal?.calories,
+      COLORS.calories
+    );
+  }
+
+  waterChart(days: ReportDay[]) {
+    this.barChart(
+      this.t.waterChart,
+      days,
+      (day) => day.liquids_ml,
+      (day) => day.goal?.water_ml,
+      COLORS.water
+    );
+  }
+
+  dailyTable(days: ReportDay[]) {
+    const columns: Array<{
+      label: string;
+      width: number;
+      value: (day: ReportDay) => string;
+    }> = [
+      {
+        label: this.t.date,
+        width: 80,
+        value: (day) => this.formatDate(day.date),
+      },
+      { label: this.t.meals, width: 45, value: (day) => `${day.meal_count}` },
+      {
+        label: this.t.calories,
+        width: 65,
+        value: (day) => `${round(day.calories)}`,
+      },
+      {
+        label: this.t.protein,
+        width: 65,
+        value: (day) => `${round(day.protein_g)}`,
+      },
+      {
+        label: this.t.carbs,
+        width: 70,
+        value: (day) => `${round(day.carbs_g)}`,
+      },
+      {
+        label: this.t.fats,
+        width: 65,
+        value: (day) => `${round(day.fats_g)}`,
+      },
+      {
+        label: this.t.water,
+        width: 60,
+        value: (day) => `${round(day.liquids_ml)}`,
+      },
+      {
+        label: this.t.goalPercent,
+        width: 65,
+        value: (day) =>
+          day.goal?.calories
+            ? `${Math.round((day.calories / day.goal.calories) * 100)}%`
+            : "—",
+      },
+    ];
+    const rowHeight = 18;
+
+    const drawHeader = () => {
+      const y = this.doc.y;
+      this.doc
+        .rect(PAGE_MARGIN, y, this.contentWidth, rowHeight)
+        .fillColor(COLORS.primary)
+        .fill();
+      let offset = 0;
+      for (const column of columns) {
+        this.text(column.label, offset + 4, y + 5, column.width - 8, {
+          bold: true,
+          size: 8,
+          color: "#ffffff",
+        });
+        offset += column.width;
+      }
+      this.doc.y = y + rowHeight;
+    };
+
+    this.sectionTitle(this.t.dailyTable);
+    this.ensureSpace(rowHeight * 3);
+    drawHeader();
+
+    days.forEach((day, index) => {
+      if (this.doc.y + rowHeight > this.doc.page.height - PAGE_MARGIN) {
+        this.doc.addPage();
+        this.doc.y = PAGE_MARGIN;
+        drawHeader();
+      }
+
+      const y = this.doc.y;
+      if (index % 2 === 1) {
+        this.doc
+          .rect(PAGE_MARGIN, y, this.contentWidth, rowHeight)
+          .fillColor(COLORS.stripe)
+          .fill();
+      }
+
+      let offset = 0;
+      for (const column of columns) {
+        this.text(column.value(day), offset + 4, y + 5, column.width - 8, {
+          size: 8,
+        });
+        offset += column.width;
+      }
+      this.doc.y = y + rowHeight;
+    });
+  }
+
+  badges(badges: any[]) {
+    this.sectionTitle(this.t.badges);
+
+    if (!badges || badges.length === 0) {
+      this.text(this.t.noBadges, 0, this.doc.y, this.contentWidth, {
+        color: COLORS.muted,
+      });
+      this.doc.y += 16;
+      return;
+    }
+
+    for (const badge of badges) {
+      this.ensureSpace(16);
+      this.text(
+        `${badge.name} · ${this.formatDate(badge.earned_date)}`,
+        0,
+        this.doc.y,
+        this.contentWidth
+      );
+      this.doc.y += 16;
+    }
+  }
+
+  finish(): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      this.doc.on("end", () => resolve(Buffer.concat(this.chunks)));
+      this.doc.on("error", reject);
+      this.doc.end();
+    });
+  }
+}
@@ -0,0 +1,508 @@
+import { prisma } from "../lib/database";
+import {
+  fetchOpenFoodFactsProduct,
+  isLiveLookupEnabled,
+} from "../lib/openFoodFacts";
+import {
+  CreateProductInput,
+  NutritionPer100g,
+  ProductCorrectionInput,
+  ProductData,
+  ResolveFlagInput,
+} from "../types/foodProducts";
+import { foodNameMatches, foodNameWords } from "../utils/mealText";
+import { asJsonObject } from "../utils/nutrition";
+
+export class ProductNotFoundError extends Error {
+  constructor(readonly barcode: string) {
+    super(`No product found for barcode ${barcode}`);
+    this.name = "ProductNotFoundError";
+  }
+}
+
+export class ProductExistsError extends Error {
+  constructor(readonly barcode: string) {
+    super(`A product with barcode ${barcode} already exists`);
+    this.name = "ProductExistsError";
+  }
+}
+
+// Two values conflict when they differ by more than 20% and by more than a
+// small absolute amount, so rounding on labels doesn't trigger review
+const CONFLICT_RELATIVE_TOLERANCE = 0.2;
+const CONFLICT_ABSOLUTE_TOLERANCE: Record<string, number> = {
+  calories: 20,
+  protein: 2,
+  carbs: 3,
+  fat: 2,
+};
+
+const IMPORT_BATCH_SIZE = 500;
+const NAME_SEARCH_MAX_WORDS = 6;
+const NAME_SEARCH_CANDIDATES = 50;
+
+export interface ImportStats {
+  created: number;
+  updated: number;
+  flagged: number;
+  kept: number;
+}
+
+export function findNutritionConflicts(
+  shared: Partial<NutritionPer100g>,
+  candidate: Partial<NutritionPer100g>
+) {
+  return Object.entries(CONFLICT_ABSOLUTE_TOLERANCE)
+    .filter(([key, absoluteTolerance]) => {
+      const a = Number(shared[key as keyof NutritionPer100g] || 0);
+      const b = Number(candidate[key as keyof NutritionPer100g] || 0);
+      const difference = Math.abs(a - b);
+      return (
+        difference > absoluteTolerance &&
+        difference > Math.max(a, b) * CONFLICT_RELATIVE_TOLERANCE
+      );
+    })
+    .map(
+      ([key]) =>
+        `${key}: ${shared[key as keyof NutritionPer100g]} vs ${
+          candidate[key as keyof NutritionPer100g]
+        }`
+    );
+}
+
+function toProductRow(productData: ProductData) {
+  return {
+    product_name: productData.name,
+    brand: productData.brand,
+    category: productData.category,
+    nutrition_per_100g: productData.nutrition_per_100g,
+    ingredients: productData.ingredients,
+    allergens: productData.allergens,
+    labels: productData.labels,
+    health_score:
+      productData.health_score !== undefined
+        ? Math.round(productData.health_score)
+        : undefined,
+    image_url: productData.image_url,
+    serving_size: productData.serving_size,
+  };
+}
+
+/**
+ * Shared barcode catalog. Records come from OpenFoodFacts (live lookups or
+ * an imported dump) or from users; nobody owns them. Per-user corrections
+ * are stored apart and applied on read only for that user, and values that
+ * disagree with the shared record put it up for moderation.
+ */
+export class ProductCatalogService {
+  static toProductData(product: any, correction?: any | null): ProductData {
+    const productData: ProductData = {
+      barcode: product.barcode,
+      name: product.product_name,
+      brand: product.brand || undefined,
+      category: product.category,
+      nutrition_per_100g: product.nutrition_per_100g,
+      ingredients: product.ingredients || [],
+      allergens: product.allergens || [],
+      labels: product.labels || [],
+      health_score: product.health_score ?? undefined,
+      image_url: product.image_url || undefined,
+      serving_size: product.serving_size || undefined,
+      moderation_status: product.moderation_status,
+      user_corrected: false,
+    };
+
+    if (!correction) return productData;
+
+    return {
+      ...productData,
+      name: correction.product_name ?? productData.name,
+      brand: correction.brand ?? productData.brand,
+      nutrition_per_100g: {
+        ...productData.nutrition_per_100g,
+        ...correction.nutrition_per_100g,
+      },
+      ingredients: correction.ingredients ?? productData.ingredients,
+      allergens: correction.allergens ?? productData.allergens,
+      labels: correction.labels ?? productData.labels,
+      user_corrected: true,
+    };
+  }
+
+  /**
+   * Catalog first, then OpenFoodFacts when live lookups are enabled. Found
+   * products are cached in the catalog and the scan is recorded for the
+   * user's history. Throws ProductNotFoundError so the app can offer manual
+   * entry.
+   */
+  static async lookupBarcode(barcode: string, userId: string) {
+    let product = await prisma.foodProduct.findUnique({
+      where: { barcode },
+      include: { corrections: { where: { user_id: userId } } },
+    });
+
+    if (!product && isLiveLookupEnabled()) {
+      try {
+        const productData = await fetchOpenFoodFactsProduct(barcode);
+        if (productData) {
+          console.log("🌐 Cached OpenFoodFacts product:", barcode);
+          product = await prisma.foodProduct.upsert({
+            where: { barcode },
+            update: {},
+            create: {
+              barcode,
+              ...toProductRow(productData),
+              source: "OPEN_FOOD_FACTS",
+            },
+            include: { corrections: { where: { user_id: userId } } },
+          });
+        }
+      } catch (error: any) {
+        console.warn("❌ OpenFoodFacts failed:", error.message || error);
+      }
+    }
+
+    if (!product) {
+      throw new ProductNotFoundError(barcode);
+    }
+
+    await this.recordScan(product.product_id, userId);
+    return this.toProductData(product, product.corrections[0]);
+  }
+
+  static async recordScan(product_id: number, user_id: string) {
+    try {
+      await prisma.productScan.create({ data: { product_id, user_id } });
+    } catch (error) {
+      console.error("Error recording product scan:", error);
+    }
+  }
+
+  /**
+   * The catalog product that best fits a food named in free text, or null.
+   * Among matches the most specific name wins, verified records first.
+   */
+  static async findByName(query: string, userId: string) {
+    const words = foodNameWords(query).slice(0, NAME_SEARCH_MAX_WORDS);
+    if (words.length === 0) return null;
+
+    const candidates = await prisma.foodProduct.findMany({
+      where: {
+        moderation_status: { not: "FLAGGED" },
+        OR: words.map((word) => ({
+          product_name: { contains: word, mode: "insensitive" as const },
+        })),
+      },
+      include: { corrections: { where: { user_id: userId } } },
+      take: NAME_SEARCH_CANDIDATES,
+    });
+
+    const specificity = (product: {
+      product_name: string;
+      moderation_status: string;
+    }) =>
+      foodNameWords(product.product_name).length * 2 +
+      (product.moderation_status === "VERIFIED" ? 1 : 0);
+    const best = candidates
+      .filter((product) => foodNameMatches(query, product.product_name))
+      .sort((a, b) => specificity(b) - specificity(a))[0];
+
+    return best ? this.toProductData(best, best.corrections[0]) : null;
+  }
+
+  // Manual entry for a barcode the catalog doesn't know yet
+  static async createProduct(userId: string, input: CreateProductInput) {
+    const existing = await prisma.foodProduct.findUnique({
+      where: { barcode: input.barcode },
+    });
+    if (existing) {
+      throw new ProductExistsError(input.barcode);
+    }
+
+    const product = await prisma.foodProduct.create({
+      data: {
+        barcode: input.barcode,
+        ...toProductRow(input),
+        user_id: userId,
+        source: "USER",
+      },
+    });
+
+    console.log("➕ User created product:", input.barcode);
+    await this.recordScan(product.product_id, userId);
+    return this.toProductData(product);
+  }
+
+  static async saveCorrection(
+    userId: string,
+    barcode: string,
+    input: ProductCorrectionInput
+  ) {
+    const product = await prisma.foodProduct.findUnique({
+      where: { barcode },
+    });
+    if (!product) {
+      throw new ProductNotFoundError(barcode);
+    }
+
+    const data = {
+      product_name: input.name,
+      brand: input.brand,
+      nutrition_per_100g: input.nutrition_per_100g,
+      ingredients: input.ingredients,
+      allergens: input.allergens,
+      labels: input.labels,
+    };
+
+    const correction = await prisma.productCorrection.upsert({
+      where: {
+        product_id_user_id: { product_id: product.product_id, user_id: userId },
+      },
+      update: data,
+      create: { ...data, product_id: product.product_id, user_id: userId },
+    });
+
+    if (input.nutrition_per_100g) {
+      const conflicts = findNutritionConflicts(
+        asJsonObject(product.nutrition_per_100g),
+        input.nutrition_per_100g
+      );
+      if (conflicts.length > 0) {
+        await this.flagProduct(
+          barcode,
+          `User correction differs from shared values (${conflicts.join(
+            ", "
+          )})`
+        );
+      }
+    }
+
+    console.log("✏️ Saved product correction:", barcode);
+    return this.toProductData(product, correction);
+  }
+
+  static async deleteCorrection(userId: string, barcode: string) {
+    const product = await prisma.foodProduct.findUnique({
+      where: { barcode },
+    });
+    if (!product) {
+      throw new ProductNotFoundError(barcode);
+    }
+
+    await prisma.productCorrection.deleteMany({
+      where: { product_id: product.product_id, user_id: userId },
+    });
+    return this.toProductData(product);
+  }
+
+  /**
+   * Stores a label photo's reading. Unknown barcodes become new shared
+   * products; for known ones the reading is kept as the user's correction
+   * instead of overwriting what everyone else sees.
+   */
+  static async saveLabelScan(userId: string, productData: ProductData) {
+    const barcode =
+      productData.barcode ||
+      `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    const existing = await prisma.foodProduct.findUnique({
+      where: { barcode },
+    });
+
+    if (existing) {
+      return this.saveCorrection(userId, barcode, {
+        name: productData.name,
+        brand: productData.brand,
+        nutrition_per_100g: productData.nutrition_per_100g,
+        ingredients: productData.ingredients,
+        allergens: productData.allergens,
+        labels: productData.labels,
+      });
+    }
+
+    const product = await prisma.foodProduct.create({
+      data: {
+        barcode,
+        ...toProductRow(productData),
+        user_id: userId,
+        source: "LABEL_SCAN",
+      },
+    });
+    await this.recordScan(product.product_id, userId);
+    return this.toProductData(product);
+  }
+
+  static async flagProduct(barcode: string, reason: string) {
+    const existing = await prisma.foodProduct.findUnique({
+      where: { barcode },
+    });
+    if (!existing) {
+      throw new ProductNotFoundError(barcode);
+    }
+
+    const product = await prisma.foodProduct.update({
+      where: { barcode },
+      data: {
+        moderation_status: "FLAGGED",
+        moderation_reason: reason,
+        flagged_at: new Date(),
+      },
+    });
+
+    console.log("🚩 Product flagged for review:", barcode, reason);
+    return this.toProductData(product);
+  }
+
+  static async getFlaggedProducts(limit = 50) {
+    return prisma.foodProduct.findMany({
+      where: { moderation_status: "FLAGGED" },
+      include: { corrections: { orderBy: { updated_at: "desc" } } },
+      orderBy: { flagged_at: "asc" },
+      take: limit,
+    });
+  }
+
+  static async resolveFlag(product_id: number, input: ResolveFlagInput) {
+    const product = await prisma.foodProduct.findUnique({
+      where: { product_id },
+    });
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    let sharedUpdate = {};
+    if (input.action === "apply") {
+      const correction = await prisma.productCorrection.findFirst({
+        where: { correction_id: input.correction_id, product_id },
+      });
+      if (!correction) {
+        throw new Error("Correction not found");
+      }
+
+      const corrected = this.toProductData(product, correction);
+      sharedUpdate = toProductRow(corrected);
+      // Now identical to the shared record
+      await prisma.productCorrection.delete({
+        where: { correction_id: correction.correction_id },
+      });
+    }
+
+    const updated = await prisma.foodProduct.update({
+      where: { product_id },
+      data: {
+        ...sharedUpdate,
+        moderation_status: "VERIFIED",
+        moderation_reason: null,
+        flagged_at: null,
+      },
+    });
+
+    console.log("✅ Product review resolved:", product.barcode, input.action);
+    return this.toProductData(updated);
+  }
+
+  /**
+   * Loads products from an OpenFoodFacts dump. New barcodes are created;
+   * existing OpenFoodFacts records are refreshed unless a moderator verified
+   * them. User-created records are never overwritten, but are flagged when
+   * the dump disagrees with them.
+   */
+  static async importProducts(
+    products: AsyncIterable<ProductData>,
+    onProgress?: (stats: ImportStats) => void
+  ) {
+    const stats: ImportStats = { created: 0, updated: 0, flagged: 0, kept: 0 };
+    let batch: ProductData[] = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+      await this.importBatch(batch, stats);
+      batch = [];
+      onProgress?.(stats);
+    };
+
+    for await (const product of products) {
+      batch.push(product);
+      if (batch.length >= IMPORT_BATCH_SIZE) {
+        await flush();
+      }
+    }
+    await flush();
+
+    return stats;
+  }
+
+  private static async importBatch(batch: ProductData[], stats: ImportStats) {
+    // A dump can repeat a barcode; the last record wins
+    const byBarcode = new Map(
+      batch.map((product) => [product.barcode!, product])
+    );
+
+    const existing = await prisma.foodProduct.findMany({
+      where: { barcode: { in: Array.from(byBarcode.keys()) } },
+    });
+    const existingByBarcode = new Map(
+      existing.map((product) => [product.barcode, product])
+    );
+
+    const toCreate = Array.from(byBarcode.values()).filter(
+      (product) => !existingByBarcode.has(product.barcode!)
+    );
+    if (toCreate.length > 0) {
+      const created = await prisma.foodProduct.createMany({
+        data: toCreate.map((product) => ({
+          barcode: product.barcode!,
+          ...toProductRow(product),
+          source: "OPEN_FOOD_FACTS" as const,
+        })),
+        skipDuplicates: true,
+      });
+      stats.created += created.count;
+    }
+
+    const updates = [];
+    for (const current of existing) {
+      const imported = byBarcode.get(current.barcode)!;
+
+      if (
+        current.source === "OPEN_FOOD_FACTS" &&
+        current.moderation_status !== "VERIFIED"
+      ) {
+        updates.push(
+          prisma.foodProduct.update({
+            where: { product_id: current.product_id },
+            data: toProductRow(imported),
+          })
+        );
+        stats.updated++;
+        continue;
+      }
+
+      const conflicts = findNutritionConflicts(
+        asJsonObject(current.nutrition_per_100g),
+        imported.nutrition_per_100g
+      );
+      if (conflicts.length > 0 && current.moderation_status === "OK") {
+        updates.push(
+          prisma.foodProduct.update({
+            where: { product_id: current.product_id },
+            data: {
+              moderation_status: "FLAGGED",
+              moderation_reason: `OpenFoodFacts values differ (${conflicts.join(
+                ", "
+              )})`,
+              flagged_at: new Date(),
+            },
+          })
+        );
+        stats.flagged++;
+      } else {
+        stats.kept++;
+      }
+    }
+
+    if (updates.length > 0) {
+      await prisma.$transaction(updates);
+    }
+  }
+}
@@ -0,0 +1,345 @@
+import { prisma } from "../lib/database";
+import { NutritionService } from "./nutrition";
+import { ImageStorageService } from "./imageStorage";
+import { MealPlanService } from "./mealPlans";
+import { roundNutrients, sumNutrients } from "../utils/nutrition";
+import { NutrientKey, NutrientProfile } from "../types/foodComposition";
+import {
+  CreateRecipeInput,
+  RecipeIngredientInput,
+  ScheduleRecipeInput,
+  UpdateRecipeInput,
+} from "../types/recipes";
+
+export class RecipeNotFoundError extends Error {
+  constructor(readonly recipeId: string) {
+    super(`Recipe ${recipeId} not found`);
+    this.name = "RecipeNotFoundError";
+  }
+}
+
+const MACRO_FIELDS = [
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fats_g",
+  "fiber_g",
+  "sugar_g",
+  "sodium_mg",
+] as const;
+
+const RECIPE_INCLUDE = {
+  ingredients: { orderBy: { position: "asc" as const } },
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Whole calories and sodium, one decimal for the rest
+function roundMacro(field: typeof MACRO_FIELDS[number], value: number) {
+  return field === "calories" || field === "sodium_mg"
+    ? Math.round(value)
+    : round1(value);
+}
+
+function scaleNutrients(profile: unknown, factor: number) {
+  const scaled: NutrientProfile = {};
+  for (const [key, amount] of Object.entries(profile || {})) {
+    if (typeof amount === "number") {
+      scaled[key as NutrientKey] = amount * factor;
+    }
+  }
+  return roundNutrients(scaled);
+}
+
+/**
+ * Recipes store their nutrition per serving. It is computed from the
+ * ingredient lines through the same product catalog and food composition
+ * lookup as text meal logging, so a logged serving carries exact macros
+ * instead of a photo estimate.
+ */
+export class RecipeService {
+  static async listRecipes(user_id: string) {
+    return prisma.recipe.findMany({
+      where: { user_id },
+      include: RECIPE_INCLUDE,
+      orderBy: { updated_at: "desc" },
+    });
+  }
+
+  static async getRecipe(user_id: string, recipe_id: string) {
+    const recipe = await prisma.recipe.findFirst({
+      where: { recipe_id, user_id },
+      include: RECIPE_INCLUDE,
+    });
+    if (!recipe) {
+      throw new RecipeNotFoundError(recipe_id);
+    }
+    return recipe;
+  }
+
+  static async createRecipe(user_id: string, input: CreateRecipeInput) {
+    const [nutrition, imageUrl] = await Promise.all([
+      this.computeNutrition(user_id, input.ingredients, input.servings),
+      ImageStorageService.resolveImageUrl(user_id, input.image),
+    ]);
+
+    const recipe = await prisma.recipe.create({
+      data: {
+        user_id,
+        name: input.name,
+        description: input.description ?? null,
+        servings: input.servings,
+        instructions: input.instructions,
+        image_url: imageUrl ?? null,
+        prep_time_minutes: input.prep_time_minutes ?? null,
+        ...nutrition.perServing,
+        ingredients: { create: nutrition.ingredients },
+      },
+      include: RECIPE_INCLUDE,
+    });
+
+    console.log("🍲 Recipe created:", recipe.recipe_id, recipe.name);
+    return recipe;
+  }
+
+  static async updateRecipe(
+    user_id: string,
+    recipe_id: string,
+    input: UpdateRecipeInput
+  ) {
+    const existing = await this.getRecipe(user_id, recipe_id);
+    const servings = input.servings ?? existing.servings;
+
+    let nutritionData = {};
+    if (input.ingredients) {
+      const nutrition = await this.computeNutrition(
+        user_id,
+        input.ingredients,
+        servings
+      );
+      nutritionData = {
+        ...nutrition.perServing,
+        ingredients: { deleteMany: {}, create: nutrition.ingredients },
+      };
+    } else if (servings !== existing.servings) {
+      // Same ingredients spread over a different number of servings
+      nutritionData = this.scalePerServing(
+        existing,
+        existing.servings / servings
+      );
+    }
+
+    const imageData =
+      input.image === undefined
+        ? {}
+        : {
+            image_url:
+              (await ImageStorageService.resolveImageUrl(
+                user_id,
+                input.image
+              )) ?? null,
+          };
+
+    const recipe = await prisma.recipe.update({
+      where: { recipe_id },
+      data: {
+        name: input.name,
+        description: input.description,
+        servings: input.servings,
+        instructions: input.instructions,
+        prep_time_minutes: input.prep_time_minutes,
+        ...imageData,
+        ...nutritionData,
+      },
+      include: RECIPE_INCLUDE,
+    });
+
+    // Plans that use the recipe show its current version
+    if (recipe.template_id) {
+      await prisma.mealTemplate.update({
+        where: { template_id: recipe.template_id },
+        data: this.toTemplateFields(recipe),
+      });
+    }
+
+    console.log("✏️ Recipe updated:", recipe_id);
+    return recipe;
+  }
+
+  // Its meal template stays in the plans that use it
+  static async deleteRecipe(user_id: string, recipe_id: string) {
+    await this.getRecipe(user_id, recipe_id);
+    await prisma.recipe.delete({ where: { recipe_id } });
+    console.log("🗑️ Recipe deleted:", recipe_id);
+  }
+
+  // Logs the given number of servings as a meal with the recipe's macros
+  static async logServings(
+    user_id: string,
+    recipe_id: string,
+    servings: number
+  ) {
+    const recipe = await this.getRecipe(user_id, recipe_id);
+    const lineFactor = servings / recipe.servings;
+
+    const macros = Object.fromEntries(
+      MACRO_FIELDS.map((field) => [
+        field,
+        roundMacro(field, recipe[field] * servings),
+      ])
+    );
+    const meal = await NutritionService.saveMeal(user_id, {
+      meal_name: recipe.name,
+      ...macros,
+      serving_size_g: round1(recipe.serving_size_g * servings),
+      vitamins_json: scaleNutrients(recipe.vitamins_json, servings),
+      micronutrients_json: scaleNutrients(recipe.micronutrients_json, servings),
+      ingredients: recipe.ingredients.map((ingredient: any) => ({
+        name: ingredient.name,
+        portion: `${round1(ingredient.quantity * lineFactor)} ${
+          ingredient.unit
+        }`,
+        quantity: round1(ingredient.quantity_g * lineFactor),
+        unit: "g",
+        quantity_g: round1(ingredient.quantity_g * lineFactor),
+        ...Object.fromEntries(
+          MACRO_FIELDS.map((field) => [
+            field,
+            roundMacro(field, ingredient[field] * lineFactor),
+          ])
+        ),
+        source: ingredient.source,
+      })),
+      image_url: recipe.image_url ?? undefined,
+    });
+
+    console.log("🍽️ Recipe logged:", recipe_id, `${servings} serving(s)`);
+    return meal;
+  }
+
+  /**
+   * Schedules one serving of the recipe in a meal plan slot. The recipe's
+   * meal template is created on first use and kept in sync afterwards.
+   */
+  static async addToMealPlan(
+    user_id: string,
+    recipe_id: string,
+    input: ScheduleRecipeInput
+  ) {
+    const recipe = await this.getRecipe(user_id, recipe_id);
+
+    let templateId = recipe.template_id;
+    if (!templateId) {
+      const template = await prisma.mealTemplate.create({
+        data: {
+          ...this.toTemplateFields(recipe),
+          meal_timing: input.meal_timing,
+          dietary_category: input.dietary_category,
+        },
+      });
+      await prisma.recipe.update({
+        where: { recipe_id },
+        data: { template_id: template.template_id },
+      });
+      templateId = template.template_id as string;
+    }
+
+    return MealPlanService.scheduleTemplate(user_id, templateId, input);
+  }
+
+  private static toTemplateFields(recipe: any) {
+    return {
+      name: recipe.name,
+      description: recipe.description,
+      prep_time_minutes: recipe.prep_time_minutes,
+      calories: recipe.calories,
+      protein_g: recipe.protein_g,
+      carbs_g: recipe.carbs_g,
+      fats_g: recipe.fats_g,
+      fiber_g: recipe.fiber_g,
+      sugar_g: recipe.sugar_g,
+      sodium_mg: recipe.sodium_mg,
+      // One serving's share of each line
+      ingredients_json: recipe.ingredients.map((ingredient: any) => ({
+        name: ingredient.name,
+        quantity: round1(ingredient.quantity / recipe.servings),
+        unit: ingredient.unit,
+      })),
+      instructions_json: recipe.instructions,
+      image_url: recipe.image_url,
+    };
+  }
+
+  private static scalePerServing(recipe: any, factor: number) {
+    return {
+      ...Object.fromEntries(
+        MACRO_FIELDS.map((field) => [
+          field,
+          roundMacro(field, recipe[field] * factor),
+        ])
+      ),
+      serving_size_g: round1(recipe.serving_size_g * factor),
+      vitamins_json: scaleNutrients(recipe.vitamins_json, factor),
+      micronutrients_json: scaleNutrients(recipe.micronutrients_json, factor),
+    };
+  }
+
+  private static async computeNutrition(
+    user_id: string,
+    lines: RecipeIngredientInput[],
+    servings: number
+  ) {
+    const resolved = await Promise.all(
+      lines.map((line) => NutritionService.resolveIngredient(user_id, line))
+    );
+
+    const ingredients = resolved.map((item, position) => ({
+      position,
+      name: lines[position].name,
+      quantity: lines[position].quantity,
+      unit: lines[position].unit,
+      quantity_g: item.quantity_g,
+      source: item.source,
+      food_id: item.matched_food?.food_id ?? null,
+      calories: item.calories,
+      protein_g: item.protein_g,
+      carbs_g: item.carbs_g,
+      fats_g: item.fats_g,
+      fiber_g: item.fiber_g,
+      sugar_g: item.sugar_g,
+      sodium_mg: item.sodium_mg,
+    }));
+
+    const unmatched = ingredients.filter((item) => item.source === "unmatched");
+    if (unmatched.length > 0) {
+      console.log(
+        "⚠️ Recipe ingredients without nutrition data:",
+        unmatched.map((item) => item.name).join(", ")
+      );
+    }
+
+    const total = (field: typeof MACRO_FIELDS[number] | "quantity_g") =>
+      ingredients.reduce((sum, item) => sum + item[field], 0);
+
+    return {
+      ingredients,
+      perServing: {
+        ...Object.fromEntries(
+          MACRO_FIELDS.map((field) => [
+            field,
+            roundMacro(field, total(field) / servings),
+          ])
+        ),
+        serving_size_g: round1(total("quantity_g") / servings),
+        vitamins_json: scaleNutrients(
+          sumNutrients(resolved.map((item) => item.vitamins_json ?? {})),
+          1 / servings
+        ),
+        micronutrients_json: scaleNutrients(
+          sumNutrients(resolved.map((item) => item.micronutrients_json ?? {})),
+          1 / servings
+        ),
+      },
+    };
+  }
+}
@@ -1,5 +1,44 @@
 import { OpenAIService } from "./openai";
+import { LLMService } from "./llm";
 import { prisma } from "../lib/database";
+import { TimeZoneService } from "./timeZone";
+import { DailyGoalsService } from "./dailyGoal";
+import { RestrictionService } from "./restrictions";
+import { dateStringToDbDate, dbDateToDateString } from "../utils/dates";
+import { KosherService } from "./kosher";
+import { describeKosherSchedule } from "../utils/kosher";
+import { KosherSettings } from "../types/kosher";
+import {
+  MENU_MEAL_TYPES,
+  menuGenerationResponseSchema,
+  MenuMeal,
+  replacementMealSchema,
+} from "../types/openai";
+import { checkMacroSums } from "../utils/nutrition";
+import {
+  FoodDescription,
+  RestrictionProfile,
+  RestrictionWarning,
+} from "../types/restrictions";
+
+// Generated menus with a meal that breaks a hard restriction are regenerated
+const MAX_GENERATION_ATTEMPTS = 3;
+
+// Only checks meals whose ingredients carry their own macros
+function checkMenuTotals(menu: { meals: MenuMeal[] }) {
+  return menu.meals.flatMap((meal, index) =>
+    checkMacroSums(`meals.${index}.ingredients`, meal, meal.ingredients)
+  );
+}
+
+export class MenuRestrictionError extends Error {
+  constructor(
+    message = "Could not create meals that fit your dietary restrictions"
+  ) {
+    super(message);
+    this.name = "MenuRestrictionError";
+  }
+}
 
 export interface MenuGenerationRequest {
   userId: string;
@@ -58,16 +97,25 @@ export class RecommendedMenuService {
         questionnaire.daily_food_budget = budget;
       }
 
+      const profile = RestrictionService.buildProfile(questionnaire);
+      const kosherSettings = await KosherService.getSettings(userId);
+
       // Generate custom menu using AI with user request
-      const menuData = await this.generateCustomMenuWithAI(
-        questionnaire,
-        nutritionalNeeds,
-        customRequest,
-        days,
-        mealsPerDay,
-        mealChangeFrequency,
-        includeLeftovers,
-        sameMealTimes
+      const menuData = await this.generateCompliantMenu(
+        profile,
+        kosherSettings,
+        (restrictionNotes) =>
+          this.generateCustomMenuWithAI(
+            questionnaire,
+            nutritionalNeeds,
+            customRequest,
+            days,
+            mealsPerDay,
+            mealChangeFrequency,
+            includeLeftovers,
+            sameMealTimes,
+            restrictionNotes
+          )
       );
 
       console.log("🤖 AI generated custom menu data:", {
@@ -83,7 +131,7 @@ export class RecommendedMenuService {
         savedMenu.menu_id
       );
 
-      return savedMenu;
+      return this.annotateMenu(profile, kosherSettings, savedMenu);
     } catch (error) {
       console.error("💥 Error generating custom menu:", error);
       throw error;
@@ -121,15 +169,24 @@ export class RecommendedMenuService {
       const nutritionalNeeds = this.calculateNutritionalNeeds(questionnaire);
       console.log("🔢 Calculated nutritional needs:", nutritionalNeeds);
 
+      const profile = RestrictionService.buildProfile(questionnaire);
+      const kosherSettings = await KosherService.getSettings(userId);
+
       // Generate comprehensive menu using AI
-      const menuData = await this.generateComprehensiveMenuWithAI(
-        questionnaire,
-        nutritionalNeeds,
-        days,
-        mealsPerDay,
-        mealChangeFrequency,
-        includeLeftovers,
-        sameMealTimes
+      const menuData = await this.generateCompliantMenu(
+        profile,
+        kosherSettings,
+        (restrictionNotes) =>
+          this.generateComprehensiveMenuWithAI(
+            questionnaire,
+            nutritionalNeeds,
+            days,
+            mealsPerDay,
+            mealChangeFrequency,
+            includeLeftovers,
+            sameMealTimes,
+            restrictionNotes
+          )
       );
 
       console.log("🤖 AI generated menu data:", {
@@ -142,13 +199,146 @@ export class RecommendedMenuService {
       const savedMenu = await this.saveCompleteMenuToDatabase(userId, menuData);
       console.log("💾 Menu saved successfully with ID:", savedMenu.menu_id);
 
-      return savedMenu;
+      return this.annotateMenu(profile, kosherSettings, savedMenu);
     } catch (error) {
       console.error("💥 Error generating personalized menu:", error);
       throw error;
     }
   }
 
+  /**
+   * Runs `generate` until every meal passes the user's hard restrictions.
+   * The restrictions go into the prompt up front; on a violation the next
+   * attempt is also told which meals were rejected and why.
+   */
+  private static async generateCompliantMenu(
+    profile: RestrictionProfile,
+    kosherSettings: KosherSettings,
+    generate: (restrictionNotes: string) => Promise<any>
+  ) {
+    const restrictions = [
+      RestrictionService.describeForPrompt(profile),
+      profile.kosher ? describeKosherSchedule(kosherSettings) : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+    let rejected: string[] = [];
+
+    for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+      const restrictionNotes = [
+        restrictions,
+        rejected.length > 0
+          ? `The previous menu was rejected because of these meals:\n${rejected.join(
+              "\n"
+            )}\nReplace them with meals that respect every restriction.`
+          : "",
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+
+      const menuData = await generate(restrictionNotes);
+      const meals: any[] = Array.isArray(menuData?.meals) ? menuData.meals : [];
+      const mealWarnings = this.checkMeals(
+        profile,
+        kosherSettings,
+        meals.map((meal) => ({
+          day: Number(meal.day_number) || 1,
+          meal_type: this.validateMealType(meal.meal_type),
+          food: this.describeGeneratedMeal(meal),
+        }))
+      );
+
+      rejected = meals.flatMap((meal, index) => {
+        const warnings = mealWarnings[index].filter(
+          (warning) => warning.severity === "high"
+        );
+        return warnings.length > 0
+          ? [
+              `- Day ${meal.day_number || 1}, ${
+                meal.name_english || meal.name
+              }: ${warnings.map((warning) => warning.message_en).join(", ")}`,
+            ]
+          : [];
+      });
+
+      if (rejected.length === 0) return menuData;
+
+      console.warn(
+        `🚫 Menu attempt ${attempt} broke dietary restrictions:`,
+        rejected
+      );
+    }
+
+    throw new MenuRestrictionError();
+  }
+
+  /**
+   * Restriction warnings per meal, plus kosher waiting times between meals
+   * of the same day when the user keeps kosher.
+   */
+  private static checkMeals(
+    profile: RestrictionProfile,
+    kosherSettings: KosherSettings,
+    meals: { day: number; meal_type: string; food: FoodDescription }[]
+  ): RestrictionWarning[][] {
+    const scheduleWarnings = profile.kosher
+      ? KosherService.getScheduleWarnings(
+          meals.map((meal, index) => ({
+            key: String(index),
+            day: meal.day,
+            meal_timing: meal.meal_type,
+            food: meal.food,
+          })),
+          kosherSettings
+        )
+      : new Map<string, RestrictionWarning[]>();
+
+    return meals.map((meal, index) => [
+      ...RestrictionService.checkFood(profile, meal.food),
+      ...(scheduleWarnings.get(String(index)) || []),
+    ]);
+  }
+
+  // AI meals carry Hebrew and English names for the meal and ingredients
+  private static describeGeneratedMeal(meal: any): FoodDescription {
+    const ingredients: any[] = Array.isArray(meal.ingredients)
+      ? meal.ingredients
+      : [];
+
+    return {
+      name: [meal.name, meal.name_english].filter(Boolean).join(" , "),
+      ingredients: ingredients.map((ingredient) =>
+        typeof ingredient === "string"
+          ? ingredient
+          : [ingredient.name, ingredient.name_english]
+              .filter(Boolean)
+              .join(" , ")
+      ),
+    };
+  }
+
+  private static annotateMenu<
+    T extends { meals: { day_number: number; meal_type: string }[] }
+  >(profile: RestrictionProfile, kosherSettings: KosherSettings, menu: T) {
+    const mealWarnings = this.checkMeals(
+      profile,
+      kosherSettings,
+      menu.meals.map((meal) => ({
+        day: meal.day_number,
+        meal_type: meal.meal_type,
+        food: RestrictionService.describeMeal(meal),
+      }))
+    );
+
+    return {
+      ...menu,
+      meals: menu.meals.map((meal, index) => ({
+        ...meal,
+        restriction_warnings: mealWarnings[index],
+      })),
+    };
+  }
+
   private static calculateNutritionalNeeds(questionnaire: any) {
     const {
       age,
@@ -239,55 +429,38 @@ export class RecommendedMenuService {
     mealsPerDay: string,
     mealChangeFrequency: string,
     includeLeftovers: boolean,
-    sameMealTimes: boolean
+    sameMealTimes: boolean,
+    restrictionNotes: string
   ) {
-    const prompt = this.buildCustomMenuPrompt(
-      questionnaire,
-      nutritionalNeeds,
-      customRequest,
-      days,
-      mealsPerDay,
-      mealChangeFrequency,
-      includeLeftovers,
-      sameMealTimes
-    );
+    const prompt = [
+      this.buildCustomMenuPrompt(
+        questionnaire,
+        nutritionalNeeds,
+        customRequest,
+        days,
+        mealsPerDay,
+        mealChangeFrequency,
+        includeLeftovers,
+        sameMealTimes
+      ),
+      restrictionNotes,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
 
     console.log("🤖 Generating custom menu with AI...");
 
     try {
-      const response = await OpenAIService.generateText(prompt, 3500);
-      console.log("🤖 Raw AI response length:", response.length);
-
-      // Parse and validate the response
-      let parsedResponse;
-      try {
-        parsedResponse = JSON.parse(response);
-      } catch (parseError) {
-        console.error("🚨 Failed to parse AI response, using fallback");
-        return this.getCustomFallbackMenu(
-          nutritionalNeeds,
-          customRequest,
-          days,
-          mealsPerDay,
-          questionnaire
-        );
-      }
-
-      // Validate the parsed response has required structure
-      if (
-        !parsedResponse.meals ||
-        !Array.isArray(parsedResponse.meals) ||
-        parsedResponse.meals.length === 0
-      ) {
-        console.error("🚨 AI response missing meals array, using fallback");
-        return this.getCustomFallbackMenu(
-          nutritionalNeeds,
-          customRequest,
-          days,
-          mealsPerDay,
-          questionnaire
-        );
-      }
+      const parsedResponse = await OpenAIService.generateJSON(
+        "menu_generation",
+        prompt,
+        menuGenerationResponseSchema,
+        {
+          maxTokens: 3500,
+          userId: questionnaire.user_id,
+          check: checkMenuTotals,
+        }
+      );
 
       console.log(
         "✅ AI generated",
@@ -315,52 +488,37 @@ export class RecommendedMenuService {
     mealsPerDay: string,
     mealChangeFrequency: string,
     includeLeftovers: boolean,
-    sameMealTimes: boolean
+    sameMealTimes: boolean,
+    restrictionNotes: string
   ) {
-    const prompt = this.buildComprehensiveMenuPrompt(
-      questionnaire,
-      nutritionalNeeds,
-      days,
-      mealsPerDay,
-      mealChangeFrequency,
-      includeLeftovers,
-      sameMealTimes
-    );
+    const prompt = [
+      this.buildComprehensiveMenuPrompt(
+        questionnaire,
+        nutritionalNeeds,
+        days,
+        mealsPerDay,
+        mealChangeFrequency,
+        includeLeftovers,
+        sameMealTimes
+      ),
+      restrictionNotes,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
 
     console.log("🤖 Generating menu with AI...");
 
     try {
-      const response = await OpenAIService.generateText(prompt, 3500);
-      console.log("🤖 Raw AI response length:", response.length);
-
-      // Parse and validate the response
-      let parsedResponse;
-      try {
-        parsedResponse = JSON.parse(response);
-      } catch (parseError) {
-        console.error("🚨 Failed to parse AI response, using fallback");
-        return this.getComprehensiveFallbackMenu(
-          nutritionalNeeds,
-          days,
-          mealsPerDay,
-          questionnaire
-        );
-      }
-
-      // Validate the parsed response has required structure
-      if (
-        !parsedResponse.meals ||
-        !Array.isArray(parsedResponse.meals) ||
-        parsedResponse.meals.length === 0
-      ) {
-        console.error("🚨 AI response missing meals array, using fallback");
-        return this.getComprehensiveFallbackMenu(
-          nutritionalNeeds,
-          days,
-          mealsPerDay,
-          questionnaire
-        );
-      }
+      const parsedResponse = await OpenAIService.generateJSON(
+        "menu_generation",
+        prompt,
+        menuGenerationResponseSchema,
+        {
+          maxTokens: 3500,
+          userId: questionnaire.user_id,
+          check: checkMenuTotals,
+        }
+      );
 
       console.log("✅ AI generated", parsedResponse.meals.length, "meals");
       return parsedResponse;
@@ -494,44 +652,62 @@ Create exactly ${totalMeals} varied meals matching "${customRequest}". Hebrew+En
     const goal = main_goal;
     const activityLevel = questionnaire.physical_activity_level;
 
-    const prompt = `Create a Hebrew daily menu for:
+    const mealTypes = this.getMealTypesForStructure(mealsPerDay).map(
+      (mealType) => this.validateMealType(mealType)
+    );
+
+    const prompt = `Create a Hebrew menu for ${days} days (${mealStructure}):
 Goal: ${goal}, Activity: ${activityLevel}, Diet: ${dietary_style}
 Allergies: ${allergies?.join(", ") || "None"}
 Calories: ${nutritionalNeeds.calories}, Protein: ${nutritionalNeeds.protein}g
+Budget: ₪${budget}/day
+
+Each day has these meals: ${mealTypes.join(", ")}.
+meal_type must be one of: ${MENU_MEAL_TYPES.join(", ")}.
 
 Return ONLY JSON:
 {
-  "menu": {
-    "title": "תפריט יומי",
-    "description": "תפריט מותאם",
-    "total_calories": ${nutritionalNeeds.calories},
-    "total_protein": ${nutritionalNeeds.protein},
-    "total_carbs": ${nutritionalNeeds.carbs},
-    "total_fat": ${nutritionalNeeds.fat},
-    "meals": [
-      {
-        "name": "ארוחת בוקר",
-        "meal_type": "ארוחת בוקר",
-        "calories": 400,
-        "protein": 20,
-        "carbs": 50,
-        "fat": 15,
-        "description": "ארוחה מזינה",
-        "ingredients": [
-          {
-            "name": "חומר",
-            "amount": 100,
-            "unit": "גרם",
-            "calories": 100,
-            "protein": 5,
-            "carbs": 20,
-            "fat": 3
-          }
-        ]
-      }
-    ]
-  }
-}`;
+  "title": "תפריט מותאם",
+  "description": "תפריט מותאם אישית",
+  "total_calories": ${nutritionalNeeds.calories * days},
+  "total_protein": ${nutritionalNeeds.protein * days},
+  "total_carbs": ${nutritionalNeeds.carbs * days},
+  "total_fat": ${nutritionalNeeds.fat * days},
+  "days_count": ${days},
+  "estimated_cost": ${totalBudget},
+  "meals": [
+    {
+      "name": "ארוחת בוקר",
+      "name_english": "Breakfast",
+      "meal_type": "${mealTypes[0]}",
+      "day_number": 1,
+      "calories": 400,
+      "protein": 20,
+      "carbs": 50,
+      "fat": 15,
+      "fiber": 6,
+      "prep_time_minutes": 15,
+      "cooking_method": "בישול",
+      "instructions": ["הכנה"],
+      "ingredients": [
+        {
+          "name": "חומר",
+          "name_english": "Ingredient",
+          "quantity": 100,
+          "unit": "גרם",
+          "category": "protein",
+          "estimated_cost": 5,
+          "calories": 100,
+          "protein": 5,
+          "carbs": 20,
+          "fat": 3
+        }
+      ]
+    }
+  ]
+}
+
+Create ${days * mealTypes.length} meals. Each meal's calories, protein, carbs and fat must equal the sum of its ingredients.`;
     return prompt;
   }
 
@@ -1466,37 +1642,51 @@ Return ONLY JSON:
   static async getUserMenus(userId: string) {
     console.log("📋 Getting user menus for:", userId);
 
-    return await prisma.recommendedMenu.findMany({
-      where: { user_id: userId },
-      include: {
-        meals: {
-          include: {
-            ingredients: true,
+    const [menus, profile, kosherSettings] = await Promise.all([
+      prisma.recommendedMenu.findMany({
+        where: { user_id: userId },
+        include: {
+          meals: {
+            include: {
+              ingredients: true,
+            },
+            orderBy: [{ day_number: "asc" }, { meal_type: "asc" }],
           },
-          orderBy: [{ day_number: "asc" }, { meal_type: "asc" }],
         },
-      },
-      orderBy: { created_at: "desc" },
-    });
+        orderBy: { created_at: "desc" },
+      }),
+      RestrictionService.getProfile(userId),
+      KosherService.getSettings(userId),
+    ]);
+
+    return menus.map((menu: any) =>
+      this.annotateMenu(profile, kosherSettings, menu)
+    );
   }
 
   static async getMenuById(userId: string, menuId: string) {
     console.log("🔍 Getting menu by ID:", menuId, "for user:", userId);
 
-    return await prisma.recommendedMenu.findFirst({
-      where: {
-        menu_id: menuId,
-        user_id: userId,
-      },
-      include: {
-        meals: {
-          include: {
-            ingredients: true,
+    const [menu, profile, kosherSettings] = await Promise.all([
+      prisma.recommendedMenu.findFirst({
+        where: {
+          menu_id: menuId,
+          user_id: userId,
+        },
+        include: {
+          meals: {
+            include: {
+              ingredients: true,
+            },
+            orderBy: [{ day_number: "asc" }, { meal_type: "asc" }],
           },
-          orderBy: [{ day_number: "asc" }, { meal_type: "asc" }],
         },
-      },
-    });
+      }),
+      RestrictionService.getProfile(userId),
+      KosherService.getSettings(userId),
+    ]);
+
+    return menu ? this.annotateMenu(profile, kosherSettings, menu) : null;
   }
 
   static async replaceMeal(
@@ -1525,10 +1715,66 @@ Return ONLY JSON:
       throw new Error("Meal not found");
     }
 
-    // Generate a replacement meal using AI or fallback
+    const [profile, kosherSettings, dayMeals] = await Promise.all([
+      RestrictionService.getProfile(userId),
+      KosherService.getSettings(userId),
+      prisma.recommendedMeal.findMany({
+        where: {
+          menu_id: menuId,
+          day_number: currentMeal.day_number,
+          meal_id: { not: mealId },
+        },
+        include: { ingredients: true },
+      }),
+    ]);
+    const scheduledDayMeals = dayMeals.map((meal: any) => ({
+      key: meal.meal_id,
+      day: meal.day_number,
+      meal_timing: meal.meal_type,
+      food: RestrictionService.describeMeal(meal),
+    }));
+
+    const restrictionNotes = [
+      RestrictionService.describeForPrompt(profile),
+      profile.kosher ? describeKosherSchedule(kosherSettings) : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+    // Generate a replacement meal using AI or fallback, skipping options the
+    // user can't eat or that break kosher waiting times with the rest of the day
     const replacementMeal = await this.generateReplacementMeal(
+      userId,
       currentMeal,
-      preferences
+      dayMeals,
+      preferences,
+      restrictionNotes,
+      (option) => {
+        const food = this.describeGeneratedMeal(option);
+        if (
+          RestrictionService.hasHardViolation(
+            RestrictionService.checkFood(profile, food)
+          )
+        ) {
+          return false;
+        }
+        return (
+          !profile.kosher ||
+          !KosherService.breaksSchedule(
+            [
+              ...scheduledDayMeals,
+              {
+                key: mealId,
+                day: currentMeal.day_number,
+                meal_timing: currentMeal.meal_type,
+                food,
+              },
+            ],
+            kosherSettings,
+            mealId
+          )
+        );
+      }
     );
 
     // Update the meal in database
@@ -1560,13 +1806,38 @@ Return ONLY JSON:
       },
     });
 
-    return updatedMeal;
+    const { meals } = this.annotateMenu(profile, kosherSettings, {
+      meals: [...dayMeals, updatedMeal],
+    });
+    return meals[meals.length - 1];
   }
 
   private static async generateReplacementMeal(
+    userId: string,
     currentMeal: any,
-    preferences: any
+    dayMeals: any[],
+    preferences: any,
+    restrictionNotes: string,
+    isAllowed: (option: any) => boolean
   ) {
+    if (LLMService.isAvailable()) {
+      try {
+        const option = await this.generateReplacementMealWithAI(
+          userId,
+          currentMeal,
+          dayMeals,
+          preferences,
+          restrictionNotes
+        );
+        if (isAllowed(option)) return option;
+        console.warn(
+          "🚫 AI replacement meal broke dietary restrictions, using fallback"
+        );
+      } catch (error) {
+        console.error("💥 Error generating replacement meal with AI:", error);
+      }
+    }
+
     // Enhanced replacement logic with multiple options
     const replacementOptions = [
       {
@@ -1639,11 +1910,103 @@ Return ONLY JSON:
       },
     ];
 
-    return replacementOptions[
-      Math.floor(Math.random() * replacementOptions.length)
+    const compatibleOptions = replacementOptions.filter(isAllowed);
+    if (compatibleOptions.length === 0) {
+      throw new MenuRestrictionError(
+        "No replacement meal fits your dietary restrictions"
+      );
+    }
+
+    return compatibleOptions[
+      Math.floor(Math.random() * compatibleOptions.length)
     ];
   }
 
+  private static async generateReplacementMealWithAI(
+    userId: string,
+    currentMeal: any,
+    dayMeals: any[],
+    preferences: any,
+    restrictionNotes: string
+  ) {
+    const otherMeals = dayMeals.map((meal) => meal.name).join(", ");
+    const prompt = [
+      `Suggest one replacement for this ${currentMeal.meal_type} meal in a Hebrew menu.
+Current meal: ${currentMeal.name} (${currentMeal.calories} kcal, ${currentMeal.protein}g protein, ${currentMeal.carbs}g carbs, ${currentMeal.fat}g fat)
+Other meals that day: ${otherMeals || "None"}
+User preferences: ${JSON.stringify(preferences || {})}
+
+Keep calories and macros close to the current meal, but make it a different dish.
+
+Return ONLY JSON:
+{
+  "name": "שם ארוחה",
+  "name_english": "Meal Name",
+  "calories": ${currentMeal.calories},
+  "protein": ${currentMeal.protein},
+  "carbs": ${currentMeal.carbs},
+  "fat": ${currentMeal.fat},
+  "fiber": ${currentMeal.fiber || 0},
+  "prep_time_minutes": 20,
+  "cooking_method": "בישול",
+  "instructions": ["הכנה"],
+  "ingredients": [
+    {
+      "name": "מרכיב",
+      "name_english": "Ingredient",
+      "quantity": 100,
+      "unit": "גרם",
+      "category": "protein",
+      "estimated_cost": 5,
+      "calories": 100,
+      "protein": 5,
+      "carbs": 20,
+      "fat": 3
+    }
+  ]
+}
+
+The meal's calories, protein, carbs and fat must equal the sum of its ingredients.`,
+      restrictionNotes,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const meal = await OpenAIService.generateJSON(
+      "meal_replacement",
+      prompt,
+      replacementMealSchema,
+      {
+        userId,
+        check: (meal) => checkMacroSums("ingredients", meal, meal.ingredients),
+      }
+    );
+
+    // Same shape as the built-in options
+    return {
+      name: meal.name,
+      name_english: meal.name_english,
+      calories: meal.calories,
+      protein: meal.protein,
+      carbs: meal.carbs,
+      fat: meal.fat,
+      fiber: meal.fiber ?? 0,
+      prep_time_minutes: meal.prep_time_minutes ?? 20,
+      cooking_method: meal.cooking_method || "בישול פשוט",
+      instructions: Array.isArray(meal.instructions)
+        ? meal.instructions.join(". ")
+        : meal.instructions || "הוראות הכנה",
+      ingredients: meal.ingredients.map((ingredient) => ({
+        name: ingredient.name,
+        name_english: ingredient.name_english,
+        quantity: ingredient.quantity,
+        unit: ingredient.unit,
+        category: ingredient.category || "other",
+        estimated_cost: ingredient.estimated_cost ?? 0,
+      })),
+    };
+  }
+
   static async markMealAsFavorite(
     userId: string,
     menuId: string,
@@ -1717,9 +2080,215 @@ Return ONLY JSON:
     };
   }
 
+  /**
+   * Schedules the menu starting today: day_number 1 is today, day 2 is
+   * tomorrow and so on. Any previously started menu is deactivated, and
+   * the menu's first day sets the daily goals while the menu runs.
+   */
   static async startMenuToday(userId: string, menuId: string) {
     console.log("🚀 Starting menu today:", menuId);
-    // Implementation could track menu usage, set active status, etc.
-    console.log(`Menu ${menuId} started for user ${userId}`);
+
+    const menu = await this.getMenuById(userId, menuId);
+    if (!menu) throw new Error("Menu not found");
+    if (menu.meals.length === 0) throw new Error("Menu has no meals");
+
+    // Day one is the user's local today
+    const { date: today } = await TimeZoneService.getUserToday(userId);
+    const startDate = dateStringToDbDate(today);
+    const daysCount = Math.max(
+      menu.days_count || 1,
+      ...menu.meals.map((meal) => meal.day_number)
+    );
+    const endDate = addDays(startDate, daysCount - 1);
+
+    const schedule = await prisma.$transaction(async (tx) => {
+      await tx.menuSchedule.updateMany({
+        where: { user_id: userId, is_active: true },
+        data: { is_active: false },
+      });
+
+      return tx.menuSchedule.create({
+        data: {
+          user_id: userId,
+          menu_id: menuId,
+          start_date: startDate,
+          end_date: endDate,
+          meals: {
+            create: menu.meals.map((meal) => ({
+              user_id: userId,
+              recommended_meal_id: meal.meal_id,
+              date: addDays(startDate, Math.max(meal.day_number, 1) - 1),
+              meal_type: meal.meal_type,
+            })),
+          },
+        },
+      });
+    });
+
+    const todayMeals = menu.meals.filter((meal) => meal.day_number <= 1);
+    const dayTotals =
+      todayMeals.length > 0
+        ? todayMeals.reduce(
+            (totals, meal) => ({
+              calories: totals.calories + meal.calories,
+              protein: totals.protein + meal.protein,
+              carbs: totals.carbs + meal.carbs,
+              fat: totals.fat + meal.fat,
+              fiber: totals.fiber + (meal.fiber || 0),
+            }),
+            { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 }
+          )
+        : {
+            calories: menu.total_calories / daysCount,
+            protein: menu.total_protein / daysCount,
+            carbs: menu.total_carbs / daysCount,
+            fat: menu.total_fat / daysCount,
+            fiber: (menu.total_fiber || 0) / daysCount,
+          };
+
+    const goalData = {
+      calories: Math.round(dayTotals.calories),
+      protein_g: Math.round(dayTotals.protein),
+      carbs_g: Math.round(dayTotals.carbs),
+      fats_g: Math.round(dayTotals.fat),
+      ...(dayTotals.fiber > 0 && { fiber_g: Math.round(dayTotals.fiber) }),
+    };
+
+    await DailyGoalsService.setGoalsForPeriod(
+      userId,
+      today,
+      dbDateToDateString(endDate),
+      goalData,
+      "MENU"
+    );
+
+    console.log(
+      `✅ Menu ${menuId} scheduled for user ${userId} (${daysCount} days)`
+    );
+
+    const meals = await this.getPlannedMeals(userId, startDate, endDate);
+
+    return {
+      schedule_id: schedule.schedule_id,
+      menu_id: menuId,
+      start_date: schedule.start_date,
+      end_date: schedule.end_date,
+      meals,
+    };
   }
+
+  // Planned meals of the active menu schedule within [from, to]
+  static async getPlannedMeals(userId: string, from: Date, to: Date) {
+    const [scheduledMeals, profile, kosherSettings] = await Promise.all([
+      prisma.scheduledMenuMeal.findMany({
+        where: {
+          user_id: userId,
+          date: { gte: from, lte: to },
+          schedule: { is_active: true },
+        },
+        include: {
+          recommendedMeal: { include: { ingredients: true } },
+          schedule: { select: { menu_id: true } },
+        },
+        orderBy: [{ date: "asc" }, { meal_type: "asc" }],
+      }),
+      RestrictionService.getProfile(userId),
+      KosherService.getSettings(userId),
+    ]);
+    const mealWarnings = this.checkMeals(
+      profile,
+      kosherSettings,
+      scheduledMeals.map((scheduled) => ({
+        day: scheduled.date.getTime(),
+        meal_type: scheduled.meal_type,
+        food: RestrictionService.describeMeal(scheduled.recommendedMeal),
+      }))
+    );
+
+    return scheduledMeals.map((scheduled, index) => ({
+      id: scheduled.id,
+      date: dbDateToDateString(scheduled.date),
+      meal_type: scheduled.meal_type,
+      menu_id: scheduled.schedule.menu_id,
+      recommended_meal_id: scheduled.recommended_meal_id,
+      name: scheduled.recommendedMeal.name,
+      calories: scheduled.recommendedMeal.calories,
+      protein: scheduled.recommendedMeal.protein,
+      carbs: scheduled.recommendedMeal.carbs,
+      fat: scheduled.recommendedMeal.fat,
+      fiber: scheduled.recommendedMeal.fiber,
+      prep_time_minutes: scheduled.recommendedMeal.prep_time_minutes,
+      ingredients: scheduled.recommendedMeal.ingredients,
+      is_eaten: scheduled.logged_meal_id !== null,
+      eaten_at: scheduled.eaten_at,
+      logged_meal_id: scheduled.logged_meal_id,
+      restriction_warnings: mealWarnings[index],
+    }));
+  }
+
+  /**
+   * "I ate this": logs the planned meal as a regular Meal with the menu's
+   * macros and ingredients, and links it to the scheduled slot.
+   */
+  static async logPlannedMeal(userId: string, scheduledMealId: string) {
+    console.log("🍽️ Logging planned meal:", scheduledMealId);
+
+    const scheduled = await prisma.scheduledMenuMeal.findFirst({
+      where: { id: scheduledMealId, user_id: userId },
+      include: { recommendedMeal: { include: { ingredients: true } } },
+    });
+    if (!scheduled) throw new Error("Planned meal not found");
+    if (scheduled.logged_meal_id !== null) {
+      throw new Error("Planned meal already logged");
+    }
+
+    const planned = scheduled.recommendedMeal;
+    const now = new Date();
+
+    const meal = await prisma.$transaction(async (tx) => {
+      const created = await tx.meal.create({
+        data: {
+          user_id: userId,
+          image_url: "",
+          upload_time: now,
+          analysis_status: "COMPLETED",
+          meal_name: planned.name,
+          calories: planned.calories,
+          protein_g: planned.protein,
+          carbs_g: planned.carbs,
+          fats_g: planned.fat,
+          fiber_g: planned.fiber ?? 0,
+          cooking_method: planned.cooking_method || "",
+          food_category: "recommended_menu",
+          ingredients: planned.ingredients.map((ingredient) => ({
+            name: ingredient.name,
+            quantity: ingredient.quantity,
+            unit: ingredient.unit,
+            category: ingredient.category,
+          })),
+        },
+      });
+
+      // Guard against a double tap logging the same slot twice
+      const linked = await tx.scheduledMenuMeal.updateMany({
+        where: { id: scheduled.id, logged_meal_id: null },
+        data: { logged_meal_id: created.meal_id, eaten_at: now },
+      });
+      if (linked.count === 0) {
+        throw new Error("Planned meal already logged");
+      }
+
+      return created;
+    });
+
+    console.log("✅ Planned meal logged as meal:", meal.meal_id);
+    return meal;
+  }
+}
+
+// Schedule dates are DATE columns, i.e. UTC midnight
+function addDays(date: Date, days: number) {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
 }
@@ -0,0 +1,349 @@
+import { prisma } from "../lib/database";
+import {
+  AllergenId,
+  FoodDescription,
+  RestrictionProfile,
+  RestrictionWarning,
+} from "../types/restrictions";
+import {
+  ALLERGEN_TAXONOMY,
+  ANIMAL_PRODUCT_TERMS,
+  MEAT_TERMS,
+  findGroupTerms,
+  normalizeFoodText,
+  resolveAllergen,
+  splitTraces,
+} from "../utils/allergens";
+import { checkKosherMeal } from "../utils/kosher";
+
+// Questionnaire allergy choice whose details are in allergies_text
+const OTHER_ALLERGY = "אחר";
+
+const VEGAN_STYLES = ["טבעוני", "vegan"];
+const VEGETARIAN_STYLES = ["צמחוני", "vegetarian"];
+
+const VEGAN_LABELS = ["vegan", "טבעוני"];
+const VEGETARIAN_LABELS = [...VEGAN_LABELS, "vegetarian", "צמחוני"];
+const KOSHER_LABELS = ["kosher", "כשר"];
+
+const EMPTY_PROFILE: RestrictionProfile = {
+  allergens: [],
+  custom_allergens: [],
+  diet: null,
+  kosher: false,
+};
+
+// Strings in a Json column, whether it holds strings, {name} objects or
+// nested lists like {possible_allergens: [...]}
+function collectStrings(value: unknown): string[] {
+  if (typeof value === "string") {
+    if (value.trim().startsWith("[")) {
+      try {
+        return collectStrings(JSON.parse(value));
+      } catch {
+        return [value];
+      }
+    }
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => collectStrings(item));
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if (typeof record.name === "string") {
+      return [record.name];
+    }
+    return Object.values(record).flatMap((item) => collectStrings(item));
+  }
+  return [];
+}
+
+function hasLabel(labels: string[], wanted: string[]) {
+  return labels.some((label) =>
+    wanted.some((word) => normalizeFoodText(label).includes(word))
+  );
+}
+
+/**
+ * Checks food against a user's allergies, diet and kosher observance. Every
+ * surface that returns food to the client (meals, products, menus, meal
+ * plans, chat) attaches the same structured warnings, and menu generation
+ * rejects meals with high-severity ones.
+ */
+export class RestrictionService {
+  static async getProfile(userId: string): Promise<RestrictionProfile> {
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id: userId },
+      orderBy: { date_completed: "desc" },
+      select: {
+        allergies: true,
+        allergies_text: true,
+        dietary_style: true,
+        kosher: true,
+      },
+    });
+
+    return questionnaire
+      ? this.buildProfile(questionnaire)
+      : { ...EMPTY_PROFILE };
+  }
+
+  static buildProfile(questionnaire: {
+    allergies?: string[] | null;
+    allergies_text?: string[] | null;
+    dietary_style?: string | null;
+    kosher?: boolean | null;
+  }): RestrictionProfile {
+    const allergens = new Set<AllergenId>();
+    const customAllergens = new Set<string>();
+
+    const entries = [
+      ...(questionnaire.allergies || []),
+      ...(questionnaire.allergies_text || []),
+    ];
+    for (const entry of entries) {
+      const text = entry?.trim();
+      if (!text || text === OTHER_ALLERGY) continue;
+
+      const allergen = resolveAllergen(text);
+      if (allergen) {
+        allergens.add(allergen);
+      } else {
+        customAllergens.add(text);
+      }
+    }
+
+    const style = normalizeFoodText(questionnaire.dietary_style || "");
+    const diet = VEGAN_STYLES.includes(style)
+      ? "vegan"
+      : VEGETARIAN_STYLES.includes(style)
+      ? "vegetarian"
+      : null;
+
+    return {
+      allergens: Array.from(allergens),
+      custom_allergens: Array.from(customAllergens),
+      diet,
+      kosher: Boolean(questionnaire.kosher),
+    };
+  }
+
+  static hasRestrictions(profile: RestrictionProfile) {
+    return (
+      profile.allergens.length > 0 ||
+      profile.custom_allergens.length > 0 ||
+      profile.diet !== null ||
+      profile.kosher
+    );
+  }
+
+  static checkFood(
+    profile: RestrictionProfile,
+    food: FoodDescription
+  ): RestrictionWarning[] {
+    if (!this.hasRestrictions(profile)) return [];
+
+    const labels = food.labels || [];
+    const tags = food.allergens || [];
+    // Name first, so dish names like "שניצל" count as ingredients
+    const { contains, traces } = splitTraces(
+      [food.name || "", ...(food.ingredients || [])].join(" , ")
+    );
+    const warnings: RestrictionWarning[] = [];
+
+    for (const allergen of profile.allergens) {
+      const group = ALLERGEN_TAXONOMY[allergen];
+      const tagged = tags.filter((tag) => resolveAllergen(tag) === allergen);
+      const matched = [...tagged, ...findGroupTerms(contains, group)];
+
+      if (matched.length > 0) {
+        warnings.push({
+          type: "allergen",
+          code: allergen,
+          severity: "high",
+          message: `מכיל ${group.label_he}`,
+          message_en: `Contains ${group.label_en}`,
+          matched,
+        });
+        continue;
+      }
+
+      const traceMatches = findGroupTerms(traces, group);
+      if (traceMatches.length > 0) {
+        warnings.push({
+          type: "allergen",
+          code: allergen,
+          severity: "medium",
+          message: `עלול להכיל עקבות ${group.label_he}`,
+          message_en: `May contain traces of ${group.label_en}`,
+          matched: traceMatches,
+        });
+      }
+    }
+
+    for (const custom of profile.custom_allergens) {
+      const group = { label_he: custom, label_en: custom, terms: [custom] };
+      const matched = [
+        ...findGroupTerms(contains, group),
+        ...tags.filter((tag) => findGroupTerms(tag, group).length > 0),
+      ];
+      const traceMatches = findGroupTerms(traces, group);
+
+      if (matched.length > 0 || traceMatches.length > 0) {
+        const isTrace = matched.length === 0;
+        warnings.push({
+          type: "allergen",
+          code: custom,
+          severity: isTrace ? "medium" : "high",
+          message: isTrace ? `עלול להכיל עקבות ${custom}` : `מכיל ${custom}`,
+          message_en: isTrace
+            ? `May contain traces of ${custom}`
+            : `Contains ${custom}`,
+          matched: isTrace ? traceMatches : matched,
+        });
+      }
+    }
+
+    if (profile.diet) {
+      warnings.push(...this.checkDiet(profile.diet, contains, labels));
+    }
+
+    if (profile.kosher) {
+      warnings.push(...this.checkKosher(contains, labels, food.labels));
+    }
+
+    return warnings;
+  }
+
+  static hasHardViolation(warnings: RestrictionWarning[]) {
+    return warnings.some((warning) => warning.severity === "high");
+  }
+
+  /**
+   * Adds `restriction_warnings` to each item. `describe` maps the item to
+   * what it says about its contents (see describeMeal for DB rows).
+   */
+  static annotate<T extends object>(
+    profile: RestrictionProfile,
+    items: T[],
+    describe: (item: T) => FoodDescription = (item) => this.describeMeal(item)
+  ): (T & { restriction_warnings: RestrictionWarning[] })[] {
+    return items.map((item) => ({
+      ...item,
+      restriction_warnings: this.checkFood(profile, describe(item)),
+    }));
+  }
+
+  /**
+   * Reads the food fields shared by Meal, RecommendedMeal and MealTemplate:
+   * a name, ingredients as strings or {name} objects, and allergen tags.
+   */
+  static describeMeal(meal: any): FoodDescription {
+    return {
+      name: meal.meal_name || meal.name || meal.product_name || null,
+      ingredients: collectStrings(meal.ingredients ?? meal.ingredients_json),
+      allergens: collectStrings(meal.allergens ?? meal.allergens_json),
+      labels: meal.labels ? collectStrings(meal.labels) : undefined,
+    };
+  }
+
+  // Restriction summary for AI prompts that generate or suggest food
+  static describeForPrompt(profile: RestrictionProfile) {
+    if (!this.hasRestrictions(profile)) return "";
+
+    const lines: string[] = [];
+    const allergens = [
+      ...profile.allergens.map((id) => ALLERGEN_TAXONOMY[id].label_en),
+      ...profile.custom_allergens,
+    ];
+    if (allergens.length > 0) {
+      lines.push(
+        `- ALLERGIES (never include, not even as traces or sauces): ${allergens.join(
+          ", "
+        )}`
+      );
+    }
+    if (profile.diet === "vegan") {
+      lines.push(
+        "- VEGAN: no meat, poultry, fish, seafood, dairy, eggs or honey"
+      );
+    } else if (profile.diet === "vegetarian") {
+      lines.push("- VEGETARIAN: no meat, poultry, fish or seafood");
+    }
+    if (profile.kosher) {
+      lines.push(
+        "- KOSHER: no pork or shellfish, never mix meat and dairy in one meal"
+      );
+    }
+
+    return `Hard dietary restrictions:\n${lines.join("\n")}`;
+  }
+
+  private static checkDiet(
+    diet: "vegan" | "vegetarian",
+    contains: string,
+    labels: string[]
+  ): RestrictionWarning[] {
+    if (hasLabel(labels, diet === "vegan" ? VEGAN_LABELS : VEGETARIAN_LABELS)) {
+      return [];
+    }
+
+    const groups = [
+      MEAT_TERMS,
+      ALLERGEN_TAXONOMY.fish,
+      ALLERGEN_TAXONOMY.shellfish,
+      ...(diet === "vegan"
+        ? [ALLERGEN_TAXONOMY.milk, ALLERGEN_TAXONOMY.eggs, ANIMAL_PRODUCT_TERMS]
+        : []),
+    ];
+    const matched = groups.flatMap((group) => findGroupTerms(contains, group));
+    if (matched.length === 0) return [];
+
+    return [
+      diet === "vegan"
+        ? {
+            type: "diet",
+            code: "vegan",
+            severity: "high",
+            message: "מכיל רכיבים מן החי ואינו מתאים לתזונה טבעונית",
+            message_en: "Contains animal products and is not vegan",
+            matched,
+          }
+        : {
+            type: "diet",
+            code: "vegetarian",
+            severity: "high",
+            message: "מכיל בשר או דגים ואינו מתאים לצמחונים",
+            message_en: "Contains meat or fish and is not vegetarian",
+            matched,
+          },
+    ];
+  }
+
+  private static checkKosher(
+    contains: string,
+    labels: string[],
+    declaredLabels: string[] | undefined
+  ): RestrictionWarning[] {
+    const warnings = checkKosherMeal({ ingredients: [contains] });
+
+    // Only packaged products declare labels; a missing one is worth a look
+    if (
+      declaredLabels !== undefined &&
+      warnings.length === 0 &&
+      !hasLabel(labels, KOSHER_LABELS)
+    ) {
+      warnings.push({
+        type: "kosher",
+        code: "no_kosher_label",
+        severity: "low",
+        message: "לא נמצא סימון כשרות על המוצר",
+        message_en: "No kosher certification found on the product",
+        matched: [],
+      });
+    }
+
+    return warnings;
+  }
+}
@@ -1,4 +1,23 @@
 import { prisma } from "../lib/database";
+import {
+  NutritionReportService,
+  NutritionReportOptions,
+} from "./nutritionReport";
+import { ActivityMergeService } from "./activityMerge";
+import { MergedDailyActivity } from "../types/devices";
+import { TimeZoneService } from "./timeZone";
+import { DailyGoalsService } from "./dailyGoal";
+import { StreakService } from "./streaks";
+import { UserContextService } from "./userContext";
+import { ResolvedDailyGoals } from "../types/dailyGoals";
+import {
+  addDaysToDateString,
+  dateStringToDbDate,
+  dbDateToDateString,
+  getLocalDateString,
+  getZonedRangeBounds,
+  listDateStrings,
+} from "../utils/dates";
 
 export interface StatisticsData {
   level: number;
@@ -32,39 +51,54 @@ export interface StatisticsData {
 export class StatisticsService {
   static async getNutritionStatistics(
     userId: string,
-    period: "today" | "week" | "month" = "week"
+    period: "today" | "week" | "month" | "custom" = "week",
+    // Inclusive YYYY-MM-DD local dates
+    range?: { from: string; to: string }
   ): Promise<{ success: boolean; data: StatisticsData }> {
     try {
       console.log(
         `📊 Getting statistics for user: ${userId}, period: ${period}`
       );
 
-      const now = new Date();
-      let startDate: Date;
+      // Periods are whole local days in the user's time zone
+      const { timeZone, date: today } = await TimeZoneService.getUserToday(
+        userId
+      );
+      let endDateStr = today;
+      let startDateStr: string;
 
       switch (period) {
         case "today":
-          startDate = new Date(
-            now.getFullYear(),
-            now.getMonth(),
-            now.getDate()
-          );
+          startDateStr = today;
           break;
         case "week":
-          startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+          startDateStr = addDaysToDateString(today, -7);
           break;
         case "month":
-          startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+          startDateStr = addDaysToDateString(today, -30);
+          break;
+        case "custom":
+          // Without an explicit range, a custom period covers the last 30 days
+          startDateStr = range?.from || addDaysToDateString(today, -30);
+          endDateStr = range?.to || today;
           break;
       }
 
+      const { start: startDate, end: endDate } = getZonedRangeBounds(
+        startDateStr,
+        endDateStr,
+        timeZone
+      );
+      const now = new Date(Math.min(Date.now(), endDate.getTime()));
+
       // Get user's meals for the period
       const meals = await prisma.meal.findMany({
         where: {
           user_id: userId,
+          analysis_status: "COMPLETED",
           upload_time: {
             gte: startDate,
-            lte: now,
+            lt: endDate,
           },
         },
         orderBy: {
@@ -72,27 +106,20 @@ export class StatisticsService {
         },
       });
 
-      // Get user's daily goals
-      const dailyGoals = await prisma.dailyGoal.findMany({
-        where: {
-          user_id: userId,
-          date: {
-            gte: startDate,
-            lte: now,
-          },
-        },
-        orderBy: {
-          date: "desc",
-        },
-      });
+      // Each day is scored against the goals that applied on that day
+      const dailyGoals = await DailyGoalsService.getGoalsForDates(
+        userId,
+        startDateStr,
+        endDateStr
+      );
 
       // Get water intake data
       const waterIntakes = await prisma.waterIntake.findMany({
         where: {
           user_id: userId,
           date: {
-            gte: startDate,
-            lte: now,
+            gte: dateStringToDbDate(startDateStr),
+            lte: dateStringToDbDate(endDateStr),
           },
         },
         orderBy: {
@@ -100,20 +127,29 @@ export class StatisticsService {
         },
       });
 
+      // Get wearable activity, merged across devices so nothing is counted twice
+      const activity = await ActivityMergeService.getMergedActivity(
+        userId,
+        startDateStr,
+        endDateStr
+      );
+
       // Calculate daily breakdown
       const dailyBreakdown = await this.calculateDailyBreakdown(
         meals,
         dailyGoals,
         waterIntakes,
-        startDate,
-        now
+        activity,
+        listDateStrings(startDateStr, endDateStr),
+        timeZone
       );
 
       // Calculate averages
-      const averages = this.calculateAverages(meals);
+      const averages = this.calculateAverages(meals, timeZone);
 
-      // Calculate streaks and achievements
-      const streaks = await this.calculateStreaks(userId, dailyGoals);
+      // Streak numbers come from the user's primary streak, the same one the
+      // calendar reports
+      const streak = await StreakService.getPrimaryStreak(userId);
 
       // Calculate user level and XP
       const levelData = await this.calculateUserLevel(userId);
@@ -133,10 +169,10 @@ export class StatisticsService {
         level: levelData.level,
         currentXP: levelData.currentXP,
         totalPoints: levelData.totalPoints,
-        currentStreak: streaks.currentStreak,
-        weeklyStreak: streaks.weeklyStreak,
-        perfectDays: streaks.perfectDays,
-        dailyGoalDays: dailyGoals.length,
+        currentStreak: streak.current_streak,
+        weeklyStreak: Math.floor(streak.current_streak / 7),
+        perfectDays: streak.perfect_days,
+        dailyGoalDays: Array.from(dailyGoals.values()).filter(Boolean).length,
         totalDays: Math.ceil(
           (now.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
         ),
@@ -151,9 +187,9 @@ export class StatisticsService {
         achievements,
         badges,
         dailyBreakdown,
-        successfulDays: streaks.successfulDays,
-        averageCompletion: streaks.averageCompletion,
-        bestStreak: streaks.bestStreak,
+        successfulDays: streak.successful_days,
+        averageCompletion: streak.average_completion,
+        bestStreak: streak.best_streak,
         happyDays: wellbeingMetrics.happyDays,
         highEnergyDays: wellbeingMetrics.highEnergyDays,
         satisfiedDays: wellbeingMetrics.satisfiedDays,
@@ -170,28 +206,27 @@ export class StatisticsService {
 
   private static async calculateDailyBreakdown(
     meals: any[],
-    dailyGoals: any[],
+    dailyGoals: Map<string, ResolvedDailyGoals | null>,
     waterIntakes: any[],
-    startDate: Date,
-    endDate: Date
+    activity: MergedDailyActivity[],
+    dates: string[],
+    timeZone: string
   ): Promise<any[]> {
     const dailyBreakdown: any[] = [];
-    const currentDate = new Date(startDate);
 
-    while (currentDate <= endDate) {
-      const dateStr = currentDate.toISOString().split("T")[0];
+    for (const dateStr of dates) {
       const dayMeals = meals.filter(
-        (meal) => meal.upload_time.toISOString().split("T")[0] === dateStr
+        (meal) => getLocalDateString(meal.upload_time, timeZone) === dateStr
       );
 
-      const dayGoal = dailyGoals.find(
-        (goal) => goal.date.toISOString().split("T")[0] === dateStr
-      );
+      const dayGoal = dailyGoals.get(dateStr);
 
       const dayWater = waterIntakes.find(
-        (water) => water.date.toISOString().split("T")[0] === dateStr
+        (water) => dbDateToDateString(water.date) === dateStr
       );
 
+      const dayActivity = activity.find((day) => day.date === dateStr);
+
       const dayTotals = dayMeals.reduce(
         (acc, meal) => ({
           calories: acc.calories + (meal.calories || 0),
@@ -218,20 +253,39 @@ export class StatisticsService {
       dailyBreakdown.push({
         date: dateStr,
         ...dayTotals,
+        meal_count: dayMeals.length,
+        goal: dayGoal
+          ? {
+              calories: dayGoal.calories,
+              protein_g: dayGoal.protein_g,
+              carbs_g: dayGoal.carbs_g,
+              fats_g: dayGoal.fats_g,
+              water_ml: dayGoal.water_ml,
+            }
+          : null,
         water_cups: dayWater?.cups_consumed || 0,
+        activity: dayActivity
+          ? {
+              steps: dayActivity.steps,
+              calories_burned: dayActivity.calories_burned,
+              active_minutes: dayActivity.active_minutes,
+              sleep_hours: dayActivity.sleep_hours,
+            }
+          : null,
         mood: "neutral",
         energy: "medium",
         satiety: "satisfied",
         meal_quality: 3,
       });
-
-      currentDate.setDate(currentDate.getDate() + 1);
     }
 
     return dailyBreakdown;
   }
 
-  private static calculateAverages(meals: any[]): {
+  private static calculateAverages(
+    meals: any[],
+    timeZone: string
+  ): {
     calories: number;
     protein: number;
     carbs: number;
@@ -257,7 +311,7 @@ export class StatisticsService {
     // Group by date to get daily averages
     const dailyTotals = new Map<string, any>();
     meals.forEach((meal) => {
-      const date = meal.upload_time.toISOString().split("T")[0];
+      const date = getLocalDateString(meal.upload_time, timeZone);
       if (!dailyTotals.has(date)) {
         dailyTotals.set(date, {
           calories: 0,
@@ -318,93 +372,6 @@ export class StatisticsService {
     };
   }
 
-  private static async calculateStreaks(
-    userId: string,
-    dailyGoals: any[]
-  ): Promise<{
-    currentStreak: number;
-    weeklyStreak: number;
-    perfectDays: number;
-    successfulDays: number;
-    averageCompletion: number;
-    bestStreak: number;
-  }> {
-    try {
-      // Get all water intake records for streak calculation
-      const allWaterIntakes = await prisma.waterIntake.findMany({
-        where: { user_id: userId },
-        orderBy: { date: "desc" },
-      });
-
-      let currentStreak = 0;
-      let bestStreak = 0;
-      let tempStreak = 0;
-      let perfectDays = 0;
-      let successfulDays = 0;
-      let totalCompletion = 0;
-
-      // Calculate streaks based on water intake (8+ cups = successful day)
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      for (let i = 0; i < allWaterIntakes.length; i++) {
-        const waterRecord = allWaterIntakes[i];
-        const waterDate = new Date(waterRecord.date);
-        waterDate.setHours(0, 0, 0, 0);
-
-        const cups = waterRecord.cups_consumed || 0;
-        const completion = Math.min(100, (cups / 8) * 100);
-        totalCompletion += completion;
-
-        if (cups >= 8) {
-          successfulDays++;
-          if (cups >= 12) {
-            perfectDays++;
-          }
-
-          tempStreak++;
-          if (i === 0) {
-            currentStreak = tempStreak;
-          }
-        } else {
-          if (tempStreak > bestStreak) {
-            bestStreak = tempStreak;
-          }
-          tempStreak = 0;
-        }
-      }
-
-      if (tempStreak > bestStreak) {
-        bestStreak = tempStreak;
-      }
-
-      const weeklyStreak = Math.floor(currentStreak / 7);
-      const averageCompletion =
-        allWaterIntakes.length > 0
-          ? totalCompletion / allWaterIntakes.length
-          : 0;
-
-      return {
-        currentStreak,
-        weeklyStreak,
-        perfectDays,
-        successfulDays,
-        averageCompletion: Math.round(averageCompletion),
-        bestStreak,
-      };
-    } catch (error) {
-      console.error("Error calculating streaks:", error);
-      return {
-        currentStreak: 0,
-        weeklyStreak: 0,
-        perfectDays: 0,
-        successfulDays: 0,
-        averageCompletion: 0,
-        bestStreak: 0,
-      };
-    }
-  }
-
   private static async calculateUserLevel(userId: string): Promise<{
     level: number;
     currentXP: number;
@@ -563,47 +530,93 @@ export class StatisticsService {
     }
   }
 
-  static async generatePDFReport(userId: string): Promise<Buffer> {
-    // This would generate a PDF report - placeholder for now
-    return Buffer.from("PDF Report");
+  static async generatePDFReport(
+    userId: string,
+    options: NutritionReportOptions
+  ): Promise<Buffer> {
+    return NutritionReportService.generatePDF(userId, options);
   }
 
   static async generateInsights(userId: string): Promise<any> {
     try {
-      const statistics = await this.getNutritionStatistics(userId, "month");
+      const [context, streak] = await Promise.all([
+        UserContextService.build(userId),
+        StreakService.getPrimaryStreak(userId),
+      ]);
+
+      // The week before today; today is still in progress
+      const week = context.trend.slice(0, -1);
+      const logged = week.filter((day) => day.meals_logged > 0);
+      const averageOf = (
+        days: typeof week,
+        field: "fiber_g" | "sodium_mg" | "water_ml"
+      ) =>
+        days.length > 0
+          ? Math.round(
+              days.reduce((sum, day) => sum + day[field], 0) / days.length
+            )
+          : 0;
+      const fiber = averageOf(logged, "fiber_g");
+      const sodium = averageOf(logged, "sodium_mg");
+      const water = averageOf(week, "water_ml");
+
+      const goals = context.goals;
+      const proteinDays = logged.filter(
+        (day) => goals && day.protein_g >= goals.protein_g * 0.9
+      ).length;
+
+      const recommendations = [];
+      if (goals && logged.length > 0) {
+        if (fiber < goals.fiber_g * 0.8) {
+          recommendations.push({
+            type: "fiber",
+            message: `Your fiber averaged ${fiber}g against a ${
+              goals.fiber_g
+            }g goal. Consider adding more fiber-rich foods to your diet.`,
+            priority: "medium",
+          });
+        }
+        if (sodium > goals.sodium_mg) {
+          recommendations.push({
+            type: "sodium",
+            message: `Your sodium averaged ${sodium}mg, above your ${
+              goals.sodium_mg
+            }mg limit. Try limiting processed foods.`,
+            priority: "high",
+          });
+        }
+      }
+      if (context.remaining && context.remaining.protein_g > 0) {
+        recommendations.push({
+          type: "protein",
+          message: `You have ${Math.round(
+            context.remaining.protein_g
+          )}g of protein left for today.`,
+          priority: "low",
+        });
+      }
 
       const insights = {
         mainInsights: [
           {
             type: "protein",
-            message: `You're meeting protein goals ${Math.round(
-              (statistics.data.averageProtein / 120) * 100
-            )}% of days this month.`,
+            message: goals
+              ? `You met your protein goal on ${proteinDays} of the last ${week.length} days.`
+              : "Set your daily goals to track protein.",
             category: "nutrition",
           },
           {
             type: "hydration",
-            message: `Your water intake averaged ${statistics.data.averageFluids}ml daily.`,
+            message: `Your water intake averaged ${water}ml daily this week.`,
             category: "lifestyle",
           },
           {
             type: "streak",
-            message: `Current streak: ${statistics.data.currentStreak} days!`,
+            message: `Current streak: ${streak?.current_streak || 0} days!`,
             category: "motivation",
           },
         ],
-        recommendations: [
-          {
-            type: "fiber",
-            message: "Consider adding more fiber-rich foods to your diet.",
-            priority: "medium",
-          },
-          {
-            type: "sodium",
-            message: "Try to reduce sodium intake by limiting processed foods.",
-            priority: "high",
-          },
-        ],
+        recommendations,
       };
 
       return { success: true, data: insights };
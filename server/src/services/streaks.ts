@@ -0,0 +1,572 @@
+import { prisma } from "../lib/database";
+import { DailyGoalsService } from "./dailyGoal";
+import { TimeZoneService } from "./timeZone";
+import {
+  CreateStreakInput,
+  StreakCriteria,
+  StreakDayMetrics,
+  StreakDayStatus,
+  StreakDaysQuery,
+  StreakRule,
+  StreakSummary,
+  UpdateStreakInput,
+} from "../types/streaks";
+import {
+  addDaysToDateString,
+  dateStringToDbDate,
+  dbDateToDateString,
+  getLocalDateString,
+  getZonedRangeBounds,
+  listDateStrings,
+} from "../utils/dates";
+
+export class StreakNotFoundError extends Error {
+  constructor() {
+    super("Streak not found");
+    this.name = "StreakNotFoundError";
+  }
+}
+
+export class StreakExistsError extends Error {
+  constructor(key: string) {
+    super(`A streak with key "${key}" already exists`);
+    this.name = "StreakExistsError";
+  }
+}
+
+// Every 7 days in a row earns a freeze token, up to 2 banked
+const FREEZE_EARN_INTERVAL = 7;
+const MAX_FREEZE_TOKENS = 2;
+// New streaks are scored over recent history, not from zero
+const BACKFILL_DAYS = 90;
+
+// Created for users without any streak
+const DEFAULT_STREAKS: CreateStreakInput[] = [
+  {
+    key: "daily_goals",
+    name: "Daily goals",
+    is_primary: true,
+    criteria: {
+      mode: "all",
+      rules: [
+        { type: "meals_logged", min: 1 },
+        { type: "calories_within_goal", tolerance_percent: 10 },
+      ],
+    },
+  },
+  {
+    key: "hydration",
+    name: "Hydration",
+    criteria: { mode: "all", rules: [{ type: "water_goal" }] },
+  },
+];
+
+type StreakState = {
+  current_streak: number;
+  best_streak: number;
+  freeze_tokens: number;
+};
+
+function progressTowards(actual: number, target: number) {
+  if (target <= 0) return { passed: true, completion: 100 };
+  return {
+    passed: actual >= target,
+    completion: Math.min(100, (actual / target) * 100),
+  };
+}
+
+function scoreRule(rule: StreakRule, day: StreakDayMetrics) {
+  switch (rule.type) {
+    case "meals_logged":
+      return progressTowards(day.meal_count, rule.min);
+    case "calories_within_goal": {
+      if (day.calories <= 0) return { passed: false, completion: 0 };
+      const deviation =
+        (Math.abs(day.calories - day.goals.calories) / day.goals.calories) *
+        100;
+      return {
+        passed: deviation <= rule.tolerance_percent,
+        completion: Math.max(
+          0,
+          100 - Math.max(0, deviation - rule.tolerance_percent)
+        ),
+      };
+    }
+    case "protein_goal":
+      return progressTowards(day.protein_g, day.goals.protein_g);
+    case "water_goal":
+      return progressTowards(day.water_ml, day.goals.water_ml);
+  }
+}
+
+// Scores one local day against a streak's criteria
+export function evaluateStreakDay(
+  criteria: StreakCriteria,
+  day: StreakDayMetrics
+) {
+  const results = criteria.rules.map((rule) => scoreRule(rule, day));
+  const perfect = results.every((result) => result.passed);
+
+  return {
+    passed:
+      criteria.mode === "any"
+        ? results.some((result) => result.passed)
+        : perfect,
+    perfect,
+    completion: Math.round(
+      results.reduce((sum, result) => sum + result.completion, 0) /
+        results.length
+    ),
+  };
+}
+
+/**
+ * Advances a streak by one finished day. A missed day spends a freeze token
+ * when there is a streak to protect; frozen days keep the streak alive
+ * without adding to it.
+ */
+export function advanceStreak(
+  state: StreakState,
+  passed: boolean
+): { state: StreakState; status: StreakDayStatus } {
+  if (passed) {
+    const current = state.current_streak + 1;
+    const earned = current % FREEZE_EARN_INTERVAL === 0 ? 1 : 0;
+    return {
+      status: "SUCCESS",
+      state: {
+        current_streak: current,
+        best_streak: Math.max(state.best_streak, current),
+        freeze_tokens: Math.min(
+          MAX_FREEZE_TOKENS,
+          state.freeze_tokens + earned
+        ),
+      },
+    };
+  }
+
+  if (state.current_streak > 0 && state.freeze_tokens > 0) {
+    return {
+      status: "FROZEN",
+      state: { ...state, freeze_tokens: state.freeze_tokens - 1 },
+    };
+  }
+
+  return { status: "MISSED", state: { ...state, current_streak: 0 } };
+}
+
+/**
+ * One engine for every streak a user keeps. Finished days are scored once,
+ * at or after local midnight, and persisted with the running totals, so the
+ * statistics and calendar endpoints read the same numbers. Today is scored
+ * live and only counts once its criteria are met.
+ */
+export class StreakService {
+  static async ensureDefaultStreaks(userId: string) {
+    const count = await prisma.streak.count({ where: { user_id: userId } });
+    if (count > 0) return;
+
+    await prisma.streak.createMany({
+      data: DEFAULT_STREAKS.map((streak) => ({
+        user_id: userId,
+        key: streak.key,
+        name: streak.name,
+        criteria: streak.criteria,
+        is_primary: streak.is_primary ?? false,
+      })),
+      skipDuplicates: true,
+    });
+    console.log("🔥 Default streaks created for user:", userId);
+  }
+
+  /**
+   * Scores every day not yet evaluated, through yesterday, plus today, for
+   * all of the user's streaks and returns their summaries.
+   */
+  static async evaluateStreaks(userId: string): Promise<StreakSummary[]> {
+    await this.ensureDefaultStreaks(userId);
+
+    const { timeZone, date: today } = await TimeZoneService.getUserToday(
+      userId
+    );
+    const yesterday = addDaysToDateString(today, -1);
+
+    const [streaks, user] = await Promise.all([
+      prisma.streak.findMany({ where: { user_id: userId } }),
+      prisma.user.findUnique({
+        where: { user_id: userId },
+        select: { created_at: true },
+      }),
+    ]);
+
+    // Nothing before the account existed is scored
+    const backfillFrom = addDaysToDateString(today, -BACKFILL_DAYS);
+    const joined = user
+      ? getLocalDateString(user.created_at, timeZone)
+      : backfillFrom;
+    const firstDate = joined > backfillFrom ? joined : backfillFrom;
+
+    const startDates = new Map<string, string>(
+      streaks.map((streak: any) => {
+        const next = streak.evaluated_through
+          ? addDaysToDateString(dbDateToDateString(streak.evaluated_through), 1)
+          : firstDate;
+        return [streak.streak_id, next < today ? next : today];
+      })
+    );
+    const from = Array.from(startDates.values()).sort()[0] || today;
+    const metrics = await this.getDayMetrics(userId, from, today, timeZone);
+
+    for (const streak of streaks) {
+      const start = startDates.get(streak.streak_id)!;
+      const criteria = streak.criteria as StreakCriteria;
+      let state: StreakState = {
+        current_streak: streak.current_streak,
+        best_streak: streak.best_streak,
+        freeze_tokens: streak.freeze_tokens,
+      };
+      const days: {
+        date: string;
+        status: StreakDayStatus;
+        completion: number;
+        perfect: boolean;
+      }[] = [];
+
+      for (const date of listDateStrings(start, yesterday)) {
+        const result = evaluateStreakDay(criteria, metrics.get(date)!);
+        const next = advanceStreak(state, result.passed);
+        state = next.state;
+        days.push({
+          date,
+          status: next.status,
+          completion: result.completion,
+          perfect: result.perfect,
+        });
+      }
+
+      const todayResult = evaluateStreakDay(criteria, metrics.get(today)!);
+      days.push({
+        date: today,
+        status: todayResult.passed ? "SUCCESS" : "PENDING",
+        completion: todayResult.completion,
+        perfect: todayResult.perfect,
+      });
+
+      await prisma.$transaction([
+        // Also replaces the previous evaluation of today
+        prisma.streakDay.deleteMany({
+          where: {
+            streak_id: streak.streak_id,
+            date: { gte: dateStringToDbDate(start) },
+          },
+        }),
+        prisma.streakDay.createMany({
+          data: days.map((day) => ({
+            streak_id: streak.streak_id,
+            ...day,
+            date: dateStringToDbDate(day.date),
+          })),
+          // A concurrent evaluation may have written the same days
+          skipDuplicates: true,
+        }),
+        prisma.streak.update({
+          where: { streak_id: streak.streak_id },
+          data: {
+            ...state,
+            ...(start <= yesterday && {
+              evaluated_through: dateStringToDbDate(yesterday),
+            }),
+          },
+        }),
+      ]);
+    }
+
+    return this.getSummaries(userId, today);
+  }
+
+  // Used by the midnight rollover so finished days are settled promptly
+  static async evaluateUsers(userIds: string[]) {
+    for (const userId of userIds) {
+      try {
+        await this.evaluateStreaks(userId);
+      } catch (error) {
+        console.error("❌ Streak evaluation failed for user:", userId, error);
+      }
+    }
+  }
+
+  // The streak the statistics and calendar endpoints report
+  static async getPrimaryStreak(userId: string) {
+    const summaries = await this.evaluateStreaks(userId);
+    return summaries.find((streak) => streak.is_primary) || summaries[0];
+  }
+
+  static async createStreak(userId: string, input: CreateStreakInput) {
+    const existing = await prisma.streak.findUnique({
+      where: { user_id_key: { user_id: userId, key: input.key } },
+    });
+    if (existing) throw new StreakExistsError(input.key);
+
+    await this.ensureDefaultStreaks(userId);
+    const streak = await prisma.streak.create({
+      data: {
+        user_id: userId,
+        key: input.key,
+        name: input.name,
+        criteria: input.criteria,
+      },
+    });
+    if (input.is_primary) {
+      await this.setPrimary(userId, streak.streak_id);
+    }
+
+    console.log("🔥 Streak created:", input.key);
+    return this.findSummary(userId, streak.streak_id);
+  }
+
+  /**
+   * Renames a streak or changes its criteria. New criteria re-score the
+   * streak's history from scratch.
+   */
+  static async updateStreak(
+    userId: string,
+    streakId: string,
+    input: UpdateStreakInput
+  ) {
+    await this.getOwnedStreak(userId, streakId);
+
+    if (input.criteria) {
+      await prisma.$transaction([
+        prisma.streakDay.deleteMany({ where: { streak_id: streakId } }),
+        prisma.streak.update({
+          where: { streak_id: streakId },
+          data: {
+            criteria: input.criteria,
+            current_streak: 0,
+            best_streak: 0,
+            freeze_tokens: 0,
+            evaluated_through: null,
+          },
+        }),
+      ]);
+    }
+    if (input.name) {
+      await prisma.streak.update({
+        where: { streak_id: streakId },
+        data: { name: input.name },
+      });
+    }
+    if (input.is_primary) {
+      await this.setPrimary(userId, streakId);
+    }
+
+    return this.findSummary(userId, streakId);
+  }
+
+  // Deleting the primary streak promotes the oldest remaining one
+  static async deleteStreak(userId: string, streakId: string) {
+    const streak = await this.getOwnedStreak(userId, streakId);
+    await prisma.streak.delete({ where: { streak_id: streakId } });
+
+    if (streak.is_primary) {
+      const next = await prisma.streak.findFirst({
+        where: { user_id: userId },
+        orderBy: { created_at: "asc" },
+      });
+      if (next) await this.setPrimary(userId, next.streak_id);
+    }
+  }
+
+  // Day-by-day results; the last 30 days by default
+  static async getStreakDays(
+    userId: string,
+    streakId: string,
+    query: StreakDaysQuery
+  ) {
+    await this.getOwnedStreak(userId, streakId);
+    await this.evaluateStreaks(userId);
+
+    const { date: today } = await TimeZoneService.getUserToday(userId);
+    const to = query.to || today;
+    const from = query.from || addDaysToDateString(to, -29);
+
+    const days = await prisma.streakDay.findMany({
+      where: {
+        streak_id: streakId,
+        date: { gte: dateStringToDbDate(from), lte: dateStringToDbDate(to) },
+      },
+      orderBy: { date: "asc" },
+    });
+
+    return {
+      from,
+      to,
+      days: days.map((day: any) => ({
+        date: dbDateToDateString(day.date),
+        status: day.status as StreakDayStatus,
+        completion: day.completion,
+        perfect: day.perfect,
+      })),
+    };
+  }
+
+  private static async getOwnedStreak(userId: string, streakId: string) {
+    const streak = await prisma.streak.findFirst({
+      where: { streak_id: streakId, user_id: userId },
+    });
+    if (!streak) throw new StreakNotFoundError();
+    return streak;
+  }
+
+  private static async setPrimary(userId: string, streakId: string) {
+    await prisma.$transaction([
+      prisma.streak.updateMany({
+        where: { user_id: userId, streak_id: { not: streakId } },
+        data: { is_primary: false },
+      }),
+      prisma.streak.update({
+        where: { streak_id: streakId },
+        data: { is_primary: true },
+      }),
+    ]);
+  }
+
+  private static async findSummary(userId: string, streakId: string) {
+    const summaries = await this.evaluateStreaks(userId);
+    return summaries.find((streak) => streak.streak_id === streakId)!;
+  }
+
+  private static async getSummaries(
+    userId: string,
+    today: string
+  ): Promise<StreakSummary[]> {
+    const streaks = await prisma.streak.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: "asc" },
+    });
+    const streakIds = streaks.map((streak: any) => streak.streak_id);
+    const todayDate = dateStringToDbDate(today);
+
+    const [settledDays, perfectDays, todayDays] = await Promise.all([
+      prisma.streakDay.groupBy({
+        by: ["streak_id", "status"],
+        where: { streak_id: { in: streakIds }, date: { lt: todayDate } },
+        _count: { _all: true },
+        _sum: { completion: true },
+      }),
+      prisma.streakDay.groupBy({
+        by: ["streak_id"],
+        where: {
+          streak_id: { in: streakIds },
+          perfect: true,
+          date: { lt: todayDate },
+        },
+        _count: { _all: true },
+      }),
+      prisma.streakDay.findMany({
+        where: { streak_id: { in: streakIds }, date: todayDate },
+      }),
+    ]);
+
+    return streaks.map((streak: any) => {
+      const groups = settledDays.filter(
+        (group: any) => group.streak_id === streak.streak_id
+      );
+      const countOf = (status: StreakDayStatus) =>
+        groups.find((group: any) => group.status === status)?._count._all || 0;
+      const totalDays = groups.reduce(
+        (sum: number, group: any) => sum + group._count._all,
+        0
+      );
+      const totalCompletion = groups.reduce(
+        (sum: number, group: any) => sum + (group._sum.completion || 0),
+        0
+      );
+      const todayDay = todayDays.find(
+        (day: any) => day.streak_id === streak.streak_id
+      );
+      const todayPassed = todayDay?.status === "SUCCESS";
+      const settledPerfectDays =
+        perfectDays.find((group: any) => group.streak_id === streak.streak_id)
+          ?._count._all || 0;
+      const current = streak.current_streak + (todayPassed ? 1 : 0);
+
+      return {
+        streak_id: streak.streak_id,
+        key: streak.key,
+        name: streak.name,
+        criteria: streak.criteria as StreakCriteria,
+        is_primary: streak.is_primary,
+        current_streak: current,
+        best_streak: Math.max(streak.best_streak, current),
+        freeze_tokens: streak.freeze_tokens,
+        today: todayPassed ? "SUCCESS" : "PENDING",
+        successful_days: countOf("SUCCESS") + (todayPassed ? 1 : 0),
+        perfect_days: settledPerfectDays + (todayDay?.perfect ? 1 : 0),
+        frozen_days: countOf("FROZEN"),
+        average_completion:
+          totalDays > 0 ? Math.round(totalCompletion / totalDays) : 0,
+      };
+    });
+  }
+
+  // Per local day: meals, calories, protein, fluids and that day's goals
+  private static async getDayMetrics(
+    userId: string,
+    from: string,
+    to: string,
+    timeZone: string
+  ) {
+    const { start, end } = getZonedRangeBounds(from, to, timeZone);
+    const [meals, waterIntakes, goalsByDate] = await Promise.all([
+      prisma.meal.findMany({
+        where: {
+          user_id: userId,
+          analysis_status: "COMPLETED",
+          upload_time: { gte: start, lt: end },
+        },
+        select: {
+          upload_time: true,
+          calories: true,
+          protein_g: true,
+          liquids_ml: true,
+        },
+      }),
+      prisma.waterIntake.findMany({
+        where: {
+          user_id: userId,
+          date: { gte: dateStringToDbDate(from), lte: dateStringToDbDate(to) },
+        },
+      }),
+      DailyGoalsService.getGoalsForDates(userId, from, to),
+    ]);
+
+    const metrics = new Map<string, StreakDayMetrics>();
+    for (const date of listDateStrings(from, to)) {
+      metrics.set(date, {
+        meal_count: 0,
+        calories: 0,
+        protein_g: 0,
+        water_ml: 0,
+        // Days before the user's first goals use the defaults
+        goals: goalsByDate.get(date) || DailyGoalsService.getDefaultTargets(),
+      });
+    }
+
+    for (const meal of meals) {
+      const day = metrics.get(getLocalDateString(meal.upload_time, timeZone));
+      if (!day) continue;
+      day.meal_count++;
+      day.calories += meal.calories || 0;
+      day.protein_g += meal.protein_g || 0;
+      day.water_ml += meal.liquids_ml || 0;
+    }
+
+    for (const water of waterIntakes) {
+      const day = metrics.get(dbDateToDateString(water.date));
+      if (day) day.water_ml += water.milliliters_consumed || 0;
+    }
+
+    return metrics;
+  }
+}
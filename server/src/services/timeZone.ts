@@ -0,0 +1,31 @@
+import { prisma } from "../lib/database";
+import { getLocalDateString, resolveTimeZone } from "../utils/dates";
+
+/**
+ * Looks up the user's stored IANA zone. Every per-day aggregation goes
+ * through here so a meal at 01:00 local time lands on the local day, not on
+ * the server's or UTC's.
+ */
+export class TimeZoneService {
+  static async getUserTimeZone(user_id: string) {
+    const user = await prisma.user.findUnique({
+      where: { user_id },
+      select: { timezone: true },
+    });
+    return resolveTimeZone(user?.timezone);
+  }
+
+  // The user's zone together with their current local date
+  static async getUserToday(user_id: string) {
+    const timeZone = await this.getUserTimeZone(user_id);
+    return { timeZone, date: getLocalDateString(new Date(), timeZone) };
+  }
+
+  static async setUserTimeZone(user_id: string, timeZone: string) {
+    await prisma.user.update({
+      where: { user_id },
+      data: { timezone: timeZone },
+    });
+    console.log("🌍 Time zone updated for user:", user_id, timeZone);
+  }
+}
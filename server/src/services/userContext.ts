@@ -0,0 +1,336 @@
+import { prisma } from "../lib/database";
+import { TimeZoneService } from "./timeZone";
+import { DailyGoalsService } from "./dailyGoal";
+import { ActivityMergeService } from "./activityMerge";
+import { MealPlanService } from "./mealPlans";
+import { RestrictionService } from "./restrictions";
+import {
+  NutrientTotals,
+  UserContext,
+  UserContextDay,
+} from "../types/userContext";
+import {
+  addDaysToDateString,
+  dateStringToDbDate,
+  dbDateToDateString,
+  getLocalDateString,
+  getZonedRangeBounds,
+  listDateStrings,
+} from "../utils/dates";
+
+const TREND_DAYS = 7;
+const RECENT_MEALS = 5;
+const DEFAULT_CONTEXT_TOKENS = 600;
+
+const NUTRIENT_FIELDS = [
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fats_g",
+  "fiber_g",
+  "sodium_mg",
+] as const;
+
+function emptyTotals(): NutrientTotals {
+  return {
+    calories: 0,
+    protein_g: 0,
+    carbs_g: 0,
+    fats_g: 0,
+    fiber_g: 0,
+    sodium_mg: 0,
+  };
+}
+
+function unique(values: (string | null | undefined)[]) {
+  return Array.from(
+    new Set(values.map((value) => value?.trim()).filter(Boolean) as string[])
+  );
+}
+
+// Rough count for budgeting; English prompt text averages ~4 chars a token
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+const round = (value: number) => Math.round(value);
+
+/**
+ * Builds the one picture of the user that chat, health recommendations and
+ * insights share: today's goals and what is left of them, the last week,
+ * water, device activity, health restrictions and the active meal plan.
+ */
+export class UserContextService {
+  static async build(userId: string): Promise<UserContext> {
+    const { timeZone, date: today } = await TimeZoneService.getUserToday(
+      userId
+    );
+    const trendStart = addDaysToDateString(today, -TREND_DAYS);
+    const { start, end } = getZonedRangeBounds(trendStart, today, timeZone);
+
+    const questionnaire = await prisma.userQuestionnaire.findFirst({
+      where: { user_id: userId },
+      orderBy: { date_completed: "desc" },
+    });
+    const [goals, meals, waterDays, activity, plan] = await Promise.all([
+      DailyGoalsService.getDailyGoals(userId, today),
+      prisma.meal.findMany({
+        where: {
+          user_id: userId,
+          analysis_status: "COMPLETED",
+          upload_time: { gte: start, lt: end },
+        },
+        orderBy: { upload_time: "desc" },
+      }),
+      prisma.waterIntake.findMany({
+        where: {
+          user_id: userId,
+          date: {
+            gte: dateStringToDbDate(trendStart),
+            lte: dateStringToDbDate(today),
+          },
+        },
+      }),
+      ActivityMergeService.getMergedDay(userId, today),
+      MealPlanService.getActiveMealPlan(userId),
+    ]);
+
+    const trend: UserContextDay[] = listDateStrings(trendStart, today).map(
+      (date) => ({ date, ...emptyTotals(), meals_logged: 0, water_ml: 0 })
+    );
+    const dayIndex = new Map(trend.map((day, index) => [day.date, index]));
+
+    for (const meal of meals) {
+      const index = dayIndex.get(
+        getLocalDateString(meal.upload_time, timeZone)
+      );
+      if (index === undefined) continue;
+      const day = trend[index];
+      for (const field of NUTRIENT_FIELDS) {
+        day[field] += meal[field] || 0;
+      }
+      day.meals_logged++;
+    }
+
+    for (const intake of waterDays) {
+      const index = dayIndex.get(dbDateToDateString(intake.date));
+      if (index !== undefined) {
+        trend[index].water_ml = intake.milliliters_consumed;
+      }
+    }
+
+    const todayTotals = trend[trend.length - 1];
+    const intake = emptyTotals();
+    for (const field of NUTRIENT_FIELDS) {
+      intake[field] = todayTotals[field];
+    }
+
+    let remaining: NutrientTotals | null = null;
+    if (goals) {
+      remaining = emptyTotals();
+      for (const field of NUTRIENT_FIELDS) {
+        remaining[field] = Math.max(0, goals[field] - intake[field]);
+      }
+    }
+
+    const todayWater = waterDays.find(
+      (record: any) => dbDateToDateString(record.date) === today
+    );
+    const weekday = dateStringToDbDate(today).getUTCDay();
+
+    return {
+      today,
+      timeZone,
+      goals,
+      intake,
+      remaining,
+      trend,
+      recentMeals: meals.slice(0, RECENT_MEALS).map((meal: any) => ({
+        name: meal.meal_name || "Unnamed meal",
+        calories: meal.calories || 0,
+        protein_g: meal.protein_g || 0,
+        logged_at: meal.upload_time,
+      })),
+      water: {
+        cups: todayWater?.cups_consumed || 0,
+        milliliters: todayWater?.milliliters_consumed || 0,
+      },
+      activity,
+      medicalConditions: unique([
+        ...(questionnaire?.medical_conditions || []),
+        ...(questionnaire?.medical_conditions_text || []),
+      ]),
+      allergies: unique([
+        ...(questionnaire?.allergies || []),
+        ...(questionnaire?.allergies_text || []),
+      ]),
+      dietaryStyle: questionnaire?.dietary_style || null,
+      restrictionProfile: questionnaire
+        ? RestrictionService.buildProfile(questionnaire)
+        : null,
+      mealPlan: plan
+        ? {
+            name: plan.name,
+            today: plan.schedules
+              .filter((schedule: any) => schedule.day_of_week === weekday)
+              .sort((a: any, b: any) => a.meal_order - b.meal_order)
+              .map((schedule: any) => ({
+                meal_timing: schedule.meal_timing,
+                name: schedule.template.name,
+                calories: schedule.template.calories
+                  ? round(
+                      schedule.template.calories * schedule.portion_multiplier
+                    )
+                  : null,
+              })),
+          }
+        : null,
+    };
+  }
+
+  /**
+   * A compact English summary for prompts. Sections are added in order of
+   * importance while they fit in maxTokens; health restrictions are always
+   * kept, whatever the budget.
+   */
+  static summarize(
+    context: UserContext,
+    maxTokens: number = DEFAULT_CONTEXT_TOKENS
+  ) {
+    const [required, ...optional] = [
+      this.describeHealth(context),
+      this.describeToday(context),
+      this.describeActivity(context),
+      this.describeMealPlan(context),
+      this.describeTrend(context),
+      this.describeRecentMeals(context),
+    ].filter(Boolean);
+
+    const lines = [required];
+    let used = estimateTokens(required);
+    for (const section of optional) {
+      const cost = estimateTokens(section) + 1;
+      if (used + cost > maxTokens) continue;
+      lines.push(section);
+      used += cost;
+    }
+
+    return lines.join("\n");
+  }
+
+  private static describeHealth(context: UserContext) {
+    const parts = [
+      `allergies: ${
+        context.allergies.length > 0
+          ? `${context.allergies.join(", ")} (never suggest these)`
+          : "none"
+      }`,
+      `medical conditions: ${
+        context.medicalConditions.length > 0
+          ? context.medicalConditions.join(", ")
+          : "none"
+      }`,
+    ];
+    if (context.dietaryStyle) parts.push(`diet: ${context.dietaryStyle}`);
+    return `Health: ${parts.join("; ")}`;
+  }
+
+  private static describeToday(context: UserContext) {
+    const { goals, intake, remaining, water } = context;
+    const amount = (field: keyof NutrientTotals, unit: string) =>
+      goals
+        ? `${round(intake[field])}/${round(goals[field])}${unit}`
+        : `${round(intake[field])}${unit}`;
+
+    const eaten = [
+      amount("calories", " kcal"),
+      `protein ${amount("protein_g", "g")}`,
+      `carbs ${amount("carbs_g", "g")}`,
+      `fat ${amount("fats_g", "g")}`,
+    ].join(", ");
+    const left = remaining
+      ? `; left: ${round(remaining.calories)} kcal, ${round(
+          remaining.protein_g
+        )}g protein, ${round(remaining.carbs_g)}g carbs, ${round(
+          remaining.fats_g
+        )}g fat`
+      : "; no goals set";
+    const waterGoal = goals ? `/${round(goals.water_ml)}` : "";
+
+    return `Today (${context.today}): eaten ${eaten}${left}. Water: ${water.cups} cups (${water.milliliters}${waterGoal} ml)`;
+  }
+
+  private static describeActivity(context: UserContext) {
+    const { activity } = context;
+    if (!activity) return "";
+
+    const parts = [
+      activity.steps != null && `${round(activity.steps)} steps`,
+      activity.calories_burned != null &&
+        `${round(activity.calories_burned)} kcal burned`,
+      activity.active_minutes != null &&
+        `${round(activity.active_minutes)} active min`,
+      activity.heart_rate_avg != null &&
+        `avg heart rate ${round(activity.heart_rate_avg)} bpm`,
+      activity.sleep_hours != null && `${activity.sleep_hours}h sleep`,
+    ].filter(Boolean);
+
+    return parts.length > 0 ? `Activity today: ${parts.join(", ")}` : "";
+  }
+
+  private static describeMealPlan(context: UserContext) {
+    const { mealPlan } = context;
+    if (!mealPlan) return "";
+
+    const meals = mealPlan.today
+      .map(
+        (meal) =>
+          `${meal.meal_timing.toLowerCase()}: ${meal.name}${
+            meal.calories != null ? ` (${meal.calories} kcal)` : ""
+          }`
+      )
+      .join("; ");
+
+    return `Meal plan "${mealPlan.name}" today: ${meals || "nothing planned"}`;
+  }
+
+  private static describeTrend(context: UserContext) {
+    // Today is already covered on its own line
+    const days = context.trend.slice(0, -1);
+    const logged = days.filter((day) => day.meals_logged > 0);
+    if (logged.length === 0) {
+      return `Last ${days.length} days: no meals logged`;
+    }
+
+    const average = (field: keyof NutrientTotals) =>
+      round(logged.reduce((sum, day) => sum + day[field], 0) / logged.length);
+    const perDay = days
+      .map(
+        (day) =>
+          `${day.date.slice(5)} ${round(day.calories)} kcal/${round(
+            day.protein_g
+          )}g protein`
+      )
+      .join(", ");
+
+    return `Last ${days.length} days: ${logged.length} logged, averaging ${average(
+      "calories"
+    )} kcal and ${average("protein_g")}g protein (${perDay})`;
+  }
+
+  private static describeRecentMeals(context: UserContext) {
+    if (context.recentMeals.length === 0) return "";
+
+    const meals = context.recentMeals
+      .map(
+        (meal) =>
+          `${meal.name} (${round(meal.calories)} kcal, ${getLocalDateString(
+            meal.logged_at,
+            context.timeZone
+          )})`
+      )
+      .join("; ");
+
+    return `Recent meals: ${meals}`;
+  }
+}
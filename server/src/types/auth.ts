@@ -1,4 +1,9 @@
 import { z } from "zod";
+import { isValidTimeZone } from "../utils/dates";
+
+export const timeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, { message: "Invalid IANA time zone" });
 
 export const signUpSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -16,11 +21,13 @@ export const signUpSchema = z.object({
   birth_date: z.preprocess((arg) => {
     if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
   }, z.date()),
+  timezone: timeZoneSchema.optional(),
 });
 
 export const signInSchema = z.object({
   email: z.string().email("Invalid email address"),
   password: z.string().min(1, "Password is required"),
+  timezone: timeZoneSchema.optional(),
 });
 
 export const updateProfileSchema = z.object({
@@ -28,6 +35,11 @@ export const updateProfileSchema = z.object({
   birth_date: z.preprocess((arg) => {
     if (typeof arg === "string" || arg instanceof Date) return new Date(arg);
   }, z.date()),
+  timezone: timeZoneSchema.optional(),
+});
+
+export const updateTimeZoneSchema = z.object({
+  timezone: timeZoneSchema,
 });
 
 export const updateSubscriptionSchema = z.object({
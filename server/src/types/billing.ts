@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+export const createCheckoutSchema = z.object({
+  plan: z.enum(["PREMIUM", "GOLD"]),
+  success_url: z.string().url().optional(),
+  cancel_url: z.string().url().optional(),
+});
+
+export type CreateCheckoutInput = z.infer<typeof createCheckoutSchema>;
+
+export type SubscriptionState =
+  | "free"
+  | "active"
+  | "canceling"
+  | "grace_period"
+  | "expired";
+
+export interface SubscriptionStatus {
+  plan: "FREE" | "PREMIUM" | "GOLD";
+  state: SubscriptionState;
+  auto_renew: boolean;
+  subscription_start: Date | null;
+  subscription_end: Date | null;
+  grace_period_end: Date | null;
+}
@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+export const logBodyMetricSchema = z
+  .object({
+    weight_kg: z.number().min(20).max(400).optional(),
+    body_fat_percentage: z.number().min(2).max(75).optional(),
+    waist_cm: z.number().min(30).max(250).optional(),
+    hip_cm: z.number().min(30).max(250).optional(),
+    // When the measurement was taken; defaults to now
+    measured_at: z.string().datetime({ offset: true }).optional(),
+    notes: z.string().max(500).optional(),
+  })
+  .refine(
+    (data) =>
+      data.weight_kg !== undefined ||
+      data.body_fat_percentage !== undefined ||
+      data.waist_cm !== undefined ||
+      data.hip_cm !== undefined,
+    { message: "At least one measurement is required" }
+  );
+
+export const bodyMetricsQuerySchema = z
+  .object({
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "from must be before or equal to to",
+  });
+
+export type LogBodyMetricInput = z.infer<typeof logBodyMetricSchema>;
+export type BodyMetricsQuery = z.infer<typeof bodyMetricsQuerySchema>;
+
+export interface WeightTrendPoint {
+  date: string;
+  // Average of the day's weigh-ins, null on days without one
+  weight_kg: number | null;
+  trend_kg: number;
+}
+
+export interface EnergyEstimate {
+  tdee: number;
+  average_intake: number;
+  trend_change_kg: number;
+  days: number;
+}
+
+export interface BodyMetricsSummary {
+  latest_weight_kg: number | null;
+  trend_weight_kg: number | null;
+  // Change of the trend over the last 7 days
+  weekly_change_kg: number | null;
+  latest_body_fat_percentage: number | null;
+  latest_waist_cm: number | null;
+  latest_hip_cm: number | null;
+  waist_to_hip_ratio: number | null;
+  adaptive_tdee: number | null;
+  adaptive_tdee_updated_at: Date | null;
+}
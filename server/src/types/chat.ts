@@ -0,0 +1,107 @@
+import { z } from "zod";
+import { shoppingListItemsSchema } from "./mealPlans";
+
+export const chatMessageSchema = z.object({
+  message: z.string().trim().min(1).max(1000),
+  language: z.string().default("hebrew"),
+  // Omitted by clients without threads: the latest active thread is used
+  threadId: z.string().min(1).optional(),
+});
+
+export const createThreadSchema = z.object({
+  title: z.string().trim().min(1).max(100).optional(),
+});
+
+export const updateThreadSchema = z
+  .object({
+    title: z.string().trim().min(1).max(100).optional(),
+    archived: z.boolean().optional(),
+  })
+  .refine((data) => data.title !== undefined || data.archived !== undefined, {
+    message: "Nothing to update",
+  });
+
+export const chatSearchSchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type ChatMessageInput = z.infer<typeof chatMessageSchema>;
+export type UpdateThreadInput = z.infer<typeof updateThreadSchema>;
+
+export interface ChatThreadView {
+  thread_id: string;
+  title: string;
+  archived: boolean;
+  message_count: number;
+  // The latest question asked in the thread
+  last_message: string | null;
+  last_message_at: Date;
+  created_at: Date;
+}
+
+export interface ChatSearchResult {
+  message_id: number;
+  thread_id: string;
+  thread_title: string;
+  user_message: string;
+  // The matching part of the answer, with matches wrapped in <b></b>
+  snippet: string;
+  created_at: Date;
+}
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// Arguments of the tools the assistant can call, checked before anything runs
+export const chatToolArgumentSchemas = {
+  log_meal: z.object({
+    description: z.string().trim().min(1).max(1000),
+  }),
+  add_water: z.object({
+    cups: z.number().int().min(1).max(25),
+    date: isoDate.optional(),
+  }),
+  get_nutrition_stats: z.object({
+    start_date: isoDate,
+    end_date: isoDate,
+  }),
+  swap_plan_meal: z.object({
+    // 0 is Sunday
+    day_of_week: z.number().int().min(0).max(6),
+    meal_timing: z.enum([
+      "BREAKFAST",
+      "LUNCH",
+      "DINNER",
+      "SNACK",
+      "MORNING_SNACK",
+      "AFTERNOON_SNACK",
+    ]),
+    meal_order: z.number().int().min(1).default(1),
+  }),
+  add_shopping_items: shoppingListItemsSchema,
+};
+
+export type ChatToolName = keyof typeof chatToolArgumentSchemas;
+export type ChatToolArguments<T extends ChatToolName> = z.infer<
+  typeof chatToolArgumentSchemas[T]
+>;
+
+export type ChatActionStatusName =
+  | "PENDING"
+  | "CONFIRMED"
+  | "CANCELLED"
+  | "FAILED";
+
+// A change the assistant proposed, shown to the user as a confirmation card
+export interface ChatActionView {
+  action_id: string;
+  tool: ChatToolName;
+  arguments: Record<string, unknown>;
+  status: ChatActionStatusName;
+  // What the confirmed action did, for the card to show
+  result: unknown;
+  error: string | null;
+  created_at: Date;
+}
@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+export const GOAL_TARGET_FIELDS = [
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fats_g",
+  "fiber_g",
+  "sodium_mg",
+  "sugar_g",
+  "water_ml",
+] as const;
+
+export type GoalTargetField = typeof GOAL_TARGET_FIELDS[number];
+export type GoalTargets = Record<GoalTargetField, number>;
+export type GoalSource = "DEFAULT" | "QUESTIONNAIRE" | "ADAPTIVE" | "MENU";
+
+export const weekdayOverrideSchema = z
+  .object({
+    // 0 = Sunday ... 6 = Saturday
+    weekday: z.number().int().min(0).max(6),
+    calories: z.number().min(800).max(8000).optional(),
+    protein_g: z.number().min(0).max(500).optional(),
+    carbs_g: z.number().min(0).max(1000).optional(),
+    fats_g: z.number().min(0).max(400).optional(),
+    fiber_g: z.number().min(0).max(150).optional(),
+    sodium_mg: z.number().min(0).max(10000).optional(),
+    sugar_g: z.number().min(0).max(500).optional(),
+    water_ml: z.number().min(0).max(10000).optional(),
+  })
+  .strict();
+
+export const setWeekdayOverridesSchema = z.object({
+  // Replaces all overrides; an empty list removes them
+  overrides: z
+    .array(weekdayOverrideSchema)
+    .max(7)
+    .refine(
+      (overrides) =>
+        new Set(overrides.map((override) => override.weekday)).size ===
+        overrides.length,
+      { message: "Each weekday can only be overridden once" }
+    ),
+});
+
+export const dailyGoalsQuerySchema = z.object({
+  date: isoDate.optional(),
+});
+
+export type WeekdayOverride = z.infer<typeof weekdayOverrideSchema>;
+export type SetWeekdayOverridesInput = z.infer<
+  typeof setWeekdayOverridesSchema
+>;
+
+// The targets that apply on one local day
+export interface ResolvedDailyGoals extends GoalTargets {
+  date: string;
+  version_id: string;
+  effective_from: string;
+  source: GoalSource;
+  // True when the day's weekday override changed any target
+  weekday_override: boolean;
+}
+
+export interface GoalVersionSummary extends GoalTargets {
+  version_id: string;
+  effective_from: string;
+  // The day before the next version took effect, null for the current one
+  effective_to: string | null;
+  source: GoalSource;
+  weekday_overrides: WeekdayOverride[];
+  created_at: Date;
+}
@@ -1,3 +1,6 @@
+import { z } from "zod";
+import { timeZoneSchema } from "./auth";
+
 export interface ActivityData {
   steps: number;
   caloriesBurned: number;
@@ -16,3 +19,101 @@ export interface DailyBalance {
   balance: number;
   balanceStatus: "balanced" | "slight_imbalance" | "significant_imbalance";
 }
+
+// History pulled when a device is first connected; also the most days a
+// single sync request may carry
+export const ACTIVITY_BACKFILL_DAYS = 90;
+
+const activityDataSchema = z.object({
+  steps: z.number().min(0).default(0),
+  caloriesBurned: z.number().min(0).default(0),
+  activeMinutes: z.number().min(0).default(0),
+  bmr: z.number().min(0).default(0),
+  heartRate: z.number().positive().optional(),
+  weight: z.number().positive().optional(),
+  bodyFat: z.number().min(0).max(100).optional(),
+  sleepHours: z.number().min(0).max(24).optional(),
+  distance: z.number().min(0).optional(),
+});
+
+// A record is placed on `date` when given, otherwise on the local day of
+// `timestamp` (or of the sync itself) in the request's time zone
+const activityRecordSchema = activityDataSchema.extend({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional(),
+  timestamp: z.string().datetime({ offset: true }).optional(),
+});
+
+export const syncActivitySchema = z
+  .object({
+    timezone: timeZoneSchema.optional(),
+    records: z.array(activityRecordSchema).min(1).max(ACTIVITY_BACKFILL_DAYS),
+  })
+  .or(
+    // Single-day payload sent by older app versions
+    z
+      .object({
+        timezone: timeZoneSchema.optional(),
+        date: activityRecordSchema.shape.date,
+        activityData: activityDataSchema,
+      })
+      .transform(({ timezone, date, activityData }) => ({
+        timezone,
+        records: [{ ...activityData, date }] as ActivityRecordInput[],
+      }))
+  );
+
+export type ActivityRecordInput = z.infer<typeof activityRecordSchema>;
+export type SyncActivityInput = z.infer<typeof syncActivitySchema>;
+
+export interface DatedActivityData extends ActivityData {
+  date: string; // YYYY-MM-DD in the user's time zone
+}
+
+// Daily metrics the merge policy picks a single source device for
+export const ACTIVITY_METRICS = [
+  "steps",
+  "calories_burned",
+  "active_minutes",
+  "bmr_estimate",
+  "distance_km",
+  "heart_rate_avg",
+  "heart_rate_max",
+  "sleep_hours",
+  "water_intake_ml",
+  "weight_kg",
+  "body_fat_percentage",
+] as const;
+
+export type ActivityMetric = typeof ACTIVITY_METRICS[number];
+
+export const metricPreferenceSchema = z.object({
+  metric: z.enum(ACTIVITY_METRICS),
+  // null clears the override and falls back to the primary device
+  deviceType: z
+    .enum([
+      "APPLE_HEALTH",
+      "GOOGLE_FIT",
+      "FITBIT",
+      "GARMIN",
+      "WHOOP",
+      "SAMSUNG_HEALTH",
+      "POLAR",
+      "SUUNTO",
+      "WITHINGS",
+      "OURA",
+      "AMAZFIT",
+      "HUAWEI_HEALTH",
+    ])
+    .nullable(),
+});
+
+export type MetricPreferenceInput = z.infer<typeof metricPreferenceSchema>;
+
+export type MergedDailyActivity = {
+  date: string; // YYYY-MM-DD
+  // Device type each metric was taken from; missing when no device had it
+  sources: Partial<Record<ActivityMetric, string>>;
+} & Record<ActivityMetric, number | null>;
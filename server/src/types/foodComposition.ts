@@ -0,0 +1,89 @@
+import { z } from "zod";
+
+// Nutrient keys of a food composition profile. Vitamins and minerals use the
+// same keys as a meal's vitamins_json and micronutrients_json.
+export const MACRO_NUTRIENT_KEYS = [
+  "calories",
+  "protein_g",
+  "carbs_g",
+  "fats_g",
+  "fiber_g",
+  "sugar_g",
+  "sodium_mg",
+  "cholesterol_mg",
+  "saturated_fats_g",
+  "monounsaturated_fats_g",
+  "polyunsaturated_fats_g",
+  "omega_3_g",
+  "omega_6_g",
+  "alcohol_g",
+  "caffeine_mg",
+] as const;
+
+export const VITAMIN_KEYS = [
+  "vitamin_a_mcg",
+  "vitamin_c_mg",
+  "vitamin_d_mcg",
+  "vitamin_e_mg",
+  "vitamin_k_mcg",
+  "vitamin_b12_mcg",
+  "folate_mcg",
+  "niacin_mg",
+  "thiamin_mg",
+  "riboflavin_mg",
+  "pantothenic_acid_mg",
+  "vitamin_b6_mg",
+] as const;
+
+export const MINERAL_KEYS = [
+  "iron_mg",
+  "magnesium_mg",
+  "zinc_mg",
+  "calcium_mg",
+  "potassium_mg",
+  "phosphorus_mg",
+  "selenium_mcg",
+  "copper_mg",
+  "manganese_mg",
+] as const;
+
+export type NutrientKey =
+  | typeof MACRO_NUTRIENT_KEYS[number]
+  | typeof VITAMIN_KEYS[number]
+  | typeof MINERAL_KEYS[number];
+
+// Amounts per 100 g (or per the stated weight once scaled); a missing key
+// means the source has no value, not zero
+export type NutrientProfile = Partial<Record<NutrientKey, number>>;
+
+export type FoodCompositionSourceName = "USDA" | "TZAMERET";
+
+export interface FoodPortionData {
+  // Normalized unit word, e.g. "cup", "slice", "כוס"
+  unit: string;
+  // The measure as printed by the source, e.g. "1 cup, chopped"
+  label?: string;
+  grams: number;
+}
+
+// One food as read from a source dataset, before it is stored
+export interface FoodCompositionRecord {
+  source: FoodCompositionSourceName;
+  source_id: string;
+  name_en: string;
+  name_he?: string;
+  category?: string;
+  nutrients_per_100g: NutrientProfile;
+  portions: FoodPortionData[];
+}
+
+export interface FoodCompositionData extends FoodCompositionRecord {
+  food_id: number;
+}
+
+export const foodSearchSchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(100),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type FoodSearchInput = z.infer<typeof foodSearchSchema>;
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { RestrictionWarning } from "./restrictions";
+
+export interface ProductData {
+  barcode?: string;
+  name: string;
+  brand?: string;
+  category: string;
+  nutrition_per_100g: NutritionPer100g;
+  ingredients: string[];
+  allergens: string[];
+  labels: string[];
+  health_score?: number;
+  image_url?: string;
+  serving_size?: string;
+  servings_per_container?: number;
+  // Set when the shared values are disputed and waiting for review
+  moderation_status?: "OK" | "FLAGGED" | "VERIFIED";
+  // True when the user's own correction was applied over the shared record
+  user_corrected?: boolean;
+  // Conflicts with the scanning user's allergies, diet or kosher observance
+  restriction_warnings?: RestrictionWarning[];
+}
+
+const nutritionSchema = z.object({
+  calories: z.number().min(0).max(900),
+  protein: z.number().min(0).max(100),
+  carbs: z.number().min(0).max(100),
+  fat: z.number().min(0).max(100),
+  fiber: z.number().min(0).max(100).optional(),
+  sugar: z.number().min(0).max(100).optional(),
+  sodium: z.number().min(0).optional(),
+  saturated_fat: z.number().min(0).max(100).optional(),
+  trans_fat: z.number().min(0).max(100).optional(),
+  cholesterol: z.number().min(0).optional(),
+  potassium: z.number().min(0).optional(),
+  calcium: z.number().min(0).optional(),
+  iron: z.number().min(0).optional(),
+  vitamin_c: z.number().min(0).optional(),
+  vitamin_d: z.number().min(0).optional(),
+});
+
+export type NutritionPer100g = z.infer<typeof nutritionSchema>;
+
+const barcodeSchema = z
+  .string()
+  .regex(/^\d{8,14}$/, "Barcode must be 8-14 digits");
+
+export const createProductSchema = z.object({
+  barcode: barcodeSchema,
+  name: z.string().min(1).max(200),
+  brand: z.string().max(100).optional(),
+  category: z.string().min(1).max(100).default("Unknown"),
+  nutrition_per_100g: nutritionSchema,
+  ingredients: z.array(z.string()).default([]),
+  allergens: z.array(z.string()).default([]),
+  labels: z.array(z.string()).default([]),
+  image_url: z.string().url().optional(),
+  serving_size: z.string().max(50).optional(),
+});
+
+// A correction only carries the fields the user changed
+export const productCorrectionSchema = z
+  .object({
+    name: z.string().min(1).max(200).optional(),
+    brand: z.string().max(100).optional(),
+    nutrition_per_100g: nutritionSchema.optional(),
+    ingredients: z.array(z.string()).optional(),
+    allergens: z.array(z.string()).optional(),
+    labels: z.array(z.string()).optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one corrected field is required",
+  });
+
+export const flagProductSchema = z.object({
+  reason: z.string().min(3).max(500),
+});
+
+export const resolveFlagSchema = z.object({
+  // keep: the shared values stand; apply: a user's correction becomes shared
+  action: z.enum(["keep", "apply"]),
+  correction_id: z.string().optional(),
+});
+
+export type CreateProductInput = z.infer<typeof createProductSchema>;
+export type ProductCorrectionInput = z.infer<typeof productCorrectionSchema>;
+export type ResolveFlagInput = z.infer<typeof resolveFlagSchema>;
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { FoodDescription, RestrictionWarning } from "./restrictions";
+
+export type KosherCategory = "meat" | "dairy" | "pareve";
+
+export interface KosherClassification {
+  // null when the food mixes meat and dairy
+  category: KosherCategory | null;
+  meat: string[];
+  dairy: string[];
+  non_kosher: string[];
+}
+
+export const kosherSettingsSchema = z
+  .object({
+    // Wait after a meat meal before eating dairy
+    meat_to_dairy_wait_minutes: z.number().int().min(0).max(1440),
+    // Wait after a dairy meal before eating meat
+    dairy_to_meat_wait_minutes: z.number().int().min(0).max(1440),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one waiting time is required",
+  });
+
+export type KosherSettingsInput = z.infer<typeof kosherSettingsSchema>;
+
+export interface KosherSettings {
+  meat_to_dairy_wait_minutes: number;
+  dairy_to_meat_wait_minutes: number;
+}
+
+// One meal in a schedule, timed by its meal slot or an explicit time
+export interface KosherScheduledMeal {
+  key: string;
+  // Day number or day of week; waits only apply within the same day
+  day: number;
+  meal_timing: string;
+  // HH:MM, overrides the slot's default time
+  time?: string | null;
+  food: FoodDescription;
+}
+
+export interface KosherScheduleIssue {
+  // The later meal, which breaks the waiting time
+  key: string;
+  conflicts_with: string;
+  warning: RestrictionWarning;
+}
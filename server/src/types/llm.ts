@@ -0,0 +1,35 @@
+export type LLMFeature =
+  | "meal_analysis"
+  | "meal_update"
+  | "meal_text"
+  | "menu_generation"
+  | "meal_replacement"
+  | "daily_menu"
+  | "chat"
+  | "chat_title"
+  | "health_recommendation"
+  | "product_scan";
+
+export interface LLMFeatureConfig {
+  model: string;
+  max_tokens?: number;
+  temperature: number;
+  timeout_ms: number;
+  // Retries after the first attempt, for rate limits, timeouts and 5xx
+  max_retries: number;
+}
+
+export interface AiUsageTotals {
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+export interface AiUsageSummary {
+  from: string;
+  total: AiUsageTotals;
+  by_feature: (AiUsageTotals & { feature: string })[];
+}
+
+export type AIOutputOutcome = "valid" | "repaired" | "invalid";
@@ -1,3 +1,24 @@
+import { z } from "zod";
+import { RestrictionWarning } from "./restrictions";
+
+export const shoppingListItemsSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(100),
+        quantity: z.number().positive().max(10000).default(1),
+        unit: z.string().trim().min(1).max(20).default("piece"),
+        category: z.string().trim().min(1).max(50).default("Other"),
+      })
+    )
+    .min(1)
+    .max(30),
+});
+
+export type ShoppingListItemInput = z.infer<
+  typeof shoppingListItemsSchema
+>["items"][number];
+
 export interface MealPlanTemplate {
   template_id: string;
   name: string;
@@ -17,6 +38,7 @@ export interface MealPlanTemplate {
   instructions: any[];
   allergens: string[];
   image_url?: string | null;
+  restriction_warnings?: RestrictionWarning[];
 }
 
 export interface UserMealPlanConfig {
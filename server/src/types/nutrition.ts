@@ -16,6 +16,18 @@ export const mealUpdateSchema = z.object({
   language: z.enum(["english", "hebrew"]).default("english"),
 });
 
+// A meal described in words instead of photographed. Voice transcripts are
+// flagged so the parser expects filler words and recognition errors.
+export const textMealLogSchema = z.object({
+  text: z
+    .string()
+    .trim()
+    .min(1, "Meal description is required")
+    .max(1000, "Meal description is too long"),
+  language: z.enum(["english", "hebrew"]).optional(),
+  source: z.enum(["text", "voice"]).default("text"),
+});
+
 export const mealSchema = z.object({
   meal_id: z.string(),
   user_id: z.string(),
@@ -27,12 +39,60 @@ export const mealSchema = z.object({
   fats_g: z.number().nullable(),
   fiber_g: z.number().nullable(),
   sugar_g: z.number().nullable(),
-  analysis_status: z.enum(["PENDING", "COMPLETED"]),
+  analysis_status: z.enum(["PENDING", "COMPLETED", "FAILED"]),
   upload_time: z.date(),
   created_at: z.date(),
 });
 
 export type MealAnalysisInput = z.infer<typeof mealAnalysisSchema>;
+export type TextMealLogInput = z.infer<typeof textMealLogSchema>;
+
+// Where a described food's nutrients come from: a catalog product, the food
+// composition database, the AI's estimate, or nowhere (left at zero for the
+// user to fill in)
+export type TextMealNutrientSource =
+  "catalog" | "database" | "estimate" | "unmatched";
+
+export interface TextMealIngredient {
+  name: string;
+  // The amount as described, e.g. "2 eggs"
+  portion: string;
+  quantity: number;
+  unit: "g";
+  quantity_g: number;
+  calories: number;
+  protein: number;
+  protein_g: number;
+  carbs: number;
+  carbs_g: number;
+  fat: number;
+  fats_g: number;
+  fiber_g: number;
+  sugar_g: number;
+  sodium_mg: number;
+  source: TextMealNutrientSource;
+  matched_product?: { barcode?: string; name: string; brand?: string };
+  matched_food?: { food_id: number; name: string };
+  // Only known for foods found in the food composition database
+  vitamins_json?: Record<string, number>;
+  micronutrients_json?: Record<string, number>;
+}
+
+export type AnalysisJobStatus = "QUEUED" | "RUNNING" | "COMPLETED" | "FAILED";
+
+export interface AnalysisJobView {
+  job_id: string;
+  meal_id: number;
+  status: AnalysisJobStatus;
+  attempts: number;
+  max_attempts: number;
+  error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+  // The analyzed meal, once the job has completed
+  result: any | null;
+}
 export type MealUpdateInput = z.infer<typeof mealUpdateSchema>;
 export type Meal = z.infer<typeof mealSchema>;
 
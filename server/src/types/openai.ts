@@ -1,32 +1,182 @@
-type Ingredient = {
-  protein: number;
-  carbs: number;
-  fat: number;
-  cholesterol_mg: number;
-  saturated_fats_g: number;
-  polyunsaturated_fats_g: number;
-  monounsaturated_fats_g: number;
-  omega_3_g: number;
-  omega_6_g: number;
-  soluble_fiber_g: number;
-  insoluble_fiber_g: number;
-  alcohol_g: number;
-  caffeine_mg: number;
-  serving_size_g: number;
-  glycemic_index: null;
-  insulin_index: null;
-  vitamins_json: {};
-  micronutrients_json: {};
-  allergens_json: {};
-  name: string;
-  calories: number;
-  protein_g: number;
-  carbs_g: number;
-  fats_g: number;
-  fiber_g?: number;
-  sugar_g?: number;
-  sodium_mg?: number;
+import { z } from "zod";
+
+// Schemas for every JSON answer we ask the model for. Answers are validated
+// with these before use; see LLMService.completeJSON.
+
+const amount = z.number().nonnegative();
+const optionalAmount = amount.nullish();
+const nutrientMap = z.record(z.number().nullable());
+
+// The model identifies each food and weighs it; its nutrients are only an
+// estimate, replaced by food composition data when the food is found there
+export const analyzedIngredientSchema = z.object({
+  name: z.string().min(1),
+  name_english: z.string().nullish(),
+  quantity_g: amount,
+  calories: amount,
+  protein_g: amount,
+  carbs_g: amount,
+  fats_g: amount,
+  fiber_g: optionalAmount,
+  sugar_g: optionalAmount,
+  sodium_mg: optionalAmount,
+  cholesterol_mg: optionalAmount,
+  saturated_fats_g: optionalAmount,
+  polyunsaturated_fats_g: optionalAmount,
+  monounsaturated_fats_g: optionalAmount,
+  omega_3_g: optionalAmount,
+  omega_6_g: optionalAmount,
+  soluble_fiber_g: optionalAmount,
+  insoluble_fiber_g: optionalAmount,
+  alcohol_g: optionalAmount,
+  caffeine_mg: optionalAmount,
+  serving_size_g: optionalAmount,
+  glycemic_index: optionalAmount,
+  insulin_index: optionalAmount,
+  vitamins_json: nutrientMap.nullish(),
+  micronutrients_json: nutrientMap.nullish(),
+  allergens_json: z.record(z.any()).nullish(),
+});
+
+export const mealAnalysisResponseSchema = z.object({
+  meal_name: z.string().min(1),
+  description: z.string().nullish(),
+  // Meal totals are summed from the ingredients, so the model may omit them
+  calories: optionalAmount,
+  protein_g: optionalAmount,
+  carbs_g: optionalAmount,
+  fats_g: optionalAmount,
+  saturated_fats_g: optionalAmount,
+  polyunsaturated_fats_g: optionalAmount,
+  monounsaturated_fats_g: optionalAmount,
+  omega_3_g: optionalAmount,
+  omega_6_g: optionalAmount,
+  fiber_g: optionalAmount,
+  soluble_fiber_g: optionalAmount,
+  insoluble_fiber_g: optionalAmount,
+  sugar_g: optionalAmount,
+  cholesterol_mg: optionalAmount,
+  sodium_mg: optionalAmount,
+  alcohol_g: optionalAmount,
+  caffeine_mg: optionalAmount,
+  liquids_ml: optionalAmount,
+  serving_size_g: optionalAmount,
+  allergens_json: z
+    .object({ possible_allergens: z.array(z.string()) })
+    .nullish(),
+  vitamins_json: nutrientMap.nullish(),
+  micronutrients_json: nutrientMap.nullish(),
+  additives_json: z.record(z.any()).nullish(),
+  glycemic_index: optionalAmount,
+  insulin_index: optionalAmount,
+  food_category: z.string().nullish(),
+  processing_level: z.string().nullish(),
+  cooking_method: z.string().nullish(),
+  health_risk_notes: z.string().nullish(),
+  confidence: z.number().min(0).max(1),
+  ingredients: z.array(analyzedIngredientSchema).min(1),
+  servingSize: z.string().nullish(),
+  cookingMethod: z.string().nullish(),
+  healthNotes: z.string().nullish(),
+});
+
+export const MENU_MEAL_TYPES = [
+  "BREAKFAST",
+  "LUNCH",
+  "DINNER",
+  "SNACK",
+  "MORNING_SNACK",
+  "AFTERNOON_SNACK",
+] as const;
+
+export const menuIngredientSchema = z.object({
+  name: z.string().min(1),
+  name_english: z.string().nullish(),
+  quantity: amount,
+  unit: z.string().min(1),
+  category: z.string().nullish(),
+  estimated_cost: optionalAmount,
+  calories: optionalAmount,
+  protein: optionalAmount,
+  carbs: optionalAmount,
+  fat: optionalAmount,
+});
+
+export const menuMealSchema = z.object({
+  name: z.string().min(1),
+  name_english: z.string().nullish(),
+  meal_type: z.enum(MENU_MEAL_TYPES),
+  day_number: z.number().int().min(1),
+  calories: amount,
+  protein: amount,
+  carbs: amount,
+  fat: amount,
+  fiber: optionalAmount,
+  prep_time_minutes: optionalAmount,
+  cooking_method: z.string().nullish(),
+  instructions: z.union([z.array(z.string()), z.string()]).nullish(),
+  instructions_english: z.union([z.array(z.string()), z.string()]).nullish(),
+  ingredients: z.array(menuIngredientSchema).min(1),
+});
+
+export const menuGenerationResponseSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().nullish(),
+  total_calories: optionalAmount,
+  total_protein: optionalAmount,
+  total_carbs: optionalAmount,
+  total_fat: optionalAmount,
+  days_count: z.number().int().min(1).nullish(),
+  estimated_cost: optionalAmount,
+  meals: z.array(menuMealSchema).min(1),
+});
+
+// A single meal swapped into an existing menu; its slot is already known
+export const replacementMealSchema = menuMealSchema.omit({
+  meal_type: true,
+  day_number: true,
+});
+
+// A typed or dictated meal description split into quantified foods. The
+// nutrients are the model's estimate, used when no database entry matches.
+export const mealTextItemSchema = z.object({
+  name: z.string().min(1),
+  name_english: z.string().nullish(),
+  quantity: amount,
+  unit: z.string().min(1),
+  quantity_g: amount,
+  calories: amount,
+  protein_g: amount,
+  carbs_g: amount,
+  fats_g: amount,
+  fiber_g: optionalAmount,
+  sugar_g: optionalAmount,
+  sodium_mg: optionalAmount,
+});
+
+export const mealTextParseResponseSchema = z.object({
+  meal_name: z.string().min(1),
+  items: z.array(mealTextItemSchema).min(1),
+});
+
+export type AnalyzedIngredient = z.infer<typeof analyzedIngredientSchema>;
+// An analyzed ingredient once its nutrients are settled: computed from the
+// food composition database for the estimated weight, or the model's estimate
+export type ResolvedIngredient = AnalyzedIngredient & {
+  nutrient_source?: "database" | "estimate";
+  food_id?: number;
+  matched_food?: string;
 };
+export type MealAnalysisResponse = z.infer<typeof mealAnalysisResponseSchema>;
+export type MenuMeal = z.infer<typeof menuMealSchema>;
+export type MenuGenerationResponse = z.infer<
+  typeof menuGenerationResponseSchema
+>;
+export type ReplacementMeal = z.infer<typeof replacementMealSchema>;
+export type MealTextItem = z.infer<typeof mealTextItemSchema>;
+export type MealTextParseResponse = z.infer<
+  typeof mealTextParseResponseSchema
+>;
 
 export interface MealAnalysisResult {
   // Basic identification
@@ -76,16 +226,13 @@ export interface MealAnalysisResult {
 
   // Legacy fields for compatibility
   confidence: number;
-  ingredients: Ingredient[];
+  ingredients: ResolvedIngredient[];
   servingSize: string;
   cookingMethod: string;
   healthNotes: string;
 }
 
 export interface MealPlanRequest {
-  age: number;
-  weight_kg: number;
-  height_cm: number;
   target_calories_daily: number;
   target_protein_daily: number;
   target_carbs_daily: number;
@@ -131,48 +278,3 @@ export interface ReplacementMealRequest {
     target_protein: number;
   };
 }
-
-export interface MealPlanResponse {
-  weekly_plan: {
-    day: string;
-    day_index: number;
-    meals: {
-      name: string;
-      description: string;
-      meal_timing: string;
-      dietary_category: string;
-      prep_time_minutes: number;
-      difficulty_level: number;
-      calories: number;
-      protein_g: number;
-      carbs_g: number;
-      fats_g: number;
-      fiber_g: number;
-      sugar_g: number;
-      sodium_mg: number;
-      ingredients: {
-        name: string;
-        quantity: number;
-        unit: string;
-        category: string;
-      }[];
-      instructions: {
-        step: number;
-        text: string;
-      }[];
-      allergens: string[];
-      image_url: string;
-      portion_multiplier: number;
-      is_optional: boolean;
-    }[];
-  }[];
-  weekly_nutrition_summary: {
-    avg_daily_calories: number;
-    avg_daily_protein: number;
-    avg_daily_carbs: number;
-    avg_daily_fats: number;
-    goal_adherence_percentage: number;
-  };
-  shopping_tips: string[];
-  meal_prep_suggestions: string[];
-}
@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+const MEAL_TIMINGS = [
+  "BREAKFAST",
+  "LUNCH",
+  "DINNER",
+  "SNACK",
+  "MORNING_SNACK",
+  "AFTERNOON_SNACK",
+] as const;
+
+const DIETARY_CATEGORIES = [
+  "VEGETARIAN",
+  "VEGAN",
+  "KETO",
+  "PALEO",
+  "MEDITERRANEAN",
+  "LOW_CARB",
+  "HIGH_PROTEIN",
+  "GLUTEN_FREE",
+  "DAIRY_FREE",
+  "BALANCED",
+] as const;
+
+export const recipeIngredientSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  quantity: z.number().positive().max(100000),
+  // A weight or volume ("g", "ml") or a household measure ("cup", "piece")
+  unit: z.string().trim().min(1).max(30).default("piece"),
+});
+
+const recipeFields = {
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(1000).nullable().optional(),
+  servings: z.number().int().min(1).max(100),
+  ingredients: z.array(recipeIngredientSchema).min(1).max(50),
+  instructions: z.array(z.string().trim().min(1).max(2000)).max(50),
+  // Base64 data or an uploaded image URL; null removes the photo
+  image: z.string().nullable().optional(),
+  prep_time_minutes: z.number().int().min(0).max(1440).nullable().optional(),
+};
+
+export const createRecipeSchema = z.object({
+  ...recipeFields,
+  instructions: recipeFields.instructions.default([]),
+});
+
+export const updateRecipeSchema = z
+  .object(recipeFields)
+  .partial()
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
+
+export const logRecipeSchema = z.object({
+  servings: z.number().positive().max(20).default(1),
+});
+
+export const scheduleRecipeSchema = z.object({
+  // Defaults to the user's active plan
+  plan_id: z.string().min(1).optional(),
+  // 0 is Sunday
+  day_of_week: z.number().int().min(0).max(6),
+  meal_timing: z.enum(MEAL_TIMINGS),
+  meal_order: z.number().int().min(1).default(1),
+  dietary_category: z.enum(DIETARY_CATEGORIES).default("BALANCED"),
+});
+
+export type RecipeIngredientInput = z.infer<typeof recipeIngredientSchema>;
+export type CreateRecipeInput = z.infer<typeof createRecipeSchema>;
+export type UpdateRecipeInput = z.infer<typeof updateRecipeSchema>;
+export type ScheduleRecipeInput = z.infer<typeof scheduleRecipeSchema>;
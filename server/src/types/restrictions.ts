@@ -0,0 +1,53 @@
+export const ALLERGEN_IDS = [
+  "gluten",
+  "milk",
+  "eggs",
+  "tree_nuts",
+  "peanuts",
+  "fish",
+  "shellfish",
+  "soy",
+  "sesame",
+  "mustard",
+  "celery",
+  "sulphites",
+  "lupin",
+] as const;
+
+export type AllergenId = (typeof ALLERGEN_IDS)[number];
+
+// high: the food breaks a restriction and must not be served;
+// medium: may contain traces; low: worth a look (e.g. no kosher label)
+export type RestrictionSeverity = "high" | "medium" | "low";
+
+export type RestrictionType = "allergen" | "diet" | "kosher";
+
+export interface RestrictionWarning {
+  type: RestrictionType;
+  // Allergen id, custom allergen text, or the diet rule that was broken
+  code: string;
+  severity: RestrictionSeverity;
+  message: string;
+  message_en: string;
+  // Terms in the food that triggered the warning
+  matched: string[];
+}
+
+export interface RestrictionProfile {
+  allergens: AllergenId[];
+  // Entries that don't map to the taxonomy, matched as free text
+  custom_allergens: string[];
+  diet: "vegan" | "vegetarian" | null;
+  kosher: boolean;
+}
+
+/**
+ * What a food surface knows about an item. Every field is optional: a
+ * RecommendedMeal has ingredient names only, a product has tags and labels.
+ */
+export interface FoodDescription {
+  name?: string | null;
+  ingredients?: string[];
+  allergens?: string[];
+  labels?: string[];
+}
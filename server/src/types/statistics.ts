@@ -1,3 +1,27 @@
+import { z } from "zod";
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+export const reportQuerySchema = z
+  .object({
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    language: z
+      .enum(["en", "he", "english", "hebrew"])
+      .default("en")
+      .transform((value) =>
+        value === "he" || value === "hebrew" ? "he" : "en"
+      ),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "from must be before or equal to to",
+  });
+
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+export type ReportLanguage = ReportQuery["language"];
+
 export interface NutritionStatistics {
   average_calories_daily: number;
   calorie_goal_achievement_percent: number;
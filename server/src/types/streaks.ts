@@ -0,0 +1,96 @@
+import { z } from "zod";
+import { GoalTargets } from "./dailyGoals";
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+export const streakRuleSchema = z.discriminatedUnion("type", [
+  // At least `min` meals logged that day
+  z.object({
+    type: z.literal("meals_logged"),
+    min: z.number().int().min(1).max(10),
+  }),
+  // Calories within ±tolerance_percent of that day's goal
+  z.object({
+    type: z.literal("calories_within_goal"),
+    tolerance_percent: z.number().min(1).max(50),
+  }),
+  z.object({ type: z.literal("protein_goal") }),
+  z.object({ type: z.literal("water_goal") }),
+]);
+
+export const streakCriteriaSchema = z.object({
+  // all: every rule must pass; any: one passing rule is enough
+  mode: z.enum(["all", "any"]).default("all"),
+  rules: z.array(streakRuleSchema).min(1).max(8),
+});
+
+const streakKeySchema = z
+  .string()
+  .regex(
+    /^[a-z0-9_-]{2,40}$/,
+    "Key must be 2-40 lowercase letters, digits, - or _"
+  );
+
+export const createStreakSchema = z.object({
+  key: streakKeySchema,
+  name: z.string().min(1).max(60),
+  criteria: streakCriteriaSchema,
+  is_primary: z.boolean().optional(),
+});
+
+export const updateStreakSchema = z
+  .object({
+    name: z.string().min(1).max(60).optional(),
+    criteria: streakCriteriaSchema.optional(),
+    // Only true is accepted; another streak has to be made primary instead
+    is_primary: z.literal(true).optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "Nothing to update",
+  });
+
+export const streakDaysQuerySchema = z
+  .object({
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "from must be before or equal to to",
+  });
+
+export type StreakRule = z.infer<typeof streakRuleSchema>;
+export type StreakCriteria = z.infer<typeof streakCriteriaSchema>;
+export type CreateStreakInput = z.infer<typeof createStreakSchema>;
+export type UpdateStreakInput = z.infer<typeof updateStreakSchema>;
+export type StreakDaysQuery = z.infer<typeof streakDaysQuerySchema>;
+
+export type StreakDayStatus = "SUCCESS" | "FROZEN" | "MISSED" | "PENDING";
+
+// What a local day's criteria are scored on
+export interface StreakDayMetrics {
+  meal_count: number;
+  calories: number;
+  protein_g: number;
+  water_ml: number;
+  goals: GoalTargets;
+}
+
+export interface StreakSummary {
+  streak_id: string;
+  key: string;
+  name: string;
+  criteria: StreakCriteria;
+  is_primary: boolean;
+  // Includes today once today's criteria are met
+  current_streak: number;
+  best_streak: number;
+  freeze_tokens: number;
+  today: "SUCCESS" | "PENDING";
+  successful_days: number;
+  perfect_days: number;
+  frozen_days: number;
+  // Mean of the daily completion over evaluated days, 0-100
+  average_completion: number;
+}
@@ -0,0 +1,55 @@
+import { ResolvedDailyGoals } from "./dailyGoals";
+import { MergedDailyActivity } from "./devices";
+import { RestrictionProfile } from "./restrictions";
+
+export interface NutrientTotals {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fats_g: number;
+  fiber_g: number;
+  sodium_mg: number;
+}
+
+export interface UserContextDay extends NutrientTotals {
+  date: string;
+  meals_logged: number;
+  water_ml: number;
+}
+
+export interface UserContextMeal {
+  name: string;
+  calories: number;
+  protein_g: number;
+  logged_at: Date;
+}
+
+export interface UserContextPlannedMeal {
+  meal_timing: string;
+  name: string;
+  calories: number | null;
+}
+
+/**
+ * Everything the AI features know about the user, assembled once per
+ * request. Days are the user's local days.
+ */
+export interface UserContext {
+  today: string;
+  timeZone: string;
+  goals: ResolvedDailyGoals | null;
+  intake: NutrientTotals;
+  // Goals minus today's intake, never below 0; null without goals
+  remaining: NutrientTotals | null;
+  // The week before today, then today, oldest first
+  trend: UserContextDay[];
+  // Newest first
+  recentMeals: UserContextMeal[];
+  water: { cups: number; milliliters: number };
+  activity: MergedDailyActivity | null;
+  medicalConditions: string[];
+  allergies: string[];
+  dietaryStyle: string | null;
+  restrictionProfile: RestrictionProfile | null;
+  mealPlan: { name: string; today: UserContextPlannedMeal[] } | null;
+}
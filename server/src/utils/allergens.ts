@@ -0,0 +1,581 @@
+import { AllergenId } from "../types/restrictions";
+
+interface TermGroup {
+  label_he: string;
+  label_en: string;
+  // Names, ingredients and dishes (Hebrew and English) that imply the group
+  terms: string[];
+  // Phrases that contain a term but don't imply the group
+  exclude?: string[];
+}
+
+/**
+ * Normalized allergen taxonomy. User entries, product allergen tags and
+ * ingredient text are all matched against these terms, so "גלוטן", "wheat"
+ * and "en:gluten" resolve to the same allergen.
+ */
+export const ALLERGEN_TAXONOMY: Record<AllergenId, TermGroup> = {
+  gluten: {
+    label_he: "גלוטן",
+    label_en: "gluten",
+    terms: [
+      "gluten",
+      "wheat",
+      "barley",
+      "rye",
+      "spelt",
+      "semolina",
+      "durum",
+      "farina",
+      "couscous",
+      "bulgur",
+      "seitan",
+      "malt",
+      "flour",
+      "bread",
+      "breadcrumbs",
+      "pasta",
+      "noodle",
+      "cracker",
+      "pita",
+      "bagel",
+      "croissant",
+      "schnitzel",
+      "soy sauce",
+      "גלוטן",
+      "חיטה",
+      "חיטים",
+      "שעורה",
+      "שעורים",
+      "שיפון",
+      "כוסמין",
+      "סולת",
+      "קוסקוס",
+      "בורגול",
+      "פתיתים",
+      "מלט",
+      "קמח",
+      "לחם",
+      "לחמניה",
+      "לחמניות",
+      "פיתה",
+      "פיתות",
+      "פסטה",
+      "אטריות",
+      "פירורי לחם",
+      "בצק",
+      "קרקרים",
+      "שניצל",
+      "רוטב סויה",
+    ],
+    exclude: [
+      "gluten free",
+      "rice flour",
+      "corn flour",
+      "almond flour",
+      "coconut flour",
+      "chickpea flour",
+      "rice noodle",
+      "ללא גלוטן",
+      "נטול גלוטן",
+      "קמח אורז",
+      "קמח תירס",
+      "קמח שקדים",
+      "קמח קוקוס",
+      "קמח חומוס",
+      "אטריות אורז",
+    ],
+  },
+  milk: {
+    label_he: "חלב",
+    label_en: "milk",
+    terms: [
+      "milk",
+      "dairy",
+      "cheese",
+      "butter",
+      "cream",
+      "yogurt",
+      "yoghurt",
+      "whey",
+      "casein",
+      "lactose",
+      "ghee",
+      "kefir",
+      "mozzarella",
+      "parmesan",
+      "cheddar",
+      "feta",
+      "ricotta",
+      "mascarpone",
+      "labneh",
+      "חלב",
+      "חלבי",
+      "גבינה",
+      "גבינות",
+      "גבינת",
+      "חמאה",
+      "שמנת",
+      "יוגורט",
+      "לבנה",
+      "קוטג'",
+      "מוצרלה",
+      "פרמזן",
+      "פטה",
+      "ריקוטה",
+      "מסקרפונה",
+      "קפיר",
+      "גלידה",
+      "מי גבינה",
+      "קזאין",
+      "לקטוז",
+    ],
+    exclude: [
+      "coconut milk",
+      "almond milk",
+      "soy milk",
+      "oat milk",
+      "rice milk",
+      "coconut cream",
+      "peanut butter",
+      "almond butter",
+      "nut butter",
+      "cocoa butter",
+      "dairy free",
+      "חלב קוקוס",
+      "חלב שקדים",
+      "חלב סויה",
+      "חלב שיבולת שועל",
+      "חלב אורז",
+      "קרם קוקוס",
+      "ללא חלב",
+    ],
+  },
+  eggs: {
+    label_he: "ביצים",
+    label_en: "eggs",
+    terms: [
+      "egg",
+      "mayonnaise",
+      "mayo",
+      "meringue",
+      "albumin",
+      "omelette",
+      "omelet",
+      "shakshuka",
+      "ביצה",
+      "ביצים",
+      "חביתה",
+      "חביתת",
+      "חלמון",
+      "מיונז",
+      "מרנג",
+      "שקשוקה",
+    ],
+    exclude: ["egg free", "ללא ביצים"],
+  },
+  tree_nuts: {
+    label_he: "אגוזים",
+    label_en: "tree nuts",
+    terms: [
+      "nuts",
+      "tree nuts",
+      "almond",
+      "walnut",
+      "hazelnut",
+      "cashew",
+      "pistachio",
+      "pecan",
+      "macadamia",
+      "brazil nut",
+      "pine nut",
+      "praline",
+      "marzipan",
+      "nutella",
+      "אגוז",
+      "אגוזים",
+      "אגוזי",
+      "שקד",
+      "שקדים",
+      "קשיו",
+      "פיסטוק",
+      "פקאן",
+      "מקדמיה",
+      "צנובר",
+      "צנוברים",
+      "מרציפן",
+      "פרלין",
+      "נוטלה",
+    ],
+    exclude: ["אגוז מוסקט", "אגוז קוקוס"],
+  },
+  peanuts: {
+    label_he: "בוטנים",
+    label_en: "peanuts",
+    terms: [
+      "peanut",
+      "groundnut",
+      "arachis",
+      "בוטן",
+      "בוטנים",
+      "חמאת בוטנים",
+      "במבה",
+    ],
+  },
+  fish: {
+    label_he: "דגים",
+    label_en: "fish",
+    terms: [
+      "fish",
+      "salmon",
+      "tuna",
+      "cod",
+      "tilapia",
+      "sardine",
+      "anchovy",
+      "anchovies",
+      "trout",
+      "mackerel",
+      "herring",
+      "halibut",
+      "sea bass",
+      "fish sauce",
+      "דג",
+      "דגים",
+      "סלמון",
+      "טונה",
+      "אמנון",
+      "מושט",
+      "סרדין",
+      "סרדינים",
+      "אנשובי",
+      "פורל",
+      "מקרל",
+      "הרינג",
+      "דניס",
+      "לברק",
+      "בקלה",
+      "רוטב דגים",
+    ],
+  },
+  shellfish: {
+    label_he: "רכיכות ופירות ים",
+    label_en: "shellfish",
+    terms: [
+      "shellfish",
+      "seafood",
+      "shrimp",
+      "prawn",
+      "crab",
+      "lobster",
+      "crayfish",
+      "clam",
+      "mussel",
+      "oyster",
+      "scallop",
+      "squid",
+      "calamari",
+      "octopus",
+      "רכיכות",
+      "פירות ים",
+      "שרימפס",
+      "חסילון",
+      "חסילונים",
+      "סרטן",
+      "סרטנים",
+      "לובסטר",
+      "צדפה",
+      "צדפות",
+      "מולים",
+      "קלמרי",
+      "דיונון",
+      "תמנון",
+    ],
+  },
+  soy: {
+    label_he: "סויה",
+    label_en: "soy",
+    terms: [
+      "soy",
+      "soya",
+      "soybean",
+      "tofu",
+      "edamame",
+      "tempeh",
+      "miso",
+      "סויה",
+      "טופו",
+      "אדממה",
+      "טמפה",
+      "מיסו",
+    ],
+  },
+  sesame: {
+    label_he: "שומשום",
+    label_en: "sesame",
+    terms: [
+      "sesame",
+      "tahini",
+      "tahina",
+      "halva",
+      "halvah",
+      "שומשום",
+      "טחינה",
+      "חלבה",
+    ],
+  },
+  mustard: {
+    label_he: "חרדל",
+    label_en: "mustard",
+    terms: ["mustard", "חרדל"],
+  },
+  celery: {
+    label_he: "סלרי",
+    label_en: "celery",
+    terms: ["celery", "celeriac", "סלרי"],
+  },
+  sulphites: {
+    label_he: "סולפיטים",
+    label_en: "sulphites",
+    terms: [
+      "sulphite",
+      "sulfite",
+      "sulphur dioxide",
+      "sulfur dioxide",
+      "סולפיט",
+      "סולפיטים",
+      "גופרית דו חמצנית",
+    ],
+  },
+  lupin: {
+    label_he: "תורמוס",
+    label_en: "lupin",
+    terms: ["lupin", "lupine", "תורמוס"],
+  },
+};
+
+// Meat and poultry, for vegetarian and vegan diets and meat/dairy mixing
+export const MEAT_TERMS: TermGroup = {
+  label_he: "בשר",
+  label_en: "meat",
+  terms: [
+    "meat",
+    "beef",
+    "pork",
+    "chicken",
+    "turkey",
+    "lamb",
+    "mutton",
+    "veal",
+    "duck",
+    "goose",
+    "bacon",
+    "ham",
+    "sausage",
+    "salami",
+    "pepperoni",
+    "prosciutto",
+    "chorizo",
+    "steak",
+    "meatball",
+    "schnitzel",
+    "shawarma",
+    "kebab",
+    "liver",
+    "gelatin",
+    "gelatine",
+    "lard",
+    "בשר",
+    "בשרי",
+    "בקר",
+    "עוף",
+    "עופות",
+    "פרגית",
+    "הודו",
+    "כבש",
+    "טלה",
+    "עגל",
+    "ברווז",
+    "אווז",
+    "חזיר",
+    "בייקון",
+    "נקניק",
+    "נקניקיה",
+    "נקניקיות",
+    "סלמי",
+    "פסטרמה",
+    "קציצה",
+    "קציצות",
+    "שניצל",
+    "שווארמה",
+    "קבב",
+    "כבד",
+    "אנטריקוט",
+    "סטייק",
+    "ג'לטין",
+    "ציר עוף",
+  ],
+  exclude: [
+    "vegan",
+    "vegetarian",
+    "plant based",
+    "טבעוני",
+    "צמחוני",
+    "שניצל תירס",
+    "שניצל טבעוני",
+  ],
+};
+
+// Animal products a vegan diet excludes beyond meat, fish, dairy and eggs
+export const ANIMAL_PRODUCT_TERMS: TermGroup = {
+  label_he: "מוצרים מן החי",
+  label_en: "animal products",
+  terms: ["honey", "beeswax", "bee pollen", "דבש", "שעוות דבורים"],
+};
+
+// Never kosher, whatever the certification of the rest of the food
+export const NON_KOSHER_TERMS: TermGroup = {
+  label_he: "מזון לא כשר",
+  label_en: "non-kosher food",
+  terms: [
+    "pork",
+    "ham",
+    "bacon",
+    "lard",
+    "prosciutto",
+    "chorizo",
+    "pepperoni",
+    ...ALLERGEN_TAXONOMY.shellfish.terms,
+    "חזיר",
+    "בייקון",
+    "שומן חזיר",
+  ],
+};
+
+// Text after these markers lists traces, not ingredients
+const TRACE_MARKERS = [
+  "may contain",
+  "traces of",
+  "trace of",
+  "produced in a facility",
+  "עלול להכיל",
+  "עשוי להכיל",
+  "יכול להכיל",
+  "עקבות",
+];
+
+const HEBREW_PREFIX = /^[והבלמשכ]/;
+const HEBREW_LETTER = /[א-ת]/;
+
+export function normalizeFoodText(text: string) {
+  return (
+    text
+      .toLowerCase()
+      // Hebrew vowel points and cantillation
+      .replace(/[֑-ׇ]/g, "")
+      .replace(/[׳’`]/g, "'")
+      // Product tags come as "en:milk"
+      .replace(/\b[a-z]{2}:/g, "")
+      .replace(/[^\p{L}\p{N}'\s]/gu, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+}
+
+function tokenize(text: string) {
+  const normalized = normalizeFoodText(text);
+  return normalized ? normalized.split(" ") : [];
+}
+
+// Hebrew attaches prepositions and "and"/"the" to the word ("והחלב")
+function tokenVariants(token: string, allowPrefix: boolean) {
+  const variants = [token];
+  if (allowPrefix && HEBREW_LETTER.test(token)) {
+    let stripped = token;
+    for (let i = 0; i < 3 && HEBREW_PREFIX.test(stripped); i++) {
+      stripped = stripped.slice(1);
+      if (stripped.length >= 2) variants.push(stripped);
+    }
+  }
+  return variants;
+}
+
+function tokenMatches(token: string, termToken: string, first: boolean) {
+  return tokenVariants(token, first).some(
+    (variant) =>
+      variant === termToken ||
+      // English plurals
+      variant === `${termToken}s` ||
+      variant === `${termToken}es`
+  );
+}
+
+function findPhrase(tokens: string[], phrase: string[], used: boolean[]) {
+  const positions: number[] = [];
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    const matches = phrase.every(
+      (termToken, j) =>
+        !used[i + j] && tokenMatches(tokens[i + j], termToken, j === 0)
+    );
+    if (matches) positions.push(i);
+  }
+  return positions;
+}
+
+/**
+ * Terms of the group found in the text, by whole word (with Hebrew prefixes
+ * and English plurals), skipping the group's excluded phrases.
+ */
+export function findGroupTerms(text: string, group: TermGroup) {
+  const tokens = tokenize(text);
+  const used = tokens.map(() => false);
+
+  for (const phrase of group.exclude || []) {
+    const phraseTokens = tokenize(phrase);
+    for (const position of findPhrase(tokens, phraseTokens, used)) {
+      phraseTokens.forEach((_, j) => (used[position + j] = true));
+    }
+  }
+
+  const found = new Set<string>();
+  // Longer terms first, so "soy sauce" is reported rather than "soy"
+  const terms = [...group.terms].sort(
+    (a, b) => tokenize(b).length - tokenize(a).length
+  );
+  for (const term of terms) {
+    const termTokens = tokenize(term);
+    for (const position of findPhrase(tokens, termTokens, used)) {
+      termTokens.forEach((_, j) => (used[position + j] = true));
+      found.add(term);
+    }
+  }
+
+  return Array.from(found);
+}
+
+// Splits text into the ingredient part and the "may contain" part
+export function splitTraces(text: string) {
+  const normalized = normalizeFoodText(text);
+  const markerIndexes = TRACE_MARKERS.map((marker) =>
+    normalized.indexOf(marker)
+  ).filter((index) => index >= 0);
+  const markerIndex =
+    markerIndexes.length > 0 ? Math.min(...markerIndexes) : undefined;
+
+  return markerIndex === undefined
+    ? { contains: normalized, traces: "" }
+    : {
+        contains: normalized.slice(0, markerIndex),
+        traces: normalized.slice(markerIndex),
+      };
+}
+
+// Maps a user's entry or a product allergen tag to the taxonomy
+export function resolveAllergen(name: string): AllergenId | null {
+  const id = (Object.keys(ALLERGEN_TAXONOMY) as AllergenId[]).find(
+    (allergen) =>
+      allergen === name ||
+      findGroupTerms(name, ALLERGEN_TAXONOMY[allergen]).length > 0
+  );
+  return id || null;
+}
@@ -0,0 +1,119 @@
+// Day bucketing helpers. Dates are YYYY-MM-DD strings in the user's local
+// time zone; the server's own zone only serves as the fallback.
+
+export const DEFAULT_TIME_ZONE =
+  process.env.DEFAULT_TIME_ZONE ||
+  Intl.DateTimeFormat().resolvedOptions().timeZone ||
+  "UTC";
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function resolveTimeZone(timeZone?: string | null) {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+// YYYY-MM-DD of the given instant as seen in timeZone
+export function getLocalDateString(
+  date: Date = new Date(),
+  timeZone: string = DEFAULT_TIME_ZONE
+) {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+// Offset of timeZone from UTC at the given instant, in milliseconds
+function getTimeZoneOffset(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second")
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// UTC instant of local midnight at the start of dateString in timeZone
+export function getZonedStartOfDay(dateString: string, timeZone: string) {
+  const utcMidnight = new Date(`${dateString}T00:00:00.000Z`);
+  const guess = new Date(
+    utcMidnight.getTime() - getTimeZoneOffset(utcMidnight, timeZone)
+  );
+  // Re-check at the guessed instant in case a DST switch sits in between
+  return new Date(utcMidnight.getTime() - getTimeZoneOffset(guess, timeZone));
+}
+
+// [start, end) instants covering the local day
+export function getZonedDayBounds(dateString: string, timeZone: string) {
+  return {
+    start: getZonedStartOfDay(dateString, timeZone),
+    end: getZonedStartOfDay(addDaysToDateString(dateString, 1), timeZone),
+  };
+}
+
+export function addDaysToDateString(dateString: string, days: number) {
+  const date = new Date(`${dateString}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+// [start, end) instants covering startDate through endDate, inclusive
+export function getZonedRangeBounds(
+  startDate: string,
+  endDate: string,
+  timeZone: string
+) {
+  return {
+    start: getZonedStartOfDay(startDate, timeZone),
+    end: getZonedStartOfDay(addDaysToDateString(endDate, 1), timeZone),
+  };
+}
+
+// Inclusive list of YYYY-MM-DD strings from start to end
+export function listDateStrings(startDate: string, endDate: string) {
+  const dates: string[] = [];
+  for (
+    let date = startDate;
+    date <= endDate;
+    date = addDaysToDateString(date, 1)
+  ) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Postgres DATE columns are read and written as UTC midnight
+export function dateStringToDbDate(dateString: string) {
+  return new Date(`${dateString}T00:00:00.000Z`);
+}
+
+export function dbDateToDateString(date: Date) {
+  return date.toISOString().split("T")[0];
+}
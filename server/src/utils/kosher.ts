@@ -0,0 +1,182 @@
+import {
+  KosherClassification,
+  KosherScheduledMeal,
+  KosherScheduleIssue,
+  KosherSettings,
+} from "../types/kosher";
+import { FoodDescription, RestrictionWarning } from "../types/restrictions";
+import {
+  ALLERGEN_TAXONOMY,
+  MEAT_TERMS,
+  NON_KOSHER_TERMS,
+  findGroupTerms,
+  splitTraces,
+} from "./allergens";
+
+export const DEFAULT_KOSHER_SETTINGS: KosherSettings = {
+  meat_to_dairy_wait_minutes: 360,
+  dairy_to_meat_wait_minutes: 30,
+};
+
+// Menus and meal plans schedule by slot, not by clock time
+const MEAL_TIMING_DEFAULT_TIMES: Record<string, string> = {
+  BREAKFAST: "08:00",
+  MORNING_SNACK: "10:30",
+  LUNCH: "13:00",
+  AFTERNOON_SNACK: "16:30",
+  SNACK: "16:30",
+  DINNER: "19:30",
+};
+
+const CATEGORY_LABELS = {
+  meat: { he: "בשרית", en: "meat", title: "Meat" },
+  dairy: { he: "חלבית", en: "dairy", title: "Dairy" },
+} as const;
+
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function formatWait(minutes: number) {
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes} min`;
+}
+
+function formatWaitHe(minutes: number) {
+  return minutes % 60 === 0 ? `${minutes / 60} שעות` : `${minutes} דקות`;
+}
+
+/**
+ * Meat, dairy or pareve by ingredients. Fish and eggs are pareve; anything
+ * from the traces part of a label is ignored, as it doesn't make the food
+ * meat or dairy.
+ */
+export function classifyKosherFood(
+  food: FoodDescription
+): KosherClassification {
+  const { contains } = splitTraces(
+    [food.name || "", ...(food.ingredients || [])].join(" , ")
+  );
+  const meat = findGroupTerms(contains, MEAT_TERMS);
+  const dairy = findGroupTerms(contains, ALLERGEN_TAXONOMY.milk);
+  const non_kosher = findGroupTerms(contains, NON_KOSHER_TERMS);
+
+  const category =
+    meat.length > 0 && dairy.length > 0
+      ? null
+      : meat.length > 0
+      ? "meat"
+      : dairy.length > 0
+      ? "dairy"
+      : "pareve";
+
+  return { category, meat, dairy, non_kosher };
+}
+
+// Rules that apply within a single meal
+export function checkKosherMeal(food: FoodDescription): RestrictionWarning[] {
+  const { category, meat, dairy, non_kosher } = classifyKosherFood(food);
+  const warnings: RestrictionWarning[] = [];
+
+  if (non_kosher.length > 0) {
+    warnings.push({
+      type: "kosher",
+      code: "non_kosher_ingredient",
+      severity: "high",
+      message: "מכיל רכיבים שאינם כשרים",
+      message_en: "Contains non-kosher ingredients",
+      matched: non_kosher,
+    });
+  }
+
+  if (category === null) {
+    warnings.push({
+      type: "kosher",
+      code: "meat_and_dairy",
+      severity: "high",
+      message: "משלב בשר וחלב",
+      message_en: "Mixes meat and dairy",
+      matched: [...meat, ...dairy],
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Waiting times across each day's meals. Every later meal is checked against
+ * every earlier one that day, so a pareve snack in between doesn't reset the
+ * wait. Meals that mix meat and dairy are left to checkKosherMeal.
+ */
+export function checkKosherSchedule(
+  meals: KosherScheduledMeal[],
+  settings: KosherSettings
+): KosherScheduleIssue[] {
+  const timed = meals
+    .map((meal) => ({
+      meal,
+      minutes: toMinutes(
+        meal.time || MEAL_TIMING_DEFAULT_TIMES[meal.meal_timing] || "12:00"
+      ),
+      category: classifyKosherFood(meal.food).category,
+    }))
+    .sort((a, b) => a.meal.day - b.meal.day || a.minutes - b.minutes);
+
+  const issues: KosherScheduleIssue[] = [];
+
+  timed.forEach((later, index) => {
+    if (later.category !== "meat" && later.category !== "dairy") return;
+
+    const conflicts = timed.slice(0, index).filter((earlier) => {
+      if (earlier.meal.day !== later.meal.day) return false;
+      const gap = later.minutes - earlier.minutes;
+      if (earlier.category === "meat" && later.category === "dairy") {
+        return gap < settings.meat_to_dairy_wait_minutes;
+      }
+      if (earlier.category === "dairy" && later.category === "meat") {
+        return gap < settings.dairy_to_meat_wait_minutes;
+      }
+      return false;
+    });
+
+    const waitMinutes =
+      later.category === "dairy"
+        ? settings.meat_to_dairy_wait_minutes
+        : settings.dairy_to_meat_wait_minutes;
+    const laterLabel = CATEGORY_LABELS[later.category];
+
+    for (const conflict of conflicts) {
+      const earlierLabel =
+        CATEGORY_LABELS[conflict.category as "meat" | "dairy"];
+      const earlierName = conflict.meal.food.name || conflict.meal.meal_timing;
+
+      issues.push({
+        key: later.meal.key,
+        conflicts_with: conflict.meal.key,
+        warning: {
+          type: "kosher",
+          code: "waiting_time",
+          severity: "high",
+          message: `ארוחה ${laterLabel.he} פחות מ-${formatWaitHe(
+            waitMinutes
+          )} אחרי ארוחה ${earlierLabel.he} (${earlierName})`,
+          message_en: `${laterLabel.title} meal less than ${formatWait(
+            waitMinutes
+          )} after a ${earlierLabel.en} meal (${earlierName})`,
+          matched: [],
+        },
+      });
+    }
+  });
+
+  return issues;
+}
+
+// Waiting-time rules for AI prompts that plan whole days
+export function describeKosherSchedule(settings: KosherSettings) {
+  return `- KOSHER WAITING TIMES: no dairy within ${formatWait(
+    settings.meat_to_dairy_wait_minutes
+  )} after a meat meal, no meat within ${formatWait(
+    settings.dairy_to_meat_wait_minutes
+  )} after a dairy meal (breakfast 08:00, lunch 13:00, snacks 10:30/16:30, dinner 19:30)`;
+}
@@ -0,0 +1,145 @@
+import { normalizeFoodText } from "./allergens";
+
+export interface MealTextPortion {
+  // The segment as written, e.g. "2 eggs"
+  text: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  // Known only when the text gives a weight or volume ("150g rice")
+  quantity_g: number | null;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  half: 0.5,
+  אחד: 1,
+  אחת: 1,
+  שני: 2,
+  שתי: 2,
+  שניים: 2,
+  שתיים: 2,
+  שלוש: 3,
+  שלושה: 3,
+  ארבע: 4,
+  ארבעה: 4,
+  חמש: 5,
+  חמישה: 5,
+  שש: 6,
+  שישה: 6,
+  חצי: 0.5,
+};
+
+// Grams per unit; a milliliter counts as a gram
+const WEIGHT_UNITS: Record<string, number> = {
+  g: 1,
+  gr: 1,
+  gram: 1,
+  grams: 1,
+  גרם: 1,
+  kg: 1000,
+  קילו: 1000,
+  ml: 1,
+  מל: 1,
+  'מ"ל': 1,
+  liter: 1000,
+  ליטר: 1000,
+};
+
+const ITEM_SEPARATOR = /[,;\n]|\s+(?:and|with|plus|עם)\s+/i;
+const LINKING_WORD = /^(?:of|של)$/i;
+
+function parsePortion(segment: string): MealTextPortion | null {
+  let words = segment.trim().split(/\s+/).filter(Boolean);
+  let quantity = 1;
+  let unit = "serving";
+  let quantity_g: number | null = null;
+
+  // "150g" and "2x" carry the number and the unit in one word
+  const leading = words[0]?.match(/^(\d+(?:[.,]\d+)?)(\S*)$/);
+  if (leading) {
+    quantity = Number(leading[1].replace(",", "."));
+    words =
+      leading[2] && leading[2] !== "x"
+        ? [leading[2], ...words.slice(1)]
+        : words.slice(1);
+  } else if (words[0] && NUMBER_WORDS[words[0].toLowerCase()] !== undefined) {
+    quantity = NUMBER_WORDS[words[0].toLowerCase()];
+    words = words.slice(1);
+  }
+
+  const unitFactor = words[0] && WEIGHT_UNITS[words[0].toLowerCase()];
+  if (unitFactor) {
+    unit = words[0].toLowerCase();
+    quantity_g = quantity * unitFactor;
+    words = words.slice(1);
+  }
+  if (words[0] && LINKING_WORD.test(words[0])) {
+    words = words.slice(1);
+  }
+
+  const name = words.join(" ").trim();
+  return name
+    ? { text: segment.trim(), name, quantity, unit, quantity_g }
+    : null;
+}
+
+/**
+ * Splits a meal description ("2 eggs, 30g cheese and a coffee") into
+ * portions. A deterministic stand-in for the AI parser, so it only reads
+ * leading amounts and weight units.
+ */
+export function splitMealText(text: string): MealTextPortion[] {
+  return text
+    .split(ITEM_SEPARATOR)
+    .map((segment) => parsePortion(segment || ""))
+    .filter((portion): portion is MealTextPortion => portion !== null);
+}
+
+// Grams in a label serving size such as "30 g" or "1 cup (240ml)"
+export function parseServingGrams(servingSize?: string | null) {
+  const match = servingSize?.match(
+    /(\d+(?:[.,]\d+)?)\s*(g|gr|grams?|ml|גרם|מ"ל)(?![a-z])/i
+  );
+  return match ? Number(match[1].replace(",", ".")) : null;
+}
+
+// Grams in an amount given by weight or volume ("150 g", "0.5 liter"); null
+// for household and counted units
+export function weightInGrams(quantity: number, unit: string) {
+  const factor = WEIGHT_UNITS[unit.trim().toLowerCase()];
+  return factor ? quantity * factor : null;
+}
+
+// English plural and silent-e forms share a stem: "apples" and "apple"
+function stemWord(word: string) {
+  return word.replace(/s$/, "").replace(/e$/, "");
+}
+
+export function foodNameWords(name: string) {
+  return normalizeFoodText(name)
+    .split(" ")
+    .filter((word) => word.length > 1 || /\d/.test(word))
+    .map(stemWord);
+}
+
+/**
+ * Whether a database food name fits a food named in free text. Every word of
+ * the database name must appear in the query, so "egg" never resolves to
+ * "egg noodles" while "tnuva cottage cheese" still finds "cottage cheese".
+ */
+export function foodNameMatches(query: string, candidate: string) {
+  const queryWords = new Set(foodNameWords(query));
+  const candidateWords = foodNameWords(candidate);
+  return (
+    candidateWords.length > 0 &&
+    candidateWords.every((word) => queryWords.has(word))
+  );
+}
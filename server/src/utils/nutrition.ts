@@ -1,9 +1,10 @@
 import { AnalysisStatus } from "@prisma/client";
+import { NutrientKey, NutrientProfile } from "../types/foodComposition";
 
 export function mapMealDataToPrismaFields(
   mealData: any,
   user_id: string,
-  imageBase64?: string
+  imageUrl?: string
 ) {
   // Defensive parsing helpers
   const parseNumber = (value: any) =>
@@ -96,7 +97,7 @@ export function mapMealDataToPrismaFields(
 
   return {
     user_id,
-    image_url: imageBase64 ? `data:image/jpeg;base64,${imageBase64}` : "",
+    image_url: imageUrl ?? "",
     upload_time: new Date(),
     analysis_status: AnalysisStatus.COMPLETED,
     meal_name: mealData.meal_name ?? mealData.name ?? "Unknown meal",
@@ -156,7 +157,11 @@ export function mapExistingMealToPrismaInput(
   date: Date
 ) {
   return {
-    ...mapMealDataToPrismaFields(originalMeal, user_id, undefined),
+    ...mapMealDataToPrismaFields(
+      originalMeal,
+      user_id,
+      originalMeal.image_url
+    ),
     meal_name: `${originalMeal.meal_name} (Copy)`,
     upload_time: date,
     created_at: date,
@@ -173,3 +178,89 @@ export function asJsonObject(value: unknown): Record<string, any> {
   }
   return {};
 }
+
+export interface MacroTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+// Ingredient sums may drift from the stated totals by rounding; beyond the
+// larger of 15% or the absolute margin the numbers don't describe one meal
+const MACRO_SUM_TOLERANCE = 0.15;
+const MACRO_SUM_MARGIN: MacroTotals = {
+  calories: 40,
+  protein: 5,
+  carbs: 5,
+  fat: 5,
+};
+
+/**
+ * Compares the sum of each macro over `parts` with the stated `totals`.
+ * A macro is only checked when every part reports it. Returns one issue per
+ * macro out of tolerance, prefixed with `path`.
+ */
+export function checkMacroSums(
+  path: string,
+  totals: MacroTotals,
+  parts: Partial<Record<keyof MacroTotals, number | null>>[]
+): string[] {
+  if (parts.length === 0) return [];
+
+  return (Object.keys(MACRO_SUM_MARGIN) as (keyof MacroTotals)[]).flatMap(
+    (macro) => {
+      const values = parts.map((part) => part[macro]);
+      if (values.some((value) => typeof value !== "number")) return [];
+
+      const sum = (values as number[]).reduce((total, v) => total + v, 0);
+      const allowed = Math.max(
+        totals[macro] * MACRO_SUM_TOLERANCE,
+        MACRO_SUM_MARGIN[macro]
+      );
+      return Math.abs(sum - totals[macro]) > allowed
+        ? [
+            `${path}: ingredient ${macro} add up to ${Math.round(
+              sum
+            )} but the total is ${totals[macro]}`,
+          ]
+        : [];
+    }
+  );
+}
+
+// Adds up nutrient profiles key by key; keys no profile has stay absent
+export function sumNutrients(profiles: NutrientProfile[]) {
+  const total: NutrientProfile = {};
+  for (const profile of profiles) {
+    for (const [key, amount] of Object.entries(profile)) {
+      if (typeof amount !== "number") continue;
+      const nutrient = key as NutrientKey;
+      total[nutrient] = (total[nutrient] ?? 0) + amount;
+    }
+  }
+  return total;
+}
+
+export function pickNutrients<K extends NutrientKey>(
+  profile: NutrientProfile,
+  keys: readonly K[]
+) {
+  const picked: Partial<Record<K, number>> = {};
+  for (const key of keys) {
+    const amount = profile[key];
+    if (amount !== undefined) picked[key] = amount;
+  }
+  return picked;
+}
+
+// Whole calories; two decimals elsewhere so small vitamin amounts survive
+export function roundNutrients(profile: NutrientProfile) {
+  const rounded: NutrientProfile = {};
+  for (const [key, amount] of Object.entries(profile)) {
+    if (typeof amount !== "number") continue;
+    rounded[key as NutrientKey] =
+      key === "calories" ? Math.round(amount) : Math.round(amount * 100) / 100;
+  }
+  return rounded;
+}
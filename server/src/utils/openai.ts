@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 export function extractCleanJSON(content: string): string {
   // Remove leading/trailing code fences if present
   const withoutCodeFences = content
@@ -9,3 +11,38 @@ export function extractCleanJSON(content: string): string {
   const jsonMatch = withoutCodeFences.match(/({[\s\S]*}|\[[\s\S]*])/);
   return jsonMatch ? jsonMatch[0] : withoutCodeFences;
 }
+
+export type AIOutputParseResult<T> =
+  { success: true; data: T } | { success: false; issues: string[] };
+
+// Issues are phrased as "path: message" so they can be fed back to the model
+export function parseAIOutput<T>(
+  content: string,
+  schema: z.ZodType<T>,
+  check?: (data: T) => string[]
+): AIOutputParseResult<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractCleanJSON(content));
+  } catch (error: any) {
+    return {
+      success: false,
+      issues: [`(root): response is not valid JSON (${error.message})`],
+    };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+      ),
+    };
+  }
+
+  const issues = check ? check(result.data) : [];
+  return issues.length > 0
+    ? { success: false, issues }
+    : { success: true, data: result.data };
+}